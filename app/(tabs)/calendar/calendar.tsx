@@ -1,7 +1,16 @@
-import { getTasks } from "@/lib/database";
+import { DayTimeline } from "@/components/day-timeline";
+import { getCourses, getEffortSamples, getTags, getTasks } from "@/lib/database";
+import { loadScheduleSettings } from "@/lib/schedule-storage";
 import { useColorScheme } from "@/hooks/use-color-scheme";
 import { useThemeColors } from "@/hooks/use-theme-colors";
 import { updateAvailabilityWithFeedback } from "@/utils/availabilityFeedback";
+import { courseLabel, type Course } from "@/utils/courses";
+import { calibrateEstimates, estimateTaskMinutes, type EffortSample } from "@/utils/effortEstimate";
+import { projectRecurringTasks, type ProjectedTask } from "@/utils/recurrence";
+import { buildSchedule, DEFAULT_SCHEDULE_SETTINGS, scheduledMinutes, type ScheduleSettings } from "@/utils/scheduler";
+import { scaleBySubtasksLeft } from "@/utils/subtaskProgress";
+import { taskHasTag, type TaskTag } from "@/utils/taskTags";
+import { formatDuration } from "@/utils/workSessions";
 import { Ionicons } from "@expo/vector-icons";
 import { BlurView } from "expo-blur";
 import { router, useFocusEffect } from "expo-router";
@@ -17,10 +26,26 @@ type Task = {
   subject: string | null;
   notes: string | null;
   difficulty: "easy" | "medium" | "hard";
+  priority?: "normal" | "high" | null;
+  category?: "coursework" | "revision" | "project" | "personal" | null;
   due_date: string;
   completed?: number;
+  recurrence_id?: number | null;
+  recurrence_rule?: string | null;
+  occurrence?: number | null;
+  subtask_total?: number;
+  subtask_done?: number;
+  estimated_minutes?: number | null;
+  tag_ids?: string | null;
+  course_id?: number | null;
 };
 
+type AgendaItem = Task | ProjectedTask<Task>;
+
+function isProjected(item: AgendaItem): item is ProjectedTask<Task> {
+  return "projected" in item && item.projected === true;
+}
+
 export default function CalendarScreen() {
   const colorScheme = useColorScheme();
   const isDark = colorScheme === "dark";
@@ -31,10 +56,15 @@ export default function CalendarScreen() {
   const [refreshing, setRefreshing] = useState(false);
 
   const [assignments, setAssignments] = useState<Task[]>([]);
-  const [course, setCourse] = useState<string>("all");
+  const [courses, setCourses] = useState<Course[]>([]);
+  const [course, setCourse] = useState<number | "all">("all");
   const [difficulty, setDifficulty] = useState<"all" | "easy" | "medium" | "hard">("all");
+  const [tags, setTags] = useState<TaskTag[]>([]);
+  const [tagFilter, setTagFilter] = useState<number | null>(null);
   const [showCompleted, setShowCompleted] = useState(false);
   const [selectedDate, setSelectedDate] = useState<string | null>(null);
+  const [effortSamples, setEffortSamples] = useState<EffortSample[]>([]);
+  const [scheduleSettings, setScheduleSettings] = useState<ScheduleSettings>(DEFAULT_SCHEDULE_SETTINGS);
 
   const today = useMemo(() => {
     const d = new Date();
@@ -71,6 +101,10 @@ export default function CalendarScreen() {
       if (showSpinner) setRefreshing(true);
       const data = (await getTasks()) as Task[];
       setAssignments(data);
+      setTags(await getTags());
+      setCourses(await getCourses());
+      setEffortSamples(await getEffortSamples());
+      setScheduleSettings(await loadScheduleSettings());
     } finally {
       if (showSpinner) setRefreshing(false);
     }
@@ -96,26 +130,62 @@ export default function CalendarScreen() {
     []
   );
 
-  const courses = useMemo(() => {
-    const unique = new Set<string>();
-    assignments.forEach((t) => {
-      const subject = (t.subject || "").trim();
-      if (subject) unique.add(subject);
-    });
-    return ["all", ...Array.from(unique).sort()];
-  }, [assignments]);
+  // Courses with at least one task; a deleted course drops out and the filter resets with it
+  const usedCourses = useMemo(
+    () => courses.filter((c) => assignments.some((t) => t.course_id === c.id)),
+    [assignments, courses]
+  );
+  const activeCourse = course === "all" ? "all" : usedCourses.some((c) => c.id === course) ? course : "all";
 
   const filteredAssignments = useMemo(() => {
     return assignments.filter((t) => {
       if (!showCompleted && t.completed) return false;
       if (difficulty !== "all" && t.difficulty !== difficulty) return false;
-      if (course !== "all") {
-        const subject = (t.subject || "").trim() || "Unassigned";
-        if (subject !== course) return false;
-      }
+      if (activeCourse !== "all" && t.course_id !== activeCourse) return false;
+      if (tagFilter !== null && !taskHasTag(t, tagFilter)) return false;
       return true;
     });
-  }, [assignments, course, difficulty, showCompleted]);
+  }, [activeCourse, assignments, difficulty, showCompleted, tagFilter]);
+
+  // Tags that are on at least one task, so the filter never offers an empty result
+  const usedTags = useMemo(
+    () => tags.filter((tag) => tag.id === tagFilter || assignments.some((t) => taskHasTag(t, tag.id))),
+    [assignments, tagFilter, tags]
+  );
+
+  // Same time blocks as the Planner, so a selected day shows when its work is booked
+  const schedulePlan = useMemo(() => {
+    const calibration = calibrateEstimates(effortSamples);
+    const difficultyRank = { hard: 0, medium: 1, easy: 2 };
+    const open = assignments
+      .filter((t) => !t.completed)
+      .sort((a, b) => difficultyRank[a.difficulty] - difficultyRank[b.difficulty]);
+    return buildSchedule(
+      open.map((t) => ({
+        id: t.id,
+        title: t.title,
+        minutes: scaleBySubtasksLeft(estimateTaskMinutes(t, calibration).minutes, t),
+        due_date: t.due_date,
+        priority: t.priority,
+      })),
+      scheduleSettings
+    );
+  }, [assignments, effortSamples, scheduleSettings]);
+
+  const timelineDay = useMemo(() => {
+    const date = selectedDate ?? schedulePlan.days[0]?.date;
+    return schedulePlan.days.find((day) => day.date === date) ?? null;
+  }, [schedulePlan, selectedDate]);
+
+  // Future instances of repeating tasks, far enough ahead to cover the visible month and agenda
+  const projectedAssignments = useMemo(() => {
+    const monthEnd = `${year}-${String(month).padStart(2, "0")}-31`;
+    const weekEnd = new Date(today);
+    weekEnd.setDate(weekEnd.getDate() + 6);
+    const weekEndStr = weekEnd.toISOString().split("T")[0];
+    const through = [monthEnd, weekEndStr, selectedDate ?? ""].sort().pop() as string;
+    return projectRecurringTasks(filteredAssignments, through);
+  }, [filteredAssignments, month, selectedDate, today, year]);
 
   const markedDates = useMemo(() => {
     const marks: Record<string, any> = {};
@@ -138,6 +208,21 @@ export default function CalendarScreen() {
       };
     });
 
+    projectedAssignments.forEach((task) => {
+      const d = task.due_date;
+      const dots = marks[d]?.dots ? [...marks[d].dots] : [];
+      const diffKey = task.difficulty || "medium";
+      const repeatKey = `${diffKey}-repeat`;
+      if (!dots.find((dot: any) => dot.key === diffKey || dot.key === repeatKey)) {
+        dots.push({ key: repeatKey, color: `${difficultyDot[diffKey]}66` });
+      }
+      marks[d] = {
+        ...marks[d],
+        dots,
+        marked: true,
+      };
+    });
+
     if (selectedDate) {
       marks[selectedDate] = {
         ...(marks[selectedDate] || {}),
@@ -154,7 +239,7 @@ export default function CalendarScreen() {
     };
 
     return marks;
-  }, [filteredAssignments, difficultyDot, selectedDate, todayStr]);
+  }, [filteredAssignments, projectedAssignments, difficultyDot, selectedDate, todayStr]);
 
   const agendaDays = useMemo(() => {
     const dates: string[] = [];
@@ -169,12 +254,13 @@ export default function CalendarScreen() {
     }
 
     return dates.map((dateStr) => {
-      const items = filteredAssignments
-        .filter((a) => a.due_date === dateStr)
-        .sort((a, b) => a.due_date.localeCompare(b.due_date));
+      const items: AgendaItem[] = [
+        ...filteredAssignments.filter((a) => a.due_date === dateStr),
+        ...projectedAssignments.filter((a) => a.due_date === dateStr),
+      ];
       return { date: dateStr, label: formatDateLabel(dateStr), items };
     });
-  }, [filteredAssignments, formatDateLabel, selectedDate, today]);
+  }, [filteredAssignments, formatDateLabel, projectedAssignments, selectedDate, today]);
 
   const hasAgendaItems = useMemo(
     () => agendaDays.some((d) => d.items.length > 0),
@@ -307,6 +393,14 @@ export default function CalendarScreen() {
           >
             <Text style={[styles.quickText, { color: colors.textPrimary }]}>This week</Text>
           </TouchableOpacity>
+          <TouchableOpacity
+            onPress={() => router.push("/calendar-sync")}
+            style={[styles.quickChip, styles.syncChip, { backgroundColor: colors.surface }]}
+            accessibilityLabel="Import or export .ics"
+          >
+            <Ionicons name="swap-vertical" size={16} color={colors.accentBlue} />
+            <Text style={[styles.quickText, { color: colors.textPrimary }]}>.ics</Text>
+          </TouchableOpacity>
         </View>
 
         <View style={styles.filterSection}>
@@ -351,27 +445,72 @@ export default function CalendarScreen() {
             </TouchableOpacity>
           </View>
 
-          {courses.length > 1 && (
+          {usedCourses.length > 0 && (
             <>
               <Text style={[styles.filterLabel, { color: colors.textSecondary }]}>
                 Course
               </Text>
               <View style={styles.filterRow}>
-                {courses.map((c) => (
+                <TouchableOpacity
+                  onPress={() => setCourse("all")}
+                  style={[
+                    styles.filterChip,
+                    {
+                      borderColor: activeCourse === "all" ? colors.accentBlue : colors.borderSubtle,
+                      backgroundColor: activeCourse === "all" ? `${colors.accentBlue}22` : "transparent",
+                    },
+                  ]}
+                >
+                  <Text style={{ color: colors.textPrimary, fontWeight: "700" }}>All courses</Text>
+                </TouchableOpacity>
+                {usedCourses.map((c) => (
+                  <TouchableOpacity
+                    key={c.id}
+                    onPress={() => setCourse(activeCourse === c.id ? "all" : c.id)}
+                    style={[
+                      styles.filterChip,
+                      {
+                        borderColor: activeCourse === c.id ? c.color : colors.borderSubtle,
+                        backgroundColor: activeCourse === c.id ? `${c.color}22` : "transparent",
+                      },
+                    ]}
+                  >
+                    <Text style={{ color: colors.textPrimary, fontWeight: "700" }}>{courseLabel(c)}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </>
+          )}
+
+          {usedTags.length > 0 && (
+            <>
+              <Text style={[styles.filterLabel, { color: colors.textSecondary }]}>Tags</Text>
+              <View style={styles.filterRow}>
+                <TouchableOpacity
+                  onPress={() => setTagFilter(null)}
+                  style={[
+                    styles.filterChip,
+                    {
+                      borderColor: tagFilter === null ? colors.accentBlue : colors.borderSubtle,
+                      backgroundColor: tagFilter === null ? `${colors.accentBlue}22` : "transparent",
+                    },
+                  ]}
+                >
+                  <Text style={{ color: colors.textPrimary, fontWeight: "700" }}>All tags</Text>
+                </TouchableOpacity>
+                {usedTags.map((tag) => (
                   <TouchableOpacity
-                    key={c}
-                    onPress={() => setCourse(c)}
+                    key={tag.id}
+                    onPress={() => setTagFilter(tagFilter === tag.id ? null : tag.id)}
                     style={[
                       styles.filterChip,
                       {
-                        borderColor: course === c ? colors.accentBlue : colors.borderSubtle,
-                        backgroundColor: course === c ? `${colors.accentBlue}22` : "transparent",
+                        borderColor: tagFilter === tag.id ? tag.color : colors.borderSubtle,
+                        backgroundColor: tagFilter === tag.id ? `${tag.color}22` : "transparent",
                       },
                     ]}
                   >
-                    <Text style={{ color: colors.textPrimary, fontWeight: "700" }}>
-                      {c === "all" ? "All courses" : c}
-                    </Text>
+                    <Text style={{ color: colors.textPrimary, fontWeight: "700" }}>#{tag.name}</Text>
                   </TouchableOpacity>
                 ))}
               </View>
@@ -406,6 +545,31 @@ export default function CalendarScreen() {
         />
 
         <View style={styles.taskListContainer}>
+          {timelineDay && timelineDay.blocks.length > 0 ? (
+            <View style={[styles.timelineBlock, { borderColor: colors.borderSubtle }]}>
+              <View style={styles.agendaHeaderRow}>
+                <Text style={[styles.agendaTitle, { color: colors.textPrimary }]}>
+                  Study plan · {formatDateLabel(timelineDay.date)}
+                </Text>
+                <TouchableOpacity onPress={() => router.push("/study-hours")}>
+                  <Text style={[styles.agendaMeta, { color: colors.textSecondary }]}>
+                    {formatDuration(scheduledMinutes(timelineDay) * 60)} planned
+                  </Text>
+                </TouchableOpacity>
+              </View>
+              <DayTimeline
+                blocks={timelineDay.blocks}
+                onPressTask={(id) => router.push({ pathname: "/edit-task", params: { id: String(id) } })}
+                colors={{
+                  text: colors.textPrimary,
+                  muted: colors.textMuted,
+                  border: colors.borderSubtle,
+                  blue: colors.accentBlue,
+                }}
+              />
+            </View>
+          ) : null}
+
           <View style={styles.agendaHeaderRow}>
             <Text style={[styles.agendaTitle, { color: colors.textPrimary }]}>
               {selectedDate ? `Tasks for ${formatDateLabel(selectedDate)}` : "This week"}
@@ -488,74 +652,98 @@ export default function CalendarScreen() {
 
                   {isExpanded && (
                     <View style={{ marginTop: 6 }}>
-                      {day.items.map((item) => (
-                        <TouchableOpacity
-                          key={item.id}
-                          style={[
-                            styles.taskCard,
-                            {
-                              backgroundColor: item.completed
-                                ? isDark ? "rgba(255,255,255,0.04)" : "rgba(0,0,0,0.03)"
-                                : colors.surface,
-                            },
-                          ]}
-                          onPress={() => router.push({ pathname: "/edit-task", params: { id: String(item.id) } })}
-                          activeOpacity={0.85}
-                        >
-                          <View style={styles.taskHeaderRow}>
-                            <View
-                              style={[
-                                styles.dot,
-                                {
-                                  backgroundColor: item.completed
-                                    ? colors.textMuted
-                                    : difficultyDot[item.difficulty || "medium"],
-                                },
-                              ]}
-                            />
-                            <View style={{ flex: 1 }}>
-                              <Text
+                      {day.items.map((item) =>
+                        isProjected(item) ? (
+                          <TouchableOpacity
+                            key={`${item.id}-${item.due_date}`}
+                            style={[styles.taskCard, styles.projectedCard, { borderColor: colors.borderSubtle }]}
+                            onPress={() => router.push({ pathname: "/edit-task", params: { id: String(item.id) } })}
+                            activeOpacity={0.85}
+                            accessibilityLabel={`Upcoming repeat of ${item.title}`}
+                          >
+                            <View style={styles.taskHeaderRow}>
+                              <View style={[styles.dot, { backgroundColor: `${difficultyDot[item.difficulty || "medium"]}66` }]} />
+                              <View style={{ flex: 1 }}>
+                                <Text style={[styles.taskTitle, { color: colors.textPrimary, opacity: 0.7 }]}>{item.title}</Text>
+                                {!!item.subject && (
+                                  <Text style={[styles.taskMeta, { color: colors.textSecondary }]}>{item.subject}</Text>
+                                )}
+                              </View>
+                              <Ionicons name="repeat" size={16} color={colors.textMuted} />
+                            </View>
+                            <View style={styles.taskFooterRow}>
+                              <Text style={[styles.taskDue, { color: colors.textMuted }]}>Repeats · Due {item.due_date}</Text>
+                            </View>
+                          </TouchableOpacity>
+                        ) : (
+                          <TouchableOpacity
+                            key={item.id}
+                            style={[
+                              styles.taskCard,
+                              {
+                                backgroundColor: item.completed
+                                  ? isDark ? "rgba(255,255,255,0.04)" : "rgba(0,0,0,0.03)"
+                                  : colors.surface,
+                              },
+                            ]}
+                            onPress={() => router.push({ pathname: "/edit-task", params: { id: String(item.id) } })}
+                            activeOpacity={0.85}
+                          >
+                            <View style={styles.taskHeaderRow}>
+                              <View
                                 style={[
-                                  styles.taskTitle,
+                                  styles.dot,
                                   {
-                                    color: colors.textPrimary,
-                                    textDecorationLine: item.completed ? "line-through" : "none",
-                                    opacity: item.completed ? 0.5 : 1,
+                                    backgroundColor: item.completed
+                                      ? colors.textMuted
+                                      : difficultyDot[item.difficulty || "medium"],
                                   },
                                 ]}
-                              >
-                                {item.title}
-                              </Text>
-                              {!!item.subject && (
-                                <Text style={[styles.taskMeta, { color: colors.textSecondary }]}>
-                                  {item.subject}
+                              />
+                              <View style={{ flex: 1 }}>
+                                <Text
+                                  style={[
+                                    styles.taskTitle,
+                                    {
+                                      color: colors.textPrimary,
+                                      textDecorationLine: item.completed ? "line-through" : "none",
+                                      opacity: item.completed ? 0.5 : 1,
+                                    },
+                                  ]}
+                                >
+                                  {item.title}
                                 </Text>
-                              )}
+                                {!!item.subject && (
+                                  <Text style={[styles.taskMeta, { color: colors.textSecondary }]}>
+                                    {item.subject}
+                                  </Text>
+                                )}
+                              </View>
                             </View>
-                          </View>
-                          <View style={styles.taskFooterRow}>
-                            <Text style={[styles.taskDue, { color: isOverdue && !item.completed ? "#FF453A" : colors.textMuted }]}>
-                              {isOverdue && !item.completed ? "Overdue · " : "Due "}{item.due_date}
-                            </Text>
-                            <View style={styles.taskActions}>
-                              <TouchableOpacity
-                                style={[styles.taskActionBtn, { borderColor: colors.borderSubtle, backgroundColor: isDark ? "#17304C" : "#EAF2FF" }]}
-                                onPress={(e) => { e.stopPropagation(); handleToggleComplete(item); }}
-                                accessibilityLabel={`Mark ${item.title} complete`}
-                              >
-                                <Ionicons name="checkmark" size={14} color={isDark ? "#8FC0FF" : "#0A84FF"} />
-                              </TouchableOpacity>
-                              <TouchableOpacity
-                                style={[styles.taskActionBtn, { borderColor: colors.borderSubtle, backgroundColor: isDark ? "#282D37" : "#F2F4F8" }]}
-                                onPress={(e) => { e.stopPropagation(); handleQuickActions(item); }}
-                                accessibilityLabel={`More actions for ${item.title}`}
-                              >
-                                <Ionicons name="ellipsis-horizontal" size={14} color={colors.textMuted} />
-                              </TouchableOpacity>
+                            <View style={styles.taskFooterRow}>
+                              <Text style={[styles.taskDue, { color: isOverdue && !item.completed ? "#FF453A" : colors.textMuted }]}>
+                                {isOverdue && !item.completed ? "Overdue · " : "Due "}{item.due_date}
+                              </Text>
+                              <View style={styles.taskActions}>
+                                <TouchableOpacity
+                                  style={[styles.taskActionBtn, { borderColor: colors.borderSubtle, backgroundColor: isDark ? "#17304C" : "#EAF2FF" }]}
+                                  onPress={(e) => { e.stopPropagation(); handleToggleComplete(item); }}
+                                  accessibilityLabel={`Mark ${item.title} complete`}
+                                >
+                                  <Ionicons name="checkmark" size={14} color={isDark ? "#8FC0FF" : "#0A84FF"} />
+                                </TouchableOpacity>
+                                <TouchableOpacity
+                                  style={[styles.taskActionBtn, { borderColor: colors.borderSubtle, backgroundColor: isDark ? "#282D37" : "#F2F4F8" }]}
+                                  onPress={(e) => { e.stopPropagation(); handleQuickActions(item); }}
+                                  accessibilityLabel={`More actions for ${item.title}`}
+                                >
+                                  <Ionicons name="ellipsis-horizontal" size={14} color={colors.textMuted} />
+                                </TouchableOpacity>
+                              </View>
                             </View>
-                          </View>
-                        </TouchableOpacity>
-                      ))}
+                          </TouchableOpacity>
+                        )
+                      )}
                     </View>
                   )}
                 </View>
@@ -654,6 +842,11 @@ const styles = StyleSheet.create({
     paddingVertical: 10,
     borderRadius: 12,
   },
+  syncChip: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+  },
   quickText: {
     fontWeight: "700",
     fontSize: 15,
@@ -718,6 +911,13 @@ const styles = StyleSheet.create({
     fontWeight: "700",
   },
 
+  timelineBlock: {
+    borderWidth: 1,
+    borderRadius: 14,
+    padding: 12,
+    marginBottom: 16,
+  },
+
   agendaDayBlock: {
     borderWidth: 1,
     borderRadius: 14,
@@ -744,6 +944,11 @@ const styles = StyleSheet.create({
     marginBottom: 12,
   },
 
+  projectedCard: {
+    backgroundColor: "transparent",
+    borderWidth: 1,
+    borderStyle: "dashed",
+  },
   taskHeaderRow: {
     flexDirection: "row",
     alignItems: "center",
@@ -1,11 +1,13 @@
+import { SubtaskProgressBar } from "@/components/subtask-progress-bar";
 import { ThemedText } from "@/components/themed-text";
 import { ThemedView } from "@/components/themed-view";
 import { useColorScheme } from "@/hooks/use-color-scheme";
 import { useThemeColors } from "@/hooks/use-theme-colors";
-import { getTasks } from "@/lib/database";
+import { getTasks, getTimeSpentSince } from "@/lib/database";
 import { FocusSessionSnapshot, loadFocusSessionSnapshot } from "@/lib/focus-session-storage";
 import { emitTabBarScroll } from "@/lib/tab-bar-scroll";
 import { updateAvailabilityWithFeedback } from "@/utils/availabilityFeedback";
+import { formatDuration, startOfWeek } from "@/utils/workSessions";
 import { Ionicons } from "@expo/vector-icons";
 import { useScrollToTop } from "@react-navigation/native";
 import { BlurView } from "expo-blur";
@@ -36,6 +38,8 @@ type Task = {
   due_date?: string | null;
   completed?: number;
   created_at?: string | null;
+  subtask_total?: number;
+  subtask_done?: number;
 };
 
 const DIFFICULTY_RANK: Record<Task["difficulty"], number> = {
@@ -65,6 +69,7 @@ export default function HomeScreen() {
   const insets = useSafeAreaInsets();
 
   const [tasks, setTasks] = useState<Task[]>([]);
+  const [weekSeconds, setWeekSeconds] = useState(0);
   const [error, setError] = useState<string | null>(null);
   const [refreshing, setRefreshing] = useState(false);
   const [showHeaderBlur, setShowHeaderBlur] = useState(false);
@@ -93,6 +98,7 @@ export default function HomeScreen() {
       if (showSpinner) setRefreshing(true);
       const dbTasks = await getTasks();
       setTasks(Array.isArray(dbTasks) ? (dbTasks as Task[]) : []);
+      setWeekSeconds(await getTimeSpentSince(startOfWeek()));
       setError(null);
     } catch (err: any) {
       if (__DEV__) console.error("Failed to load tasks", err);
@@ -588,6 +594,10 @@ export default function HomeScreen() {
                   <Text style={[styles.progressLabel, { color: subtle }]}>Added last 48h</Text>
                   <Text style={[styles.progressValue, { color: text }]}>{recency.recent}</Text>
                 </View>
+                <View style={styles.progressRow}>
+                  <Text style={[styles.progressLabel, { color: subtle }]}>Focused this week</Text>
+                  <Text style={[styles.progressValue, { color: text }]}>{formatDuration(weekSeconds)}</Text>
+                </View>
               </View>
             </View>
 
@@ -687,6 +697,7 @@ export default function HomeScreen() {
                       </TouchableOpacity>
                     </View>
                   </View>
+                  <SubtaskProgressBar task={task} color={colors.accentBlue} trackColor={border} textColor={subtle} />
                 </Pressable>
               ))
             )}
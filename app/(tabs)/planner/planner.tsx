@@ -1,8 +1,29 @@
+import { DayTimeline } from "@/components/day-timeline";
+import { SubtaskProgressBar } from "@/components/subtask-progress-bar";
+import { UndoSnackbar } from "@/components/undo-snackbar";
 import { useColorScheme } from "@/hooks/use-color-scheme";
 import { useThemeColors } from "../../../hooks/use-theme-colors";
-import { addTask, getTasks, updateManyTaskDueDates } from "@/lib/database";
+import { recordBatch, startBatch, undoLastBatch } from "@/lib/action-journal";
+import { getCourses, getEffortSamples, getTags, getTasks, getTimeSpentSince } from "@/lib/database";
+import { loadScheduleSettings } from "@/lib/schedule-storage";
 import { emitTabBarScroll } from "@/lib/tab-bar-scroll";
+import { describeChange } from "@/utils/actionJournal";
 import { updateAvailabilityWithFeedback } from "@/utils/availabilityFeedback";
+import { courseLabel, describeExam, summarizeCourses, type Course } from "@/utils/courses";
+import {
+  calibrateEstimates,
+  estimateAccuracy,
+  estimateTaskMinutes,
+  type EffortCalibration,
+  type EffortSample,
+} from "@/utils/effortEstimate";
+import { assessmentWeightBoost, formatPercent } from "@/utils/grades";
+import { projectRecurringTasks } from "@/utils/recurrence";
+import { buildSchedule, DEFAULT_SCHEDULE_SETTINGS, scheduledMinutes, type ScheduleSettings } from "@/utils/scheduler";
+import { scaleBySubtasksLeft } from "@/utils/subtaskProgress";
+import { openPrerequisites, orderByPrerequisites } from "@/utils/taskDependencies";
+import { extractTagMentions, taskHasTag, type TaskTag } from "@/utils/taskTags";
+import { formatDuration, startOfWeek } from "@/utils/workSessions";
 import { Ionicons } from "@expo/vector-icons";
 import { useNavigation, useScrollToTop } from "@react-navigation/native";
 import { BlurView } from "expo-blur";
@@ -41,7 +62,7 @@ import {
 import { AssistantAction } from "@/assistant_actions/types";
 import { runAssistantActions } from "@/assistant_actions/registry";
 import { parseDateQuery, toISODateLocal, formatISODate } from "@/plannerAssistant/dateUtils";
-import { detectPlannerIntent, isCancellation, isConfirmation } from "@/plannerAssistant/intents";
+import { detectPlannerIntent, isCancellation, isConfirmation, isUndoRequest } from "@/plannerAssistant/intents";
 import {
   ConversationContext,
   ConversationTaskRef,
@@ -65,6 +86,16 @@ type Task = {
   category?: "coursework" | "revision" | "project" | "personal" | null;
   due_date?: string | null;
   completed?: number;
+  recurrence_id?: number | null;
+  recurrence_rule?: string | null;
+  occurrence?: number | null;
+  subtask_total?: number;
+  subtask_done?: number;
+  estimated_minutes?: number | null;
+  prerequisite_ids?: string | null;
+  tag_ids?: string | null;
+  course_id?: number | null;
+  assessment_weight?: number | null;
 };
 
 type PlannedTask = Task & {
@@ -74,8 +105,17 @@ type PlannedTask = Task & {
   reason: string;
   estMinutes: number;
   energy: "deep" | "shallow";
+  // Upcoming instance of a repeating task that doesn't exist as a row yet
+  projected?: boolean;
 };
 
+// Projected instances share their source task's id, so lists key them by date as well
+function planKey(task: PlannedTask) {
+  return task.projected ? `${task.id}@${task.due_date}` : String(task.id);
+}
+
+const PROJECTION_DAYS = 7;
+
 type ChatMessage = {
   id: string;
   from: "user" | "bot";
@@ -90,7 +130,7 @@ type AssistantReplyPayload = {
   actions?: AssistantAction[];
 };
 
-type PlannerSectionKey = "hero" | "overdue" | "gameplan" | "suggested" | "how";
+type PlannerSectionKey = "hero" | "overdue" | "gameplan" | "courses" | "suggested" | "how";
 const CATEGORY_LABEL: Record<NonNullable<Task["category"]>, string> = {
   coursework: "Coursework",
   revision: "Revision",
@@ -133,23 +173,6 @@ function formatDueLabel(due: string | null | undefined) {
   return `Due in ${days}d`;
 }
 
-function toClockLabel(date: Date) {
-  return date.toLocaleTimeString([], { hour: "numeric", minute: "2-digit" });
-}
-
-function roundToNextQuarterHour(base: Date) {
-  const next = new Date(base);
-  next.setSeconds(0, 0);
-  const mins = next.getMinutes();
-  const rounded = Math.ceil(mins / 15) * 15;
-  if (rounded === 60) {
-    next.setHours(next.getHours() + 1, 0, 0, 0);
-  } else {
-    next.setMinutes(rounded, 0, 0);
-  }
-  return next;
-}
-
 const DIFFICULTY_RANK: Record<Task["difficulty"], number> = { hard: 0, medium: 1, easy: 2 };
 
 function normalizePriority(task: Pick<Task, "priority" | "notes">): "normal" | "high" {
@@ -266,24 +289,9 @@ function describePlan(plan: PendingReschedulePlan) {
   return { fromLabel, destLabel, detail };
 }
 
-function estimateMinutes(task: Task) {
-  const base = task.difficulty === "hard" ? 90 : task.difficulty === "medium" ? 45 : 20;
-  const title = task.title.toLowerCase();
-  const keywords: Record<string, number> = {
-    essay: 30,
-    project: 40,
-    research: 25,
-    study: 15,
-    quiz: 10,
-    exam: 40,
-    lab: 25,
-    report: 25,
-  };
-  let bonus = 0;
-  Object.keys(keywords).forEach((k) => {
-    if (title.includes(k)) bonus += keywords[k];
-  });
-  return base + bonus;
+function estimateMinutes(task: Task, calibration: EffortCalibration) {
+  // Partly ticked-off checklists shrink the estimate to the work that is actually left.
+  return scaleBySubtasksLeft(estimateTaskMinutes(task, calibration).minutes, task);
 }
 
 function computeEnergy(task: Task): "deep" | "shallow" {
@@ -578,6 +586,11 @@ export default function PlannerScreen() {
   const pendingPlanRef = useRef<PendingReschedulePlan | null>(null);
 
   const [tasks, setTasks] = useState<Task[]>([]);
+  const [tags, setTags] = useState<TaskTag[]>([]);
+  const [courses, setCourses] = useState<Course[]>([]);
+  const [weekSeconds, setWeekSeconds] = useState(0);
+  const [effortSamples, setEffortSamples] = useState<EffortSample[]>([]);
+  const [scheduleSettings, setScheduleSettings] = useState<ScheduleSettings>(DEFAULT_SCHEDULE_SETTINGS);
   const [error, setError] = useState<string | null>(null);
   const [lastRefresh, setLastRefresh] = useState<Date | null>(null);
   const [refreshing, setRefreshing] = useState(false);
@@ -612,6 +625,11 @@ export default function PlannerScreen() {
       if (showSpinner) setRefreshing(true);
       const data = await getTasks();
       setTasks(Array.isArray(data) ? (data as Task[]) : []);
+      setTags(await getTags());
+      setCourses(await getCourses());
+      setWeekSeconds(await getTimeSpentSince(startOfWeek()));
+      setEffortSamples(await getEffortSamples());
+      setScheduleSettings(await loadScheduleSettings());
       setError(null);
       setLastRefresh(new Date());
     } catch (err) {
@@ -682,14 +700,16 @@ export default function PlannerScreen() {
     return { open: openTasks.length, overdue, dueSoon, dueToday, deep, quick };
   }, [openTasks]);
 
+  const calibration = useMemo(() => calibrateEstimates(effortSamples), [effortSamples]);
+  const accuracy = useMemo(() => estimateAccuracy(effortSamples, calibration), [calibration, effortSamples]);
+
   const agentPlan = useMemo(() => {
     if (openTasks.length === 0) {
       return {
         summary: "Add a task to get a plan.",
         prioritized: [] as PlannedTask[],
         sections: [] as { title: string; hint: string; tasks: PlannedTask[] }[],
-        schedule: [] as { title: string; minutes: number; id: number; energy: "deep" | "shallow" }[],
-        totalMinutes: 0,
+        ranked: [] as PlannedTask[],
       };
     }
 
@@ -703,11 +723,18 @@ export default function PlannerScreen() {
         .forEach((w) => freq.set(w, (freq.get(w) ?? 0) + 1));
     });
 
-    const ranked: PlannedTask[] = openTasks
+    // Repeating tasks also compete with their next few instances inside the coming week
+    const horizon = new Date();
+    horizon.setDate(horizon.getDate() + PROJECTION_DAYS);
+    const projected = projectRecurringTasks(openTasks, toISODateLocal(horizon), 2);
+    const taskById = new Map(tasks.map((task) => [task.id, task]));
+
+    // Scores set the order, then a task never ranks above a prerequisite it is waiting on
+    const scored: PlannedTask[] = [...openTasks, ...projected]
       .map((task) => {
         const dueDate = parseDueDate(task.due_date ?? null);
         const daysUntil = diffInDays(dueDate);
-        const estMinutes = estimateMinutes(task);
+        const estMinutes = estimateMinutes(task, calibration);
         const energy = computeEnergy(task);
 
         const urgency = (() => {
@@ -736,7 +763,8 @@ export default function PlannerScreen() {
         })();
 
         const priorityBoost = normalizePriority(task) === "high" ? 2.5 : 0;
-        const score = urgency + effort + similarityBoost + priorityBoost;
+        const weightBoost = assessmentWeightBoost(task.assessment_weight);
+        const score = urgency + effort + similarityBoost + priorityBoost + weightBoost;
 
         const reasonParts: string[] = [];
 
@@ -750,7 +778,11 @@ export default function PlannerScreen() {
         else if (task.difficulty === "medium") reasonParts.push("Medium effort");
         else reasonParts.push("Quick win");
         if (normalizePriority(task) === "high") reasonParts.push("High priority");
+        if (weightBoost) reasonParts.push(`Worth ${formatPercent(task.assessment_weight!)}`);
         if (task.category) reasonParts.push(CATEGORY_LABEL[task.category]);
+        if ("projected" in task) reasonParts.unshift("Repeats");
+        const waitingOn = openPrerequisites(task, taskById);
+        if (waitingOn.length) reasonParts.unshift(`After ${taskById.get(waitingOn[0])?.title ?? "another task"}`);
 
         return {
           ...task,
@@ -763,15 +795,16 @@ export default function PlannerScreen() {
         } as PlannedTask;
       })
       .sort((a, b) => b.score - a.score);
+    const ranked = orderByPrerequisites(scored);
 
-    const used = new Set<number>();
+    const used = new Set<string>();
     const take = (limit: number, filter: (task: PlannedTask) => boolean) => {
       const picked: PlannedTask[] = [];
       for (const t of ranked) {
         if (picked.length >= limit) break;
-        if (used.has(t.id)) continue;
+        if (used.has(planKey(t))) continue;
         if (!filter(t)) continue;
-        used.add(t.id);
+        used.add(planKey(t));
         picked.push(t);
       }
       return picked;
@@ -790,19 +823,6 @@ export default function PlannerScreen() {
 
     const prioritized = ranked.slice(0, 5);
 
-    // Build simple time-box schedule for today (assumes ~3h block)
-    const schedule: { title: string; minutes: number; id: number; energy: "deep" | "shallow" }[] = [];
-    let budget = 180; // minutes
-    for (const t of ranked) {
-      if (schedule.length >= 6) break;
-      const slot = Math.min(t.estMinutes, 90);
-      if (slot > budget && schedule.length > 0) break;
-      schedule.push({ title: t.title, minutes: slot, id: t.id, energy: t.energy });
-      budget -= slot;
-      if (budget <= 0) break;
-    }
-    const totalMinutes = schedule.reduce((sum, s) => sum + s.minutes, 0);
-
     return {
       summary: summaryParts.join(" "),
       prioritized,
@@ -812,25 +832,38 @@ export default function PlannerScreen() {
         { title: "Quick wins", hint: "Momentum boosters", tasks: quickWins },
         { title: "Catch up", hint: "Overdue or near-miss", tasks: catchUp },
       ].filter((s) => s.tasks.length > 0),
-      schedule,
-      totalMinutes,
+      ranked,
     };
-  }, [openTasks]);
-
-  const scheduleTimeline = useMemo(() => {
-    const startAt = roundToNextQuarterHour(new Date());
-    let cursor = startAt;
-    return agentPlan.schedule.map((item) => {
-      const start = new Date(cursor);
-      const end = new Date(start.getTime() + item.minutes * 60 * 1000);
-      cursor = end;
-      return {
-        ...item,
-        startLabel: toClockLabel(start),
-        endLabel: toClockLabel(end),
-      };
-    });
-  }, [agentPlan.schedule]);
+  }, [calibration, openTasks, tasks]);
+
+  // Ranked order breaks ties between tasks due the same day; repeats are booked once they exist
+  const schedulePlan = useMemo(
+    () =>
+      buildSchedule(
+        agentPlan.ranked
+          .filter((task) => !task.projected)
+          .map((task) => ({
+            id: task.id,
+            title: task.title,
+            minutes: task.estMinutes,
+            due_date: task.due_date,
+            priority: normalizePriority(task),
+          })),
+        scheduleSettings
+      ),
+    [agentPlan.ranked, scheduleSettings]
+  );
+  const todaySchedule = schedulePlan.days[0];
+  const todayMinutes = todaySchedule ? scheduledMinutes(todaySchedule) : 0;
+
+  // Open work per course, nearest exam first; tapping one lists its tasks in ranked order
+  const courseSummaries = useMemo(
+    () =>
+      summarizeCourses(openTasks, courses, toISODateLocal(new Date()), (task) =>
+        estimateMinutes(task, calibration)
+      ).filter((summary) => summary.open > 0),
+    [calibration, courses, openTasks]
+  );
 
   const handleOpenTask = useCallback((id: number) => {
     router.push({ pathname: "/edit-task", params: { id: String(id) } });
@@ -839,12 +872,15 @@ export default function PlannerScreen() {
   const handleToggleComplete = useCallback(
     async (task: Task) => {
       const markTo = !task.completed;
+      const journal = startBatch();
       const updated = await updateAvailabilityWithFeedback(task.id, markTo, {
         // We fold the success message into the follow-up prompt when marking complete.
         silentSuccess: markTo,
         successMessage: markTo ? "Task marked as complete." : undefined,
+        complete: journal.setCompleted,
       });
       if (!updated) return;
+      recordBatch(markTo ? "Marked done" : "Marked not done", journal.steps);
 
       await loadTasks();
 
@@ -861,7 +897,8 @@ export default function PlannerScreen() {
                   const tomorrow = new Date();
                   tomorrow.setDate(tomorrow.getDate() + 1);
                   const due = tomorrow.toISOString().split("T")[0];
-                  await addTask({
+                  const followUp = startBatch();
+                  await followUp.addTask({
                     title: `Review ${task.title}`,
                     description: task.notes ?? task.title,
                     difficulty: task.difficulty as "easy" | "medium" | "hard",
@@ -869,6 +906,7 @@ export default function PlannerScreen() {
                     priority: task.priority === "high" ? "high" : "normal",
                     category: task.category ?? null,
                   });
+                  recordBatch("Added a follow-up", followUp.steps);
                   await loadTasks();
                   Alert.alert("Follow-up added", "We'll remind you to review this task.");
                 } catch (error) {
@@ -920,14 +958,21 @@ export default function PlannerScreen() {
   }, []);
 
   const handleStartNextBlock = useCallback(() => {
-    const next = scheduleTimeline[0];
-    if (!next) return;
-    handleOpenTask(next.id);
-  }, [handleOpenTask, scheduleTimeline]);
+    const next = todaySchedule?.blocks.find((block) => block.kind === "task");
+    if (next?.taskId === undefined) return;
+    handleOpenTask(next.taskId);
+  }, [handleOpenTask, todaySchedule]);
 
   const renderTaskActions = useCallback(
-    (task: Task | undefined) => {
+    (task: Task | PlannedTask | undefined) => {
       if (!task) return null;
+      if ("projected" in task && task.projected) {
+        return (
+          <View style={styles.rowActions} accessibilityLabel={`${task.title} repeats`}>
+            <Ionicons name="repeat" size={15} color={subtle} />
+          </View>
+        );
+      }
       return (
         <View style={styles.rowActions}>
           <TouchableOpacity
@@ -966,10 +1011,11 @@ export default function PlannerScreen() {
     const sections: PlannerSectionKey[] = ["hero"];
     if (overdueTasks.length > 0) sections.push("overdue");
     sections.push("gameplan");
+    if (courseSummaries.some((summary) => summary.course !== null)) sections.push("courses");
     if (agentPlan.sections.length > 0) sections.push("suggested");
     sections.push("how");
     return sections;
-  }, [agentPlan.sections.length, overdueTasks.length]);
+  }, [agentPlan.sections.length, courseSummaries, overdueTasks.length]);
 
   const headerHeight = insets.top + 8;
   const contentTopPadding = headerHeight + 8;
@@ -1082,6 +1128,13 @@ export default function PlannerScreen() {
     [openTasks]
   );
 
+  // Chat reschedules are journaled so the snackbar or "undo that" can put the dates back
+  const moveWithUndo = useCallback(async (updates: { id: number; due_date: string | null }[]) => {
+    const journal = startBatch();
+    await journal.moveTasks(updates);
+    recordBatch(describeChange("Moved", updates.length), journal.steps);
+  }, []);
+
   const generateAssistantReply = useCallback(
     async (input: string): Promise<AssistantReplyPayload> => {
       const actions: AssistantAction[] = [];
@@ -1103,7 +1156,7 @@ export default function PlannerScreen() {
         if (isConfirmation(lowerInput)) {
           const plan = pendingPlanRef.current;
           pendingPlanRef.current = null;
-          await updateManyTaskDueDates(plan.moves.map((m) => ({ id: m.id, due_date: m.toISO })));
+          await moveWithUndo(plan.moves.map((m) => ({ id: m.id, due_date: m.toISO })));
           await loadTasks(true);
           const { fromLabel, destLabel, detail } = describePlan(plan);
           return {
@@ -1117,6 +1170,29 @@ export default function PlannerScreen() {
         }
       }
 
+      if (isUndoRequest(lowerInput)) {
+        const undone = await undoLastBatch();
+        if (!undone) return { text: "There's nothing to undo.", actions };
+        await loadTasks(true);
+        return { text: `Undone: ${undone.label.charAt(0).toLowerCase()}${undone.label.slice(1)}.`, actions };
+      }
+
+      // "show my #group-project tasks": open tasks carrying every tag mentioned
+      const mentionedTags = extractTagMentions(input)
+        .map((name) => tags.find((tag) => tag.name === name))
+        .filter((tag): tag is TaskTag => !!tag);
+      if (mentionedTags.length) {
+        const list = sortTasksForDisplay(openTasks.filter((t) => mentionedTags.every((tag) => taskHasTag(t, tag.id))));
+        const label = mentionedTags.map((tag) => `#${tag.name}`).join(" + ");
+        commitContext({ ...context, lastListedTasks: mapTasksForConversationContext(list.slice(0, 20)) });
+        if (!list.length) return { text: `No open tasks tagged ${label}.`, actions };
+        return {
+          text: `${list.length} open task${list.length === 1 ? "" : "s"} tagged ${label}.`,
+          tasks: mapTasksForChat(list.slice(0, 20)),
+          actions,
+        };
+      }
+
       const mathResult = tryEvalMath(input);
       if (mathResult !== null) {
         return { text: `${input.replace(/\s+/g, " ")} = ${mathResult}`, actions };
@@ -1235,7 +1311,7 @@ export default function PlannerScreen() {
           return { text: "I couldn't find that task in your current open list.", actions };
         }
 
-        await updateManyTaskDueDates(tasksToMove.map((task) => ({ id: task.id, due_date: resolvedDateISO })));
+        await moveWithUndo(tasksToMove.map((task) => ({ id: task.id, due_date: resolvedDateISO })));
         await loadTasks(true);
 
         commitContext(
@@ -1312,7 +1388,7 @@ export default function PlannerScreen() {
           return { text: `I can move ${plan.moves.length} task${plan.moves.length === 1 ? "" : "s"} from ${fromLabel} to ${destLabel}. Confirm?${detail ? `\n${detail}` : ""}`, actions };
         }
 
-        await updateManyTaskDueDates(plan.moves.map((m) => ({ id: m.id, due_date: m.toISO })));
+        await moveWithUndo(plan.moves.map((m) => ({ id: m.id, due_date: m.toISO })));
         await loadTasks(true);
         return { text: `Moved ${plan.moves.length} task${plan.moves.length === 1 ? "" : "s"} off ${fromLabel} to ${destLabel}.${detail ? `\n${detail}` : ""}`, actions };
       }
@@ -1515,7 +1591,7 @@ export default function PlannerScreen() {
       const safeText = sanitizeIntentPrefix(selection.text);
       return { text: safeText || "I’m not sure how to answer that. Want to review today’s tasks?", actions };
     },
-    [ensureLibraries, interpretTaskQuery, loadTasks, openTasks, tasks]
+    [ensureLibraries, interpretTaskQuery, loadTasks, moveWithUndo, openTasks, tags, tasks]
   );
 
   const handleSendMessage = useCallback(async () => {
@@ -1642,8 +1718,17 @@ export default function PlannerScreen() {
                 <Text style={[styles.heroStatValue, { color: text }]}>{stats.dueSoon}</Text>
               </TouchableOpacity>
             </View>
+            {accuracy ? (
+              <Text style={[styles.metaText, { color: subtle }]}>
+                {`Actual vs estimate: ${accuracy.ratio.toFixed(1)}× across ${accuracy.samples} finished task${
+                  accuracy.samples === 1 ? "" : "s"
+                }`}
+              </Text>
+            ) : null}
             <Text style={[styles.metaText, { color: subtle }]}>
-              {lastRefresh ? `Updated ${lastRefresh.toLocaleTimeString()}` : "Waiting to load tasks"}
+              {lastRefresh
+                ? `Updated ${lastRefresh.toLocaleTimeString()} · ${formatDuration(weekSeconds)} focused this week`
+                : "Waiting to load tasks"}
             </Text>
           </View>
         );
@@ -1682,6 +1767,7 @@ export default function PlannerScreen() {
                     <Text style={[styles.taskReason, { color: subtle }]}>
                       {task.reason || `Overdue by ${Math.abs(task.daysUntil ?? 0)}d`}
                     </Text>
+                    <SubtaskProgressBar task={task} color="#FF453A" trackColor={border} textColor={subtle} />
                   </View>
                   <Text style={[styles.badge, { color: text }]}>{formatDueLabel(task.due_date)}</Text>
                   {renderTaskActions(task)}
@@ -1753,9 +1839,14 @@ export default function PlannerScreen() {
                 <View style={[styles.scheduleCard, { borderColor: border }]}>
                   <View style={styles.scheduleHeader}>
                     <Text style={[styles.sectionTitle, { color: text }]}>Schedule for today</Text>
-                    <Text style={[styles.statHint, { color: subtle }]}>{agentPlan.totalMinutes} min planned</Text>
+                    <TouchableOpacity onPress={() => router.push("/study-hours")} activeOpacity={0.85} style={styles.sectionLink}>
+                      <Text style={[styles.statHint, { color: subtle }]}>
+                        {todayMinutes ? `${formatDuration(todayMinutes * 60)} planned` : "Study hours"}
+                      </Text>
+                      <Ionicons name="chevron-forward" size={16} color={subtle} />
+                    </TouchableOpacity>
                   </View>
-                  {scheduleTimeline.length > 0 ? (
+                  {todayMinutes > 0 ? (
                     <TouchableOpacity
                       style={[
                         styles.startBlockBtn,
@@ -1768,34 +1859,35 @@ export default function PlannerScreen() {
                     </TouchableOpacity>
                   ) : null}
 
-                  {scheduleTimeline.length === 0 ? (
-                    <Text style={[styles.statHint, { color: subtle }]}>Add tasks to build a schedule.</Text>
-                  ) : (
-                    scheduleTimeline.map((scheduleItem, idx) => (
-                      <TouchableOpacity
-                        key={scheduleItem.id}
-                        activeOpacity={0.85}
-                        onPress={() => handleOpenTask(scheduleItem.id)}
-                        style={styles.scheduleRow}
-                      >
-                        <View style={[styles.rankDot, { backgroundColor: rankColor(idx) }]} />
-                        <View style={{ flex: 1 }}>
-                          <Text style={[styles.taskTitle, { color: text }]}>{scheduleItem.title}</Text>
-                          <Text style={[styles.taskReason, { color: subtle }]}>
-                            {scheduleItem.startLabel} - {scheduleItem.endLabel} · {scheduleItem.minutes} min ·{" "}
-                            {scheduleItem.energy === "deep" ? "Deep focus" : "Quick win"}
-                          </Text>
-                        </View>
-                        {renderTaskActions(openTaskById.get(scheduleItem.id))}
-                      </TouchableOpacity>
-                    ))
-                  )}
+                  {todaySchedule && todaySchedule.blocks.length > 0 ? (
+                    <DayTimeline
+                      blocks={todaySchedule.blocks}
+                      onPressTask={handleOpenTask}
+                      renderAccessory={(block) =>
+                        block.taskId !== undefined ? renderTaskActions(openTaskById.get(block.taskId)) : null
+                      }
+                      colors={{ text, muted: subtle, border, blue: dark ? "#8FC0FF" : "#0A84FF" }}
+                    />
+                  ) : null}
+                  {todayMinutes === 0 ? (
+                    <Text style={[styles.statHint, { color: subtle }]}>
+                      No study time left today. Your next blocks are in the Calendar tab.
+                    </Text>
+                  ) : null}
+                  {schedulePlan.unscheduled.length > 0 ? (
+                    <Text style={[styles.statHint, { color: "#FF453A" }]}>
+                      {schedulePlan.unscheduled.length === 1
+                        ? `${schedulePlan.unscheduled[0].title} won't fit before it's due.`
+                        : `${schedulePlan.unscheduled.length} tasks won't fit before they're due.`}{" "}
+                      Add study hours or move a deadline.
+                    </Text>
+                  ) : null}
                 </View>
 
                 <View style={{ marginTop: 14 }}>
                   {agentPlan.prioritized.slice(0, 3).map((task, index) => (
                     <TouchableOpacity
-                      key={task.id}
+                      key={planKey(task)}
                       style={[
                         styles.taskRow,
                         {
@@ -1810,6 +1902,7 @@ export default function PlannerScreen() {
                       <View style={{ flex: 1 }}>
                         <Text style={[styles.taskTitle, { color: text }]}>{task.title}</Text>
                         <Text style={[styles.taskReason, { color: subtle }]}>{task.reason}</Text>
+                        <SubtaskProgressBar task={task} color={rankColor(index)} trackColor={border} textColor={subtle} />
                       </View>
                       <Text style={[styles.badge, { color: text }]}>{formatDueLabel(task.due_date)}</Text>
                       {renderTaskActions(task)}
@@ -1831,6 +1924,70 @@ export default function PlannerScreen() {
         );
       }
 
+      if (item === "courses") {
+        const today = toISODateLocal(new Date());
+        // Tasks whose course_id matches none of the courses are counted under "No course"
+        const courseIds = new Set(courses.map((course) => course.id));
+        return (
+          <View style={[styles.card, { backgroundColor: card, borderColor: border }]}>
+            <View style={styles.sectionHeader}>
+              <Text style={[styles.sectionTitle, { color: text }]}>By course</Text>
+              <TouchableOpacity onPress={() => router.push("/courses")} activeOpacity={0.85} style={styles.sectionLink}>
+                <Text style={[styles.statHint, { color: subtle }]}>Courses</Text>
+                <Ionicons name="chevron-forward" size={16} color={subtle} />
+              </TouchableOpacity>
+            </View>
+            <View style={{ gap: 10, marginTop: 10 }}>
+              {courseSummaries.map((summary) => {
+                const title = summary.course ? courseLabel(summary.course) : "No course";
+                const exam = summary.course ? describeExam(summary.course.exam_date, today) : null;
+                const hint = [
+                  summary.overdue ? `${summary.overdue} overdue` : null,
+                  summary.minutesLeft ? `~${formatDuration(summary.minutesLeft * 60)} left` : null,
+                  exam,
+                ]
+                  .filter(Boolean)
+                  .join(" · ");
+                return (
+                  <TouchableOpacity
+                    key={summary.course?.id ?? "none"}
+                    style={[styles.flowBlock, { borderColor: border }]}
+                    activeOpacity={0.85}
+                    onPress={() =>
+                      setTaskListModal({
+                        title,
+                        tasks: agentPlan.ranked.filter(
+                          (task) =>
+                            !task.projected &&
+                            (summary.course
+                              ? task.course_id === summary.course.id
+                              : !courseIds.has(task.course_id ?? -1))
+                        ),
+                      })
+                    }
+                  >
+                    <View style={styles.flowHeader}>
+                      <View style={[styles.flowHeaderLeft, { flex: 1 }]}>
+                        <View style={[styles.stepDot, { backgroundColor: summary.course?.color ?? subtle }]} />
+                        <View style={{ flex: 1 }}>
+                          <Text style={[styles.flowTitle, { color: text }]} numberOfLines={1}>
+                            {title}
+                          </Text>
+                          {hint ? (
+                            <Text style={[styles.flowHint, { color: summary.overdue ? "#FF453A" : subtle }]}>{hint}</Text>
+                          ) : null}
+                        </View>
+                      </View>
+                      <Text style={[styles.countBadge, { color: subtle }]}>{summary.open} open</Text>
+                    </View>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </View>
+        );
+      }
+
       if (item === "suggested") {
         return (
           <TouchableOpacity
@@ -1888,7 +2045,7 @@ export default function PlannerScreen() {
                         <Text style={[styles.countBadge, { color: subtle }]}>{section.tasks.length} items</Text>
                       </View>
                       {section.tasks.map((task) => (
-                        <View key={task.id} style={styles.flowTaskRow}>
+                        <View key={planKey(task)} style={styles.flowTaskRow}>
                           <TouchableOpacity
                             activeOpacity={0.85}
                             style={{ flex: 1 }}
@@ -1924,8 +2081,9 @@ export default function PlannerScreen() {
           </View>
           {showHowItWorks ? (
             <Text style={[styles.sectionHint, { color: subtle }]}>
-              We rank tasks locally using due date + difficulty. Overdue and hard tasks get bumped to the
-              top, while easy items are saved as quick wins.
+              We rank tasks locally using due date + difficulty, plus how much of a course an assessment is
+              worth. Overdue, hard and heavily weighted tasks get bumped to the top, while easy items are saved
+              as quick wins.
             </Text>
           ) : (
             <Text style={[styles.sectionHint, { color: subtle }]}>Tap to see how ranking works.</Text>
@@ -1934,12 +2092,15 @@ export default function PlannerScreen() {
       );
     },
     [
+      accuracy,
       agentPlan.prioritized,
+      agentPlan.ranked,
       agentPlan.sections,
       agentPlan.summary,
-      agentPlan.totalMinutes,
       border,
       card,
+      courseSummaries,
+      courses,
       dark,
       error,
       goToFilter,
@@ -1953,7 +2114,7 @@ export default function PlannerScreen() {
       openTaskById,
       overdueTasks,
       renderTaskActions,
-      scheduleTimeline,
+      schedulePlan.unscheduled,
       showHowItWorks,
       showSuggestedOrder,
       stats.deep,
@@ -1963,6 +2124,9 @@ export default function PlannerScreen() {
       stats.quick,
       subtle,
       text,
+      todayMinutes,
+      todaySchedule,
+      weekSeconds,
     ]
   );
 
@@ -2015,6 +2179,8 @@ export default function PlannerScreen() {
           </TouchableOpacity>
         ) : null}
 
+        {!chatOpen ? <UndoSnackbar bottom={insets.bottom + 152} onUndone={() => loadTasks(true)} /> : null}
+
         {chatOpen && (
           <TouchableWithoutFeedback onPress={Keyboard.dismiss} accessible={false}>
             <View
@@ -2211,7 +2377,7 @@ export default function PlannerScreen() {
           <ScrollView contentContainerStyle={styles.modalContent}>
             {taskListModal?.tasks.map((task) => (
               <TouchableOpacity
-                key={task.id}
+                key={planKey(task)}
                 style={[styles.taskRow, { borderColor: border, backgroundColor: dark ? "#1F1F23" : "#F7F8FA" }]}
                 activeOpacity={0.85}
                 onPress={() => {
@@ -2379,12 +2545,6 @@ const styles = StyleSheet.create({
     justifyContent: "space-between",
     alignItems: "center",
   },
-  scheduleRow: {
-    flexDirection: "row",
-    alignItems: "center",
-    justifyContent: "space-between",
-    gap: 10,
-  },
   startBlockBtn: {
     borderWidth: 1,
     borderRadius: 10,
@@ -23,20 +23,61 @@ import { useColorScheme } from "@/hooks/use-color-scheme";
 import { useAuth } from "@/hooks/useAuth";
 import { useThemeColors } from "@/hooks/use-theme-colors";
 import { useThemeOverride } from "@/hooks/useThemeOverride";
-import { getAppLockState } from "@/lib/app-lock-storage";
-import { addTask, deleteAllTasks, deleteCompletedTasks } from "@/lib/database";
+import {
+  getAppLockState,
+  getAutoLockSetting,
+  getBiometricUnlockEnabled,
+  setAutoLockSetting,
+  setBiometricUnlockEnabled,
+} from "@/lib/app-lock-storage";
+import { authenticateWithBiometrics, getBiometricSupport } from "@/lib/biometrics";
+import { addTask, deleteAllTasks, deleteCompletedTasks, getTaskEncryptionStatus } from "@/lib/database";
 import {
   DEFAULT_REMINDER_TIME,
   disableReminder,
   enableReminder,
   formatReminderTime,
+  loadDigestScheduledUntil,
+  loadNotificationRules,
   loadReminderSettings,
+  loadWeeklySummaryDay,
+  saveNotificationRules,
   saveReminderSettings,
+  saveWeeklySummaryDay,
+  syncReminders,
   triggerTestNotification,
 } from "@/lib/notifications";
+import { AUTO_LOCK_OPTIONS, DEFAULT_AUTO_LOCK, type AutoLockSetting } from "@/utils/appLockPolicy";
+import {
+  DAILY_LIMIT_RANGE,
+  DEFAULT_NOTIFICATION_RULES,
+  GROUP_WINDOW_MAX,
+  type NotificationRules,
+} from "@/utils/notificationRules";
+
+// "Off" first, then Monday-first; values match Date#getDay
+const WEEKLY_SUMMARY_OPTIONS: { value: number | null; label: string }[] = [
+  { value: null, label: "Off" },
+  { value: 1, label: "Monday" },
+  { value: 2, label: "Tuesday" },
+  { value: 3, label: "Wednesday" },
+  { value: 4, label: "Thursday" },
+  { value: 5, label: "Friday" },
+  { value: 6, label: "Saturday" },
+  { value: 0, label: "Sunday" },
+];
 
 type FeedbackTone = "success" | "error" | "info";
 
+// Which time the shared picker modal is editing
+type TimeTarget = "reminder" | "quietStart" | "quietEnd";
+
+const TIME_PICKER_TITLES: Record<TimeTarget, string> = {
+  reminder: "Select Reminder Time",
+  quietStart: "Quiet Hours Start",
+  quietEnd: "Quiet Hours End",
+};
+
 type SectionHeaderProps = {
   title: string;
   color: string;
@@ -67,8 +108,20 @@ export default function SettingsScreen() {
   const [sendingTest, setSendingTest] = useState(false);
   const [appLock, setAppLock] = useState(false);
   const [loadingLock, setLoadingLock] = useState(true);
+  const [taskEncryption, setTaskEncryption] = useState(false);
+  // Label such as "Face ID" when the device supports biometric unlock
+  const [biometricLabel, setBiometricLabel] = useState<string | null>(null);
+  const [biometricUnlock, setBiometricUnlock] = useState(false);
+  const [autoLock, setAutoLock] = useState<AutoLockSetting>(DEFAULT_AUTO_LOCK);
+  const [showAutoLockPicker, setShowAutoLockPicker] = useState(false);
   const [showTimePicker, setShowTimePicker] = useState(false);
+  const [timeTarget, setTimeTarget] = useState<TimeTarget>("reminder");
+  const [notificationRules, setNotificationRules] = useState<NotificationRules>(DEFAULT_NOTIFICATION_RULES);
   const [tempTime, setTempTime] = useState<{ hour: number; minute: number }>(DEFAULT_REMINDER_TIME);
+  const [weeklySummaryDay, setWeeklySummaryDay] = useState<number | null>(null);
+  // Last day a daily reminder is scheduled for; opening the app schedules further ahead
+  const [digestUntil, setDigestUntil] = useState<Date | null>(null);
+  const [showWeeklyPicker, setShowWeeklyPicker] = useState(false);
 
   const [searchQuery, setSearchQuery] = useState("");
   const [dangerExpanded, setDangerExpanded] = useState(false);
@@ -106,17 +159,46 @@ export default function SettingsScreen() {
     try {
       const state = await getAppLockState();
       setAppLock(state.enabled);
+      setTaskEncryption((await getTaskEncryptionStatus()).enabled);
+      const support = await getBiometricSupport();
+      setBiometricLabel(support.available ? support.label : null);
+      setBiometricUnlock(await getBiometricUnlockEnabled());
+      setAutoLock(await getAutoLockSetting());
     } finally {
       setLoadingLock(false);
     }
   }, []);
 
+  const handleToggleBiometricUnlock = async (value: boolean) => {
+    // Confirm the biometric works before relying on it at the lock screen
+    if (value && !(await authenticateWithBiometrics(`Turn on ${biometricLabel ?? "biometric"} unlock`))) return;
+    setBiometricUnlock(value);
+    await setBiometricUnlockEnabled(value);
+  };
+
+  const chooseAutoLock = useCallback(
+    async (setting: AutoLockSetting) => {
+      setShowAutoLockPicker(false);
+      setAutoLock(setting);
+      try {
+        await setAutoLockSetting(setting);
+      } catch (error) {
+        if (__DEV__) console.error("Failed to save auto-lock setting", error);
+        showFeedback("Could not update auto-lock.", "error");
+      }
+    },
+    [showFeedback]
+  );
+
   const refreshNotifications = useCallback(async () => {
     setLoadingReminders(true);
     try {
       const settings = await loadReminderSettings();
       setNotificationsEnabled(settings.enabled);
       setReminderTime({ hour: settings.hour, minute: settings.minute });
+      setWeeklySummaryDay(await loadWeeklySummaryDay());
+      setNotificationRules(await loadNotificationRules());
+      setDigestUntil(await loadDigestScheduledUntil());
     } finally {
       setLoadingReminders(false);
     }
@@ -148,22 +230,23 @@ export default function SettingsScreen() {
     try {
       setSeedingDummy(true);
       const payload = Array.from({ length: 10 }).map(() => {
-        const title = `${verbs[Math.floor(Math.random() * verbs.length)]} ${
-          nouns[Math.floor(Math.random() * nouns.length)]
-        } (${subjects[Math.floor(Math.random() * subjects.length)]})`;
+        const title = `${verbs[Math.floor(Math.random() * verbs.length)]} ${nouns[Math.floor(Math.random() * nouns.length)]}`;
+        const subject = subjects[Math.floor(Math.random() * subjects.length)];
         const difficulty = difficulties[Math.floor(Math.random() * difficulties.length)];
         const dateOffset = Math.floor(Math.random() * 14) - 2;
         const due_date = formatDate(dateOffset);
 
         return {
           title,
+          subject,
           description: `${title} - autogenerated demo task`,
           difficulty,
           due_date,
         };
       });
 
-      await Promise.all(payload.map((task) => addTask(task)));
+      // Sequential: each insert runs in its own transaction
+      for (const task of payload) await addTask(task);
       showFeedback("Added 10 dummy tasks.", "success");
     } catch (error) {
       if (__DEV__) console.error("Failed to seed dummy tasks", error);
@@ -177,7 +260,7 @@ export default function SettingsScreen() {
     if (clearingCompleted) return;
     Alert.alert(
       "Clear completed tasks?",
-      "This removes all tasks marked as completed.",
+      "Completed tasks move to the Trash, where they can be restored.",
       [
         { text: "Cancel", style: "cancel" },
         {
@@ -187,7 +270,7 @@ export default function SettingsScreen() {
             try {
               setClearingCompleted(true);
               await deleteCompletedTasks();
-              showFeedback("Completed tasks cleared.", "success");
+              showFeedback("Completed tasks moved to the Trash.", "success");
             } catch (error) {
               if (__DEV__) console.error("Failed to clear completed tasks", error);
               showFeedback("Could not clear completed tasks.", "error");
@@ -205,7 +288,7 @@ export default function SettingsScreen() {
     if (resettingDemo) return;
     Alert.alert(
       "Reset demo data?",
-      "This deletes all tasks and adds fresh dummy tasks.",
+      "Your tasks move to the Trash and fresh dummy tasks are added.",
       [
         { text: "Cancel", style: "cancel" },
         {
@@ -230,22 +313,23 @@ export default function SettingsScreen() {
               await deleteAllTasks();
 
               const payload = Array.from({ length: 10 }).map(() => {
-                const title = `${verbs[Math.floor(Math.random() * verbs.length)]} ${
-                  nouns[Math.floor(Math.random() * nouns.length)]
-                } (${subjects[Math.floor(Math.random() * subjects.length)]})`;
+                const title = `${verbs[Math.floor(Math.random() * verbs.length)]} ${nouns[Math.floor(Math.random() * nouns.length)]}`;
+                const subject = subjects[Math.floor(Math.random() * subjects.length)];
                 const difficulty = difficulties[Math.floor(Math.random() * difficulties.length)];
                 const dateOffset = Math.floor(Math.random() * 14) - 2;
                 const due_date = formatDate(dateOffset);
 
                 return {
                   title,
+                  subject,
                   description: `${title} - autogenerated demo task`,
                   difficulty,
                   due_date,
                 };
               });
 
-              await Promise.all(payload.map((task) => addTask(task)));
+              // Sequential: each insert runs in its own transaction
+      for (const task of payload) await addTask(task);
               showFeedback("Demo data reset complete.", "success");
             } catch (error) {
               if (__DEV__) console.error("Failed to reset demo data", error);
@@ -264,7 +348,7 @@ export default function SettingsScreen() {
     if (clearingAll) return;
     Alert.alert(
       "Delete all tasks?",
-      "This action cannot be undone.",
+      "Every task moves to the Trash, where it can be restored until it is removed for good.",
       [
         { text: "Cancel", style: "cancel" },
         {
@@ -274,7 +358,7 @@ export default function SettingsScreen() {
             try {
               setClearingAll(true);
               await deleteAllTasks();
-              showFeedback("All tasks deleted.", "success");
+              showFeedback("All tasks moved to the Trash.", "success");
             } catch (error) {
               if (__DEV__) console.error("Failed to delete tasks", error);
               showFeedback("Delete failed. Please sign in and retry.", "error");
@@ -303,10 +387,12 @@ export default function SettingsScreen() {
         }
 
         setNotificationsEnabled(true);
+        setDigestUntil(await loadDigestScheduledUntil());
         showFeedback(`Alerts enabled (${formatReminderTime(reminderTime.hour, reminderTime.minute)}).`, "success");
       } else {
         await disableReminder();
         setNotificationsEnabled(false);
+        setDigestUntil(null);
         showFeedback("Alerts disabled.", "info");
       }
     } catch (error) {
@@ -323,8 +409,35 @@ export default function SettingsScreen() {
     setTempTime({ hour: date.getHours(), minute: date.getMinutes() });
   }, []);
 
+  const updateNotificationRules = useCallback(
+    async (next: NotificationRules) => {
+      setNotificationRules(next);
+      try {
+        await saveNotificationRules(next);
+      } catch (error) {
+        if (__DEV__) console.error("Failed to save notification rules", error);
+        showFeedback("Could not update notification rules.", "error");
+      }
+    },
+    [showFeedback]
+  );
+
+  const openTimePicker = useCallback((target: TimeTarget, time: { hour: number; minute: number }) => {
+    setTimeTarget(target);
+    setTempTime(time);
+    setShowTimePicker(true);
+  }, []);
+
   const applyTempTime = useCallback(async () => {
     setShowTimePicker(false);
+    if (timeTarget !== "reminder") {
+      const edge = timeTarget === "quietStart" ? "start" : "end";
+      await updateNotificationRules({
+        ...notificationRules,
+        quietHours: { ...notificationRules.quietHours, [edge]: tempTime.hour * 60 + tempTime.minute },
+      });
+      return;
+    }
     setReminderTime(tempTime);
     setLoadingReminders(true);
 
@@ -336,8 +449,11 @@ export default function SettingsScreen() {
           showFeedback("Allow notification permission to apply reminder time.", "error");
           return;
         }
+        setDigestUntil(await loadDigestScheduledUntil());
       } else {
         await saveReminderSettings({ enabled: false, hour: tempTime.hour, minute: tempTime.minute });
+        // Deadline reminders still go out at this time
+        await syncReminders();
       }
 
       showFeedback(`Reminder time set to ${formatReminderTime(tempTime.hour, tempTime.minute)}.`, "success");
@@ -347,7 +463,7 @@ export default function SettingsScreen() {
     } finally {
       setLoadingReminders(false);
     }
-  }, [notificationsEnabled, showFeedback, tempTime]);
+  }, [notificationRules, notificationsEnabled, showFeedback, tempTime, timeTarget, updateNotificationRules]);
 
   const handleSendTest = useCallback(async () => {
     if (!notificationsEnabled) {
@@ -373,6 +489,20 @@ export default function SettingsScreen() {
     }
   }, [loadingReminders, notificationsEnabled, sendingTest, showFeedback]);
 
+  const chooseWeeklySummaryDay = useCallback(
+    async (day: number | null) => {
+      setShowWeeklyPicker(false);
+      setWeeklySummaryDay(day);
+      try {
+        await saveWeeklySummaryDay(day);
+      } catch (error) {
+        if (__DEV__) console.error("Failed to save weekly summary day", error);
+        showFeedback("Could not update the weekly summary.", "error");
+      }
+    },
+    [showFeedback]
+  );
+
   const reminderTimeDisplay = useMemo(
     () => formatReminderTime(reminderTime.hour, reminderTime.minute),
     [reminderTime.hour, reminderTime.minute]
@@ -427,21 +557,74 @@ export default function SettingsScreen() {
 
   const showAccountSecurity = matches([
     "account",
+    "profile",
+    "switch profile",
+    "create account",
+    "delete account",
     "security",
     "app lock",
     "pin",
+    "face id",
+    "touch id",
+    "biometric",
+    "auto-lock",
+    "auto lock",
+    "encryption",
+    "encrypt",
     user?.name ?? "",
     user?.email ?? "",
   ]);
-  const showNotifications = matches(["alerts", "notifications", "daily reminder", "test notification"]);
+  const showNotifications = matches([
+    "alerts",
+    "notifications",
+    "daily reminder",
+    "quiet hours",
+    "do not disturb",
+    "daily limit",
+    "group",
+    "digest",
+    "weekly summary",
+    "deadline reminders",
+    "due date reminders",
+    "test notification",
+  ]);
   const showAppearance = matches(["theme", "appearance", "color theme", "dark mode", "light mode"]);
+  const showPlanner = matches([
+    "planner",
+    "schedule",
+    "study hours",
+    "working hours",
+    "commitments",
+    "breaks",
+    "courses",
+    "subjects",
+    "modules",
+    "exams",
+  ]);
   const showAdvanced = matches(["quick actions", "navigation", "shortcut"]);
-  const showTaskData = matches(["dummy tasks", "task data", "clear completed", "seed"]);
+  const showTaskData = matches([
+    "dummy tasks",
+    "task data",
+    "clear completed",
+    "seed",
+    "backup",
+    "restore",
+    "export",
+    "import",
+    "calendar",
+    "ics",
+    "csv",
+    "spreadsheet",
+    "sync",
+    "server",
+    "trash",
+    "restore deleted",
+  ]);
   const showDanger = matches(["danger", "delete", "reset", "clear all"]);
   const showAbout = matches(["version", "developer", "privacy", "terms", "about"]);
 
   const hasAnyResult =
-    showAccountSecurity || showNotifications || showAppearance || showAdvanced || showTaskData || showDanger || showAbout;
+    showAccountSecurity || showNotifications || showAppearance || showPlanner || showAdvanced || showTaskData || showDanger || showAbout;
 
   return (
     <View style={{ flex: 1, backgroundColor: background }}>
@@ -518,6 +701,18 @@ export default function SettingsScreen() {
                 </View>
               </TouchableOpacity>
 
+              <TouchableOpacity
+                style={[styles.row, styles.rowDivider, { borderTopColor: border }]}
+                activeOpacity={0.85}
+                onPress={() => router.push("/profiles")}
+                accessibilityRole="button"
+              >
+                <View style={styles.rowLeft}>
+                  <Text style={[styles.label, { color: text }]}>Switch Profile</Text>
+                </View>
+                <Ionicons name="chevron-forward" size={18} color={subtext} />
+              </TouchableOpacity>
+
               <View style={[styles.row, styles.rowDivider, { borderTopColor: border }]}> 
                 <View style={styles.rowLeft}>
                   <Text style={[styles.label, { color: text }]}>App Lock</Text>
@@ -541,6 +736,19 @@ export default function SettingsScreen() {
                 )}
               </View>
 
+              {appLock && biometricLabel ? (
+                <View style={[styles.row, styles.rowDivider, { borderTopColor: border }]}>
+                  <View style={styles.rowLeft}>
+                    <Text style={[styles.label, { color: text }]}>Unlock with {biometricLabel}</Text>
+                  </View>
+                  <Switch
+                    value={biometricUnlock}
+                    onValueChange={handleToggleBiometricUnlock}
+                    accessibilityLabel={`Toggle unlock with ${biometricLabel}`}
+                  />
+                </View>
+              ) : null}
+
               {appLock ? (
                 <TouchableOpacity
                   style={[styles.row, styles.rowDivider, { borderTopColor: border }]}
@@ -554,6 +762,37 @@ export default function SettingsScreen() {
                   <Text style={[styles.value, { color: subtext }]}>Secure</Text>
                 </TouchableOpacity>
               ) : null}
+
+              {appLock ? (
+                <TouchableOpacity
+                  style={[styles.row, styles.rowDivider, { borderTopColor: border }]}
+                  activeOpacity={0.85}
+                  onPress={() => setShowAutoLockPicker(true)}
+                  accessibilityRole="button"
+                >
+                  <View style={styles.rowLeft}>
+                    <Text style={[styles.label, { color: text }]}>Auto-Lock</Text>
+                  </View>
+                  <Text style={[styles.value, { color: subtext }]}>
+                    {AUTO_LOCK_OPTIONS.find((option) => option.value === autoLock)?.label}
+                  </Text>
+                </TouchableOpacity>
+              ) : null}
+
+              <TouchableOpacity
+                style={[styles.row, styles.rowDivider, { borderTopColor: border }]}
+                activeOpacity={0.85}
+                onPress={() => router.push("/task-encryption")}
+                accessibilityRole="button"
+              >
+                <View style={styles.rowLeft}>
+                  <Text style={[styles.label, { color: text }]}>Task Encryption</Text>
+                </View>
+                <View style={{ flexDirection: "row", alignItems: "center" }}>
+                  <Text style={[styles.value, { color: subtext }]}>{taskEncryption ? "On" : "Off"}</Text>
+                  <Ionicons name="chevron-forward" size={18} color={subtext} style={{ marginLeft: 6 }} />
+                </View>
+              </TouchableOpacity>
             </View>
           </>
         ) : null}
@@ -585,18 +824,153 @@ export default function SettingsScreen() {
                 style={[styles.row, styles.rowDivider, { borderTopColor: border }]}
                 onPress={() => {
                   if (loadingReminders) return;
-                  setTempTime(reminderTime);
-                  setShowTimePicker(true);
+                  openTimePicker("reminder", reminderTime);
                 }}
                 accessibilityRole="button"
                 disabled={loadingReminders}
               >
                 <View style={styles.rowLeft}>
                   <Text style={[styles.label, { color: text }]}>Daily Reminder Time</Text>
+                  {notificationsEnabled && digestUntil ? (
+                    <Text style={[styles.rowNote, { color: subtext }]}>
+                      Scheduled until{" "}
+                      {digestUntil.toLocaleDateString(undefined, { weekday: "short", day: "numeric", month: "short" })}. Opening
+                      the app schedules further ahead.
+                    </Text>
+                  ) : null}
                 </View>
                 <Text style={[styles.value, { color: subtext }]}>{loadingReminders ? "Saving..." : reminderTimeDisplay}</Text>
               </TouchableOpacity>
 
+              <View style={[styles.row, styles.rowDivider, { borderTopColor: border }]}>
+                <View style={styles.rowLeft}>
+                  <Text style={[styles.label, { color: text }]}>Quiet Hours</Text>
+                </View>
+                <Switch
+                  value={notificationRules.quietHours.enabled}
+                  onValueChange={(enabled) =>
+                    updateNotificationRules({
+                      ...notificationRules,
+                      quietHours: { ...notificationRules.quietHours, enabled },
+                    })
+                  }
+                  accessibilityLabel="Toggle quiet hours"
+                />
+              </View>
+
+              {notificationRules.quietHours.enabled
+                ? ([
+                    ["quietStart", "Quiet From", notificationRules.quietHours.start],
+                    ["quietEnd", "Quiet Until", notificationRules.quietHours.end],
+                  ] as const).map(([target, label, minutes]) => (
+                    <TouchableOpacity
+                      key={target}
+                      style={[styles.row, styles.rowDivider, { borderTopColor: border }]}
+                      onPress={() => openTimePicker(target, { hour: Math.floor(minutes / 60), minute: minutes % 60 })}
+                      accessibilityRole="button"
+                    >
+                      <View style={styles.rowLeft}>
+                        <Text style={[styles.label, { color: text }]}>{label}</Text>
+                      </View>
+                      <Text style={[styles.value, { color: subtext }]}>
+                        {formatReminderTime(Math.floor(minutes / 60), minutes % 60)}
+                      </Text>
+                    </TouchableOpacity>
+                  ))
+                : null}
+
+              <View style={[styles.row, styles.rowDivider, { borderTopColor: border }]}>
+                <View style={styles.rowLeft}>
+                  <Text style={[styles.label, { color: text }]}>Daily Limit</Text>
+                </View>
+                <View style={styles.stepper}>
+                  <TouchableOpacity
+                    onPress={() =>
+                      updateNotificationRules({
+                        ...notificationRules,
+                        dailyLimit: Math.max(DAILY_LIMIT_RANGE[0], notificationRules.dailyLimit - 1),
+                      })
+                    }
+                    accessibilityLabel="Decrease daily notification limit"
+                    hitSlop={6}
+                  >
+                    <Ionicons name="remove-circle-outline" size={22} color={activeAccentColor} />
+                  </TouchableOpacity>
+                  <Text style={[styles.stepperText, { color: text }]}>{notificationRules.dailyLimit} a day</Text>
+                  <TouchableOpacity
+                    onPress={() =>
+                      updateNotificationRules({
+                        ...notificationRules,
+                        dailyLimit: Math.min(DAILY_LIMIT_RANGE[1], notificationRules.dailyLimit + 1),
+                      })
+                    }
+                    accessibilityLabel="Increase daily notification limit"
+                    hitSlop={6}
+                  >
+                    <Ionicons name="add-circle-outline" size={22} color={activeAccentColor} />
+                  </TouchableOpacity>
+                </View>
+              </View>
+
+              <View style={[styles.row, styles.rowDivider, { borderTopColor: border }]}>
+                <View style={styles.rowLeft}>
+                  <Text style={[styles.label, { color: text }]}>Group Nearby</Text>
+                </View>
+                <View style={styles.stepper}>
+                  <TouchableOpacity
+                    onPress={() =>
+                      updateNotificationRules({
+                        ...notificationRules,
+                        groupWindowMinutes: Math.max(0, notificationRules.groupWindowMinutes - 15),
+                      })
+                    }
+                    accessibilityLabel="Shorten grouping window"
+                    hitSlop={6}
+                  >
+                    <Ionicons name="remove-circle-outline" size={22} color={activeAccentColor} />
+                  </TouchableOpacity>
+                  <Text style={[styles.stepperText, { color: text }]}>
+                    {notificationRules.groupWindowMinutes ? `${notificationRules.groupWindowMinutes} min` : "Off"}
+                  </Text>
+                  <TouchableOpacity
+                    onPress={() =>
+                      updateNotificationRules({
+                        ...notificationRules,
+                        groupWindowMinutes: Math.min(GROUP_WINDOW_MAX, notificationRules.groupWindowMinutes + 15),
+                      })
+                    }
+                    accessibilityLabel="Lengthen grouping window"
+                    hitSlop={6}
+                  >
+                    <Ionicons name="add-circle-outline" size={22} color={activeAccentColor} />
+                  </TouchableOpacity>
+                </View>
+              </View>
+
+              <TouchableOpacity
+                style={[styles.row, styles.rowDivider, { borderTopColor: border }]}
+                onPress={() => setShowWeeklyPicker(true)}
+                accessibilityRole="button"
+              >
+                <View style={styles.rowLeft}>
+                  <Text style={[styles.label, { color: text }]}>Weekly Summary</Text>
+                </View>
+                <Text style={[styles.value, { color: subtext }]}>
+                  {WEEKLY_SUMMARY_OPTIONS.find((option) => option.value === weeklySummaryDay)?.label ?? "Off"}
+                </Text>
+              </TouchableOpacity>
+
+              <TouchableOpacity
+                style={[styles.row, styles.rowDivider, { borderTopColor: border }]}
+                onPress={() => router.push("/reminder-defaults")}
+                accessibilityRole="button"
+              >
+                <View style={styles.rowLeft}>
+                  <Text style={[styles.label, { color: text }]}>Deadline Reminders</Text>
+                </View>
+                <Text style={[styles.value, { color: subtext }]}>By category</Text>
+              </TouchableOpacity>
+
               <TouchableOpacity
                 style={[styles.row, styles.rowDivider, { borderTopColor: border, opacity: notificationsEnabled ? 1 : 0.62 }]}
                 onPress={handleSendTest}
@@ -641,6 +1015,34 @@ export default function SettingsScreen() {
           </>
         ) : null}
 
+        {showPlanner ? (
+          <>
+            <SectionHeader
+              title="Planner"
+              color={subtext}
+            />
+            <View style={[styles.card, { backgroundColor: card }]}>
+              <TouchableOpacity style={styles.row} onPress={() => router.push("/study-hours")} accessibilityRole="button">
+                <View style={styles.rowLeft}>
+                  <Text style={[styles.label, { color: text }]}>Study Hours</Text>
+                </View>
+                <Text style={[styles.value, { color: subtext }]}>Schedule</Text>
+              </TouchableOpacity>
+
+              <TouchableOpacity
+                style={[styles.row, styles.rowDivider, { borderTopColor: border }]}
+                onPress={() => router.push("/courses")}
+                accessibilityRole="button"
+              >
+                <View style={styles.rowLeft}>
+                  <Text style={[styles.label, { color: text }]}>Courses</Text>
+                </View>
+                <Text style={[styles.value, { color: subtext }]}>Subjects & exams</Text>
+              </TouchableOpacity>
+            </View>
+          </>
+        ) : null}
+
         {showAdvanced ? (
           <>
             <SectionHeader
@@ -688,6 +1090,61 @@ export default function SettingsScreen() {
                 </View>
                 <Text style={[styles.value, { color: subtext }]}>{clearingCompleted ? "Clearing..." : "Ready"}</Text>
               </TouchableOpacity>
+
+              <TouchableOpacity
+                style={[styles.row, styles.rowDivider, { borderTopColor: border }]}
+                onPress={() => router.push("/trash")}
+                accessibilityRole="button"
+              >
+                <View style={styles.rowLeft}>
+                  <Text style={[styles.label, { color: text }]}>Trash</Text>
+                </View>
+                <Text style={[styles.value, { color: subtext }]}>Restore</Text>
+              </TouchableOpacity>
+
+              <TouchableOpacity
+                style={[styles.row, styles.rowDivider, { borderTopColor: border }]}
+                onPress={() => router.push("/backup")}
+                accessibilityRole="button"
+              >
+                <View style={styles.rowLeft}>
+                  <Text style={[styles.label, { color: text }]}>Backup & Restore</Text>
+                </View>
+                <Text style={[styles.value, { color: subtext }]}>Export</Text>
+              </TouchableOpacity>
+
+              <TouchableOpacity
+                style={[styles.row, styles.rowDivider, { borderTopColor: border }]}
+                onPress={() => router.push("/calendar-sync")}
+                accessibilityRole="button"
+              >
+                <View style={styles.rowLeft}>
+                  <Text style={[styles.label, { color: text }]}>Calendar Import & Export</Text>
+                </View>
+                <Text style={[styles.value, { color: subtext }]}>.ics</Text>
+              </TouchableOpacity>
+
+              <TouchableOpacity
+                style={[styles.row, styles.rowDivider, { borderTopColor: border }]}
+                onPress={() => router.push("/csv-import")}
+                accessibilityRole="button"
+              >
+                <View style={styles.rowLeft}>
+                  <Text style={[styles.label, { color: text }]}>Import Tasks from CSV</Text>
+                </View>
+                <Text style={[styles.value, { color: subtext }]}>Spreadsheet</Text>
+              </TouchableOpacity>
+
+              <TouchableOpacity
+                style={[styles.row, styles.rowDivider, { borderTopColor: border }]}
+                onPress={() => router.push("/sync")}
+                accessibilityRole="button"
+              >
+                <View style={styles.rowLeft}>
+                  <Text style={[styles.label, { color: text }]}>Sync Between Devices</Text>
+                </View>
+                <Text style={[styles.value, { color: subtext }]}>Server</Text>
+              </TouchableOpacity>
             </View>
           </>
         ) : null}
@@ -784,7 +1241,7 @@ export default function SettingsScreen() {
       <Modal transparent visible={showTimePicker} animationType="fade" onRequestClose={() => setShowTimePicker(false)}>
         <TouchableOpacity activeOpacity={1} onPress={() => setShowTimePicker(false)} style={styles.modalOverlay}>
           <TouchableOpacity activeOpacity={1} style={[styles.pickerCard, { backgroundColor: card }]}> 
-            <Text style={[styles.modalTitle, { color: text }]}>Select Reminder Time</Text>
+            <Text style={[styles.modalTitle, { color: text }]}>{TIME_PICKER_TITLES[timeTarget]}</Text>
             <DateTimePicker
               mode="time"
               display={Platform.OS === "ios" ? "spinner" : "spinner"}
@@ -804,6 +1261,56 @@ export default function SettingsScreen() {
           </TouchableOpacity>
         </TouchableOpacity>
       </Modal>
+
+      <Modal transparent visible={showWeeklyPicker} animationType="fade" onRequestClose={() => setShowWeeklyPicker(false)}>
+        <TouchableOpacity activeOpacity={1} onPress={() => setShowWeeklyPicker(false)} style={styles.modalOverlay}>
+          <TouchableOpacity activeOpacity={1} style={[styles.pickerCard, { backgroundColor: card }]}>
+            <Text style={[styles.modalTitle, { color: text }]}>Weekly Summary</Text>
+            <Text style={[styles.modalHint, { color: subtext }]}>
+              Replaces that day&apos;s digest with a look at the week ahead.
+            </Text>
+            {WEEKLY_SUMMARY_OPTIONS.map((option) => {
+              const selected = option.value === weeklySummaryDay;
+              return (
+                <TouchableOpacity
+                  key={option.label}
+                  style={[styles.optionRow, { borderTopColor: border }]}
+                  onPress={() => chooseWeeklySummaryDay(option.value)}
+                  accessibilityRole="button"
+                >
+                  <Text style={[styles.label, { color: text }]}>{option.label}</Text>
+                  {selected ? <Ionicons name="checkmark" size={18} color={activeAccentColor} /> : null}
+                </TouchableOpacity>
+              );
+            })}
+          </TouchableOpacity>
+        </TouchableOpacity>
+      </Modal>
+
+      <Modal transparent visible={showAutoLockPicker} animationType="fade" onRequestClose={() => setShowAutoLockPicker(false)}>
+        <TouchableOpacity activeOpacity={1} onPress={() => setShowAutoLockPicker(false)} style={styles.modalOverlay}>
+          <TouchableOpacity activeOpacity={1} style={[styles.pickerCard, { backgroundColor: card }]}>
+            <Text style={[styles.modalTitle, { color: text }]}>Auto-Lock</Text>
+            <Text style={[styles.modalHint, { color: subtext }]}>
+              How long the app can stay in the background before it asks for your PIN again.
+            </Text>
+            {AUTO_LOCK_OPTIONS.map((option) => {
+              const selected = option.value === autoLock;
+              return (
+                <TouchableOpacity
+                  key={option.value}
+                  style={[styles.optionRow, { borderTopColor: border }]}
+                  onPress={() => chooseAutoLock(option.value)}
+                  accessibilityRole="button"
+                >
+                  <Text style={[styles.label, { color: text }]}>{option.label}</Text>
+                  {selected ? <Ionicons name="checkmark" size={18} color={activeAccentColor} /> : null}
+                </TouchableOpacity>
+              );
+            })}
+          </TouchableOpacity>
+        </TouchableOpacity>
+      </Modal>
     </View>
   );
 }
@@ -870,6 +1377,11 @@ const styles = StyleSheet.create({
     fontSize: 16,
     opacity: 0.95,
   },
+  rowNote: {
+    fontSize: 12,
+    lineHeight: 16,
+    marginTop: 2,
+  },
 
   feedbackBanner: {
     marginHorizontal: 16,
@@ -932,6 +1444,30 @@ const styles = StyleSheet.create({
     textAlign: "center",
     marginBottom: 8,
   },
+  stepper: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  stepperText: {
+    minWidth: 64,
+    textAlign: "center",
+    fontSize: 15,
+    fontWeight: "600",
+  },
+  modalHint: {
+    fontSize: 13,
+    textAlign: "center",
+    marginBottom: 8,
+  },
+  optionRow: {
+    minHeight: 44,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: 8,
+    borderTopWidth: StyleSheet.hairlineWidth,
+  },
   primaryButton: {
     marginTop: 12,
     borderRadius: 12,
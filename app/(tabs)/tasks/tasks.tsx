@@ -1,11 +1,13 @@
-import {
-  deleteTask,
-  duplicateTask,
-  getTasks,
-  setTaskCompleted,
-  updateManyTaskDueDates,
-} from "@/lib/database";
+import { SubtaskProgressBar } from "@/components/subtask-progress-bar";
+import { TagChips } from "@/components/tag-chips";
+import { UndoSnackbar } from "@/components/undo-snackbar";
+import { recordBatch, startBatch } from "@/lib/action-journal";
+import { duplicateTask, getTags, getTasks } from "@/lib/database";
 import { emitTabBarScroll } from "@/lib/tab-bar-scroll";
+import { describeChange } from "@/utils/actionJournal";
+import { tasksToCSV } from "@/utils/csv";
+import { openPrerequisites } from "@/utils/taskDependencies";
+import { normalizeTagName, taskHasTag, type TaskTag } from "@/utils/taskTags";
 import { useColorScheme } from "@/hooks/use-color-scheme";
 import { useThemeColors } from "@/hooks/use-theme-colors";
 import { Ionicons } from "@expo/vector-icons";
@@ -22,6 +24,7 @@ import {
   RefreshControl,
   ScrollView,
   SectionList,
+  Share,
   StyleSheet,
   Text,
   TextInput,
@@ -33,6 +36,7 @@ import { SafeAreaView, useSafeAreaInsets } from "react-native-safe-area-context"
 type Task = {
   id: number;
   title: string;
+  subject?: string | null;
   notes?: string | null;
   difficulty: "easy" | "medium" | "hard";
   priority?: "normal" | "high" | null;
@@ -40,6 +44,11 @@ type Task = {
   due_date?: string | null;
   completed?: number;
   created_at?: string | null;
+  recurrence_rule?: string | null;
+  subtask_total?: number;
+  subtask_done?: number;
+  prerequisite_ids?: string | null;
+  tag_ids?: string | null;
 };
 
 type FocusFilter = "all" | "easy" | "medium" | "hard";
@@ -177,7 +186,7 @@ export default function TasksScreen() {
   const scheme = useColorScheme();
   const dark = scheme === "dark";
   const colors = useThemeColors();
-  const { filter: initialFilterParam } = useLocalSearchParams<{ filter?: string }>();
+  const { filter: initialFilterParam, tag: initialTagParam } = useLocalSearchParams<{ filter?: string; tag?: string }>();
 
   const background = colors.background;
   const card = colors.surface;
@@ -190,6 +199,8 @@ export default function TasksScreen() {
   const [refreshing, setRefreshing] = useState(false);
   const [showHeaderBlur, setShowHeaderBlur] = useState(false);
   const [focusFilter, setFocusFilter] = useState<FocusFilter>("all");
+  const [tags, setTags] = useState<TaskTag[]>([]);
+  const [tagFilter, setTagFilter] = useState<number | null>(null);
   const [sortBy, setSortBy] = useState<SortOption>("due");
   const [search, setSearch] = useState("");
   const [batchMode, setBatchMode] = useState(false);
@@ -211,8 +222,9 @@ export default function TasksScreen() {
   const loadTasks = useCallback(async (showSpinner = false) => {
     try {
       if (showSpinner) setRefreshing(true);
-      const dbTasks = await getTasks();
+      const [dbTasks, dbTags] = await Promise.all([getTasks(), getTags()]);
       setTasks(Array.isArray(dbTasks) ? (dbTasks as Task[]) : []);
+      setTags(dbTags);
     } catch (error) {
       if (__DEV__) console.error("Failed to load tasks", error);
       setTasks([]);
@@ -233,8 +245,61 @@ export default function TasksScreen() {
     else setFocusFilter("all");
   }, [initialFilterParam]);
 
+  const tagsById = useMemo(() => new Map(tags.map((tag) => [tag.id, tag])), [tags]);
+
+  // Deep links name the tag ("?tag=group-project"); it resolves once the tags have loaded
+  useEffect(() => {
+    const name = normalizeTagName(initialTagParam ?? "");
+    if (!name) return;
+    const match = tags.find((tag) => tag.name === name);
+    if (match) setTagFilter(match.id);
+  }, [initialTagParam, tags]);
+
+  // A tag that was deleted elsewhere stops filtering
+  useEffect(() => {
+    if (tagFilter !== null && tags.length && !tagsById.has(tagFilter)) setTagFilter(null);
+  }, [tagFilter, tags.length, tagsById]);
+
   const openTasks = useMemo(() => tasks.filter((task) => !task.completed), [tasks]);
 
+  // Only tags that are on an open task are worth offering as filters
+  const tagCounts = useMemo(() => {
+    const counts = new Map<number, number>();
+    openTasks.forEach((task) => {
+      tags.forEach((tag) => {
+        if (taskHasTag(task, tag.id)) counts.set(tag.id, (counts.get(tag.id) ?? 0) + 1);
+      });
+    });
+    return counts;
+  }, [openTasks, tags]);
+
+  // Blocked tasks, with the titles of the unfinished prerequisites they wait on
+  const waitingOn = useMemo(() => {
+    const byId = new Map(tasks.map((task) => [task.id, task]));
+    const blocked = new Map<number, string[]>();
+    openTasks.forEach((task) => {
+      const open = openPrerequisites(task, byId);
+      if (open.length) blocked.set(task.id, open.map((id) => byId.get(id)?.title ?? "Untitled task"));
+    });
+    return blocked;
+  }, [openTasks, tasks]);
+
+  const renderBlocked = useCallback(
+    (task: DisplayTask) => {
+      const blockers = waitingOn.get(task.id);
+      if (!blockers) return null;
+      return (
+        <View style={styles.blockedRow}>
+          <Ionicons name="lock-closed-outline" size={13} color={subtle} />
+          <Text style={[styles.blockedText, { color: subtle }]} numberOfLines={1}>
+            Blocked · waiting on {blockers.join(", ")}
+          </Text>
+        </View>
+      );
+    },
+    [subtle, waitingOn]
+  );
+
   const focusCounts = useMemo(() => {
     let easy = 0;
     let medium = 0;
@@ -266,6 +331,7 @@ export default function TasksScreen() {
         if (focusFilter === "easy" || focusFilter === "medium" || focusFilter === "hard") {
           if (task.difficulty !== focusFilter) return false;
         }
+        if (tagFilter !== null && !taskHasTag(task, tagFilter)) return false;
 
         if (!query) return true;
         const haystack = `${task.title} ${task.notes ?? ""}`.toLowerCase();
@@ -302,7 +368,7 @@ export default function TasksScreen() {
     });
 
     return sorted;
-  }, [focusFilter, openTasks, search, sortBy, today]);
+  }, [focusFilter, openTasks, search, sortBy, tagFilter, today]);
 
   const searchSuggestions = useMemo(() => {
     const query = search.trim();
@@ -310,6 +376,7 @@ export default function TasksScreen() {
 
     const candidates = openTasks
       .filter((task) => {
+        if (tagFilter !== null && !taskHasTag(task, tagFilter)) return false;
         if (focusFilter === "easy" || focusFilter === "medium" || focusFilter === "hard") {
           return task.difficulty === focusFilter;
         }
@@ -337,7 +404,7 @@ export default function TasksScreen() {
       });
 
     return candidates.slice(0, 3).map((item) => item.task);
-  }, [batchMode, focusFilter, openTasks, search, today]);
+  }, [batchMode, focusFilter, openTasks, search, tagFilter, today]);
 
   const sections = useMemo(() => {
     const overdue = visibleTasks.filter((task) => task.daysUntil !== null && task.daysUntil < 0);
@@ -399,7 +466,9 @@ export default function TasksScreen() {
   const handleMarkDone = useCallback(
     async (task: Task) => {
       const nextState = !task.completed;
-      await setTaskCompleted(task.id, nextState);
+      const journal = startBatch();
+      await journal.setCompleted(task.id, nextState);
+      recordBatch(nextState ? "Marked done" : "Marked not done", journal.steps);
       await loadTasks();
       if (batchMode) {
         setSelectedIds((prev) => {
@@ -429,7 +498,7 @@ export default function TasksScreen() {
     (task: Task) => {
       Alert.alert(
         "Delete task?",
-        `This will remove "${task.title}".`,
+        `"${task.title}" will move to the Trash.`,
         [
           { text: "Cancel", style: "cancel" },
           {
@@ -437,7 +506,9 @@ export default function TasksScreen() {
             style: "destructive",
             onPress: async () => {
               try {
-                await deleteTask(task.id);
+                const journal = startBatch();
+                await journal.deleteTask(task.id);
+                recordBatch(describeChange("Deleted", 1), journal.steps);
                 await loadTasks();
               } catch (error) {
                 if (__DEV__) console.error("Failed to delete task", error);
@@ -474,7 +545,10 @@ export default function TasksScreen() {
 
   const handleBatchComplete = useCallback(async () => {
     if (selectedTasks.length === 0) return;
-    await Promise.all(selectedTasks.map((task) => setTaskCompleted(task.id, true)));
+    // Sequential: completing a repeating task writes its next instance in a transaction
+    const journal = startBatch();
+    for (const task of selectedTasks) await journal.setCompleted(task.id, true);
+    recordBatch(describeChange("Completed", selectedTasks.length), journal.steps);
     clearSelection();
     setBatchMode(false);
     await loadTasks();
@@ -494,7 +568,9 @@ export default function TasksScreen() {
         return { id: task.id, due_date: moved };
       });
 
-      await updateManyTaskDueDates(updates);
+      const journal = startBatch();
+      await journal.moveTasks(updates);
+      recordBatch(describeChange("Rescheduled", updates.length), journal.steps);
       clearSelection();
       setBatchMode(false);
       await loadTasks();
@@ -520,14 +596,16 @@ export default function TasksScreen() {
     if (selectedTasks.length === 0) return;
     Alert.alert(
       "Delete selected tasks?",
-      `This will delete ${selectedTasks.length} task${selectedTasks.length === 1 ? "" : "s"}.`,
+      `${selectedTasks.length} task${selectedTasks.length === 1 ? "" : "s"} will move to the Trash.`,
       [
         { text: "Cancel", style: "cancel" },
         {
           text: "Delete",
           style: "destructive",
           onPress: async () => {
-            await Promise.all(selectedTasks.map((task) => deleteTask(task.id)));
+            const journal = startBatch();
+            for (const task of selectedTasks) await journal.deleteTask(task.id);
+            recordBatch(describeChange("Deleted", selectedTasks.length), journal.steps);
             clearSelection();
             setBatchMode(false);
             await loadTasks();
@@ -538,8 +616,23 @@ export default function TasksScreen() {
     );
   }, [clearSelection, dark, loadTasks, selectedTasks]);
 
+  // Exports exactly what the current filter, search and sort show
+  const exportVisibleAsCsv = useCallback(async () => {
+    if (!visibleTasks.length) {
+      Alert.alert("Nothing to export", "No tasks match the current filter.");
+      return;
+    }
+    try {
+      await Share.share({ title: "tasks.csv", message: tasksToCSV(visibleTasks) });
+    } catch (error) {
+      if (__DEV__) console.error("Failed to export tasks", error);
+      Alert.alert("Error", "Could not export tasks.");
+    }
+  }, [visibleTasks]);
+
   const clearFilters = useCallback(() => {
     setFocusFilter("all");
+    setTagFilter(null);
     setSearch("");
     setSortBy("due");
     setBatchMode(false);
@@ -637,6 +730,7 @@ export default function TasksScreen() {
                 ]}
               >
                 {formatDueLabel(task)}
+                {task.recurrence_rule ? " · Repeats" : ""}
               </Text>
             </View>
 
@@ -694,10 +788,27 @@ export default function TasksScreen() {
               {getShortDescription(task.notes)}
             </Text>
           ) : null}
+          {renderBlocked(task)}
+          <TagChips task={task} tagsById={tagsById} textColor={subtle} />
+          <SubtaskProgressBar task={task} color={meta.accent} trackColor={border} textColor={subtle} />
         </Pressable>
       );
     },
-    [accent, batchMode, border, dark, handleOpenTask, handleTaskLongPress, renderRowActions, selectedIds, subtle, text, toggleSelected]
+    [
+      accent,
+      batchMode,
+      border,
+      dark,
+      handleOpenTask,
+      handleTaskLongPress,
+      renderBlocked,
+      renderRowActions,
+      selectedIds,
+      subtle,
+      tagsById,
+      text,
+      toggleSelected,
+    ]
   );
 
   const renderItem = useCallback(
@@ -843,6 +954,31 @@ export default function TasksScreen() {
         </View>
       ) : null}
 
+      {tagCounts.size || tagFilter !== null ? (
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.tagRow}>
+          {tags
+            .filter((tag) => tagCounts.has(tag.id) || tag.id === tagFilter)
+            .map((tag) => {
+              const active = tagFilter === tag.id;
+              return (
+                <TouchableOpacity
+                  key={tag.id}
+                  onPress={() => setTagFilter(active ? null : tag.id)}
+                  style={[
+                    styles.tagChip,
+                    { borderColor: active ? tag.color : border, backgroundColor: active ? `${tag.color}22` : card },
+                  ]}
+                  accessibilityLabel={active ? `Stop filtering by ${tag.name}` : `Show tasks tagged ${tag.name}`}
+                >
+                  <View style={[styles.tagDot, { backgroundColor: tag.color }]} />
+                  <Text style={[styles.sortText, { color: text }]}>#{tag.name}</Text>
+                  <Text style={[styles.sortText, { color: subtle }]}>{tagCounts.get(tag.id) ?? 0}</Text>
+                </TouchableOpacity>
+              );
+            })}
+        </ScrollView>
+      ) : null}
+
       <View style={styles.sortRow}>
         {([
           { key: "due", label: "Due soonest" },
@@ -884,6 +1020,15 @@ export default function TasksScreen() {
             {batchMode ? "Cancel" : "Select"}
           </Text>
         </TouchableOpacity>
+
+        <TouchableOpacity
+          style={[styles.selectButton, { borderColor: border }]}
+          onPress={exportVisibleAsCsv}
+          accessibilityLabel="Export these tasks as CSV"
+        >
+          <Ionicons name="share-outline" size={16} color={text} />
+          <Text style={[styles.selectButtonText, { color: text }]}>CSV</Text>
+        </TouchableOpacity>
       </View>
 
     </View>
@@ -1019,6 +1164,9 @@ export default function TasksScreen() {
                       {getShortDescription(task.notes)}
                     </Text>
                   ) : null}
+                  {renderBlocked(task)}
+                  <TagChips task={task} tagsById={tagsById} textColor={subtle} />
+                  <SubtaskProgressBar task={task} color={accent} trackColor={border} textColor={subtle} />
                 </TouchableOpacity>
               ))}
             </ScrollView>
@@ -1047,6 +1195,8 @@ export default function TasksScreen() {
         >
           <Ionicons name="add" size={30} color="#fff" />
         </Pressable>
+
+        <UndoSnackbar bottom={insets.bottom + 166} onUndone={loadTasks} />
       </View>
     </SafeAreaView>
   );
@@ -1182,6 +1332,23 @@ const styles = StyleSheet.create({
     fontSize: 12,
     fontWeight: "700",
   },
+  tagRow: {
+    gap: 8,
+  },
+  tagChip: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    borderWidth: 1,
+    borderRadius: 999,
+    paddingHorizontal: 10,
+    paddingVertical: 7,
+  },
+  tagDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
   toolbarRow: {
     flexDirection: "row",
     gap: 8,
@@ -1349,6 +1516,16 @@ const styles = StyleSheet.create({
     fontSize: 13,
     lineHeight: 18,
   },
+  blockedRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 5,
+  },
+  blockedText: {
+    flex: 1,
+    fontSize: 12,
+    fontWeight: "700",
+  },
   headerRight: {
     flexDirection: "row",
     alignItems: "center",
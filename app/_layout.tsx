@@ -1,6 +1,6 @@
-import React from 'react';
+import React, { useEffect } from 'react';
 import { DarkTheme, DefaultTheme, ThemeProvider } from '@react-navigation/native';
-import { Stack } from 'expo-router';
+import { router, Stack } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
 import { ActivityIndicator, Text, View } from 'react-native';
 import { GestureHandlerRootView } from 'react-native-gesture-handler';
@@ -10,6 +10,9 @@ import { useColorScheme } from '@/hooks/use-color-scheme';
 import { AuthProvider, useAuth } from '@/hooks/useAuth';
 import { ThemeOverrideProvider, useThemeOverride } from '@/hooks/useThemeOverride';
 import { AppLockGate } from "@/components/app-lock-gate";
+import { DataLockGate } from "@/components/data-lock-gate";
+import { startNotificationActions, startReminderSync } from '@/lib/notifications';
+import { purgeExpiredTrash } from '@/lib/trash';
 
 export const unstable_settings = {
   anchor: '(tabs)',
@@ -48,7 +51,9 @@ function RootLayoutWithTheme() {
     <AuthProvider>
       <ThemeProvider value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
         <AppLockGate>
-          <RootNavigator />
+          <DataLockGate>
+            <RootNavigator />
+          </DataLockGate>
         </AppLockGate>
         <StatusBar style={colorScheme === 'dark' ? 'light' : 'dark'} />
       </ThemeProvider>
@@ -59,6 +64,26 @@ function RootLayoutWithTheme() {
 function RootNavigator() {
   const { user, loading } = useAuth();
   const colorScheme = useColorScheme();
+  const userId = user?.id ?? null;
+
+  useEffect(() => {
+    if (userId === null) return;
+    return startReminderSync();
+  }, [userId]);
+
+  useEffect(() => {
+    if (userId === null) return;
+    purgeExpiredTrash().catch((error) => {
+      if (__DEV__) console.warn('Failed to purge the trash', error);
+    });
+  }, [userId]);
+
+  useEffect(() => {
+    if (userId === null) return;
+    return startNotificationActions((taskId) => {
+      router.push({ pathname: '/focus-session', params: { id: String(taskId), start: '1' } });
+    });
+  }, [userId]);
 
   if (loading) {
     return (
@@ -80,6 +105,7 @@ function RootNavigator() {
             headerShown: false,
           }}
         />
+        <Stack.Screen name="profiles" options={{ title: "Profiles", headerBackTitle: "" }} />
       </Stack>
     );
   }
@@ -97,7 +123,17 @@ function RootNavigator() {
       <Stack.Screen name="disable-app-lock" options={{ title: "Disable App Lock", headerBackTitle: "" }} />
       <Stack.Screen name="change-pin" options={{ title: "Change PIN", headerBackTitle: "" }} />
       <Stack.Screen name="account" options={{ title: "Account", headerBackTitle: "" }} />
+      <Stack.Screen name="profiles" options={{ title: "Profiles", headerBackTitle: "" }} />
       <Stack.Screen name="theme-settings" options={{ title: "Theme", headerBackTitle: "" }} />
+      <Stack.Screen name="backup" options={{ title: "Backup & Restore", headerBackTitle: "" }} />
+      <Stack.Screen name="calendar-sync" options={{ title: "Calendar Import & Export", headerBackTitle: "" }} />
+      <Stack.Screen name="sync" options={{ title: "Sync", headerBackTitle: "" }} />
+      <Stack.Screen name="trash" options={{ title: "Trash", headerBackTitle: "" }} />
+      <Stack.Screen name="csv-import" options={{ title: "Import from CSV", headerBackTitle: "" }} />
+      <Stack.Screen name="reminder-defaults" options={{ title: "Deadline Reminders", headerBackTitle: "" }} />
+      <Stack.Screen name="study-hours" options={{ title: "Study Hours", headerBackTitle: "" }} />
+      <Stack.Screen name="courses" options={{ title: "Courses", headerBackTitle: "" }} />
+      <Stack.Screen name="task-encryption" options={{ title: "Task Encryption", headerBackTitle: "" }} />
       <Stack.Screen name="plan-section" options={{ title: "", headerBackTitle: "" }} />
       <Stack.Screen name="focus-session" options={{ headerShown: false, title: "Focus Session", headerBackTitle: "" }} />
       <Stack.Screen name="modal" options={{ presentation: "modal", title: "Modal", headerBackTitle: "" }} />
@@ -3,21 +3,45 @@ import { useAuth } from "@/hooks/useAuth";
 import { useThemeColors } from "../hooks/use-theme-colors";
 import { Stack, router, useFocusEffect } from "expo-router";
 import { useCallback, useState } from "react";
-import { ActivityIndicator, Alert, ScrollView, StyleSheet, Text, TouchableOpacity, View } from "react-native";
+import {
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
 
 import { LockScreen } from "@/components/lock-screen";
 import { getAppLockState, verifyPin } from "@/lib/app-lock-storage";
+import { changePassword } from "@/lib/database";
+
+// Same minimum as sign-up
+const MIN_PASSWORD_LENGTH = 6;
 
 export default function AccountScreen() {
   const scheme = useColorScheme();
   const dark = scheme === "dark";
   const colors = useThemeColors();
-  const { user, signOut } = useAuth();
+  const { user, signOut, upgradeAccount, deleteAccount } = useAuth();
   const [signingOut, setSigningOut] = useState(false);
   const [lockEnabled, setLockEnabled] = useState(false);
   const [missingPin, setMissingPin] = useState(false);
   const [checkingLock, setCheckingLock] = useState(true);
+  const [currentPassword, setCurrentPassword] = useState("");
+  const [newPassword, setNewPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [changingPassword, setChangingPassword] = useState(false);
+  const [accountName, setAccountName] = useState("");
+  const [accountEmail, setAccountEmail] = useState("");
+  const [accountPassword, setAccountPassword] = useState("");
+  const [accountConfirm, setAccountConfirm] = useState("");
+  const [upgrading, setUpgrading] = useState(false);
+  const [deletePassword, setDeletePassword] = useState("");
+  const [deleting, setDeleting] = useState(false);
 
   const background = colors.background;
   const card = colors.surface;
@@ -48,6 +72,92 @@ export default function AccountScreen() {
     );
   };
 
+  const handleChangePassword = async () => {
+    if (changingPassword) return;
+    if (!currentPassword) {
+      Alert.alert("Current password", "Enter your current password.");
+      return;
+    }
+    if (newPassword.trim().length < MIN_PASSWORD_LENGTH) {
+      Alert.alert("Weak password", `Password must be at least ${MIN_PASSWORD_LENGTH} characters.`);
+      return;
+    }
+    if (newPassword !== confirmPassword) {
+      Alert.alert("Passwords don't match", "Re-type the new password so both fields match.");
+      return;
+    }
+
+    try {
+      setChangingPassword(true);
+      await changePassword(currentPassword, newPassword);
+      setCurrentPassword("");
+      setNewPassword("");
+      setConfirmPassword("");
+      Alert.alert("Password changed", "Use your new password next time you sign in.");
+    } catch (error) {
+      if (__DEV__) console.error("Failed to change password", error);
+      Alert.alert("Could not change password", error instanceof Error ? error.message : "Please try again.");
+    } finally {
+      setChangingPassword(false);
+    }
+  };
+
+  const handleUpgrade = async () => {
+    if (upgrading) return;
+    if (!accountName.trim() || !accountEmail.trim()) {
+      Alert.alert("Missing info", "Enter your name and email.");
+      return;
+    }
+    if (!accountEmail.includes("@")) {
+      Alert.alert("Invalid email", "Please enter a valid email that includes '@'.");
+      return;
+    }
+    if (accountPassword.trim().length < MIN_PASSWORD_LENGTH) {
+      Alert.alert("Weak password", `Password must be at least ${MIN_PASSWORD_LENGTH} characters.`);
+      return;
+    }
+    if (accountPassword !== accountConfirm) {
+      Alert.alert("Passwords don't match", "Re-type the password so both fields match.");
+      return;
+    }
+
+    setUpgrading(true);
+    const ok = await upgradeAccount(accountName, accountEmail, accountPassword);
+    setUpgrading(false);
+    if (!ok) return;
+    setAccountPassword("");
+    setAccountConfirm("");
+    Alert.alert("Account created", "Your tasks and settings are now saved to this account.");
+  };
+
+  const handleDeleteAccount = () => {
+    if (deleting) return;
+    const needsPassword = user?.provider === "email";
+    if (needsPassword && !deletePassword) {
+      Alert.alert("Password needed", "Enter your password to delete this account.");
+      return;
+    }
+    Alert.alert(
+      "Delete account?",
+      "This permanently removes your tasks, quick actions, PIN, reminders and other settings from this device.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: async () => {
+            setDeleting(true);
+            const ok = await deleteAccount(needsPassword ? deletePassword : undefined);
+            setDeleting(false);
+            setDeletePassword("");
+            if (ok) router.replace("/login");
+          },
+        },
+      ],
+      { userInterfaceStyle: dark ? "dark" : "light" }
+    );
+  };
+
   const refreshLockState = useCallback(async () => {
     setCheckingLock(true);
     const state = await getAppLockState();
@@ -109,6 +219,127 @@ export default function AccountScreen() {
             {signingOut && <ActivityIndicator color="#FF3B30" />}
           </TouchableOpacity>
         </View>
+
+        {user?.provider === "email" && (
+          <View style={[styles.card, { backgroundColor: card }]}>
+            <Text style={[styles.sectionLabel, { color: subtext }]}>Password</Text>
+
+            <View style={styles.field}>
+              <TextInput
+                value={currentPassword}
+                onChangeText={setCurrentPassword}
+                placeholder="Current password"
+                placeholderTextColor={subtext}
+                secureTextEntry
+                style={[styles.input, { color: text, borderColor: colors.borderSubtle }]}
+              />
+              <TextInput
+                value={newPassword}
+                onChangeText={setNewPassword}
+                placeholder="New password"
+                placeholderTextColor={subtext}
+                secureTextEntry
+                style={[styles.input, { color: text, borderColor: colors.borderSubtle }]}
+              />
+              <TextInput
+                value={confirmPassword}
+                onChangeText={setConfirmPassword}
+                placeholder="Re-type new password"
+                placeholderTextColor={subtext}
+                secureTextEntry
+                style={[styles.input, { color: text, borderColor: colors.borderSubtle }]}
+              />
+            </View>
+
+            <TouchableOpacity
+              style={styles.row}
+              onPress={handleChangePassword}
+              disabled={changingPassword}
+              activeOpacity={0.85}
+            >
+              <Text style={[styles.label, { color: colors.accentBlue }]}>
+                {changingPassword ? "Changing password..." : "Change Password"}
+              </Text>
+              {changingPassword && <ActivityIndicator color={colors.accentBlue} />}
+            </TouchableOpacity>
+          </View>
+        )}
+
+        {user?.provider === "local" && (
+          <View style={[styles.card, { backgroundColor: card }]}>
+            <Text style={[styles.sectionLabel, { color: subtext }]}>Create an Account</Text>
+            <Text style={[styles.hint, { color: subtext }]}>
+              Keep this profile&apos;s tasks and settings under an email and password.
+            </Text>
+
+            <View style={styles.field}>
+              <TextInput
+                value={accountName}
+                onChangeText={setAccountName}
+                placeholder="Full name"
+                placeholderTextColor={subtext}
+                style={[styles.input, { color: text, borderColor: colors.borderSubtle }]}
+              />
+              <TextInput
+                value={accountEmail}
+                onChangeText={setAccountEmail}
+                placeholder="you@example.com"
+                placeholderTextColor={subtext}
+                autoCapitalize="none"
+                keyboardType="email-address"
+                style={[styles.input, { color: text, borderColor: colors.borderSubtle }]}
+              />
+              <TextInput
+                value={accountPassword}
+                onChangeText={setAccountPassword}
+                placeholder="Password"
+                placeholderTextColor={subtext}
+                secureTextEntry
+                style={[styles.input, { color: text, borderColor: colors.borderSubtle }]}
+              />
+              <TextInput
+                value={accountConfirm}
+                onChangeText={setAccountConfirm}
+                placeholder="Re-type password"
+                placeholderTextColor={subtext}
+                secureTextEntry
+                style={[styles.input, { color: text, borderColor: colors.borderSubtle }]}
+              />
+            </View>
+
+            <TouchableOpacity style={styles.row} onPress={handleUpgrade} disabled={upgrading} activeOpacity={0.85}>
+              <Text style={[styles.label, { color: colors.accentBlue }]}>
+                {upgrading ? "Creating account..." : "Create Account"}
+              </Text>
+              {upgrading && <ActivityIndicator color={colors.accentBlue} />}
+            </TouchableOpacity>
+          </View>
+        )}
+
+        <View style={[styles.card, { backgroundColor: card }]}>
+          <Text style={[styles.sectionLabel, { color: subtext }]}>Delete Account</Text>
+          <Text style={[styles.hint, { color: subtext }]}>
+            Removes this account and all of its data from this device. Other profiles are not affected.
+          </Text>
+
+          {user?.provider === "email" && (
+            <View style={styles.field}>
+              <TextInput
+                value={deletePassword}
+                onChangeText={setDeletePassword}
+                placeholder="Password"
+                placeholderTextColor={subtext}
+                secureTextEntry
+                style={[styles.input, { color: text, borderColor: colors.borderSubtle }]}
+              />
+            </View>
+          )}
+
+          <TouchableOpacity style={styles.row} onPress={handleDeleteAccount} disabled={deleting} activeOpacity={0.85}>
+            <Text style={[styles.label, { color: "#FF3B30" }]}>{deleting ? "Deleting..." : "Delete Account"}</Text>
+            {deleting && <ActivityIndicator color="#FF3B30" />}
+          </TouchableOpacity>
+        </View>
       </ScrollView>
 
       {(lockEnabled || missingPin) && (
@@ -155,6 +386,24 @@ const styles = StyleSheet.create({
   },
   label: { fontSize: 16 },
   value: { fontSize: 14, opacity: 0.8 },
+  hint: {
+    fontSize: 13,
+    lineHeight: 18,
+    marginHorizontal: 16,
+    marginBottom: 4,
+  },
+  field: {
+    gap: 10,
+    paddingHorizontal: 18,
+    paddingTop: 6,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    fontSize: 16,
+  },
 
   lockOverlay: {
     ...StyleSheet.absoluteFillObject,
@@ -1,9 +1,28 @@
+import { AssessmentFields } from "@/components/assessment-fields";
+import { CoursePicker } from "@/components/course-picker";
+import { EstimatePicker } from "@/components/estimate-picker";
+import { RecurrencePicker } from "@/components/recurrence-picker";
+import { ReminderPicker } from "@/components/reminder-picker";
+import { SubtaskEditor } from "@/components/subtask-editor";
+import { TagEditor } from "@/components/tag-editor";
 import { useColorScheme } from "@/hooks/use-color-scheme";
-import { addTask } from "@/lib/database";
+import { addTask, getCourses, getEffortSamples, getTags, type SubtaskDraft } from "@/lib/database";
+import { loadReminderDefaults } from "@/lib/notifications";
+import type { Course } from "@/utils/courses";
+import { calibrateEstimates, estimateTaskMinutes, type EffortCalibration } from "@/utils/effortEstimate";
+import { readAssessmentWeight, readGrade } from "@/utils/grades";
+import { normalizeRecurrenceRule, serializeRecurrenceRule, type RecurrenceRule } from "@/utils/recurrence";
+import {
+  DEFAULT_REMINDER_DEFAULTS,
+  serializeReminderOffsets,
+  type ReminderDefaults,
+  type ReminderOffset,
+} from "@/utils/taskReminders";
+import type { TaskTag } from "@/utils/taskTags";
 import DateTimePicker, { DateTimePickerEvent } from "@react-native-community/datetimepicker";
 import { Ionicons } from "@expo/vector-icons";
 import { useNavigation, usePreventRemove } from "@react-navigation/native";
-import { router } from "expo-router";
+import { router, useFocusEffect } from "expo-router";
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import {
   Alert,
@@ -99,6 +118,18 @@ export default function AddAssignmentScreen() {
   const [priority, setPriority] = useState<Priority>("normal");
   const [category, setCategory] = useState<TaskCategory | null>(null);
   const [dueDate, setDueDate] = useState<Date | null>(null);
+  const [subtasks, setSubtasks] = useState<SubtaskDraft[]>([]);
+  const [tagNames, setTagNames] = useState<string[]>([]);
+  const [knownTags, setKnownTags] = useState<TaskTag[]>([]);
+  const [courseId, setCourseId] = useState<number | null>(null);
+  const [courses, setCourses] = useState<Course[]>([]);
+  const [weightText, setWeightText] = useState("");
+  const [gradeText, setGradeText] = useState("");
+  const [recurrence, setRecurrence] = useState<RecurrenceRule | null>(null);
+  const [estimatedMinutes, setEstimatedMinutes] = useState<number | null>(null);
+  const [calibration, setCalibration] = useState<EffortCalibration>({});
+  const [reminderOffsets, setReminderOffsets] = useState<ReminderOffset[] | null>(null);
+  const [reminderDefaults, setReminderDefaults] = useState<ReminderDefaults>(DEFAULT_REMINDER_DEFAULTS);
   const [showDatePicker, setShowDatePicker] = useState(false);
   const [draftDate, setDraftDate] = useState(startOfToday());
   const [savingMode, setSavingMode] = useState<"back" | "another" | null>(null);
@@ -113,9 +144,22 @@ export default function AddAssignmentScreen() {
     dueDate !== null ||
     difficulty !== null ||
     priority !== "normal" ||
-    category !== null;
+    category !== null ||
+    subtasks.length > 0 ||
+    tagNames.length > 0 ||
+    courseId !== null ||
+    weightText.trim().length > 0 ||
+    gradeText.trim().length > 0 ||
+    recurrence !== null ||
+    estimatedMinutes !== null ||
+    reminderOffsets !== null;
   const canSave = trimmedTitle.length >= 2 && difficulty !== null && savingMode === null;
   const duePreview = formatDueLabel(dueDate);
+  const subject = courses.find((course) => course.id === courseId)?.name ?? null;
+  const estimateSuggestion = useMemo(
+    () => (difficulty ? estimateTaskMinutes({ title: trimmedTitle, subject, difficulty, category }, calibration) : null),
+    [calibration, category, difficulty, subject, trimmedTitle]
+  );
 
   usePreventRemove(hasUnsavedChanges && savingMode === null, ({ data }) => {
     Alert.alert("Discard this task?", "You have unsaved changes.", [
@@ -124,6 +168,38 @@ export default function AddAssignmentScreen() {
     ]);
   });
 
+  const loadTags = useCallback(() => {
+    getTags()
+      .then(setKnownTags)
+      .catch((error) => {
+        if (__DEV__) console.error("Failed to load tags", error);
+      });
+  }, []);
+
+  useEffect(() => {
+    getEffortSamples()
+      .then((samples) => setCalibration(calibrateEstimates(samples)))
+      .catch((error) => {
+        if (__DEV__) console.error("Failed to load effort history", error);
+      });
+    loadReminderDefaults().then(setReminderDefaults);
+    loadTags();
+  }, [loadTags]);
+
+  // Courses can be added from here and edited on the Courses screen, so reload on return
+  useFocusEffect(
+    useCallback(() => {
+      getCourses()
+        .then((next) => {
+          setCourses(next);
+          setCourseId((current) => (next.some((course) => course.id === current) ? current : null));
+        })
+        .catch((error) => {
+          if (__DEV__) console.error("Failed to load courses", error);
+        });
+    }, [])
+  );
+
   useEffect(() => {
     if (!toast) return;
     const t = setTimeout(() => setToast(null), 1800);
@@ -135,6 +211,15 @@ export default function AddAssignmentScreen() {
     setShowDatePicker(true);
   }, [dueDate]);
 
+  // A repeating task needs a first due date to count from
+  const handleRecurrenceChange = useCallback(
+    (next: RecurrenceRule | null) => {
+      setRecurrence(next);
+      if (next && !dueDate) setDueDate(startOfToday());
+    },
+    [dueDate]
+  );
+
   const onDateChange = useCallback((_event: DateTimePickerEvent, selected?: Date) => {
     if (!selected) return;
     const normalized = new Date(selected);
@@ -169,15 +254,33 @@ export default function AddAssignmentScreen() {
   const saveTask = useCallback(
     async (mode: "back" | "another") => {
       if (!validate()) return;
+      let assessmentWeight: number | null;
+      let grade: number | null;
+      try {
+        assessmentWeight = readAssessmentWeight(weightText);
+        grade = readGrade(gradeText);
+      } catch (error) {
+        Alert.alert("Check the assessment", error instanceof Error ? error.message : "Please try again.");
+        return;
+      }
       setSavingMode(mode);
       try {
+        const dueISO = dueDate ? toISODateLocal(dueDate) : null;
         await addTask({
           title: trimmedTitle,
           description: description.trim(),
           difficulty: difficulty!,
-          due_date: dueDate ? toISODateLocal(dueDate) : null,
+          due_date: dueISO,
           priority,
           category,
+          subtasks: subtasks.map((item) => item.title),
+          recurrence: recurrence && dueISO ? serializeRecurrenceRule(normalizeRecurrenceRule(recurrence, dueISO)) : null,
+          estimated_minutes: estimatedMinutes,
+          reminder_offsets: serializeReminderOffsets(reminderOffsets),
+          tags: tagNames,
+          course_id: courseId,
+          assessment_weight: assessmentWeight,
+          grade,
         });
 
         if (mode === "another") {
@@ -187,6 +290,15 @@ export default function AddAssignmentScreen() {
           setDifficulty(null);
           setPriority("normal");
           setCategory(null);
+          setSubtasks([]);
+          setTagNames([]);
+          setCourseId(null);
+          setWeightText("");
+          setGradeText("");
+          loadTags();
+          setRecurrence(null);
+          setEstimatedMinutes(null);
+          setReminderOffsets(null);
           setTitleError(null);
           setDifficultyError(null);
           setToast("Task added");
@@ -201,7 +313,24 @@ export default function AddAssignmentScreen() {
         setSavingMode(null);
       }
     },
-    [category, description, difficulty, dueDate, priority, trimmedTitle, validate]
+    [
+      category,
+      courseId,
+      description,
+      difficulty,
+      dueDate,
+      estimatedMinutes,
+      gradeText,
+      loadTags,
+      priority,
+      recurrence,
+      reminderOffsets,
+      subtasks,
+      tagNames,
+      trimmedTitle,
+      validate,
+      weightText,
+    ]
   );
 
   const difficultyMeta: Record<Difficulty, { label: string; icon: keyof typeof Ionicons.glyphMap; color: string }> = {
@@ -227,6 +356,14 @@ export default function AddAssignmentScreen() {
               flexGrow: 1,
             }}
           >
+            <TouchableOpacity
+              style={styles.importLink}
+              onPress={() => router.push("/csv-import")}
+              accessibilityRole="button"
+            >
+              <Ionicons name="document-text-outline" size={16} color={colors.blue} />
+              <Text style={[styles.importLinkText, { color: colors.blue }]}>Adding lots of deadlines? Import a CSV</Text>
+            </TouchableOpacity>
             <View style={[styles.card, { backgroundColor: colors.card, borderColor: colors.border }]}>
               <View style={styles.formBody}>
               <Text style={[styles.sectionLabel, { color: colors.text }]}>Task title</Text>
@@ -257,7 +394,15 @@ export default function AddAssignmentScreen() {
 
               <Text style={[styles.sectionLabel, { color: colors.text, marginTop: 18 }]}>Due date</Text>
               <View style={styles.quickRow}>
-                <QuickChip label="No date" onPress={() => setDueDate(null)} active={dueDate === null} colors={colors} />
+                <QuickChip
+                  label="No date"
+                  onPress={() => {
+                    setDueDate(null);
+                    setRecurrence(null);
+                  }}
+                  active={dueDate === null}
+                  colors={colors}
+                />
                 <QuickChip label="Today" onPress={() => setDueDate(startOfToday())} active={duePreview === "Due: Today"} colors={colors} />
                 <QuickChip
                   label="Tomorrow"
@@ -289,6 +434,32 @@ export default function AddAssignmentScreen() {
                 <Text style={[styles.changeText, { color: colors.blue }]}>Change</Text>
               </TouchableOpacity>
 
+              <Text style={[styles.sectionLabel, { color: colors.text, marginTop: 18 }]}>Repeat</Text>
+              <RecurrencePicker
+                value={recurrence}
+                onChange={handleRecurrenceChange}
+                anchorDate={dueDate}
+                colors={colors}
+              />
+
+              <Text style={[styles.sectionLabel, { color: colors.text, marginTop: 18 }]}>Course (optional)</Text>
+              <CoursePicker
+                value={courseId}
+                onChange={setCourseId}
+                courses={courses}
+                onManage={() => router.push("/courses")}
+                colors={colors}
+              />
+
+              <Text style={[styles.sectionLabel, { color: colors.text, marginTop: 18 }]}>Assessment (optional)</Text>
+              <AssessmentFields
+                weight={weightText}
+                grade={gradeText}
+                onChangeWeight={setWeightText}
+                onChangeGrade={setGradeText}
+                colors={colors}
+              />
+
               <Text style={[styles.sectionLabel, { color: colors.text, marginTop: 18 }]}>Notes (optional)</Text>
               <TextInput
                 ref={descriptionRef}
@@ -304,6 +475,12 @@ export default function AddAssignmentScreen() {
                 textAlignVertical="top"
               />
 
+              <Text style={[styles.sectionLabel, { color: colors.text, marginTop: 18 }]}>Checklist (optional)</Text>
+              <SubtaskEditor items={subtasks} onChange={setSubtasks} colors={colors} allowToggle={false} />
+
+              <Text style={[styles.sectionLabel, { color: colors.text, marginTop: 18 }]}>Tags (optional)</Text>
+              <TagEditor value={tagNames} onChange={setTagNames} tags={knownTags} colors={colors} />
+
               <Text style={[styles.sectionLabel, { color: colors.text, marginTop: 18 }]}>Difficulty</Text>
               <View style={styles.difficultyRow}>
                 {(Object.keys(difficultyMeta) as Difficulty[]).map((level) => {
@@ -339,6 +516,14 @@ export default function AddAssignmentScreen() {
               </View>
               {difficultyError ? <Text style={[styles.errorText, { color: colors.red }]}>{difficultyError}</Text> : null}
 
+              <Text style={[styles.sectionLabel, { color: colors.text, marginTop: 18 }]}>Time estimate (optional)</Text>
+              <EstimatePicker
+                value={estimatedMinutes}
+                onChange={setEstimatedMinutes}
+                suggestion={estimateSuggestion}
+                colors={colors}
+              />
+
               <Text style={[styles.sectionLabel, { color: colors.text, marginTop: 18 }]}>Task options</Text>
               <View style={styles.optionRow}>
                 <TouchableOpacity
@@ -398,6 +583,15 @@ export default function AddAssignmentScreen() {
                 })}
               </View>
 
+              <Text style={[styles.sectionLabel, { color: colors.text, marginTop: 18 }]}>Reminders</Text>
+              <ReminderPicker
+                value={reminderOffsets}
+                onChange={setReminderOffsets}
+                defaultOffsets={reminderDefaults[category ?? "none"]}
+                hasDueDate={dueDate !== null}
+                colors={colors}
+              />
+
               <View style={styles.actionWrap}>
                 <TouchableOpacity
                   onPress={() => void saveTask("another")}
@@ -493,6 +687,17 @@ function QuickChip({
 }
 
 const styles = StyleSheet.create({
+  importLink: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    paddingHorizontal: 4,
+    paddingBottom: 10,
+  },
+  importLinkText: {
+    fontSize: 13,
+    fontWeight: "700",
+  },
   card: {
     borderRadius: 22,
     borderWidth: 1,
@@ -0,0 +1,355 @@
+import { Ionicons } from "@expo/vector-icons";
+import * as Clipboard from "expo-clipboard";
+import { useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+  Share,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+import { accentThemes, type AccentTheme } from "@/constants/accent-theme";
+import { useColorScheme } from "@/hooks/use-color-scheme";
+import { useThemeColors } from "@/hooks/use-theme-colors";
+import { useThemeOverride } from "@/hooks/useThemeOverride";
+import { createBackup, getBackupConflicts, restoreBackup } from "@/lib/backup";
+import {
+  describeBackup,
+  parseBackup,
+  type BackupConflict,
+  type BackupPayload,
+  type RestoreMode,
+} from "@/utils/backupFormat";
+
+function isAccentTheme(value: string | null): value is AccentTheme {
+  return !!value && value in accentThemes;
+}
+
+export default function BackupScreen() {
+  const scheme = useColorScheme();
+  const dark = scheme === "dark";
+  const colors = useThemeColors();
+  const { themeOverride, accentTheme, setThemeOverride, setAccentTheme } = useThemeOverride();
+
+  const [exporting, setExporting] = useState(false);
+  const [input, setInput] = useState("");
+  const [preview, setPreview] = useState<BackupPayload | null>(null);
+  const [conflicts, setConflicts] = useState<BackupConflict[]>([]);
+  const [checking, setChecking] = useState(false);
+  const [restoring, setRestoring] = useState(false);
+
+  const text = colors.textPrimary;
+  const subtext = colors.textMuted;
+  const card = colors.surface;
+  const border = colors.borderSubtle;
+  const inputBg = dark ? "#1B2230" : "#EEF2F7";
+  const appearance = { theme_override: themeOverride, accent_theme: accentTheme };
+
+  const buildBackupText = async () => JSON.stringify(await createBackup(appearance), null, 2);
+
+  const handleShare = async () => {
+    try {
+      setExporting(true);
+      await Share.share({ title: "Workload backup", message: await buildBackupText() });
+    } catch (error) {
+      if (__DEV__) console.error("Failed to export backup", error);
+      Alert.alert("Error", "Could not create a backup.");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    try {
+      setExporting(true);
+      await Clipboard.setStringAsync(await buildBackupText());
+      Alert.alert("Backup copied", "Paste it somewhere safe, like a note or an email to yourself.");
+    } catch (error) {
+      if (__DEV__) console.error("Failed to copy backup", error);
+      Alert.alert("Error", "Could not create a backup.");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handlePaste = async () => {
+    const pasted = await Clipboard.getStringAsync();
+    if (!pasted.trim()) {
+      Alert.alert("Clipboard is empty", "Copy a backup first, then try again.");
+      return;
+    }
+    setInput(pasted);
+    setPreview(null);
+  };
+
+  const handleCheck = async () => {
+    let backup: BackupPayload;
+    try {
+      backup = parseBackup(input);
+    } catch (error) {
+      setPreview(null);
+      Alert.alert("Can't read backup", error instanceof Error ? error.message : "Unknown error.");
+      return;
+    }
+    try {
+      setChecking(true);
+      setConflicts(await getBackupConflicts(backup, appearance));
+      setPreview(backup);
+    } catch (error) {
+      if (__DEV__) console.error("Failed to check backup", error);
+      Alert.alert("Error", "Could not compare the backup with this device.");
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const runRestore = async (mode: RestoreMode) => {
+    if (!preview) return;
+    try {
+      setRestoring(true);
+      const result = await restoreBackup(preview, mode);
+      if (result.appearance) {
+        setThemeOverride(result.appearance.theme_override);
+        if (isAccentTheme(result.appearance.accent_theme)) setAccentTheme(result.appearance.accent_theme);
+      }
+      const lines = [`${result.added} task${result.added === 1 ? "" : "s"} restored.`];
+      if (result.skipped) lines.push(`${result.skipped} already on this device and skipped.`);
+      if (result.reminderBlocked) lines.push("Turn on notifications to bring back the daily reminder.");
+      setInput("");
+      setPreview(null);
+      setConflicts([]);
+      Alert.alert("Restore complete", lines.join("\n"));
+    } catch (error) {
+      if (__DEV__) console.error("Failed to restore backup", error);
+      Alert.alert("Error", "Could not restore the backup. Nothing was changed.");
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  const confirmReplace = () => {
+    Alert.alert(
+      "Replace all data?",
+      "Your current tasks will be deleted and your reminder, theme and tab bar settings overwritten by the backup. Your focus history is kept.",
+      [
+        { text: "Cancel", style: "cancel" },
+        { text: "Replace", style: "destructive", onPress: () => runRestore("replace") },
+      ],
+      { userInterfaceStyle: dark ? "dark" : "light" }
+    );
+  };
+
+  const busy = exporting || checking || restoring;
+
+  return (
+    <View style={{ flex: 1, backgroundColor: colors.background }}>
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        <View style={styles.sectionHeaderWrap}>
+          <Text style={[styles.sectionTitle, { color: text }]}>Export</Text>
+          <Text style={[styles.sectionSubtitle, { color: subtext }]}>
+            Tasks, checklists, repeat rules, tab bar shortcuts, reminder and theme settings. Your password is never
+            included.
+          </Text>
+        </View>
+
+        <View style={[styles.card, { backgroundColor: card }]}>
+          <TouchableOpacity style={styles.row} onPress={handleShare} disabled={busy} activeOpacity={0.8}>
+            <Ionicons name="share-outline" size={20} color={colors.accentBlue} />
+            <Text style={[styles.label, { color: text }]}>Share backup</Text>
+            {exporting ? <ActivityIndicator size="small" color={colors.accentBlue} /> : null}
+          </TouchableOpacity>
+          <View style={[styles.rowDivider, { backgroundColor: border }]} />
+          <TouchableOpacity style={styles.row} onPress={handleCopy} disabled={busy} activeOpacity={0.8}>
+            <Ionicons name="copy-outline" size={20} color={colors.accentBlue} />
+            <Text style={[styles.label, { color: text }]}>Copy to clipboard</Text>
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.sectionHeaderWrap}>
+          <Text style={[styles.sectionTitle, { color: text }]}>Restore</Text>
+          <Text style={[styles.sectionSubtitle, { color: subtext }]}>
+            Paste a backup, check it, then merge it into this device or replace everything with it.
+          </Text>
+        </View>
+
+        <View style={[styles.card, styles.restoreCard, { backgroundColor: card }]}>
+          <TextInput
+            value={input}
+            onChangeText={(value) => {
+              setInput(value);
+              setPreview(null);
+            }}
+            placeholder='{"format": "workloadassapp-backup", ...}'
+            placeholderTextColor={subtext}
+            multiline
+            autoCapitalize="none"
+            autoCorrect={false}
+            style={[styles.input, { color: text, backgroundColor: inputBg, borderColor: border }]}
+          />
+          <View style={styles.buttonRow}>
+            <TouchableOpacity
+              style={[styles.button, { borderColor: border }]}
+              onPress={handlePaste}
+              disabled={busy}
+              activeOpacity={0.8}
+            >
+              <Ionicons name="clipboard-outline" size={16} color={text} />
+              <Text style={[styles.buttonText, { color: text }]}>Paste</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.button, { backgroundColor: colors.accentBlue, borderColor: colors.accentBlue }]}
+              onPress={handleCheck}
+              disabled={busy || !input.trim()}
+              activeOpacity={0.8}
+            >
+              {checking ? (
+                <ActivityIndicator size="small" color="#fff" />
+              ) : (
+                <Text style={[styles.buttonText, { color: "#fff" }]}>Check backup</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        {preview ? (
+          <View style={[styles.card, styles.restoreCard, { backgroundColor: card }]}>
+            <Text style={[styles.label, { color: text }]}>{describeBackup(preview)}</Text>
+            {preview.user ? (
+              <Text style={[styles.rowHint, { color: subtext }]}>From {preview.user.email}</Text>
+            ) : null}
+
+            {conflicts.length ? (
+              <View style={styles.conflictList}>
+                {conflicts.map((conflict) => (
+                  <View key={conflict.kind} style={styles.conflictRow}>
+                    <Ionicons name="alert-circle-outline" size={16} color={colors.warningYellow} />
+                    <Text style={[styles.rowHint, styles.conflictText, { color: text }]}>{conflict.message}</Text>
+                  </View>
+                ))}
+              </View>
+            ) : (
+              <Text style={[styles.rowHint, { color: subtext }]}>No conflicts with this device.</Text>
+            )}
+
+            <View style={styles.buttonRow}>
+              <TouchableOpacity
+                style={[styles.button, { backgroundColor: colors.accentBlue, borderColor: colors.accentBlue }]}
+                onPress={() => runRestore("merge")}
+                disabled={busy}
+                activeOpacity={0.8}
+              >
+                {restoring ? (
+                  <ActivityIndicator size="small" color="#fff" />
+                ) : (
+                  <Text style={[styles.buttonText, { color: "#fff" }]}>Merge</Text>
+                )}
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.button, { borderColor: colors.dangerRed }]}
+                onPress={confirmReplace}
+                disabled={busy}
+                activeOpacity={0.8}
+              >
+                <Text style={[styles.buttonText, { color: colors.dangerRed }]}>Replace</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        ) : null}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  content: {
+    paddingHorizontal: 16,
+    paddingTop: 14,
+    paddingBottom: 42,
+    gap: 14,
+  },
+  sectionHeaderWrap: {
+    marginBottom: 2,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: "800",
+    marginBottom: 2,
+  },
+  sectionSubtitle: {
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  card: {
+    borderRadius: 16,
+    paddingVertical: 2,
+    overflow: "hidden",
+  },
+  restoreCard: {
+    padding: 14,
+    gap: 10,
+  },
+  row: {
+    minHeight: 54,
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    gap: 12,
+  },
+  rowDivider: {
+    height: StyleSheet.hairlineWidth,
+    marginLeft: 48,
+  },
+  label: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  rowHint: {
+    fontSize: 13,
+    lineHeight: 17,
+  },
+  input: {
+    minHeight: 120,
+    maxHeight: 220,
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 12,
+    fontSize: 13,
+    textAlignVertical: "top",
+  },
+  buttonRow: {
+    flexDirection: "row",
+    gap: 8,
+  },
+  button: {
+    flex: 1,
+    minHeight: 44,
+    borderWidth: 1,
+    borderRadius: 12,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 6,
+  },
+  buttonText: {
+    fontSize: 14,
+    fontWeight: "700",
+  },
+  conflictList: {
+    gap: 8,
+  },
+  conflictRow: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    gap: 8,
+  },
+  conflictText: {
+    flex: 1,
+  },
+});
@@ -0,0 +1,363 @@
+import { Ionicons } from "@expo/vector-icons";
+import * as Clipboard from "expo-clipboard";
+import { useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+  Share,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+import { useColorScheme } from "@/hooks/use-color-scheme";
+import { useThemeColors } from "@/hooks/use-theme-colors";
+import { exportTasksAsICS, importICSPlan, loadICSSource, previewICSImport } from "@/lib/ical-transfer";
+import type { ICalImportPlan, ICalKind } from "@/utils/ical";
+
+const PREVIEW_LIMIT = 5;
+
+function formatDue(iso: string | null) {
+  if (!iso) return "No date";
+  return new Date(`${iso}T00:00:00`).toLocaleDateString(undefined, { weekday: "short", day: "numeric", month: "short" });
+}
+
+export default function CalendarSyncScreen() {
+  const scheme = useColorScheme();
+  const dark = scheme === "dark";
+  const colors = useThemeColors();
+
+  const [kind, setKind] = useState<ICalKind>("todo");
+  const [exporting, setExporting] = useState(false);
+  const [input, setInput] = useState("");
+  const [plan, setPlan] = useState<ICalImportPlan | null>(null);
+  const [checking, setChecking] = useState(false);
+  const [importing, setImporting] = useState(false);
+
+  const text = colors.textPrimary;
+  const subtext = colors.textMuted;
+  const card = colors.surface;
+  const border = colors.borderSubtle;
+  const inputBg = dark ? "#1B2230" : "#EEF2F7";
+
+  const exportCalendar = async (target: "share" | "copy") => {
+    try {
+      setExporting(true);
+      const { text: ics, count } = await exportTasksAsICS(kind);
+      if (!count) {
+        Alert.alert("Nothing to export", kind === "event" ? "No open tasks have a due date." : "You have no open tasks.");
+        return;
+      }
+      if (target === "share") {
+        await Share.share({ title: "Workload tasks.ics", message: ics });
+      } else {
+        await Clipboard.setStringAsync(ics);
+        Alert.alert("Calendar copied", `${count} task${count === 1 ? "" : "s"} copied. Save it as a .ics file to import elsewhere.`);
+      }
+    } catch (error) {
+      if (__DEV__) console.error("Failed to export calendar", error);
+      Alert.alert("Error", "Could not export your tasks.");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handlePaste = async () => {
+    const pasted = await Clipboard.getStringAsync();
+    if (!pasted.trim()) {
+      Alert.alert("Clipboard is empty", "Copy a calendar or a calendar link first, then try again.");
+      return;
+    }
+    setInput(pasted);
+    setPlan(null);
+  };
+
+  const handlePreview = async () => {
+    try {
+      setChecking(true);
+      setPlan(await previewICSImport(await loadICSSource(input)));
+    } catch (error) {
+      setPlan(null);
+      if (__DEV__) console.error("Failed to read calendar", error);
+      Alert.alert("Can't read calendar", error instanceof Error ? error.message : "Unknown error.");
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!plan) return;
+    try {
+      setImporting(true);
+      const added = await importICSPlan(plan);
+      setInput("");
+      setPlan(null);
+      Alert.alert("Import complete", `${added} task${added === 1 ? "" : "s"} added.`);
+    } catch (error) {
+      if (__DEV__) console.error("Failed to import calendar", error);
+      Alert.alert("Error", "Some entries could not be imported. Check your tasks before trying again.");
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const busy = exporting || checking || importing;
+
+  return (
+    <View style={{ flex: 1, backgroundColor: colors.background }}>
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        <View style={styles.sectionHeaderWrap}>
+          <Text style={[styles.sectionTitle, { color: text }]}>Export deadlines</Text>
+          <Text style={[styles.sectionSubtitle, { color: subtext }]}>
+            Open tasks as an .ics calendar for Google Calendar, Outlook or Apple Calendar. Notes, priority, category
+            and repeat rules come along.
+          </Text>
+        </View>
+
+        <View style={[styles.card, styles.padded, { backgroundColor: card }]}>
+          <View style={styles.chipRow}>
+            {(["todo", "event"] as const).map((option) => {
+              const active = kind === option;
+              return (
+                <TouchableOpacity
+                  key={option}
+                  onPress={() => setKind(option)}
+                  style={[
+                    styles.chip,
+                    {
+                      borderColor: active ? colors.accentBlue : border,
+                      backgroundColor: active ? `${colors.accentBlue}22` : "transparent",
+                    },
+                  ]}
+                >
+                  <Text style={[styles.chipText, { color: active ? colors.accentBlue : text }]}>
+                    {option === "todo" ? "To-dos" : "All-day events"}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+          <Text style={[styles.rowHint, { color: subtext }]}>
+            {kind === "todo"
+              ? "Best for apps with a to-do list. Tasks without a date are included."
+              : "Shows up in any calendar. Tasks without a due date are left out."}
+          </Text>
+          <View style={styles.buttonRow}>
+            <TouchableOpacity
+              style={[styles.button, { backgroundColor: colors.accentBlue, borderColor: colors.accentBlue }]}
+              onPress={() => exportCalendar("share")}
+              disabled={busy}
+              activeOpacity={0.8}
+            >
+              {exporting ? (
+                <ActivityIndicator size="small" color="#fff" />
+              ) : (
+                <>
+                  <Ionicons name="share-outline" size={16} color="#fff" />
+                  <Text style={[styles.buttonText, { color: "#fff" }]}>Share .ics</Text>
+                </>
+              )}
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.button, { borderColor: border }]}
+              onPress={() => exportCalendar("copy")}
+              disabled={busy}
+              activeOpacity={0.8}
+            >
+              <Ionicons name="copy-outline" size={16} color={text} />
+              <Text style={[styles.buttonText, { color: text }]}>Copy</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        <View style={styles.sectionHeaderWrap}>
+          <Text style={[styles.sectionTitle, { color: text }]}>Import a calendar</Text>
+          <Text style={[styles.sectionSubtitle, { color: subtext }]}>
+            Paste .ics text or a timetable link. Entries you already imported are skipped.
+          </Text>
+        </View>
+
+        <View style={[styles.card, styles.padded, { backgroundColor: card }]}>
+          <TextInput
+            value={input}
+            onChangeText={(value) => {
+              setInput(value);
+              setPlan(null);
+            }}
+            placeholder="BEGIN:VCALENDAR… or webcal://…"
+            placeholderTextColor={subtext}
+            multiline
+            autoCapitalize="none"
+            autoCorrect={false}
+            style={[styles.input, { color: text, backgroundColor: inputBg, borderColor: border }]}
+          />
+          <View style={styles.buttonRow}>
+            <TouchableOpacity
+              style={[styles.button, { borderColor: border }]}
+              onPress={handlePaste}
+              disabled={busy}
+              activeOpacity={0.8}
+            >
+              <Ionicons name="clipboard-outline" size={16} color={text} />
+              <Text style={[styles.buttonText, { color: text }]}>Paste</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.button, { backgroundColor: colors.accentBlue, borderColor: colors.accentBlue }]}
+              onPress={handlePreview}
+              disabled={busy || !input.trim()}
+              activeOpacity={0.8}
+            >
+              {checking ? (
+                <ActivityIndicator size="small" color="#fff" />
+              ) : (
+                <Text style={[styles.buttonText, { color: "#fff" }]}>Preview</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        {plan ? (
+          <View style={[styles.card, styles.padded, { backgroundColor: card }]}>
+            <Text style={[styles.label, { color: text }]}>
+              {plan.toAdd.length} new task{plan.toAdd.length === 1 ? "" : "s"}
+            </Text>
+            {plan.duplicates || plan.skipped ? (
+              <Text style={[styles.rowHint, { color: subtext }]}>
+                {[
+                  plan.duplicates ? `${plan.duplicates} already imported` : null,
+                  plan.skipped ? `${plan.skipped} finished or in the past` : null,
+                ]
+                  .filter(Boolean)
+                  .join(" · ")}
+              </Text>
+            ) : null}
+
+            {plan.toAdd.slice(0, PREVIEW_LIMIT).map((item, index) => (
+              <View key={`${item.uid ?? item.title}-${index}`} style={styles.previewRow}>
+                <Ionicons name={item.recurrence ? "repeat" : "calendar-outline"} size={15} color={subtext} />
+                <Text style={[styles.previewTitle, { color: text }]} numberOfLines={1}>
+                  {item.title}
+                </Text>
+                <Text style={[styles.rowHint, { color: subtext }]}>{formatDue(item.due_date)}</Text>
+              </View>
+            ))}
+            {plan.toAdd.length > PREVIEW_LIMIT ? (
+              <Text style={[styles.rowHint, { color: subtext }]}>and {plan.toAdd.length - PREVIEW_LIMIT} more</Text>
+            ) : null}
+
+            <TouchableOpacity
+              style={[
+                styles.button,
+                { backgroundColor: colors.accentBlue, borderColor: colors.accentBlue },
+                !plan.toAdd.length && styles.disabled,
+              ]}
+              onPress={handleImport}
+              disabled={busy || !plan.toAdd.length}
+              activeOpacity={0.8}
+            >
+              {importing ? (
+                <ActivityIndicator size="small" color="#fff" />
+              ) : (
+                <Text style={[styles.buttonText, { color: "#fff" }]}>Import</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        ) : null}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  content: {
+    paddingHorizontal: 16,
+    paddingTop: 14,
+    paddingBottom: 42,
+    gap: 14,
+  },
+  sectionHeaderWrap: {
+    marginBottom: 2,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: "800",
+    marginBottom: 2,
+  },
+  sectionSubtitle: {
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  card: {
+    borderRadius: 16,
+    overflow: "hidden",
+  },
+  padded: {
+    padding: 14,
+    gap: 10,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  rowHint: {
+    fontSize: 13,
+    lineHeight: 17,
+  },
+  chipRow: {
+    flexDirection: "row",
+    gap: 8,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 999,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: "700",
+  },
+  input: {
+    minHeight: 120,
+    maxHeight: 220,
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 12,
+    fontSize: 13,
+    textAlignVertical: "top",
+  },
+  buttonRow: {
+    flexDirection: "row",
+    gap: 8,
+  },
+  button: {
+    flex: 1,
+    minHeight: 44,
+    borderWidth: 1,
+    borderRadius: 12,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 6,
+  },
+  buttonText: {
+    fontSize: 14,
+    fontWeight: "700",
+  },
+  previewRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  previewTitle: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  disabled: {
+    opacity: 0.5,
+  },
+});
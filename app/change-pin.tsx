@@ -1,6 +1,7 @@
 import { PasscodeKeypad } from "@/components/passcode-keypad";
 import { useColorScheme } from "@/hooks/use-color-scheme";
 import { setPinHash, verifyPin } from "@/lib/app-lock-storage";
+import { rewrapDataKey } from "@/lib/database";
 import { Ionicons } from "@expo/vector-icons";
 import * as Haptics from "expo-haptics";
 import { Stack, router } from "expo-router";
@@ -57,6 +58,8 @@ export default function ChangePinScreen() {
     // confirm stage
     if (pendingNew && pin === pendingNew) {
       await setPinHash(pin);
+      // Task encryption may keep its recovery key under the PIN
+      await rewrapDataKey("pin", pin);
       void Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
       Alert.alert("PIN updated", "Your app lock PIN has been changed.", [
         { text: "OK", onPress: () => router.back() },
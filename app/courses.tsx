@@ -0,0 +1,664 @@
+import DateTimePicker, { DateTimePickerEvent } from "@react-native-community/datetimepicker";
+import { Ionicons } from "@expo/vector-icons";
+import { useFocusEffect } from "expo-router";
+import { useCallback, useMemo, useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  Modal,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+import { useColorScheme } from "@/hooks/use-color-scheme";
+import { useThemeColors } from "@/hooks/use-theme-colors";
+import { addCourse, deleteCourse, getCourses, getEffortSamples, getTasks, updateCourse } from "@/lib/database";
+import {
+  COURSE_COLORS,
+  courseLabel,
+  courseToForm,
+  describeExam,
+  emptyCourseForm,
+  readCourseForm,
+  summarizeCourses,
+  type Course,
+  type CourseForm,
+} from "@/utils/courses";
+import { calibrateEstimates, estimateTaskMinutes, type EffortCalibration } from "@/utils/effortEstimate";
+import {
+  describeRequiredGrade,
+  formatPercent,
+  readAssessmentWeight,
+  readGrade,
+  requiredGrade,
+  summarizeGrades,
+  summarizeGradesByCourse,
+} from "@/utils/grades";
+import { scaleBySubtasksLeft } from "@/utils/subtaskProgress";
+import { formatDuration } from "@/utils/workSessions";
+
+type Task = Awaited<ReturnType<typeof getTasks>>[number];
+
+function toISODateLocal(date: Date) {
+  const y = date.getFullYear();
+  const m = String(date.getMonth() + 1).padStart(2, "0");
+  const d = String(date.getDate()).padStart(2, "0");
+  return `${y}-${m}-${d}`;
+}
+
+function formatExamDate(iso: string) {
+  const [y, m, d] = iso.split("-").map(Number);
+  return new Date(y, m - 1, d).toLocaleDateString(undefined, { weekday: "short", day: "numeric", month: "short" });
+}
+
+export default function CoursesScreen() {
+  const scheme = useColorScheme();
+  const dark = scheme === "dark";
+  const colors = useThemeColors();
+
+  const [courses, setCourses] = useState<Course[] | null>(null);
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [calibration, setCalibration] = useState<EffortCalibration>({});
+  const [form, setForm] = useState<CourseForm>(emptyCourseForm());
+  // null while adding a new course
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [showExamPicker, setShowExamPicker] = useState(false);
+  const [draftExam, setDraftExam] = useState(new Date());
+  // "What do I need?" calculator; null picks the first course with grades
+  const [calcCourseId, setCalcCourseId] = useState<number | null>(null);
+  const [targetText, setTargetText] = useState("70");
+  const [finalText, setFinalText] = useState("");
+
+  const text = colors.textPrimary;
+  const subtext = colors.textMuted;
+  const card = colors.surface;
+  const border = colors.borderSubtle;
+  const accent = colors.accentBlue;
+  const inputBg = dark ? "#1B2230" : "#EEF2F7";
+
+  const load = useCallback(async () => {
+    try {
+      const [nextCourses, nextTasks, samples] = await Promise.all([getCourses(), getTasks(), getEffortSamples()]);
+      setCourses(nextCourses);
+      setTasks(nextTasks);
+      setCalibration(calibrateEstimates(samples));
+      return nextCourses;
+    } catch (error) {
+      if (__DEV__) console.error("Failed to load courses", error);
+      setCourses((prev) => prev ?? []);
+      return null;
+    }
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      load().then((loaded) => {
+        if (loaded) setForm((prev) => (prev.name ? prev : emptyCourseForm(loaded)));
+      });
+    }, [load])
+  );
+
+  const today = toISODateLocal(new Date());
+  const summaries = useMemo(
+    () =>
+      summarizeCourses(tasks, courses ?? [], today, (task) =>
+        scaleBySubtasksLeft(estimateTaskMinutes(task, calibration).minutes, task)
+      ),
+    [calibration, courses, tasks, today]
+  );
+  const gradeSummaries = useMemo(() => summarizeGradesByCourse(tasks), [tasks]);
+  const unassigned = summaries.find((summary) => summary.course === null);
+  const editing = courses?.find((course) => course.id === editingId) ?? null;
+  const renamedTasks =
+    editing && form.name.trim() && form.name.trim() !== editing.name
+      ? tasks.filter((task) => task.course_id === editing.id).length
+      : 0;
+
+  const resetForm = (list: Course[] = courses ?? []) => {
+    setEditingId(null);
+    setForm(emptyCourseForm(list));
+  };
+
+  const startEditing = (course: Course) => {
+    setEditingId(course.id);
+    setForm(courseToForm(course));
+  };
+
+  const save = async () => {
+    if (saving || !courses) return;
+    let draft;
+    try {
+      draft = readCourseForm(form, courses, editingId);
+    } catch (error) {
+      Alert.alert("Check the course", error instanceof Error ? error.message : "Please try again.");
+      return;
+    }
+    setSaving(true);
+    try {
+      if (editingId !== null) await updateCourse(editingId, draft);
+      else await addCourse(draft);
+      const loaded = await load();
+      resetForm(loaded ?? courses);
+    } catch (error) {
+      if (__DEV__) console.error("Failed to save course", error);
+      Alert.alert("Save failed", "Could not save this course. Please try again.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const confirmDelete = (course: Course) => {
+    const count = tasks.filter((task) => task.course_id === course.id).length;
+    Alert.alert(
+      `Delete ${course.name}?`,
+      count
+        ? `Its ${count} task${count === 1 ? "" : "s"} will stay, without a course.`
+        : "No tasks are on this course.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await deleteCourse(course.id);
+              const loaded = await load();
+              resetForm(loaded ?? []);
+            } catch (error) {
+              if (__DEV__) console.error("Failed to delete course", error);
+              Alert.alert("Delete failed", "Could not delete this course. Please try again.");
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const openExamPicker = () => {
+    const [y, m, d] = (form.exam_date ?? today).split("-").map(Number);
+    setDraftExam(new Date(y, m - 1, d));
+    setShowExamPicker(true);
+  };
+
+  const onExamChange = (event: DateTimePickerEvent, date?: Date) => {
+    if (event.type === "dismissed" || !date) return;
+    setDraftExam(date);
+  };
+
+  if (!courses) {
+    return (
+      <View style={[styles.loading, { backgroundColor: colors.background }]}>
+        <ActivityIndicator color={accent} />
+      </View>
+    );
+  }
+
+  const calcCourse =
+    courses.find((course) => course.id === calcCourseId) ??
+    courses.find((course) => gradeSummaries.has(course.id)) ??
+    courses[0] ??
+    null;
+  const calcSummary = (calcCourse && gradeSummaries.get(calcCourse.id)) || summarizeGrades([]);
+  let calcResult: string;
+  try {
+    const target = readGrade(targetText);
+    const finalWeight = readAssessmentWeight(finalText);
+    calcResult =
+      target === null
+        ? "Enter the grade you're aiming for."
+        : describeRequiredGrade(requiredGrade(calcSummary, target, finalWeight ?? undefined), target);
+  } catch (error) {
+    calcResult = error instanceof Error ? error.message : "Check the numbers.";
+  }
+
+  const field = (
+    key: "name" | "code" | "term" | "credit_weight",
+    label: string,
+    placeholder: string,
+    keyboardType: "default" | "decimal-pad" = "default"
+  ) => (
+    <View style={styles.field}>
+      <Text style={[styles.fieldLabel, { color: subtext }]}>{label}</Text>
+      <TextInput
+        value={form[key]}
+        onChangeText={(value) => setForm({ ...form, [key]: value })}
+        placeholder={placeholder}
+        placeholderTextColor={subtext}
+        keyboardType={keyboardType}
+        autoCapitalize={key === "code" ? "characters" : "sentences"}
+        style={[styles.input, { color: text, backgroundColor: inputBg, borderColor: border }]}
+      />
+    </View>
+  );
+
+  return (
+    <View style={{ flex: 1, backgroundColor: colors.background }}>
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        <View style={styles.sectionHeaderWrap}>
+          <Text style={[styles.sectionTitle, { color: text }]}>Your courses</Text>
+          <Text style={[styles.sectionSubtitle, { color: subtext }]}>
+            Tasks on a course are grouped by it in the planner and can be filtered on the calendar.
+          </Text>
+        </View>
+
+        <View style={[styles.card, { backgroundColor: card }]}>
+          {summaries
+            .filter((summary) => summary.course !== null)
+            .map((summary, index) => {
+              const course = summary.course!;
+              const exam = describeExam(course.exam_date, today);
+              const details = [
+                course.term,
+                course.credit_weight !== null ? `${course.credit_weight} credits` : null,
+                exam,
+              ].filter(Boolean);
+              const stats = summary.open
+                ? [
+                    `${summary.open} open`,
+                    summary.overdue ? `${summary.overdue} overdue` : null,
+                    summary.minutesLeft ? `~${formatDuration(summary.minutesLeft * 60)} left` : null,
+                  ]
+                    .filter(Boolean)
+                    .join(" · ")
+                : summary.done
+                  ? `All ${summary.done} done`
+                  : "No tasks yet";
+              const grades = gradeSummaries.get(course.id);
+              const gradeLine = grades
+                ? [
+                    grades.average !== null
+                      ? `Average ${formatPercent(grades.average)} over ${formatPercent(grades.gradedWeight)} marked`
+                      : "Nothing marked yet",
+                    grades.pendingWeight ? `${formatPercent(grades.pendingWeight)} to come` : null,
+                  ]
+                    .filter(Boolean)
+                    .join(" · ")
+                : null;
+              return (
+                <TouchableOpacity
+                  key={course.id}
+                  onPress={() => startEditing(course)}
+                  style={[
+                    styles.row,
+                    index > 0 && styles.rowDivider,
+                    { borderTopColor: border },
+                    course.id === editingId && { backgroundColor: `${course.color}14` },
+                  ]}
+                  accessibilityRole="button"
+                  accessibilityLabel={`Edit ${course.name}`}
+                >
+                  <View style={[styles.colorDot, { backgroundColor: course.color }]} />
+                  <View style={{ flex: 1 }}>
+                    <Text style={[styles.label, { color: text }]} numberOfLines={1}>
+                      {courseLabel(course)}
+                    </Text>
+                    {details.length ? (
+                      <Text style={[styles.rowHint, { color: subtext }]}>{details.join(" · ")}</Text>
+                    ) : null}
+                    <Text style={[styles.rowHint, { color: summary.overdue ? colors.dangerRed : subtext }]}>{stats}</Text>
+                    {gradeLine ? <Text style={[styles.rowHint, { color: subtext }]}>{gradeLine}</Text> : null}
+                  </View>
+                  <Ionicons name="chevron-forward" size={18} color={subtext} />
+                </TouchableOpacity>
+              );
+            })}
+          {!courses.length ? (
+            <View style={styles.padded}>
+              <Text style={[styles.rowHint, { color: subtext }]}>
+                No courses yet. Add one below, or give a task a subject and it will appear here.
+              </Text>
+            </View>
+          ) : null}
+          {unassigned?.open ? (
+            <View style={[styles.padded, courses.length > 0 && styles.rowDivider, { borderTopColor: border }]}>
+              <Text style={[styles.rowHint, { color: subtext }]}>
+                {unassigned.open} open task{unassigned.open === 1 ? " has" : "s have"} no course.
+              </Text>
+            </View>
+          ) : null}
+        </View>
+
+        {calcCourse ? (
+          <>
+            <View style={styles.sectionHeaderWrap}>
+              <Text style={[styles.sectionTitle, { color: text }]}>What do I need?</Text>
+              <Text style={[styles.sectionSubtitle, { color: subtext }]}>
+                Uses the weights and grades on each course&apos;s tasks. Anything unmarked outside the final counts as zero.
+              </Text>
+            </View>
+
+            <View style={[styles.card, styles.padded, { backgroundColor: card }]}>
+              <View style={styles.swatchRow}>
+                {courses.map((course) => {
+                  const active = course.id === calcCourse.id;
+                  return (
+                    <TouchableOpacity
+                      key={course.id}
+                      onPress={() => setCalcCourseId(course.id)}
+                      style={[
+                        styles.chip,
+                        {
+                          borderColor: active ? course.color : border,
+                          backgroundColor: active ? `${course.color}1F` : "transparent",
+                        },
+                      ]}
+                      accessibilityState={{ selected: active }}
+                    >
+                      <View style={[styles.chipDot, { backgroundColor: course.color }]} />
+                      <Text style={[styles.chipText, { color: active ? text : subtext }]} numberOfLines={1}>
+                        {courseLabel(course)}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+              <View style={styles.fieldRow}>
+                <View style={[styles.field, { flex: 1 }]}>
+                  <Text style={[styles.fieldLabel, { color: subtext }]}>Aiming for (%)</Text>
+                  <TextInput
+                    value={targetText}
+                    onChangeText={setTargetText}
+                    placeholder="e.g. 70"
+                    placeholderTextColor={subtext}
+                    keyboardType="decimal-pad"
+                    style={[styles.input, { color: text, backgroundColor: inputBg, borderColor: border }]}
+                  />
+                </View>
+                <View style={[styles.field, { flex: 1 }]}>
+                  <Text style={[styles.fieldLabel, { color: subtext }]}>Final worth (%)</Text>
+                  <TextInput
+                    value={finalText}
+                    onChangeText={setFinalText}
+                    placeholder={formatPercent(Math.max(0, 100 - calcSummary.gradedWeight))}
+                    placeholderTextColor={subtext}
+                    keyboardType="decimal-pad"
+                    style={[styles.input, { color: text, backgroundColor: inputBg, borderColor: border }]}
+                  />
+                </View>
+              </View>
+              <Text style={[styles.rowHint, { color: subtext }]}>
+                {calcSummary.average !== null
+                  ? `${formatPercent(calcSummary.earned)} of the course secured so far.`
+                  : "No marked assessments on this course yet."}
+              </Text>
+              <Text style={[styles.label, { color: text }]}>{calcResult}</Text>
+            </View>
+          </>
+        ) : null}
+
+        <View style={styles.sectionHeaderWrap}>
+          <Text style={[styles.sectionTitle, { color: text }]}>{editing ? `Edit ${editing.name}` : "Add a course"}</Text>
+          <Text style={[styles.sectionSubtitle, { color: subtext }]}>
+            {editing
+              ? "Renaming a course renames it on all of its tasks."
+              : "A short code, term and exam date help the planner put the right course first."}
+          </Text>
+        </View>
+
+        <View style={[styles.card, styles.padded, { backgroundColor: card }]}>
+          {field("name", "Name", "e.g. Algorithms")}
+          <View style={styles.fieldRow}>
+            <View style={{ flex: 1 }}>{field("code", "Code", "CS101")}</View>
+            <View style={{ flex: 1 }}>{field("credit_weight", "Credits", "e.g. 20", "decimal-pad")}</View>
+          </View>
+          {field("term", "Term", "e.g. Autumn 2026")}
+
+          <View style={styles.field}>
+            <Text style={[styles.fieldLabel, { color: subtext }]}>Colour</Text>
+            <View style={styles.swatchRow}>
+              {COURSE_COLORS.map((color) => (
+                <TouchableOpacity
+                  key={color}
+                  onPress={() => setForm({ ...form, color })}
+                  style={[styles.swatch, { backgroundColor: color, borderColor: form.color === color ? text : "transparent" }]}
+                  accessibilityLabel={`Use colour ${color}`}
+                  accessibilityState={{ selected: form.color === color }}
+                />
+              ))}
+            </View>
+          </View>
+
+          <View style={styles.field}>
+            <Text style={[styles.fieldLabel, { color: subtext }]}>Exam date</Text>
+            <View style={styles.fieldRow}>
+              <TouchableOpacity
+                style={[styles.dateButton, { borderColor: border, backgroundColor: inputBg }]}
+                onPress={openExamPicker}
+                activeOpacity={0.8}
+              >
+                <Ionicons name="calendar-outline" size={16} color={accent} />
+                <Text style={[styles.dateText, { color: form.exam_date ? text : subtext }]}>
+                  {form.exam_date ? formatExamDate(form.exam_date) : "No exam"}
+                </Text>
+              </TouchableOpacity>
+              {form.exam_date ? (
+                <TouchableOpacity onPress={() => setForm({ ...form, exam_date: null })} hitSlop={8}>
+                  <Text style={[styles.linkText, { color: accent }]}>Clear</Text>
+                </TouchableOpacity>
+              ) : null}
+            </View>
+          </View>
+
+          {renamedTasks ? (
+            <Text style={[styles.rowHint, { color: subtext }]}>
+              Saving renames {renamedTasks} task{renamedTasks === 1 ? "" : "s"}.
+            </Text>
+          ) : null}
+
+          <TouchableOpacity
+            style={[styles.button, { backgroundColor: accent, borderColor: accent, opacity: saving ? 0.6 : 1 }]}
+            onPress={save}
+            disabled={saving}
+            activeOpacity={0.8}
+          >
+            <Ionicons name={editing ? "checkmark" : "add"} size={16} color="#fff" />
+            <Text style={[styles.buttonText, { color: "#fff" }]}>{editing ? "Save course" : "Add course"}</Text>
+          </TouchableOpacity>
+          {editing ? (
+            <View style={styles.fieldRow}>
+              <TouchableOpacity
+                style={[styles.button, { flex: 1, borderColor: border }]}
+                onPress={() => resetForm()}
+                activeOpacity={0.8}
+              >
+                <Text style={[styles.buttonText, { color: text }]}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.button, { flex: 1, borderColor: colors.dangerRed }]}
+                onPress={() => confirmDelete(editing)}
+                activeOpacity={0.8}
+              >
+                <Ionicons name="trash-outline" size={16} color={colors.dangerRed} />
+                <Text style={[styles.buttonText, { color: colors.dangerRed }]}>Delete</Text>
+              </TouchableOpacity>
+            </View>
+          ) : null}
+        </View>
+      </ScrollView>
+
+      <Modal transparent visible={showExamPicker} animationType="fade" onRequestClose={() => setShowExamPicker(false)}>
+        <TouchableOpacity activeOpacity={1} onPress={() => setShowExamPicker(false)} style={styles.modalOverlay}>
+          <TouchableOpacity activeOpacity={1} style={[styles.pickerCard, { backgroundColor: card }]}>
+            <Text style={[styles.modalTitle, { color: text }]}>Exam date</Text>
+            <DateTimePicker
+              mode="date"
+              display="spinner"
+              value={draftExam}
+              onChange={onExamChange}
+              themeVariant={dark ? "dark" : "light"}
+            />
+            <TouchableOpacity
+              style={[styles.button, { backgroundColor: accent, borderColor: accent }]}
+              onPress={() => {
+                setForm({ ...form, exam_date: toISODateLocal(draftExam) });
+                setShowExamPicker(false);
+              }}
+            >
+              <Text style={[styles.buttonText, { color: "#fff" }]}>Set</Text>
+            </TouchableOpacity>
+          </TouchableOpacity>
+        </TouchableOpacity>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  loading: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  content: {
+    paddingHorizontal: 16,
+    paddingTop: 14,
+    paddingBottom: 42,
+    gap: 14,
+  },
+  sectionHeaderWrap: {
+    marginBottom: 2,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: "800",
+    marginBottom: 2,
+  },
+  sectionSubtitle: {
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  card: {
+    borderRadius: 16,
+    overflow: "hidden",
+  },
+  padded: {
+    padding: 14,
+    gap: 10,
+  },
+  row: {
+    minHeight: 54,
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+  },
+  rowDivider: {
+    borderTopWidth: StyleSheet.hairlineWidth,
+  },
+  colorDot: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  rowHint: {
+    fontSize: 13,
+    lineHeight: 17,
+  },
+  field: {
+    gap: 6,
+  },
+  fieldRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+  },
+  fieldLabel: {
+    fontSize: 12,
+    fontWeight: "700",
+    textTransform: "uppercase",
+    letterSpacing: 0.4,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+  },
+  swatchRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  chip: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    borderWidth: 1,
+    borderRadius: 999,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    maxWidth: 220,
+  },
+  chipDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: "700",
+  },
+  swatch: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    borderWidth: 2,
+  },
+  dateButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  dateText: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  linkText: {
+    fontSize: 14,
+    fontWeight: "700",
+  },
+  button: {
+    minHeight: 44,
+    borderWidth: 1,
+    borderRadius: 12,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 6,
+  },
+  buttonText: {
+    fontSize: 14,
+    fontWeight: "700",
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: "rgba(0,0,0,0.4)",
+    justifyContent: "center",
+    padding: 24,
+  },
+  pickerCard: {
+    borderRadius: 16,
+    padding: 16,
+    gap: 12,
+  },
+  modalTitle: {
+    fontSize: 17,
+    fontWeight: "700",
+    textAlign: "center",
+  },
+});
@@ -0,0 +1,374 @@
+import { Ionicons } from "@expo/vector-icons";
+import * as Clipboard from "expo-clipboard";
+import { router } from "expo-router";
+import { useMemo, useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+  StyleSheet,
+  Switch,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+import { useColorScheme } from "@/hooks/use-color-scheme";
+import { useThemeColors } from "@/hooks/use-theme-colors";
+import { addTasks } from "@/lib/database";
+import { CSV_FIELDS, guessColumnMapping, mapCSVRows, parseCSV, type CsvColumnMapping, type CsvField } from "@/utils/csv";
+
+const FIELD_LABELS: Record<CsvField, string> = {
+  title: "Title",
+  subject: "Subject",
+  difficulty: "Difficulty",
+  priority: "Priority",
+  category: "Category",
+  due_date: "Due date",
+  notes: "Notes",
+};
+
+const PREVIEW_LIMIT = 5;
+
+function columnLetter(index: number) {
+  let label = "";
+  let n = index + 1;
+  while (n > 0) {
+    const rem = (n - 1) % 26;
+    label = String.fromCharCode(65 + rem) + label;
+    n = Math.floor((n - 1) / 26);
+  }
+  return label;
+}
+
+export default function CsvImportScreen() {
+  const scheme = useColorScheme();
+  const dark = scheme === "dark";
+  const colors = useThemeColors();
+
+  const [input, setInput] = useState("");
+  const [rows, setRows] = useState<string[][] | null>(null);
+  const [hasHeader, setHasHeader] = useState(true);
+  const [mapping, setMapping] = useState<CsvColumnMapping | null>(null);
+  const [importing, setImporting] = useState(false);
+
+  const text = colors.textPrimary;
+  const subtext = colors.textMuted;
+  const card = colors.surface;
+  const border = colors.borderSubtle;
+  const accent = colors.accentBlue;
+  const inputBg = dark ? "#1B2230" : "#EEF2F7";
+
+  const columnCount = useMemo(() => (rows ? Math.max(0, ...rows.map((row) => row.length)) : 0), [rows]);
+  const columnLabels = useMemo(
+    () =>
+      Array.from({ length: columnCount }, (_, index) => {
+        const header = hasHeader ? rows?.[0]?.[index]?.trim() : "";
+        return header || `Column ${columnLetter(index)}`;
+      }),
+    [columnCount, hasHeader, rows]
+  );
+  const result = useMemo(
+    () => (rows && mapping ? mapCSVRows(rows, mapping, hasHeader) : null),
+    [hasHeader, mapping, rows]
+  );
+
+  const handlePaste = async () => {
+    const pasted = await Clipboard.getStringAsync();
+    if (!pasted.trim()) {
+      Alert.alert("Clipboard is empty", "Copy the rows from your spreadsheet first, then try again.");
+      return;
+    }
+    setInput(pasted);
+    setRows(null);
+  };
+
+  const handleRead = () => {
+    const parsed = parseCSV(input).filter((row) => row.some((cell) => cell.trim()));
+    if (!parsed.length) {
+      Alert.alert("Nothing to import", "Paste at least one row of comma-separated values.");
+      return;
+    }
+    setRows(parsed);
+    setHasHeader(true);
+    setMapping(guessColumnMapping(parsed[0]));
+  };
+
+  const handleImport = async () => {
+    if (!result?.valid.length) return;
+    try {
+      setImporting(true);
+      const added = await addTasks(result.valid);
+      Alert.alert("Import complete", `${added} task${added === 1 ? "" : "s"} added.`, [
+        { text: "OK", onPress: () => router.back() },
+      ]);
+    } catch (error) {
+      if (__DEV__) console.error("Failed to import CSV", error);
+      Alert.alert("Error", "Could not import the tasks. Nothing was added.");
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const chipStyle = (active: boolean) => [
+    styles.chip,
+    { borderColor: active ? accent : border, backgroundColor: active ? `${accent}22` : "transparent" },
+  ];
+
+  return (
+    <View style={{ flex: 1, backgroundColor: colors.background }}>
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        <View style={styles.sectionHeaderWrap}>
+          <Text style={[styles.sectionTitle, { color: text }]}>Paste your spreadsheet</Text>
+          <Text style={[styles.sectionSubtitle, { color: subtext }]}>
+            Copy the rows from a handbook or sheet. Dates must be YYYY-MM-DD, e.g. 2026-03-14.
+          </Text>
+        </View>
+
+        <View style={[styles.card, styles.padded, { backgroundColor: card }]}>
+          <TextInput
+            value={input}
+            onChangeText={(value) => {
+              setInput(value);
+              setRows(null);
+            }}
+            placeholder={"title,due_date,difficulty\nEssay draft,2026-03-14,hard"}
+            placeholderTextColor={subtext}
+            multiline
+            autoCapitalize="none"
+            autoCorrect={false}
+            style={[styles.input, { color: text, backgroundColor: inputBg, borderColor: border }]}
+          />
+          <View style={styles.buttonRow}>
+            <TouchableOpacity style={[styles.button, { borderColor: border }]} onPress={handlePaste} activeOpacity={0.8}>
+              <Ionicons name="clipboard-outline" size={16} color={text} />
+              <Text style={[styles.buttonText, { color: text }]}>Paste</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.button, { backgroundColor: accent, borderColor: accent }]}
+              onPress={handleRead}
+              disabled={!input.trim()}
+              activeOpacity={0.8}
+            >
+              <Text style={[styles.buttonText, { color: "#fff" }]}>Read rows</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        {rows && mapping ? (
+          <>
+            <View style={styles.sectionHeaderWrap}>
+              <Text style={[styles.sectionTitle, { color: text }]}>Match columns</Text>
+              <Text style={[styles.sectionSubtitle, { color: subtext }]}>
+                Pick which column fills each field. Only the title is required.
+              </Text>
+            </View>
+
+            <View style={[styles.card, { backgroundColor: card }]}>
+              <View style={styles.row}>
+                <Text style={[styles.label, { color: text }]}>First row is headers</Text>
+                <Switch value={hasHeader} onValueChange={setHasHeader} />
+              </View>
+              {CSV_FIELDS.map((field) => (
+                <View key={field} style={[styles.mappingRow, { borderTopColor: border }]}>
+                  <Text style={[styles.fieldLabel, { color: text }]}>{FIELD_LABELS[field]}</Text>
+                  <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+                    {field !== "title" ? (
+                      <TouchableOpacity
+                        onPress={() => setMapping({ ...mapping, [field]: null })}
+                        style={chipStyle(mapping[field] === null)}
+                      >
+                        <Text style={[styles.chipText, { color: mapping[field] === null ? accent : subtext }]}>Skip</Text>
+                      </TouchableOpacity>
+                    ) : null}
+                    {columnLabels.map((label, index) => (
+                      <TouchableOpacity
+                        key={`${field}-${index}`}
+                        onPress={() => setMapping({ ...mapping, [field]: index })}
+                        style={chipStyle(mapping[field] === index)}
+                      >
+                        <Text
+                          style={[styles.chipText, { color: mapping[field] === index ? accent : text }]}
+                          numberOfLines={1}
+                        >
+                          {label}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </ScrollView>
+                </View>
+              ))}
+            </View>
+          </>
+        ) : null}
+
+        {result ? (
+          <View style={[styles.card, styles.padded, { backgroundColor: card }]}>
+            <Text style={[styles.label, { color: text }]}>
+              {result.valid.length} task{result.valid.length === 1 ? "" : "s"} ready
+            </Text>
+            {result.valid.slice(0, PREVIEW_LIMIT).map((task, index) => (
+              <View key={`${task.title}-${index}`} style={styles.previewRow}>
+                <Text style={[styles.previewTitle, { color: text }]} numberOfLines={1}>
+                  {task.title}
+                </Text>
+                <Text style={[styles.rowHint, { color: subtext }]}>
+                  {[task.due_date ?? "No date", task.difficulty].join(" · ")}
+                </Text>
+              </View>
+            ))}
+            {result.valid.length > PREVIEW_LIMIT ? (
+              <Text style={[styles.rowHint, { color: subtext }]}>and {result.valid.length - PREVIEW_LIMIT} more</Text>
+            ) : null}
+
+            {result.rejected.length ? (
+              <View style={styles.rejectedList}>
+                <Text style={[styles.rowHint, { color: colors.dangerRed, fontWeight: "700" }]}>
+                  {result.rejected.length} row{result.rejected.length === 1 ? "" : "s"} will be skipped
+                </Text>
+                {result.rejected.map((entry) => (
+                  <Text key={entry.row} style={[styles.rowHint, { color: subtext }]}>
+                    Row {entry.row}: {entry.reason}
+                  </Text>
+                ))}
+              </View>
+            ) : null}
+
+            <TouchableOpacity
+              style={[
+                styles.button,
+                { backgroundColor: accent, borderColor: accent },
+                !result.valid.length && styles.disabled,
+              ]}
+              onPress={handleImport}
+              disabled={importing || !result.valid.length}
+              activeOpacity={0.8}
+            >
+              {importing ? (
+                <ActivityIndicator size="small" color="#fff" />
+              ) : (
+                <Text style={[styles.buttonText, { color: "#fff" }]}>
+                  Import {result.valid.length} task{result.valid.length === 1 ? "" : "s"}
+                </Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        ) : null}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  content: {
+    paddingHorizontal: 16,
+    paddingTop: 14,
+    paddingBottom: 42,
+    gap: 14,
+  },
+  sectionHeaderWrap: {
+    marginBottom: 2,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: "800",
+    marginBottom: 2,
+  },
+  sectionSubtitle: {
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  card: {
+    borderRadius: 16,
+    overflow: "hidden",
+  },
+  padded: {
+    padding: 14,
+    gap: 10,
+  },
+  row: {
+    minHeight: 54,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+  },
+  mappingRow: {
+    borderTopWidth: StyleSheet.hairlineWidth,
+    paddingVertical: 10,
+    paddingLeft: 16,
+    gap: 8,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  fieldLabel: {
+    fontSize: 14,
+    fontWeight: "700",
+  },
+  rowHint: {
+    fontSize: 13,
+    lineHeight: 17,
+  },
+  chipRow: {
+    gap: 8,
+    paddingRight: 16,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 999,
+    paddingHorizontal: 12,
+    paddingVertical: 7,
+    maxWidth: 180,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: "700",
+  },
+  input: {
+    minHeight: 120,
+    maxHeight: 220,
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 12,
+    fontSize: 13,
+    textAlignVertical: "top",
+  },
+  buttonRow: {
+    flexDirection: "row",
+    gap: 8,
+  },
+  button: {
+    flex: 1,
+    minHeight: 44,
+    borderWidth: 1,
+    borderRadius: 12,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 6,
+  },
+  buttonText: {
+    fontSize: 14,
+    fontWeight: "700",
+  },
+  previewRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  previewTitle: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  rejectedList: {
+    gap: 4,
+  },
+  disabled: {
+    opacity: 0.5,
+  },
+});
@@ -1,9 +1,55 @@
+import { AssessmentFields } from "@/components/assessment-fields";
+import { CoursePicker } from "@/components/course-picker";
+import { EstimatePicker } from "@/components/estimate-picker";
+import { PrerequisitePicker } from "@/components/prerequisite-picker";
+import { RecurrencePicker } from "@/components/recurrence-picker";
+import { ReminderPicker } from "@/components/reminder-picker";
+import { SubtaskEditor } from "@/components/subtask-editor";
+import { TagEditor } from "@/components/tag-editor";
 import { useColorScheme } from "@/hooks/use-color-scheme";
-import { deleteTask, getTask as getTaskById, updateTask } from "@/lib/database";
+import {
+  deleteTag,
+  deleteTask,
+  getCourses,
+  getEffortSamples,
+  getSubtasks,
+  getTags,
+  getTask as getTaskById,
+  getTasks,
+  getTaskTimeTotals,
+  saveSubtasks,
+  setTagColor,
+  setTaskPrerequisites,
+  setTaskRecurrence,
+  setTaskTags,
+  type SubtaskDraft,
+  type TaskTimeTotals,
+  updateTask,
+} from "@/lib/database";
+import { loadReminderDefaults } from "@/lib/notifications";
+import type { Course } from "@/utils/courses";
+import { calibrateEstimates, estimateTaskMinutes, type EffortCalibration } from "@/utils/effortEstimate";
+import { readAssessmentWeight, readGrade } from "@/utils/grades";
+import {
+  normalizeRecurrenceRule,
+  parseRecurrenceRule,
+  serializeRecurrenceRule,
+  type RecurrenceRule,
+} from "@/utils/recurrence";
+import { parsePrerequisiteIds } from "@/utils/taskDependencies";
+import { tagsForTask, type TaskTag } from "@/utils/taskTags";
+import {
+  DEFAULT_REMINDER_DEFAULTS,
+  parseReminderOffsets,
+  serializeReminderOffsets,
+  type ReminderDefaults,
+  type ReminderOffset,
+} from "@/utils/taskReminders";
+import { formatDuration } from "@/utils/workSessions";
 import DateTimePicker, { DateTimePickerEvent } from "@react-native-community/datetimepicker";
 import { Ionicons } from "@expo/vector-icons";
 import { useNavigation, usePreventRemove } from "@react-navigation/native";
-import { router, useLocalSearchParams } from "expo-router";
+import { router, useFocusEffect, useLocalSearchParams } from "expo-router";
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import {
   ActivityIndicator,
@@ -33,11 +79,20 @@ type TaskCategory = "coursework" | "revision" | "project" | "personal";
 type TaskRow = {
   id: number;
   title: string;
+  subject?: string | null;
   notes: string | null;
   difficulty: Difficulty | null;
   due_date: string | null;
   priority?: Priority | null;
   category?: TaskCategory | null;
+  recurrence_rule?: string | null;
+  estimated_minutes?: number | null;
+  reminder_offsets?: string | null;
+  prerequisite_ids?: string | null;
+  tag_ids?: string | null;
+  course_id?: number | null;
+  assessment_weight?: number | null;
+  grade?: number | null;
 };
 
 type Snapshot = {
@@ -47,6 +102,15 @@ type Snapshot = {
   dueDateISO: string | null;
   priority: Priority;
   category: TaskCategory | null;
+  subtasks: string;
+  recurrence: string | null;
+  estimatedMinutes: number | null;
+  reminders: string | null;
+  prerequisites: string;
+  tags: string;
+  courseId: number | null;
+  weight: string;
+  grade: string;
 };
 
 const TITLE_LIMIT = 60;
@@ -114,6 +178,20 @@ function normalizeCategory(raw?: TaskCategory | null, notes?: string | null): Ta
   return null;
 }
 
+// Stable string form of the checklist so edits (including reordering and ticking) mark the form dirty
+function serializeSubtasks(items: SubtaskDraft[]) {
+  return JSON.stringify(items.map((item) => [item.id ?? null, item.title.trim(), item.completed]));
+}
+
+function serializePrerequisites(ids: number[]) {
+  return [...ids].sort((a, b) => a - b).join(",");
+}
+
+function serializeRecurrence(rule: RecurrenceRule | null, dueDate: Date | null) {
+  if (!rule || !dueDate) return null;
+  return serializeRecurrenceRule(normalizeRecurrenceRule(rule, toISODateLocal(dueDate)));
+}
+
 function extractLegacyDetails(notes: string | null | undefined) {
   if (!notes) return "";
   if (!notes.startsWith("[")) return notes;
@@ -156,6 +234,23 @@ export default function EditTaskScreen() {
   const [priority, setPriority] = useState<Priority>("normal");
   const [category, setCategory] = useState<TaskCategory | null>(null);
   const [dueDate, setDueDate] = useState<Date | null>(null);
+  const [subtasks, setSubtasks] = useState<SubtaskDraft[]>([]);
+  const [recurrence, setRecurrence] = useState<RecurrenceRule | null>(null);
+  const [estimatedMinutes, setEstimatedMinutes] = useState<number | null>(null);
+  const [reminderOffsets, setReminderOffsets] = useState<ReminderOffset[] | null>(null);
+  const [reminderDefaults, setReminderDefaults] = useState<ReminderDefaults>(DEFAULT_REMINDER_DEFAULTS);
+  const [courseId, setCourseId] = useState<number | null>(null);
+  const [courses, setCourses] = useState<Course[]>([]);
+  const [weightText, setWeightText] = useState("");
+  const [gradeText, setGradeText] = useState("");
+  const [prerequisites, setPrerequisites] = useState<number[]>([]);
+  const [tagNames, setTagNames] = useState<string[]>([]);
+  const [knownTags, setKnownTags] = useState<TaskTag[]>([]);
+  const [prerequisiteOptions, setPrerequisiteOptions] = useState<{ id: number; title: string; completed: boolean }[]>(
+    []
+  );
+  const [calibration, setCalibration] = useState<EffortCalibration>({});
+  const [timeTotals, setTimeTotals] = useState<TaskTimeTotals | null>(null);
 
   const [showDatePicker, setShowDatePicker] = useState(false);
   const [draftDate, setDraftDate] = useState(startOfToday());
@@ -167,6 +262,12 @@ export default function EditTaskScreen() {
 
   const trimmedTitle = title.trim();
   const duePreview = formatDueLabel(dueDate);
+  const subject = courses.find((course) => course.id === courseId)?.name ?? null;
+  const estimateSuggestion = useMemo(
+    () =>
+      difficulty ? estimateTaskMinutes({ title: trimmedTitle, subject, difficulty, category }, calibration) : null,
+    [calibration, category, difficulty, subject, trimmedTitle]
+  );
 
   const hasUnsavedChanges = useMemo(() => {
     if (!initialSnapshot) return false;
@@ -176,9 +277,35 @@ export default function EditTaskScreen() {
       difficulty !== initialSnapshot.difficulty ||
       (dueDate ? toISODateLocal(dueDate) : null) !== initialSnapshot.dueDateISO ||
       priority !== initialSnapshot.priority ||
-      category !== initialSnapshot.category
+      category !== initialSnapshot.category ||
+      serializeSubtasks(subtasks) !== initialSnapshot.subtasks ||
+      serializeRecurrence(recurrence, dueDate) !== initialSnapshot.recurrence ||
+      estimatedMinutes !== initialSnapshot.estimatedMinutes ||
+      serializeReminderOffsets(reminderOffsets) !== initialSnapshot.reminders ||
+      serializePrerequisites(prerequisites) !== initialSnapshot.prerequisites ||
+      tagNames.join(",") !== initialSnapshot.tags ||
+      courseId !== initialSnapshot.courseId ||
+      weightText.trim() !== initialSnapshot.weight ||
+      gradeText.trim() !== initialSnapshot.grade
     );
-  }, [category, description, difficulty, dueDate, initialSnapshot, priority, trimmedTitle]);
+  }, [
+    category,
+    courseId,
+    description,
+    difficulty,
+    dueDate,
+    estimatedMinutes,
+    initialSnapshot,
+    prerequisites,
+    priority,
+    recurrence,
+    reminderOffsets,
+    subtasks,
+    tagNames,
+    trimmedTitle,
+    gradeText,
+    weightText,
+  ]);
 
   const canSave = trimmedTitle.length >= 2 && difficulty !== null && !saving && hasUnsavedChanges;
 
@@ -210,6 +337,30 @@ export default function EditTaskScreen() {
         const nextPriority = normalizePriority(task.priority, task.notes);
         const nextCategory = normalizeCategory(task.category, task.notes);
         const nextDueDate = parseISODate(task.due_date);
+        const nextRecurrence = parseRecurrenceRule(task.recurrence_rule);
+        const nextReminders = parseReminderOffsets(task.reminder_offsets);
+        const storedSubtasks = await getSubtasks(taskId);
+        const nextSubtasks: SubtaskDraft[] = storedSubtasks.map((entry) => ({
+          id: entry.id,
+          title: entry.title,
+          completed: entry.completed === 1,
+        }));
+        const nextTimeTotals = await getTaskTimeTotals(taskId);
+        const nextCalibration = calibrateEstimates(await getEffortSamples());
+        const nextReminderDefaults = await loadReminderDefaults();
+        const nextPrerequisites = parsePrerequisiteIds(task.prerequisite_ids);
+        const otherTasks = (await getTasks())
+          .filter((entry) => entry.id !== taskId)
+          .map((entry) => ({ id: entry.id, title: entry.title, completed: !!entry.completed }));
+        const nextKnownTags = await getTags();
+        const nextCourses = await getCourses();
+        const nextWeight = task.assessment_weight != null ? String(task.assessment_weight) : "";
+        const nextGrade = task.grade != null ? String(task.grade) : "";
+        const nextCourseId = nextCourses.some((course) => course.id === task.course_id) ? task.course_id ?? null : null;
+        const nextTagNames = tagsForTask(task, new Map(nextKnownTags.map((tag) => [tag.id, tag]))).map(
+          (tag) => tag.name
+        );
+        if (!mounted) return;
 
         setTitle(nextTitle);
         setDescription(nextDescription);
@@ -217,6 +368,21 @@ export default function EditTaskScreen() {
         setPriority(nextPriority);
         setCategory(nextCategory);
         setDueDate(nextDueDate);
+        setSubtasks(nextSubtasks);
+        setRecurrence(nextRecurrence);
+        setEstimatedMinutes(task.estimated_minutes ?? null);
+        setReminderOffsets(nextReminders);
+        setReminderDefaults(nextReminderDefaults);
+        setCourses(nextCourses);
+        setCourseId(nextCourseId);
+        setWeightText(nextWeight);
+        setGradeText(nextGrade);
+        setCalibration(nextCalibration);
+        setTimeTotals(nextTimeTotals);
+        setPrerequisites(nextPrerequisites);
+        setPrerequisiteOptions(otherTasks);
+        setKnownTags(nextKnownTags);
+        setTagNames(nextTagNames);
 
         setInitialSnapshot({
           title: nextTitle.trim(),
@@ -225,6 +391,15 @@ export default function EditTaskScreen() {
           dueDateISO: nextDueDate ? toISODateLocal(nextDueDate) : null,
           priority: nextPriority,
           category: nextCategory,
+          subtasks: serializeSubtasks(nextSubtasks),
+          recurrence: serializeRecurrence(nextRecurrence, nextDueDate),
+          estimatedMinutes: task.estimated_minutes ?? null,
+          reminders: serializeReminderOffsets(nextReminders),
+          prerequisites: serializePrerequisites(nextPrerequisites),
+          tags: nextTagNames.join(","),
+          courseId: nextCourseId,
+          weight: nextWeight,
+          grade: nextGrade,
         });
       } catch (error) {
         if (__DEV__) console.error("Failed to load task", error);
@@ -239,11 +414,34 @@ export default function EditTaskScreen() {
     };
   }, [taskId]);
 
+  // Picks up courses added or renamed on the Courses screen
+  useFocusEffect(
+    useCallback(() => {
+      getCourses()
+        .then((next) => {
+          setCourses(next);
+          setCourseId((current) => (next.some((course) => course.id === current) ? current : null));
+        })
+        .catch((error) => {
+          if (__DEV__) console.error("Failed to load courses", error);
+        });
+    }, [])
+  );
+
   const openDatePicker = useCallback(() => {
     setDraftDate(dueDate ?? startOfToday());
     setShowDatePicker(true);
   }, [dueDate]);
 
+  // A repeating task needs a due date to count from
+  const handleRecurrenceChange = useCallback(
+    (next: RecurrenceRule | null) => {
+      setRecurrence(next);
+      if (next && !dueDate) setDueDate(startOfToday());
+    },
+    [dueDate]
+  );
+
   const onDateChange = useCallback((_event: DateTimePickerEvent, selected?: Date) => {
     if (!selected) return;
     const normalized = new Date(selected);
@@ -275,8 +473,26 @@ export default function EditTaskScreen() {
 
   const onSave = useCallback(async () => {
     if (!validate()) return;
+    let assessmentWeight: number | null;
+    let grade: number | null;
+    try {
+      assessmentWeight = readAssessmentWeight(weightText);
+      grade = readGrade(gradeText);
+    } catch (error) {
+      Alert.alert("Check the assessment", error instanceof Error ? error.message : "Please try again.");
+      return;
+    }
     setSaving(true);
     try {
+      // First, so a loop stops the save before anything else is written
+      if (serializePrerequisites(prerequisites) !== initialSnapshot?.prerequisites) {
+        try {
+          await setTaskPrerequisites(taskId, prerequisites);
+        } catch (error) {
+          Alert.alert("Can't wait on that", error instanceof Error ? error.message : "Please try again.");
+          return;
+        }
+      }
       await updateTask({
         id: taskId,
         title: trimmedTitle,
@@ -285,7 +501,20 @@ export default function EditTaskScreen() {
         due_date: dueDate ? toISODateLocal(dueDate) : null,
         priority,
         category,
+        estimated_minutes: estimatedMinutes,
+        reminder_offsets: serializeReminderOffsets(reminderOffsets),
+        course_id: courseId,
+        assessment_weight: assessmentWeight,
+        grade,
       });
+      await saveSubtasks(taskId, subtasks);
+      if (tagNames.join(",") !== initialSnapshot?.tags) {
+        await setTaskTags(taskId, tagNames);
+      }
+      const nextRecurrence = serializeRecurrence(recurrence, dueDate);
+      if (nextRecurrence !== initialSnapshot?.recurrence) {
+        await setTaskRecurrence(taskId, nextRecurrence);
+      }
       router.back();
     } catch (error) {
       if (__DEV__) console.error("Failed to save task", error);
@@ -293,12 +522,75 @@ export default function EditTaskScreen() {
     } finally {
       setSaving(false);
     }
-  }, [category, description, difficulty, dueDate, priority, taskId, trimmedTitle, validate]);
+  }, [
+    category,
+    courseId,
+    description,
+    difficulty,
+    dueDate,
+    estimatedMinutes,
+    initialSnapshot?.prerequisites,
+    initialSnapshot?.recurrence,
+    initialSnapshot?.tags,
+    prerequisites,
+    priority,
+    recurrence,
+    reminderOffsets,
+    subtasks,
+    tagNames,
+    taskId,
+    trimmedTitle,
+    validate,
+    gradeText,
+    weightText,
+  ]);
+
+  // Colours belong to the tag, not this task, so they save straight away
+  const handleRecolorTag = useCallback(async (tag: TaskTag, color: string) => {
+    setKnownTags((prev) => prev.map((entry) => (entry.id === tag.id ? { ...entry, color } : entry)));
+    try {
+      await setTagColor(tag.id, color);
+    } catch (error) {
+      if (__DEV__) console.error("Failed to recolour tag", error);
+    }
+  }, []);
+
+  // The tag goes from every task, so this one's saved state drops it too
+  const handleDeleteTag = useCallback((tag: TaskTag) => {
+    Alert.alert(`Delete #${tag.name}?`, "It will be removed from every task that has it.", [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Delete",
+        style: "destructive",
+        onPress: async () => {
+          try {
+            await deleteTag(tag.id);
+            setKnownTags((prev) => prev.filter((entry) => entry.id !== tag.id));
+            setTagNames((prev) => prev.filter((name) => name !== tag.name));
+            setInitialSnapshot((prev) =>
+              prev
+                ? {
+                    ...prev,
+                    tags: prev.tags
+                      .split(",")
+                      .filter((name) => name && name !== tag.name)
+                      .join(","),
+                  }
+                : prev
+            );
+          } catch (error) {
+            if (__DEV__) console.error("Failed to delete tag", error);
+            Alert.alert("Delete failed", "Please try again.");
+          }
+        },
+      },
+    ]);
+  }, []);
 
   const onDelete = useCallback(() => {
     Alert.alert(
       "Delete task",
-      "This will permanently delete this task.",
+      "This task will move to the Trash, where you can restore it.",
       [
         { text: "Cancel", style: "cancel" },
         {
@@ -399,7 +691,15 @@ export default function EditTaskScreen() {
 
                 <Text style={[styles.sectionLabel, { color: colors.text, marginTop: 18 }]}>Due date</Text>
                 <View style={styles.quickRow}>
-                  <QuickChip label="No date" onPress={() => setDueDate(null)} active={dueDate === null} colors={colors} />
+                  <QuickChip
+                    label="No date"
+                    onPress={() => {
+                      setDueDate(null);
+                      setRecurrence(null);
+                    }}
+                    active={dueDate === null}
+                    colors={colors}
+                  />
                   <QuickChip label="Today" onPress={() => setDueDate(startOfToday())} active={duePreview === "Due: Today"} colors={colors} />
                   <QuickChip
                     label="Tomorrow"
@@ -431,6 +731,32 @@ export default function EditTaskScreen() {
                   <Text style={[styles.changeText, { color: colors.blue }]}>Change</Text>
                 </TouchableOpacity>
 
+                <Text style={[styles.sectionLabel, { color: colors.text, marginTop: 18 }]}>Repeat</Text>
+                <RecurrencePicker
+                  value={recurrence}
+                  onChange={handleRecurrenceChange}
+                  anchorDate={dueDate}
+                  colors={colors}
+                />
+
+                <Text style={[styles.sectionLabel, { color: colors.text, marginTop: 18 }]}>Course (optional)</Text>
+                <CoursePicker
+                  value={courseId}
+                  onChange={setCourseId}
+                  courses={courses}
+                  onManage={() => router.push("/courses")}
+                  colors={colors}
+                />
+
+                <Text style={[styles.sectionLabel, { color: colors.text, marginTop: 18 }]}>Assessment (optional)</Text>
+                <AssessmentFields
+                  weight={weightText}
+                  grade={gradeText}
+                  onChangeWeight={setWeightText}
+                  onChangeGrade={setGradeText}
+                  colors={colors}
+                />
+
                 <Text style={[styles.sectionLabel, { color: colors.text, marginTop: 18 }]}>Notes (optional)</Text>
                 <TextInput
                   ref={descriptionRef}
@@ -446,6 +772,27 @@ export default function EditTaskScreen() {
                   textAlignVertical="top"
                 />
 
+                <Text style={[styles.sectionLabel, { color: colors.text, marginTop: 18 }]}>Checklist (optional)</Text>
+                <SubtaskEditor items={subtasks} onChange={setSubtasks} colors={colors} />
+
+                <Text style={[styles.sectionLabel, { color: colors.text, marginTop: 18 }]}>Tags (optional)</Text>
+                <TagEditor
+                  value={tagNames}
+                  onChange={setTagNames}
+                  tags={knownTags}
+                  onRecolor={handleRecolorTag}
+                  onDelete={handleDeleteTag}
+                  colors={colors}
+                />
+
+                <Text style={[styles.sectionLabel, { color: colors.text, marginTop: 18 }]}>Do after (optional)</Text>
+                <PrerequisitePicker
+                  value={prerequisites}
+                  onChange={setPrerequisites}
+                  options={prerequisiteOptions}
+                  colors={colors}
+                />
+
                 <Text style={[styles.sectionLabel, { color: colors.text, marginTop: 18 }]}>Difficulty</Text>
                 <View style={styles.difficultyRow}>
                   {(Object.keys(difficultyMeta) as Difficulty[]).map((level) => {
@@ -481,6 +828,14 @@ export default function EditTaskScreen() {
                 </View>
                 {difficultyError ? <Text style={[styles.errorText, { color: colors.red }]}>{difficultyError}</Text> : null}
 
+                <Text style={[styles.sectionLabel, { color: colors.text, marginTop: 18 }]}>Time estimate (optional)</Text>
+                <EstimatePicker
+                  value={estimatedMinutes}
+                  onChange={setEstimatedMinutes}
+                  suggestion={estimateSuggestion}
+                  colors={colors}
+                />
+
                 <Text style={[styles.sectionLabel, { color: colors.text, marginTop: 18 }]}>Task options</Text>
                 <View style={styles.optionRow}>
                   <TouchableOpacity
@@ -540,6 +895,41 @@ export default function EditTaskScreen() {
                   })}
                 </View>
 
+                <Text style={[styles.sectionLabel, { color: colors.text, marginTop: 18 }]}>Reminders</Text>
+                <ReminderPicker
+                  value={reminderOffsets}
+                  onChange={setReminderOffsets}
+                  defaultOffsets={reminderDefaults[category ?? "none"]}
+                  hasDueDate={dueDate !== null}
+                  colors={colors}
+                />
+
+                {timeTotals ? (
+                  <>
+                    <Text style={[styles.sectionLabel, { color: colors.text, marginTop: 18 }]}>Time spent</Text>
+                    <View style={[styles.timeRow, { borderColor: colors.border, backgroundColor: colors.subtleSurface }]}>
+                      <Ionicons name="time-outline" size={16} color={timeTotals.sessions ? colors.blue : colors.muted} />
+                      <Text style={[styles.optionText, { color: timeTotals.sessions ? colors.text : colors.muted }]}>
+                        {timeTotals.sessions
+                          ? `${formatDuration(timeTotals.seconds)} across ${timeTotals.sessions} focus session${
+                              timeTotals.sessions === 1 ? "" : "s"
+                            }`
+                          : "No focus sessions yet"}
+                      </Text>
+                    </View>
+                    {timeTotals.last_ended_at ? (
+                      <Text style={[styles.helper, { color: colors.muted, marginTop: 6 }]}>
+                        Last worked on{" "}
+                        {new Date(timeTotals.last_ended_at).toLocaleDateString(undefined, {
+                          weekday: "short",
+                          day: "numeric",
+                          month: "short",
+                        })}
+                      </Text>
+                    ) : null}
+                  </>
+                ) : null}
+
                 <View style={styles.actionWrap}>
                   <TouchableOpacity
                     onPress={onDelete}
@@ -761,6 +1151,15 @@ const styles = StyleSheet.create({
     alignItems: "center",
     gap: 6,
   },
+  timeRow: {
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 12,
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
   halfOptionChip: {
     width: "48.5%",
     justifyContent: "center",
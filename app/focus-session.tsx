@@ -1,5 +1,7 @@
+import { UndoSnackbar } from "@/components/undo-snackbar";
 import { useColorScheme } from "@/hooks/use-color-scheme";
 import { useThemeColors } from "@/hooks/use-theme-colors";
+import { recordBatch, startBatch } from "@/lib/action-journal";
 import {
   FocusSessionSnapshot,
   FocusSessionState,
@@ -7,7 +9,10 @@ import {
   loadFocusSessionSnapshot,
   saveFocusSessionSnapshot,
 } from "@/lib/focus-session-storage";
-import { addTask, getTasks, setTaskCompleted, updateTaskDueDate } from "@/lib/database";
+import { getSubtasks, getTasks, logWorkSession, setSubtaskCompleted, type SubtaskRow } from "@/lib/database";
+import { getSubtaskProgress } from "@/utils/subtaskProgress";
+import { blockedTaskIds } from "@/utils/taskDependencies";
+import { buildWorkSession, type WorkSessionDraft, type WorkSessionOutcome } from "@/utils/workSessions";
 import { Ionicons } from "@expo/vector-icons";
 import * as Haptics from "expo-haptics";
 import { router, useFocusEffect, useLocalSearchParams } from "expo-router";
@@ -30,12 +35,17 @@ type Task = {
   id: number;
   title: string;
   notes?: string | null;
+  // Course name (utils/courses)
+  subject?: string | null;
   difficulty: "easy" | "medium" | "hard";
   priority?: "normal" | "high" | null;
   category?: "coursework" | "revision" | "project" | "personal" | null;
   due_date?: string | null;
   completed?: number;
   created_at?: string | null;
+  subtask_total?: number;
+  subtask_done?: number;
+  prerequisite_ids?: string | null;
 };
 
 type SuggestionTab = "queue" | "planner";
@@ -99,14 +109,11 @@ function formatTimer(totalSeconds: number) {
   return `${mm}:${ss}`;
 }
 
-function extractSubject(title: string) {
-  const match = title.match(/\(([^)]+)\)/);
-  return match?.[1]?.trim() ?? "";
-}
-
+// Blocked tasks stay out of the queue until their prerequisites are done
 function sortFocusQueue(tasks: Task[], today: Date) {
+  const blocked = blockedTaskIds(tasks);
   return [...tasks]
-    .filter((t) => !t.completed)
+    .filter((t) => !t.completed && !blocked.has(t.id))
     .sort((a, b) => {
       const dueA = daysDiff(dateFromTask(a), today);
       const dueB = daysDiff(dateFromTask(b), today);
@@ -118,6 +125,11 @@ function sortFocusQueue(tasks: Task[], today: Date) {
       const priorityB = normalizePriority(b) === "high" ? 0 : 1;
       if (priorityA !== priorityB) return priorityA - priorityB;
 
+      // Nearly finished checklists first: they are the quickest to close out.
+      const leftA = getSubtaskProgress(a)?.remaining ?? Number.POSITIVE_INFINITY;
+      const leftB = getSubtaskProgress(b)?.remaining ?? Number.POSITIVE_INFINITY;
+      if (leftA !== leftB) return leftA < leftB ? -1 : 1;
+
       const rank = (DIFFICULTY_RANK[a.difficulty] ?? 3) - (DIFFICULTY_RANK[b.difficulty] ?? 3);
       if (rank !== 0) return rank;
 
@@ -148,11 +160,36 @@ function normalizeTimerMinutes(minutes: number) {
   return TIMER_PRESETS.includes(minutes as (typeof TIMER_PRESETS)[number]) ? minutes : 25;
 }
 
+// Logging is best effort; a failed write shouldn't interrupt the session
+async function saveWorkSession(draft: WorkSessionDraft | null) {
+  if (!draft) return;
+  try {
+    await logWorkSession(draft);
+  } catch (error) {
+    if (__DEV__) console.error("Failed to log work session", error);
+  }
+}
+
+// A run that was still open in a snapshot we can't resume is logged as abandoned
+function closeSnapshotSession(snapshot: FocusSessionSnapshot | null | undefined) {
+  if (!snapshot?.startedAt || (snapshot.sessionState !== "running" && snapshot.sessionState !== "paused")) return;
+  return saveWorkSession(
+    buildWorkSession({
+      taskId: snapshot.taskId,
+      startedAt: snapshot.startedAt,
+      plannedMinutes: snapshot.selectedMinutes,
+      actualSeconds: snapshot.selectedMinutes * 60 - snapshot.remainingSeconds,
+      outcome: "abandoned",
+      endedAt: new Date(snapshot.updatedAt),
+    })
+  );
+}
+
 export default function FocusSessionScreen() {
   const scheme = useColorScheme();
   const dark = scheme === "dark";
   const colors = useThemeColors();
-  const { id } = useLocalSearchParams<{ id?: string }>();
+  const { id, start } = useLocalSearchParams<{ id?: string; start?: string }>();
 
   const background = colors.background;
   const card = colors.surface;
@@ -180,6 +217,7 @@ export default function FocusSessionScreen() {
   const [loading, setLoading] = useState(true);
   const [queue, setQueue] = useState<Task[]>([]);
   const [currentId, setCurrentId] = useState<number | null>(null);
+  const [subtasks, setSubtasks] = useState<SubtaskRow[]>([]);
   const [selectedMinutes, setSelectedMinutes] = useState<number>(25);
   const [remainingSeconds, setRemainingSeconds] = useState(25 * 60);
   const [sessionState, setSessionState] = useState<FocusSessionState>("ready");
@@ -196,6 +234,10 @@ export default function FocusSessionScreen() {
   const toastAnim = useRef(new Animated.Value(0)).current;
   const toastTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const milestoneSentRef = useRef<Set<number>>(new Set());
+  // ISO start of the timer run in progress; null once it has been logged
+  const sessionStartRef = useRef<string | null>(null);
+  // Opened from a notification's "Start focus" button; cleared once the timer is going
+  const autoStartRef = useRef(start === "1");
 
   const showToast = useCallback((message: string, tone: ToastTone = "info") => {
     setToast({ message, tone });
@@ -251,6 +293,8 @@ export default function FocusSessionScreen() {
         setQueue(sorted);
 
         if (!sorted.length) {
+          await closeSnapshotSession(snapshot);
+          sessionStartRef.current = null;
           setCurrentId(null);
           setSessionState("ready");
           setRemainingSeconds(selectedMinutes * 60);
@@ -275,7 +319,10 @@ export default function FocusSessionScreen() {
           setSelectedMinutes(restoredMinutes);
           setRemainingSeconds(Math.min(snapshot.remainingSeconds, restoredMinutes * 60));
           setSessionState(snapshot.sessionState === "running" ? "paused" : snapshot.sessionState);
+          sessionStartRef.current = snapshot.startedAt ?? null;
         } else {
+          await closeSnapshotSession(snapshot);
+          sessionStartRef.current = null;
           setSessionState("ready");
           setRemainingSeconds(selectedMinutes * 60);
         }
@@ -326,6 +373,24 @@ export default function FocusSessionScreen() {
 
   const hasMeaningfulProgress = elapsedSeconds >= 90 || sessionState === "finished";
 
+  // Closes the open timer run, if any, and logs it against the current task
+  const recordSession = useCallback(
+    (outcome: WorkSessionOutcome) => {
+      const startedAt = sessionStartRef.current;
+      sessionStartRef.current = null;
+      return saveWorkSession(
+        buildWorkSession({
+          taskId: currentTask?.id ?? null,
+          startedAt,
+          plannedMinutes: selectedMinutes,
+          actualSeconds: elapsedSeconds,
+          outcome,
+        })
+      );
+    },
+    [currentTask, elapsedSeconds, selectedMinutes]
+  );
+
   const timerProgress = useMemo(() => {
     const total = selectedMinutes * 60;
     if (total <= 0) return 0;
@@ -356,8 +421,7 @@ export default function FocusSessionScreen() {
     if (!currentTask) return [];
 
     const openTitles = new Set(queue.map((task) => task.title.trim().toLowerCase()));
-    const subject = extractSubject(currentTask.title);
-    const topic = subject || currentTask.title;
+    const topic = currentTask.subject?.trim() || currentTask.title;
     const dueBase = currentTask.due_date ?? toISODateLocal(today);
 
     const candidates: PlannerSuggestion[] = [
@@ -418,6 +482,46 @@ export default function FocusSessionScreen() {
     animateTaskCard();
   }, [animateTaskCard, currentId]);
 
+  useEffect(() => {
+    let active = true;
+    setSubtasks([]);
+    if (currentId === null) return;
+    getSubtasks(currentId)
+      .then((rows) => {
+        if (active) setSubtasks(rows);
+      })
+      .catch((error) => {
+        if (__DEV__) console.error("Failed to load subtasks", error);
+      });
+    return () => {
+      active = false;
+    };
+  }, [currentId]);
+
+  const handleToggleSubtask = useCallback(async (item: SubtaskRow) => {
+    const nextCompleted = item.completed ? 0 : 1;
+    const delta = nextCompleted ? 1 : -1;
+    setSubtasks((prev) => prev.map((row) => (row.id === item.id ? { ...row, completed: nextCompleted } : row)));
+    setQueue((prev) =>
+      prev.map((task) =>
+        task.id === item.task_id ? { ...task, subtask_done: (task.subtask_done ?? 0) + delta } : task
+      )
+    );
+    try {
+      await setSubtaskCompleted(item.id, nextCompleted === 1);
+      if (nextCompleted) Haptics.selectionAsync().catch(() => null);
+    } catch (error) {
+      if (__DEV__) console.error("Failed to update subtask", error);
+      setSubtasks((prev) => prev.map((row) => (row.id === item.id ? { ...row, completed: item.completed } : row)));
+      setQueue((prev) =>
+        prev.map((task) =>
+          task.id === item.task_id ? { ...task, subtask_done: (task.subtask_done ?? 0) - delta } : task
+        )
+      );
+      Alert.alert("Update failed", "Please try again.");
+    }
+  }, []);
+
   useEffect(() => {
     if (sessionState !== "running") return;
 
@@ -449,6 +553,11 @@ export default function FocusSessionScreen() {
     });
   }, [remainingSeconds, sessionState]);
 
+  // Runs before the snapshot save below so a finished run isn't persisted as still open
+  useEffect(() => {
+    if (sessionState === "finished") recordSession("completed");
+  }, [recordSession, sessionState]);
+
   useEffect(() => {
     if (!currentTask) {
       clearFocusSessionSnapshot();
@@ -463,25 +572,28 @@ export default function FocusSessionScreen() {
       remainingSeconds,
       sessionState,
       updatedAt: Date.now(),
+      startedAt: sessionStartRef.current,
     });
   }, [currentTask, remainingSeconds, selectedMinutes, sessionState]);
 
   const selectTaskForFocus = useCallback(
     (taskId: number) => {
+      recordSession("abandoned");
       setCurrentId(taskId);
       resetTimerForContext(selectedMinutes);
       showToast("Switched focus task.", "info");
     },
-    [resetTimerForContext, selectedMinutes, showToast]
+    [recordSession, resetTimerForContext, selectedMinutes, showToast]
   );
 
   const handlePresetSelect = useCallback(
     (minutes: number) => {
+      recordSession("abandoned");
       setSelectedMinutes(minutes);
       resetTimerForContext(minutes);
       showToast(`Timer set to ${minutes}m.`, "info");
     },
-    [resetTimerForContext, showToast]
+    [recordSession, resetTimerForContext, showToast]
   );
 
   const handlePrimaryTimerAction = useCallback(() => {
@@ -497,27 +609,43 @@ export default function FocusSessionScreen() {
       return;
     }
 
+    if (!sessionStartRef.current) sessionStartRef.current = new Date().toISOString();
     setSessionState("running");
     showToast("Focus started.", "success");
   }, [resetTimerForContext, selectedMinutes, sessionState, showToast]);
 
+  useEffect(() => {
+    if (!autoStartRef.current || loading || currentId === null || currentId !== preferredId) return;
+    autoStartRef.current = false;
+    if (sessionState === "running") return;
+    // A paused run for this task carries on rather than being thrown away
+    if (sessionState === "finished") resetTimerForContext(selectedMinutes);
+    if (!sessionStartRef.current) sessionStartRef.current = new Date().toISOString();
+    setSessionState("running");
+    showToast("Focus started.", "success");
+  }, [currentId, loading, preferredId, resetTimerForContext, selectedMinutes, sessionState, showToast]);
+
   const handleReset = useCallback(() => {
+    recordSession("abandoned");
     resetTimerForContext(selectedMinutes);
     showToast("Timer reset.", "info");
-  }, [resetTimerForContext, selectedMinutes, showToast]);
+  }, [recordSession, resetTimerForContext, selectedMinutes, showToast]);
 
   const doComplete = useCallback(async () => {
     if (!currentTask) return;
     try {
-      await setTaskCompleted(currentTask.id, true);
+      const journal = startBatch();
+      const next = await journal.setCompleted(currentTask.id, true);
+      recordBatch("Marked done", journal.steps);
+      await recordSession("completed");
       setSessionState("ready");
       await loadQueue();
-      showToast("Task completed.", "success");
+      showToast(next ? "Task completed. Next one is scheduled." : "Task completed.", "success");
     } catch (error) {
       if (__DEV__) console.error("Failed to complete task", error);
       Alert.alert("Complete failed", "Please try again.");
     }
-  }, [currentTask, loadQueue, showToast]);
+  }, [currentTask, loadQueue, recordSession, showToast]);
 
   const handleComplete = useCallback(() => {
     if (!currentTask) return;
@@ -542,7 +670,10 @@ export default function FocusSessionScreen() {
       if (!currentTask) return;
       try {
         const baseISO = currentTask.due_date ?? toISODateLocal(today);
-        await updateTaskDueDate(currentTask.id, addDaysISO(baseISO, days));
+        const journal = startBatch();
+        await journal.moveTasks([{ id: currentTask.id, due_date: addDaysISO(baseISO, days) }]);
+        recordBatch(`Snoozed +${days} day${days === 1 ? "" : "s"}`, journal.steps);
+        await recordSession("snoozed");
         setSessionState("ready");
         await loadQueue();
         showToast(`Snoozed +${days} day${days === 1 ? "" : "s"}.`, "info");
@@ -551,7 +682,7 @@ export default function FocusSessionScreen() {
         Alert.alert("Snooze failed", "Please try again.");
       }
     },
-    [currentTask, loadQueue, showToast, today]
+    [currentTask, loadQueue, recordSession, showToast, today]
   );
 
   const openSnoozeMenu = useCallback(() => {
@@ -564,6 +695,7 @@ export default function FocusSessionScreen() {
   }, [handleSnooze]);
 
   const handleSkip = useCallback(() => {
+    recordSession("skipped");
     if (!currentTask || queue.length <= 1) {
       handleReset();
       return;
@@ -571,7 +703,7 @@ export default function FocusSessionScreen() {
     const idx = queue.findIndex((task) => task.id === currentTask.id);
     const next = queue[(idx + 1) % queue.length];
     selectTaskForFocus(next.id);
-  }, [currentTask, handleReset, queue, selectTaskForFocus]);
+  }, [currentTask, handleReset, queue, recordSession, selectTaskForFocus]);
 
   const handleDismissSuggestion = useCallback((key: string) => {
     setDismissedSuggestions((prev) => new Set(prev).add(key));
@@ -582,12 +714,14 @@ export default function FocusSessionScreen() {
     async (suggestion: PlannerSuggestion) => {
       try {
         setAddingSuggestionKey(suggestion.key);
-        await addTask({
+        const journal = startBatch();
+        await journal.addTask({
           title: suggestion.title,
           description: suggestion.description,
           difficulty: suggestion.difficulty,
           due_date: suggestion.due_date,
         });
+        recordBatch("Added a task", journal.steps);
         animateTaskCard();
         await loadQueue();
         showToast("Suggested task added.", "success");
@@ -747,6 +881,36 @@ export default function FocusSessionScreen() {
                   <Text style={[styles.taskNotes, { color: subtle }]}>No notes added.</Text>
                 )}
 
+                {subtasks.length > 0 ? (
+                  <View style={styles.checklistWrap}>
+                    {subtasks.map((item) => (
+                      <Pressable
+                        key={item.id}
+                        onPress={() => handleToggleSubtask(item)}
+                        accessibilityLabel={item.completed ? `Mark ${item.title} not done` : `Mark ${item.title} done`}
+                        style={({ pressed }) => [styles.checklistRow, pressed && { opacity: 0.8 }]}
+                      >
+                        <Ionicons
+                          name={item.completed ? "checkmark-circle" : "ellipse-outline"}
+                          size={18}
+                          color={item.completed ? success : subtle}
+                        />
+                        <Text
+                          style={[
+                            styles.checklistText,
+                            {
+                              color: item.completed ? subtle : text,
+                              textDecorationLine: item.completed ? "line-through" : "none",
+                            },
+                          ]}
+                        >
+                          {item.title}
+                        </Text>
+                      </Pressable>
+                    ))}
+                  </View>
+                ) : null}
+
                 <View style={styles.metaChipRow}>
                   <View
                     style={[
@@ -1065,6 +1229,8 @@ export default function FocusSessionScreen() {
             </View>
           </ScrollView>
         )}
+
+        <UndoSnackbar onUndone={loadQueue} />
       </View>
     </SafeAreaView>
   );
@@ -1190,6 +1356,21 @@ const styles = StyleSheet.create({
     fontSize: 12,
     fontWeight: "800",
   },
+  checklistWrap: {
+    marginTop: 10,
+    gap: 6,
+  },
+  checklistRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    paddingVertical: 2,
+  },
+  checklistText: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: "600",
+  },
   metaChipRow: {
     flexDirection: "row",
     justifyContent: "flex-start",
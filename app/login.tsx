@@ -212,6 +212,10 @@ export default function LoginScreen() {
                 )}
               </TouchableOpacity>
             </View>
+
+            <TouchableOpacity onPress={() => router.push("/profiles")} style={styles.secondary}>
+              <Text style={[styles.secondaryLabel, { color: muted }]}>Choose a profile on this device</Text>
+            </TouchableOpacity>
           </View>
         </KeyboardAvoidingView>
       </SafeAreaView>
@@ -287,4 +291,13 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: "700",
   },
+  secondary: {
+    marginTop: 16,
+    paddingVertical: 8,
+    alignItems: "center",
+  },
+  secondaryLabel: {
+    fontSize: 15,
+    fontWeight: "600",
+  },
 });
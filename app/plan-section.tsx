@@ -1,6 +1,8 @@
 import { getTasks } from "@/lib/database";
 import { useColorScheme } from "@/hooks/use-color-scheme";
 import { updateAvailabilityWithFeedback } from "@/utils/availabilityFeedback";
+import { assessmentWeightBoost, formatPercent } from "@/utils/grades";
+import { openPrerequisites, orderByPrerequisites } from "@/utils/taskDependencies";
 import { Ionicons } from "@expo/vector-icons";
 import { router, useFocusEffect, useLocalSearchParams, useNavigation } from "expo-router";
 import { useCallback, useEffect, useMemo, useState } from "react";
@@ -15,6 +17,8 @@ type Task = {
   category?: "coursework" | "revision" | "project" | "personal" | null;
   due_date?: string | null;
   completed?: number;
+  prerequisite_ids?: string | null;
+  assessment_weight?: number | null;
 };
 
 type PlannedTask = Task & {
@@ -79,7 +83,8 @@ export default function PlanSectionScreen() {
 
   const agentPlan = useMemo(() => {
     const openTasks = tasks.filter((t) => !t.completed);
-    const ranked: PlannedTask[] = openTasks
+    const taskById = new Map(tasks.map((task) => [task.id, task]));
+    const scored: PlannedTask[] = openTasks
       .map((task) => {
         const dueDate = parseDueDate(task.due_date ?? null);
         const daysUntil = diffInDays(dueDate);
@@ -97,7 +102,8 @@ export default function PlanSectionScreen() {
 
         const effort = task.difficulty === "hard" ? 3 : task.difficulty === "medium" ? 2 : 1;
         const priorityBoost = normalizePriority(task) === "high" ? 2.5 : 0;
-        const score = urgency + effort + priorityBoost;
+        const weightBoost = assessmentWeightBoost(task.assessment_weight);
+        const score = urgency + effort + priorityBoost + weightBoost;
 
         const reasonParts: string[] = [];
         if (daysUntil === null) reasonParts.push("No due date");
@@ -110,11 +116,16 @@ export default function PlanSectionScreen() {
         else if (task.difficulty === "medium") reasonParts.push("Medium effort");
         else reasonParts.push("Quick win");
         if (normalizePriority(task) === "high") reasonParts.push("High priority");
+        if (weightBoost) reasonParts.push(`Worth ${formatPercent(task.assessment_weight!)}`);
         if (task.category) reasonParts.push(CATEGORY_LABEL[task.category]);
+        const waitingOn = openPrerequisites(task, taskById);
+        if (waitingOn.length) reasonParts.unshift(`After ${taskById.get(waitingOn[0])?.title ?? "another task"}`);
 
         return { ...task, dueDate, daysUntil, score, reason: reasonParts.join(" · ") } as PlannedTask;
       })
       .sort((a, b) => b.score - a.score);
+    // Same rule as the planner: never ahead of a prerequisite still waiting to be done
+    const ranked = orderByPrerequisites(scored);
 
     const used = new Set<number>();
     const take = (limit: number, filter: (task: PlannedTask) => boolean) => {
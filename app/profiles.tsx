@@ -0,0 +1,262 @@
+import { Ionicons } from "@expo/vector-icons";
+import { router, useFocusEffect, type Href } from "expo-router";
+import { useCallback, useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+import { useColorScheme } from "@/hooks/use-color-scheme";
+import { useThemeColors } from "@/hooks/use-theme-colors";
+import { useAuth } from "@/hooks/useAuth";
+import { getProfiles, type AuthProvider, type UserProfile } from "@/lib/database";
+
+const PROVIDER_LABELS: Record<AuthProvider, string> = {
+  email: "Email account",
+  apple: "Apple account",
+  google: "Google account",
+  local: "Profile on this device",
+};
+
+export default function ProfilesScreen() {
+  const scheme = useColorScheme();
+  const dark = scheme === "dark";
+  const colors = useThemeColors();
+  const { user, switchProfile, createProfile } = useAuth();
+
+  const [profiles, setProfiles] = useState<UserProfile[] | null>(null);
+  // Email account waiting for its password before the switch
+  const [pendingId, setPendingId] = useState<number | null>(null);
+  const [password, setPassword] = useState("");
+  const [newName, setNewName] = useState("");
+  const [working, setWorking] = useState(false);
+
+  const text = colors.textPrimary;
+  const subtext = colors.textMuted;
+  const card = colors.surface;
+  const border = colors.borderSubtle;
+  const accent = colors.accentBlue;
+  const inputBg = dark ? "#1B2230" : "#EEF2F7";
+
+  const refresh = useCallback(async () => {
+    setProfiles(await getProfiles());
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      void refresh();
+    }, [refresh])
+  );
+
+  const finishSwitch = (ok: boolean) => {
+    setWorking(false);
+    if (!ok) return;
+    setPendingId(null);
+    setPassword("");
+    router.replace("/(tabs)" as Href);
+  };
+
+  const handleSelect = async (profile: UserProfile) => {
+    if (working || profile.id === user?.id) return;
+    if (profile.provider === "email") {
+      setPendingId(profile.id);
+      setPassword("");
+      return;
+    }
+    setWorking(true);
+    finishSwitch(await switchProfile(profile.id));
+  };
+
+  const handleConfirmPassword = async () => {
+    if (working || pendingId === null) return;
+    if (!password) {
+      Alert.alert("Password needed", "Enter the password for this account to switch to it.");
+      return;
+    }
+    setWorking(true);
+    finishSwitch(await switchProfile(pendingId, password));
+  };
+
+  const handleCreate = async () => {
+    if (working) return;
+    const name = newName.trim();
+    if (!name) {
+      Alert.alert("Name needed", "Give the new profile a name.");
+      return;
+    }
+    setWorking(true);
+    const ok = await createProfile(name);
+    if (ok) setNewName("");
+    finishSwitch(ok);
+  };
+
+  if (!profiles) {
+    return (
+      <View style={[styles.loading, { backgroundColor: colors.background }]}>
+        <ActivityIndicator color={accent} />
+      </View>
+    );
+  }
+
+  return (
+    <View style={{ flex: 1, backgroundColor: colors.background }}>
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        <View style={styles.sectionHeaderWrap}>
+          <Text style={[styles.sectionTitle, { color: text }]}>Profiles on this device</Text>
+          <Text style={[styles.sectionSubtitle, { color: subtext }]}>
+            Each profile has its own tasks, quick actions, theme, reminders and PIN. A profile with app lock on asks
+            for its PIN after switching.
+          </Text>
+        </View>
+
+        <View style={[styles.card, { backgroundColor: card }]}>
+          {profiles.map((profile, index) => {
+            const current = profile.id === user?.id;
+            const pending = profile.id === pendingId;
+            return (
+              <View key={profile.id} style={index > 0 ? [styles.rowDivider, { borderTopColor: border }] : null}>
+                <TouchableOpacity
+                  style={styles.row}
+                  activeOpacity={0.85}
+                  onPress={() => handleSelect(profile)}
+                  disabled={working}
+                  accessibilityRole="button"
+                  accessibilityLabel={`Switch to ${profile.name}`}
+                >
+                  <View style={{ flex: 1 }}>
+                    <Text style={[styles.label, { color: text }]}>{profile.name || "Unnamed"}</Text>
+                    <Text style={[styles.rowHint, { color: subtext }]}>
+                      {profile.provider === "email" ? profile.email : PROVIDER_LABELS[profile.provider] ?? ""}
+                    </Text>
+                  </View>
+                  {current ? <Ionicons name="checkmark" size={18} color={accent} /> : null}
+                </TouchableOpacity>
+                {pending ? (
+                  <View style={[styles.padded, { paddingTop: 0 }]}>
+                    <TextInput
+                      value={password}
+                      onChangeText={setPassword}
+                      placeholder="Account password"
+                      placeholderTextColor={subtext}
+                      secureTextEntry
+                      autoFocus
+                      style={[styles.input, { color: text, backgroundColor: inputBg, borderColor: border }]}
+                    />
+                    <TouchableOpacity
+                      style={[styles.button, { backgroundColor: accent, borderColor: accent }]}
+                      onPress={handleConfirmPassword}
+                      disabled={working}
+                      activeOpacity={0.85}
+                    >
+                      {working && <ActivityIndicator color="#fff" />}
+                      <Text style={[styles.buttonText, { color: "#fff" }]}>Switch</Text>
+                    </TouchableOpacity>
+                  </View>
+                ) : null}
+              </View>
+            );
+          })}
+        </View>
+
+        <View style={[styles.card, styles.padded, { backgroundColor: card }]}>
+          <Text style={[styles.label, { color: text }]}>Add a profile</Text>
+          <TextInput
+            value={newName}
+            onChangeText={setNewName}
+            placeholder="Name"
+            placeholderTextColor={subtext}
+            style={[styles.input, { color: text, backgroundColor: inputBg, borderColor: border }]}
+          />
+          <TouchableOpacity
+            style={[styles.button, { borderColor: accent }]}
+            onPress={handleCreate}
+            disabled={working}
+            activeOpacity={0.85}
+          >
+            <Text style={[styles.buttonText, { color: accent }]}>Add and switch</Text>
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  loading: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  content: {
+    paddingHorizontal: 16,
+    paddingTop: 14,
+    paddingBottom: 42,
+    gap: 14,
+  },
+  sectionHeaderWrap: {
+    marginBottom: 2,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: "800",
+    marginBottom: 2,
+  },
+  sectionSubtitle: {
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  card: {
+    borderRadius: 16,
+    overflow: "hidden",
+  },
+  padded: {
+    padding: 14,
+    gap: 10,
+  },
+  row: {
+    minHeight: 54,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    gap: 10,
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+  },
+  rowDivider: {
+    borderTopWidth: StyleSheet.hairlineWidth,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  rowHint: {
+    fontSize: 13,
+    lineHeight: 17,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+  },
+  button: {
+    minHeight: 44,
+    borderWidth: 1,
+    borderRadius: 12,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 6,
+  },
+  buttonText: {
+    fontSize: 14,
+    fontWeight: "700",
+  },
+});
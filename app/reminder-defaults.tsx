@@ -0,0 +1,159 @@
+import { useEffect, useState } from "react";
+import { ActivityIndicator, ScrollView, StyleSheet, Text, TouchableOpacity, View } from "react-native";
+
+import { useThemeColors } from "@/hooks/use-theme-colors";
+import { loadReminderDefaults, saveReminderDefaults } from "@/lib/notifications";
+import {
+  REMINDER_CATEGORIES,
+  REMINDER_OFFSET_LABELS,
+  REMINDER_OFFSETS,
+  type ReminderCategory,
+  type ReminderDefaults,
+  type ReminderOffset,
+} from "@/utils/taskReminders";
+
+const CATEGORY_LABELS: Record<ReminderCategory, string> = {
+  coursework: "Coursework",
+  revision: "Revision",
+  project: "Project",
+  personal: "Personal",
+  none: "No category",
+};
+
+export default function ReminderDefaultsScreen() {
+  const colors = useThemeColors();
+  const [defaults, setDefaults] = useState<ReminderDefaults | null>(null);
+
+  const text = colors.textPrimary;
+  const subtext = colors.textMuted;
+  const card = colors.surface;
+  const border = colors.borderSubtle;
+  const accent = colors.accentBlue;
+
+  useEffect(() => {
+    loadReminderDefaults().then(setDefaults);
+  }, []);
+
+  if (!defaults) {
+    return (
+      <View style={[styles.loading, { backgroundColor: colors.background }]}>
+        <ActivityIndicator color={accent} />
+      </View>
+    );
+  }
+
+  // Saved straight away; tasks following the default are rescheduled by saveReminderDefaults
+  const toggle = (category: ReminderCategory, offset: ReminderOffset) => {
+    const current = defaults[category];
+    const next = {
+      ...defaults,
+      [category]: current.includes(offset) ? current.filter((entry) => entry !== offset) : [...current, offset],
+    };
+    setDefaults(next);
+    saveReminderDefaults(next);
+  };
+
+  return (
+    <View style={{ flex: 1, backgroundColor: colors.background }}>
+      <ScrollView contentContainerStyle={styles.content}>
+        <View style={styles.sectionHeaderWrap}>
+          <Text style={[styles.sectionTitle, { color: text }]}>Defaults by category</Text>
+          <Text style={[styles.sectionSubtitle, { color: subtext }]}>
+            Tasks with a due date are reminded at your daily reminder time. A task can pick its own reminders when you
+            add or edit it.
+          </Text>
+        </View>
+
+        <View style={[styles.card, { backgroundColor: card }]}>
+          {REMINDER_CATEGORIES.map((category, index) => (
+            <View key={category} style={[styles.padded, index > 0 && styles.rowDivider, { borderTopColor: border }]}>
+              <Text style={[styles.label, { color: text }]}>{CATEGORY_LABELS[category]}</Text>
+              <View style={styles.chipRow}>
+                {REMINDER_OFFSETS.map((offset) => {
+                  const active = defaults[category].includes(offset);
+                  return (
+                    <TouchableOpacity
+                      key={offset}
+                      onPress={() => toggle(category, offset)}
+                      style={[
+                        styles.chip,
+                        { borderColor: active ? accent : border, backgroundColor: active ? `${accent}22` : "transparent" },
+                      ]}
+                    >
+                      <Text style={[styles.chipText, { color: active ? accent : subtext }]}>
+                        {REMINDER_OFFSET_LABELS[offset]}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+              {defaults[category].length === 0 ? (
+                <Text style={[styles.rowHint, { color: subtext }]}>No reminders unless the task picks its own.</Text>
+              ) : null}
+            </View>
+          ))}
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  loading: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  content: {
+    paddingHorizontal: 16,
+    paddingTop: 14,
+    paddingBottom: 42,
+    gap: 14,
+  },
+  sectionHeaderWrap: {
+    marginBottom: 2,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: "800",
+    marginBottom: 2,
+  },
+  sectionSubtitle: {
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  card: {
+    borderRadius: 16,
+    overflow: "hidden",
+  },
+  padded: {
+    padding: 14,
+    gap: 10,
+  },
+  rowDivider: {
+    borderTopWidth: StyleSheet.hairlineWidth,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  rowHint: {
+    fontSize: 13,
+    lineHeight: 17,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 999,
+    paddingHorizontal: 12,
+    paddingVertical: 7,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: "700",
+  },
+});
@@ -1,6 +1,7 @@
 import { useColorScheme } from "@/hooks/use-color-scheme";
 import { PasscodeKeypad } from "@/components/passcode-keypad";
 import { setAppLockEnabled, setPinHash } from "@/lib/app-lock-storage";
+import { rewrapDataKey } from "@/lib/database";
 import { Ionicons } from "@expo/vector-icons";
 import * as Haptics from "expo-haptics";
 import { Stack, router } from "expo-router";
@@ -48,6 +49,8 @@ export default function SetPinScreen() {
     }
 
     await setPinHash(pin);
+    // Task encryption may keep its recovery key under the PIN
+    await rewrapDataKey("pin", pin);
     await setAppLockEnabled(true);
     void Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
     router.back();
@@ -0,0 +1,460 @@
+import DateTimePicker, { DateTimePickerEvent } from "@react-native-community/datetimepicker";
+import { Ionicons } from "@expo/vector-icons";
+import { useEffect, useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  Modal,
+  ScrollView,
+  StyleSheet,
+  Switch,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+import { useColorScheme } from "@/hooks/use-color-scheme";
+import { useThemeColors } from "@/hooks/use-theme-colors";
+import { loadScheduleSettings, saveScheduleSettings } from "@/lib/schedule-storage";
+import { formatClock, type ScheduleSettings } from "@/utils/scheduler";
+
+// Monday-first, values match Date#getDay
+const WEEKDAYS = [
+  { value: 1, label: "Monday", short: "Mon" },
+  { value: 2, label: "Tuesday", short: "Tue" },
+  { value: 3, label: "Wednesday", short: "Wed" },
+  { value: 4, label: "Thursday", short: "Thu" },
+  { value: 5, label: "Friday", short: "Fri" },
+  { value: 6, label: "Saturday", short: "Sat" },
+  { value: 0, label: "Sunday", short: "Sun" },
+];
+
+type Draft = { title: string; weekdays: number[]; start: number; end: number };
+
+// Which time the picker modal is editing
+type TimeTarget = { kind: "hours"; day: number; edge: "start" | "end" } | { kind: "draft"; edge: "start" | "end" };
+
+const EMPTY_DRAFT: Draft = { title: "", weekdays: [], start: 9 * 60, end: 10 * 60 };
+
+function describeDays(weekdays: number[]) {
+  return WEEKDAYS.filter((day) => weekdays.includes(day.value))
+    .map((day) => day.short)
+    .join(", ");
+}
+
+export default function StudyHoursScreen() {
+  const scheme = useColorScheme();
+  const dark = scheme === "dark";
+  const colors = useThemeColors();
+
+  const [settings, setSettings] = useState<ScheduleSettings | null>(null);
+  const [draft, setDraft] = useState<Draft>(EMPTY_DRAFT);
+  const [timeTarget, setTimeTarget] = useState<TimeTarget | null>(null);
+  const [tempMinutes, setTempMinutes] = useState(0);
+
+  const text = colors.textPrimary;
+  const subtext = colors.textMuted;
+  const card = colors.surface;
+  const border = colors.borderSubtle;
+  const accent = colors.accentBlue;
+  const inputBg = dark ? "#1B2230" : "#EEF2F7";
+
+  useEffect(() => {
+    loadScheduleSettings().then(setSettings);
+  }, []);
+
+  // Every change is saved straight away; the planner reloads settings when it regains focus
+  const update = (next: ScheduleSettings) => {
+    setSettings(next);
+    saveScheduleSettings(next);
+  };
+
+  if (!settings) {
+    return (
+      <View style={[styles.loading, { backgroundColor: colors.background }]}>
+        <ActivityIndicator color={accent} />
+      </View>
+    );
+  }
+
+  const setDayHours = (day: number, patch: Partial<ScheduleSettings["hours"][number]>) => {
+    update({ ...settings, hours: settings.hours.map((hours, index) => (index === day ? { ...hours, ...patch } : hours)) });
+  };
+
+  const openTimePicker = (target: TimeTarget) => {
+    const source = target.kind === "hours" ? settings.hours[target.day] : draft;
+    setTempMinutes(source[target.edge]);
+    setTimeTarget(target);
+  };
+
+  const onTimeChange = (event: DateTimePickerEvent, date?: Date) => {
+    if (event.type === "dismissed" || !date) return;
+    setTempMinutes(date.getHours() * 60 + date.getMinutes());
+  };
+
+  const applyTime = () => {
+    if (!timeTarget) return;
+    const source = timeTarget.kind === "hours" ? settings.hours[timeTarget.day] : draft;
+    const next = { start: source.start, end: source.end, [timeTarget.edge]: tempMinutes };
+    if (next.end <= next.start) {
+      Alert.alert("Check the times", "The end time needs to be after the start time.");
+      return;
+    }
+    setTimeTarget(null);
+    if (timeTarget.kind === "hours") setDayHours(timeTarget.day, next);
+    else setDraft({ ...draft, ...next });
+  };
+
+  const toggleDraftDay = (day: number) => {
+    const weekdays = draft.weekdays.includes(day) ? draft.weekdays.filter((d) => d !== day) : [...draft.weekdays, day];
+    setDraft({ ...draft, weekdays });
+  };
+
+  const addCommitment = () => {
+    const title = draft.title.trim();
+    if (!title || !draft.weekdays.length) {
+      Alert.alert("Almost there", "Give the commitment a name and pick at least one day.");
+      return;
+    }
+    update({
+      ...settings,
+      commitments: [
+        ...settings.commitments,
+        {
+          id: `${Date.now().toString(36)}-${settings.commitments.length}`,
+          title,
+          weekdays: [...draft.weekdays].sort((a, b) => a - b),
+          start: draft.start,
+          end: draft.end,
+        },
+      ],
+    });
+    setDraft(EMPTY_DRAFT);
+  };
+
+  const removeCommitment = (id: string) => {
+    update({ ...settings, commitments: settings.commitments.filter((commitment) => commitment.id !== id) });
+  };
+
+  const stepRule = (key: "maxBlockMinutes" | "breakMinutes" | "minBlockMinutes", delta: number) => {
+    const limits = {
+      maxBlockMinutes: [30, 180],
+      breakMinutes: [0, 60],
+      minBlockMinutes: [10, settings.maxBlockMinutes],
+    }[key];
+    const next = { ...settings, [key]: Math.min(limits[1], Math.max(limits[0], settings[key] + delta)) };
+    next.minBlockMinutes = Math.min(next.minBlockMinutes, next.maxBlockMinutes);
+    update(next);
+  };
+
+  const timeButton = (label: string, target: TimeTarget) => (
+    <TouchableOpacity
+      style={[styles.timeButton, { borderColor: border, backgroundColor: inputBg }]}
+      onPress={() => openTimePicker(target)}
+      activeOpacity={0.8}
+    >
+      <Text style={[styles.timeText, { color: text }]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const rules = [
+    { key: "maxBlockMinutes" as const, label: "Longest block", hint: "Split work into chunks no longer than this", step: 15 },
+    { key: "breakMinutes" as const, label: "Break between blocks", hint: "Left free after every block", step: 5 },
+    { key: "minBlockMinutes" as const, label: "Shortest block", hint: "Smaller gaps are left free", step: 5 },
+  ];
+
+  return (
+    <View style={{ flex: 1, backgroundColor: colors.background }}>
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        <View style={styles.sectionHeaderWrap}>
+          <Text style={[styles.sectionTitle, { color: text }]}>Available hours</Text>
+          <Text style={[styles.sectionSubtitle, { color: subtext }]}>
+            The planner only books task blocks inside these hours.
+          </Text>
+        </View>
+
+        <View style={[styles.card, { backgroundColor: card }]}>
+          {WEEKDAYS.map((day, index) => {
+            const hours = settings.hours[day.value];
+            return (
+              <View key={day.value} style={[styles.row, index > 0 && styles.rowDivider, { borderTopColor: border }]}>
+                <Text style={[styles.dayLabel, { color: text }]}>{day.label}</Text>
+                <View style={styles.rangeRow}>
+                  {hours.enabled ? (
+                    <>
+                      {timeButton(formatClock(hours.start), { kind: "hours", day: day.value, edge: "start" })}
+                      <Text style={{ color: subtext }}>–</Text>
+                      {timeButton(formatClock(hours.end), { kind: "hours", day: day.value, edge: "end" })}
+                    </>
+                  ) : (
+                    <Text style={[styles.rowHint, { color: subtext }]}>Day off</Text>
+                  )}
+                  <Switch value={hours.enabled} onValueChange={(enabled) => setDayHours(day.value, { enabled })} />
+                </View>
+              </View>
+            );
+          })}
+        </View>
+
+        <View style={styles.sectionHeaderWrap}>
+          <Text style={[styles.sectionTitle, { color: text }]}>Fixed commitments</Text>
+          <Text style={[styles.sectionSubtitle, { color: subtext }]}>
+            Lectures, shifts and anything else that repeats every week.
+          </Text>
+        </View>
+
+        <View style={[styles.card, { backgroundColor: card }]}>
+          {settings.commitments.map((commitment, index) => (
+            <View key={commitment.id} style={[styles.row, index > 0 && styles.rowDivider, { borderTopColor: border }]}>
+              <View style={{ flex: 1 }}>
+                <Text style={[styles.label, { color: text }]}>{commitment.title}</Text>
+                <Text style={[styles.rowHint, { color: subtext }]}>
+                  {describeDays(commitment.weekdays)} · {formatClock(commitment.start)} – {formatClock(commitment.end)}
+                </Text>
+              </View>
+              <TouchableOpacity
+                onPress={() => removeCommitment(commitment.id)}
+                accessibilityLabel={`Remove ${commitment.title}`}
+                hitSlop={8}
+              >
+                <Ionicons name="trash-outline" size={20} color={colors.dangerRed} />
+              </TouchableOpacity>
+            </View>
+          ))}
+
+          <View style={[styles.padded, settings.commitments.length > 0 && styles.rowDivider, { borderTopColor: border }]}>
+            <TextInput
+              value={draft.title}
+              onChangeText={(title) => setDraft({ ...draft, title })}
+              placeholder="e.g. Chemistry lecture"
+              placeholderTextColor={subtext}
+              style={[styles.input, { color: text, backgroundColor: inputBg, borderColor: border }]}
+            />
+            <View style={styles.chipRow}>
+              {WEEKDAYS.map((day) => {
+                const active = draft.weekdays.includes(day.value);
+                return (
+                  <TouchableOpacity
+                    key={day.value}
+                    onPress={() => toggleDraftDay(day.value)}
+                    style={[
+                      styles.chip,
+                      { borderColor: active ? accent : border, backgroundColor: active ? `${accent}22` : "transparent" },
+                    ]}
+                  >
+                    <Text style={[styles.chipText, { color: active ? accent : subtext }]}>{day.short}</Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+            <View style={styles.rangeRow}>
+              {timeButton(formatClock(draft.start), { kind: "draft", edge: "start" })}
+              <Text style={{ color: subtext }}>–</Text>
+              {timeButton(formatClock(draft.end), { kind: "draft", edge: "end" })}
+            </View>
+            <TouchableOpacity
+              style={[styles.button, { backgroundColor: accent, borderColor: accent }]}
+              onPress={addCommitment}
+              activeOpacity={0.8}
+            >
+              <Ionicons name="add" size={16} color="#fff" />
+              <Text style={[styles.buttonText, { color: "#fff" }]}>Add commitment</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        <View style={styles.sectionHeaderWrap}>
+          <Text style={[styles.sectionTitle, { color: text }]}>Breaks</Text>
+          <Text style={[styles.sectionSubtitle, { color: subtext }]}>
+            Long tasks are split into blocks and spread over the days before they are due.
+          </Text>
+        </View>
+
+        <View style={[styles.card, { backgroundColor: card }]}>
+          {rules.map((rule, index) => (
+            <View key={rule.key} style={[styles.row, index > 0 && styles.rowDivider, { borderTopColor: border }]}>
+              <View style={{ flex: 1 }}>
+                <Text style={[styles.label, { color: text }]}>{rule.label}</Text>
+                <Text style={[styles.rowHint, { color: subtext }]}>{rule.hint}</Text>
+              </View>
+              <View style={styles.stepper}>
+                <TouchableOpacity
+                  onPress={() => stepRule(rule.key, -rule.step)}
+                  accessibilityLabel={`Decrease ${rule.label.toLowerCase()}`}
+                  hitSlop={6}
+                >
+                  <Ionicons name="remove-circle-outline" size={22} color={accent} />
+                </TouchableOpacity>
+                <Text style={[styles.stepperText, { color: text }]}>{settings[rule.key]} min</Text>
+                <TouchableOpacity
+                  onPress={() => stepRule(rule.key, rule.step)}
+                  accessibilityLabel={`Increase ${rule.label.toLowerCase()}`}
+                  hitSlop={6}
+                >
+                  <Ionicons name="add-circle-outline" size={22} color={accent} />
+                </TouchableOpacity>
+              </View>
+            </View>
+          ))}
+        </View>
+      </ScrollView>
+
+      <Modal transparent visible={timeTarget !== null} animationType="fade" onRequestClose={() => setTimeTarget(null)}>
+        <TouchableOpacity activeOpacity={1} onPress={() => setTimeTarget(null)} style={styles.modalOverlay}>
+          <TouchableOpacity activeOpacity={1} style={[styles.pickerCard, { backgroundColor: card }]}>
+            <Text style={[styles.modalTitle, { color: text }]}>
+              {timeTarget?.edge === "end" ? "End time" : "Start time"}
+            </Text>
+            <DateTimePicker
+              mode="time"
+              display="spinner"
+              value={new Date(new Date().setHours(Math.floor(tempMinutes / 60), tempMinutes % 60, 0, 0))}
+              onChange={onTimeChange}
+              minuteInterval={5}
+              themeVariant={dark ? "dark" : "light"}
+            />
+            <TouchableOpacity style={[styles.button, { backgroundColor: accent, borderColor: accent }]} onPress={applyTime}>
+              <Text style={[styles.buttonText, { color: "#fff" }]}>Set</Text>
+            </TouchableOpacity>
+          </TouchableOpacity>
+        </TouchableOpacity>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  loading: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  content: {
+    paddingHorizontal: 16,
+    paddingTop: 14,
+    paddingBottom: 42,
+    gap: 14,
+  },
+  sectionHeaderWrap: {
+    marginBottom: 2,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: "800",
+    marginBottom: 2,
+  },
+  sectionSubtitle: {
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  card: {
+    borderRadius: 16,
+    overflow: "hidden",
+  },
+  padded: {
+    padding: 14,
+    gap: 10,
+  },
+  row: {
+    minHeight: 54,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    gap: 10,
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+  },
+  rowDivider: {
+    borderTopWidth: StyleSheet.hairlineWidth,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  dayLabel: {
+    fontSize: 15,
+    fontWeight: "600",
+  },
+  rowHint: {
+    fontSize: 13,
+    lineHeight: 17,
+  },
+  rangeRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  timeButton: {
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+  },
+  timeText: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 999,
+    paddingHorizontal: 12,
+    paddingVertical: 7,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: "700",
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+  },
+  stepper: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  stepperText: {
+    minWidth: 56,
+    textAlign: "center",
+    fontSize: 14,
+    fontWeight: "700",
+  },
+  button: {
+    minHeight: 44,
+    borderWidth: 1,
+    borderRadius: 12,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 6,
+  },
+  buttonText: {
+    fontSize: 14,
+    fontWeight: "700",
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: "rgba(0,0,0,0.4)",
+    justifyContent: "center",
+    padding: 24,
+  },
+  pickerCard: {
+    borderRadius: 16,
+    padding: 16,
+    gap: 12,
+  },
+  modalTitle: {
+    fontSize: 17,
+    fontWeight: "700",
+    textAlign: "center",
+  },
+});
@@ -0,0 +1,303 @@
+import { useFocusEffect } from "expo-router";
+import { useCallback, useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+import { useColorScheme } from "@/hooks/use-color-scheme";
+import { useThemeColors } from "@/hooks/use-theme-colors";
+import { useAuth } from "@/hooks/useAuth";
+import {
+  dismissSyncConflict,
+  loadSyncConflicts,
+  loadSyncSettings,
+  resolveSyncConflict,
+  saveSyncSettings,
+  syncNow,
+  type SyncSettings,
+} from "@/lib/sync";
+import type { SyncConflict, SyncField, SyncValue } from "@/utils/syncProtocol";
+
+const FIELD_LABELS: Record<SyncField, string> = {
+  title: "Title",
+  subject: "Subject",
+  difficulty: "Difficulty",
+  priority: "Priority",
+  category: "Category",
+  due_date: "Due date",
+  notes: "Notes",
+  completed: "Completed",
+  estimated_minutes: "Estimate (minutes)",
+  reminder_offsets: "Reminders",
+  assessment_weight: "Weight (% of course)",
+  grade: "Grade (%)",
+};
+
+function describeValue(field: SyncField, value: SyncValue) {
+  if (value === null || value === "") return "None";
+  if (field === "completed") return value ? "Yes" : "No";
+  return String(value);
+}
+
+export default function SyncScreen() {
+  const scheme = useColorScheme();
+  const dark = scheme === "dark";
+  const colors = useThemeColors();
+  const { user } = useAuth();
+
+  const [settings, setSettings] = useState<SyncSettings | null>(null);
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+  const [working, setWorking] = useState(false);
+  const [lastResult, setLastResult] = useState<string | null>(null);
+
+  const text = colors.textPrimary;
+  const subtext = colors.textMuted;
+  const card = colors.surface;
+  const border = colors.borderSubtle;
+  const accent = colors.accentBlue;
+  const inputBg = dark ? "#1B2230" : "#EEF2F7";
+
+  const canSync = user?.provider === "email";
+
+  const refresh = useCallback(async () => {
+    const [nextSettings, nextConflicts] = await Promise.all([loadSyncSettings(), loadSyncConflicts()]);
+    setSettings(nextSettings);
+    setConflicts(nextConflicts);
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      void refresh();
+    }, [refresh])
+  );
+
+  const handleSync = async () => {
+    if (working || !settings) return;
+    try {
+      setWorking(true);
+      await saveSyncSettings(settings);
+      const summary = await syncNow();
+      setLastResult(
+        `Sent ${summary.pushed} change${summary.pushed === 1 ? "" : "s"}, received ${summary.pulled}` +
+          (summary.conflicts ? `, ${summary.conflicts} to review.` : ".")
+      );
+      await refresh();
+    } catch (error) {
+      if (__DEV__) console.error("Failed to sync tasks", error);
+      Alert.alert("Sync failed", error instanceof Error ? error.message : "Please try again.");
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleResolve = async (conflict: SyncConflict, useDiscarded: boolean) => {
+    if (working) return;
+    try {
+      setWorking(true);
+      if (useDiscarded) await resolveSyncConflict(conflict);
+      else await dismissSyncConflict(conflict);
+      await refresh();
+    } catch (error) {
+      if (__DEV__) console.error("Failed to resolve sync conflict", error);
+      Alert.alert("Could not apply that", error instanceof Error ? error.message : "Please try again.");
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  if (!settings) {
+    return (
+      <View style={[styles.loading, { backgroundColor: colors.background }]}>
+        <ActivityIndicator color={accent} />
+      </View>
+    );
+  }
+
+  return (
+    <View style={{ flex: 1, backgroundColor: colors.background }}>
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        <View style={styles.sectionHeaderWrap}>
+          <Text style={[styles.sectionTitle, { color: text }]}>Sync between devices</Text>
+          <Text style={[styles.sectionSubtitle, { color: subtext }]}>
+            Point each device at the same sync server, enter its token and sign in with the same email account.
+            Changes to different fields of a task all come through; when both devices changed the same field, the later
+            change wins and the other one is kept below for you to review.
+          </Text>
+        </View>
+
+        {canSync ? (
+          <View style={[styles.card, styles.padded, { backgroundColor: card }]}>
+            <Text style={[styles.label, { color: text }]}>Server</Text>
+            <TextInput
+              value={settings.serverUrl}
+              onChangeText={(serverUrl) => setSettings({ ...settings, serverUrl })}
+              placeholder="http://192.168.1.20:8787"
+              placeholderTextColor={subtext}
+              autoCapitalize="none"
+              autoCorrect={false}
+              keyboardType="url"
+              style={[styles.input, { color: text, backgroundColor: inputBg, borderColor: border }]}
+            />
+            <TextInput
+              value={settings.token}
+              onChangeText={(token) => setSettings({ ...settings, token })}
+              placeholder="Token"
+              placeholderTextColor={subtext}
+              autoCapitalize="none"
+              autoCorrect={false}
+              secureTextEntry
+              style={[styles.input, { color: text, backgroundColor: inputBg, borderColor: border }]}
+            />
+            <TouchableOpacity
+              style={[styles.button, { backgroundColor: accent, borderColor: accent }]}
+              onPress={handleSync}
+              disabled={working}
+              activeOpacity={0.85}
+            >
+              {working && <ActivityIndicator color="#fff" />}
+              <Text style={[styles.buttonText, { color: "#fff" }]}>{working ? "Syncing..." : "Sync now"}</Text>
+            </TouchableOpacity>
+            {lastResult ? <Text style={[styles.rowHint, { color: subtext }]}>{lastResult}</Text> : null}
+          </View>
+        ) : (
+          <View style={[styles.card, styles.padded, { backgroundColor: card }]}>
+            <Text style={[styles.rowHint, { color: subtext }]}>
+              Sync needs an email account so each device can find the same tasks. Create one under Account first.
+            </Text>
+          </View>
+        )}
+
+        {conflicts.length ? (
+          <>
+            <View style={styles.sectionHeaderWrap}>
+              <Text style={[styles.sectionTitle, { color: text }]}>To review</Text>
+              <Text style={[styles.sectionSubtitle, { color: subtext }]}>
+                Keep the synced version, or use the one that lost and sync it out next time.
+              </Text>
+            </View>
+            {conflicts.map((conflict) => (
+              <View
+                key={`${conflict.uid}-${conflict.field}-${conflict.at}`}
+                style={[styles.card, styles.padded, { backgroundColor: card }]}
+              >
+                <Text style={[styles.label, { color: text }]}>{conflict.title || "Untitled task"}</Text>
+                {conflict.field === "deleted" ? (
+                  <Text style={[styles.rowHint, { color: subtext }]}>
+                    Deleted on one device while it was being edited on another.
+                  </Text>
+                ) : (
+                  <>
+                    <Text style={[styles.rowHint, { color: subtext }]}>
+                      {FIELD_LABELS[conflict.field]}: kept “{describeValue(conflict.field, conflict.kept)}”
+                    </Text>
+                    <Text style={[styles.rowHint, { color: subtext }]}>
+                      Other version: “{describeValue(conflict.field, conflict.discarded)}”
+                    </Text>
+                  </>
+                )}
+                <View style={styles.buttonRow}>
+                  <TouchableOpacity
+                    style={[styles.button, styles.buttonFlex, { borderColor: border }]}
+                    onPress={() => handleResolve(conflict, false)}
+                    disabled={working}
+                    activeOpacity={0.85}
+                  >
+                    <Text style={[styles.buttonText, { color: text }]}>
+                      {conflict.field === "deleted" ? "Keep deleted" : "Keep"}
+                    </Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[styles.button, styles.buttonFlex, { borderColor: accent }]}
+                    onPress={() => handleResolve(conflict, true)}
+                    disabled={working}
+                    activeOpacity={0.85}
+                  >
+                    <Text style={[styles.buttonText, { color: accent }]}>
+                      {conflict.field === "deleted" ? "Restore task" : "Use other version"}
+                    </Text>
+                  </TouchableOpacity>
+                </View>
+              </View>
+            ))}
+          </>
+        ) : null}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  loading: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  content: {
+    paddingHorizontal: 16,
+    paddingTop: 14,
+    paddingBottom: 42,
+    gap: 14,
+  },
+  sectionHeaderWrap: {
+    marginBottom: 2,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: "800",
+    marginBottom: 2,
+  },
+  sectionSubtitle: {
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  card: {
+    borderRadius: 16,
+    overflow: "hidden",
+  },
+  padded: {
+    padding: 14,
+    gap: 10,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  rowHint: {
+    fontSize: 13,
+    lineHeight: 17,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+  },
+  buttonRow: {
+    flexDirection: "row",
+    gap: 10,
+  },
+  button: {
+    minHeight: 44,
+    borderWidth: 1,
+    borderRadius: 12,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 6,
+  },
+  buttonFlex: {
+    flex: 1,
+  },
+  buttonText: {
+    fontSize: 14,
+    fontWeight: "700",
+  },
+});
@@ -0,0 +1,293 @@
+import { useFocusEffect } from "expo-router";
+import { useCallback, useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+import { useColorScheme } from "@/hooks/use-color-scheme";
+import { useThemeColors } from "@/hooks/use-theme-colors";
+import { useAuth } from "@/hooks/useAuth";
+import { getAppLockState } from "@/lib/app-lock-storage";
+import type { DataEncryptionStatus, DataKeySource } from "@/lib/data-encryption";
+import { disableTaskEncryption, enableTaskEncryption, getTaskEncryptionStatus } from "@/lib/database";
+
+const SOURCE_LABELS: Record<DataKeySource, string> = {
+  pin: "App-lock PIN",
+  password: "Account password",
+};
+
+export default function TaskEncryptionScreen() {
+  const scheme = useColorScheme();
+  const dark = scheme === "dark";
+  const colors = useThemeColors();
+  const { user } = useAuth();
+
+  const [status, setStatus] = useState<DataEncryptionStatus | null>(null);
+  const [hasPin, setHasPin] = useState(false);
+  const [source, setSource] = useState<DataKeySource | null>(null);
+  const [secret, setSecret] = useState("");
+  const [working, setWorking] = useState(false);
+
+  const text = colors.textPrimary;
+  const subtext = colors.textMuted;
+  const card = colors.surface;
+  const border = colors.borderSubtle;
+  const accent = colors.accentBlue;
+  const inputBg = dark ? "#1B2230" : "#EEF2F7";
+
+  const hasPassword = user?.provider === "email";
+  const sources = (["pin", "password"] as const).filter((entry) => (entry === "pin" ? hasPin : hasPassword));
+
+  const refresh = useCallback(async () => {
+    const [next, lock] = await Promise.all([getTaskEncryptionStatus(), getAppLockState()]);
+    const pinSet = lock.enabled && !!lock.pinHash && !!lock.salt;
+    setStatus(next);
+    setHasPin(pinSet);
+    setSource((current) => current ?? (pinSet ? "pin" : hasPassword ? "password" : null));
+  }, [hasPassword]);
+
+  useFocusEffect(
+    useCallback(() => {
+      void refresh();
+    }, [refresh])
+  );
+
+  const handleEnable = async () => {
+    if (working || !source) return;
+    if (!secret) {
+      Alert.alert("Confirm it's you", `Enter your ${SOURCE_LABELS[source].toLowerCase()} to turn on encryption.`);
+      return;
+    }
+    try {
+      setWorking(true);
+      await enableTaskEncryption(source, secret);
+      setSecret("");
+      await refresh();
+    } catch (error) {
+      if (__DEV__) console.error("Failed to turn on task encryption", error);
+      Alert.alert("Could not turn on encryption", error instanceof Error ? error.message : "Please try again.");
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleDisable = () => {
+    Alert.alert(
+      "Turn off encryption?",
+      "Task titles and notes will be stored as plain text again.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Turn off",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              setWorking(true);
+              await disableTaskEncryption();
+              await refresh();
+            } catch (error) {
+              if (__DEV__) console.error("Failed to turn off task encryption", error);
+              Alert.alert("Could not turn off encryption", error instanceof Error ? error.message : "Please try again.");
+            } finally {
+              setWorking(false);
+            }
+          },
+        },
+      ],
+      { userInterfaceStyle: dark ? "dark" : "light" }
+    );
+  };
+
+  if (!status) {
+    return (
+      <View style={[styles.loading, { backgroundColor: colors.background }]}>
+        <ActivityIndicator color={accent} />
+      </View>
+    );
+  }
+
+  return (
+    <View style={{ flex: 1, backgroundColor: colors.background }}>
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        <View style={styles.sectionHeaderWrap}>
+          <Text style={[styles.sectionTitle, { color: text }]}>Encrypt task titles and notes</Text>
+          <Text style={[styles.sectionSubtitle, { color: subtext }]}>
+            Titles and notes are stored encrypted with a key kept in this device&apos;s secure storage (on web, only for
+            the browser session). Each profile also keeps a copy sealed with its PIN or password, so the tasks can be
+            unlocked again on a new phone or in a new browser session. A copy under a short PIN is only as strong as
+            the PIN.
+          </Text>
+        </View>
+
+        <View style={[styles.card, { backgroundColor: card }]}>
+          <View style={styles.row}>
+            <Text style={[styles.label, { color: text }]}>Status</Text>
+            <Text style={[styles.rowHint, { color: subtext }]}>
+              {status.enabled ? "On" : "Off"}
+            </Text>
+          </View>
+        </View>
+
+        {status.enabled ? (
+          <View style={[styles.card, styles.padded, { backgroundColor: card }]}>
+            <Text style={[styles.rowHint, { color: subtext }]}>
+              Turning encryption off rewrites every title and note in plain text.
+            </Text>
+            <TouchableOpacity
+              style={[styles.button, { borderColor: "#FF3B30" }]}
+              onPress={handleDisable}
+              disabled={working}
+              activeOpacity={0.85}
+            >
+              {working && <ActivityIndicator color="#FF3B30" />}
+              <Text style={[styles.buttonText, { color: "#FF3B30" }]}>Turn off encryption</Text>
+            </TouchableOpacity>
+          </View>
+        ) : sources.length ? (
+          <View style={[styles.card, styles.padded, { backgroundColor: card }]}>
+            <Text style={[styles.label, { color: text }]}>Keep a copy of the key under</Text>
+            <View style={styles.chipRow}>
+              {sources.map((entry) => {
+                const active = source === entry;
+                return (
+                  <TouchableOpacity
+                    key={entry}
+                    onPress={() => {
+                      setSource(entry);
+                      setSecret("");
+                    }}
+                    style={[
+                      styles.chip,
+                      { borderColor: active ? accent : border, backgroundColor: active ? `${accent}22` : "transparent" },
+                    ]}
+                  >
+                    <Text style={[styles.chipText, { color: active ? accent : subtext }]}>{SOURCE_LABELS[entry]}</Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+            <TextInput
+              value={secret}
+              onChangeText={setSecret}
+              placeholder={source === "pin" ? "Current PIN" : "Current password"}
+              placeholderTextColor={subtext}
+              secureTextEntry
+              keyboardType={source === "pin" ? "number-pad" : "default"}
+              style={[styles.input, { color: text, backgroundColor: inputBg, borderColor: border }]}
+            />
+            <TouchableOpacity
+              style={[styles.button, { backgroundColor: accent, borderColor: accent }]}
+              onPress={handleEnable}
+              disabled={working}
+              activeOpacity={0.85}
+            >
+              {working && <ActivityIndicator color="#fff" />}
+              <Text style={[styles.buttonText, { color: "#fff" }]}>
+                {working ? "Encrypting..." : "Turn on encryption"}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        ) : (
+          <View style={[styles.card, styles.padded, { backgroundColor: card }]}>
+            <Text style={[styles.rowHint, { color: subtext }]}>
+              Set an app-lock PIN or sign in with an email account first; turning on encryption asks for one of them.
+            </Text>
+          </View>
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  loading: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  content: {
+    paddingHorizontal: 16,
+    paddingTop: 14,
+    paddingBottom: 42,
+    gap: 14,
+  },
+  sectionHeaderWrap: {
+    marginBottom: 2,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: "800",
+    marginBottom: 2,
+  },
+  sectionSubtitle: {
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  card: {
+    borderRadius: 16,
+    overflow: "hidden",
+  },
+  padded: {
+    padding: 14,
+    gap: 10,
+  },
+  row: {
+    minHeight: 54,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    gap: 10,
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  rowHint: {
+    fontSize: 13,
+    lineHeight: 17,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 999,
+    paddingHorizontal: 12,
+    paddingVertical: 7,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: "700",
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+  },
+  button: {
+    minHeight: 44,
+    borderWidth: 1,
+    borderRadius: 12,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 6,
+  },
+  buttonText: {
+    fontSize: 14,
+    fontWeight: "700",
+  },
+});
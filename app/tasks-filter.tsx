@@ -1,6 +1,8 @@
-import { getTasks } from "@/lib/database";
+import { TagChips } from "@/components/tag-chips";
+import { getTags, getTasks } from "@/lib/database";
 import { useColorScheme } from "@/hooks/use-color-scheme";
 import { updateAvailabilityWithFeedback } from "@/utils/availabilityFeedback";
+import { normalizeTagName, taskHasTag, type TaskTag } from "@/utils/taskTags";
 import { Ionicons } from "@expo/vector-icons";
 import { router, useFocusEffect, useLocalSearchParams, useNavigation } from "expo-router";
 import { useCallback, useEffect, useMemo, useState } from "react";
@@ -16,6 +18,7 @@ type Task = {
   due_date?: string | null;
   completed?: number;
   created_at?: string | null;
+  tag_ids?: string | null;
 };
 
 function dateFromTask(task: Task) {
@@ -31,7 +34,7 @@ function createdDate(task: Task) {
 }
 
 export default function TasksFilterScreen() {
-  const params = useLocalSearchParams<{ filter?: string }>();
+  const params = useLocalSearchParams<{ filter?: string; tag?: string }>();
   const filter = (params.filter as Filter | undefined) ?? "today";
 
   const navigation = useNavigation();
@@ -39,6 +42,8 @@ export default function TasksFilterScreen() {
   const dark = scheme === "dark";
 
   const [tasks, setTasks] = useState<Task[]>([]);
+  const [tags, setTags] = useState<TaskTag[]>([]);
+  const [tagFilter, setTagFilter] = useState<number | null>(null);
 
   const background = dark ? "#1C1C1E" : "#FFFFFF";
   const card = dark ? "#2C2C2E" : "#FFFFFF";
@@ -62,8 +67,9 @@ export default function TasksFilterScreen() {
   );
 
   const loadTasks = useCallback(async () => {
-    const data = await getTasks();
+    const [data, tagList] = await Promise.all([getTasks(), getTags()]);
     setTasks(Array.isArray(data) ? (data as Task[]) : []);
+    setTags(tagList);
   }, []);
 
   useFocusEffect(
@@ -97,7 +103,15 @@ export default function TasksFilterScreen() {
     navigation.setOptions({ title });
   }, [navigation, title]);
 
-  const filtered = useMemo(() => {
+  const tagsById = useMemo(() => new Map(tags.map((tag) => [tag.id, tag])), [tags]);
+
+  useEffect(() => {
+    const name = normalizeTagName(params.tag ?? "");
+    const match = name ? tags.find((tag) => tag.name === name) : undefined;
+    if (match) setTagFilter(match.id);
+  }, [params.tag, tags]);
+
+  const matching = useMemo(() => {
     return tasks.filter((task) => {
       if (task.completed) return false;
 
@@ -120,6 +134,17 @@ export default function TasksFilterScreen() {
     });
   }, [tasks, filter, daysDiff, today]);
 
+  // Tags offered are the ones on tasks this filter already shows
+  const tagOptions = useMemo(
+    () => tags.filter((tag) => tag.id === tagFilter || matching.some((task) => taskHasTag(task, tag.id))),
+    [matching, tagFilter, tags]
+  );
+
+  const filtered = useMemo(
+    () => (tagFilter === null ? matching : matching.filter((task) => taskHasTag(task, tagFilter))),
+    [matching, tagFilter]
+  );
+
   const handleToggleComplete = useCallback(
     async (task: Task) => {
       const updated = await updateAvailabilityWithFeedback(task.id, true);
@@ -153,6 +178,28 @@ export default function TasksFilterScreen() {
   return (
     <View style={[styles.container, { backgroundColor: background }]}>
       <ScrollView contentContainerStyle={styles.scrollContent} showsVerticalScrollIndicator={false}>
+        {tagOptions.length ? (
+          <View style={styles.tagRow}>
+            {tagOptions.map((tag) => {
+              const active = tagFilter === tag.id;
+              return (
+                <TouchableOpacity
+                  key={tag.id}
+                  onPress={() => setTagFilter(active ? null : tag.id)}
+                  style={[
+                    styles.pill,
+                    styles.tagPill,
+                    { borderColor: active ? tag.color : border, backgroundColor: active ? `${tag.color}22` : card },
+                  ]}
+                  accessibilityLabel={active ? `Stop filtering by ${tag.name}` : `Show tasks tagged ${tag.name}`}
+                >
+                  <View style={[styles.tagDot, { backgroundColor: tag.color }]} />
+                  <Text style={{ color: active ? text : subtle, fontWeight: "600" }}>#{tag.name}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        ) : null}
         {filtered.length === 0 ? (
           <Text style={{ color: subtle, marginTop: 12 }}>No tasks match this filter.</Text>
         ) : (
@@ -203,6 +250,7 @@ export default function TasksFilterScreen() {
                   {task.notes}
                 </Text>
               ) : null}
+              <TagChips task={task} tagsById={tagsById} textColor={subtle} />
             </TouchableOpacity>
           ))
         )}
@@ -242,6 +290,22 @@ const styles = StyleSheet.create({
     borderRadius: 10,
     borderWidth: 1,
   },
+  tagRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  tagPill: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    borderRadius: 999,
+  },
+  tagDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
   taskActions: {
     flexDirection: "row",
     alignItems: "center",
@@ -0,0 +1,273 @@
+import { useFocusEffect } from "expo-router";
+import { useCallback, useState } from "react";
+import { ActivityIndicator, Alert, ScrollView, StyleSheet, Text, TouchableOpacity, View } from "react-native";
+
+import { useColorScheme } from "@/hooks/use-color-scheme";
+import { useThemeColors } from "@/hooks/use-theme-colors";
+import { deleteTaskForever, emptyTrash, getTrashedTasks, restoreTask, type TaskRow } from "@/lib/database";
+import { loadTrashRetentionDays, purgeExpiredTrash, saveTrashRetentionDays } from "@/lib/trash";
+import { daysLeftInTrash, TRASH_RETENTION_OPTIONS, type TrashRetentionDays } from "@/utils/trash";
+
+function describeDeleted(task: TaskRow, days: number) {
+  if (!task.deleted_at) return "";
+  const deleted = new Date(task.deleted_at).toLocaleDateString();
+  const left = daysLeftInTrash(task.deleted_at, days, Date.now());
+  return `Deleted ${deleted} · removed for good in ${left} day${left === 1 ? "" : "s"}`;
+}
+
+export default function TrashScreen() {
+  const scheme = useColorScheme();
+  const dark = scheme === "dark";
+  const colors = useThemeColors();
+
+  const [tasks, setTasks] = useState<TaskRow[] | null>(null);
+  const [retention, setRetention] = useState<TrashRetentionDays | null>(null);
+  const [working, setWorking] = useState(false);
+
+  const text = colors.textPrimary;
+  const subtext = colors.textMuted;
+  const card = colors.surface;
+  const border = colors.borderSubtle;
+  const accent = colors.accentBlue;
+
+  const refresh = useCallback(async () => {
+    await purgeExpiredTrash();
+    const [trashed, days] = await Promise.all([getTrashedTasks(), loadTrashRetentionDays()]);
+    setTasks(trashed);
+    setRetention(days);
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      refresh().catch((error) => {
+        if (__DEV__) console.error("Failed to load the trash", error);
+        setTasks([]);
+      });
+    }, [refresh])
+  );
+
+  const run = async (label: string, action: () => Promise<unknown>) => {
+    if (working) return;
+    try {
+      setWorking(true);
+      await action();
+      await refresh();
+    } catch (error) {
+      if (__DEV__) console.error(`Failed to ${label}`, error);
+      Alert.alert("Something went wrong", "Please try again.");
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleDeleteForever = (task: TaskRow) => {
+    Alert.alert(
+      "Delete for good?",
+      `"${task.title}" will be removed permanently. This can't be undone.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: () => run("delete a task from the trash", () => deleteTaskForever(task.id)),
+        },
+      ],
+      { userInterfaceStyle: dark ? "dark" : "light" }
+    );
+  };
+
+  const handleEmpty = () => {
+    Alert.alert(
+      "Empty the trash?",
+      "Every task in the trash will be removed permanently. This can't be undone.",
+      [
+        { text: "Cancel", style: "cancel" },
+        { text: "Empty Trash", style: "destructive", onPress: () => run("empty the trash", emptyTrash) },
+      ],
+      { userInterfaceStyle: dark ? "dark" : "light" }
+    );
+  };
+
+  const chooseRetention = (days: TrashRetentionDays) => {
+    setRetention(days);
+    void run("save the trash period", () => saveTrashRetentionDays(days));
+  };
+
+  if (!tasks || retention === null) {
+    return (
+      <View style={[styles.loading, { backgroundColor: colors.background }]}>
+        <ActivityIndicator color={accent} />
+      </View>
+    );
+  }
+
+  return (
+    <View style={{ flex: 1, backgroundColor: colors.background }}>
+      <ScrollView contentContainerStyle={styles.content}>
+        <View style={styles.sectionHeaderWrap}>
+          <Text style={[styles.sectionTitle, { color: text }]}>Recently deleted</Text>
+          <Text style={[styles.sectionSubtitle, { color: subtext }]}>
+            Deleted tasks stay here with their checklists until they are restored or the period below runs out.
+          </Text>
+        </View>
+
+        <View style={[styles.card, styles.padded, { backgroundColor: card }]}>
+          <Text style={[styles.label, { color: text }]}>Remove for good after</Text>
+          <View style={styles.chipRow}>
+            {TRASH_RETENTION_OPTIONS.map((days) => {
+              const active = retention === days;
+              return (
+                <TouchableOpacity
+                  key={days}
+                  onPress={() => chooseRetention(days)}
+                  disabled={working}
+                  style={[
+                    styles.chip,
+                    { borderColor: active ? accent : border, backgroundColor: active ? `${accent}22` : "transparent" },
+                  ]}
+                >
+                  <Text style={[styles.chipText, { color: active ? accent : subtext }]}>{days} days</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </View>
+
+        {tasks.length ? (
+          <>
+            <View style={[styles.card, { backgroundColor: card }]}>
+              {tasks.map((task, index) => (
+                <View
+                  key={task.id}
+                  style={[styles.taskRow, index > 0 ? [styles.rowDivider, { borderTopColor: border }] : null]}
+                >
+                  <View style={{ flex: 1 }}>
+                    <Text style={[styles.label, { color: text }]} numberOfLines={2}>
+                      {task.title || "Untitled task"}
+                    </Text>
+                    <Text style={[styles.rowHint, { color: subtext }]}>{describeDeleted(task, retention)}</Text>
+                  </View>
+                  <TouchableOpacity
+                    onPress={() => run("restore a task", () => restoreTask(task.id))}
+                    disabled={working}
+                    accessibilityRole="button"
+                    accessibilityLabel={`Restore ${task.title}`}
+                  >
+                    <Text style={[styles.action, { color: accent }]}>Restore</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    onPress={() => handleDeleteForever(task)}
+                    disabled={working}
+                    accessibilityRole="button"
+                    accessibilityLabel={`Delete ${task.title} for good`}
+                  >
+                    <Text style={[styles.action, { color: "#FF3B30" }]}>Delete</Text>
+                  </TouchableOpacity>
+                </View>
+              ))}
+            </View>
+
+            <TouchableOpacity
+              style={[styles.button, { borderColor: "#FF3B30" }]}
+              onPress={handleEmpty}
+              disabled={working}
+              activeOpacity={0.85}
+            >
+              {working && <ActivityIndicator color="#FF3B30" />}
+              <Text style={[styles.buttonText, { color: "#FF3B30" }]}>Empty Trash</Text>
+            </TouchableOpacity>
+          </>
+        ) : (
+          <View style={[styles.card, styles.padded, { backgroundColor: card }]}>
+            <Text style={[styles.rowHint, { color: subtext }]}>The trash is empty.</Text>
+          </View>
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  loading: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  content: {
+    paddingHorizontal: 16,
+    paddingTop: 14,
+    paddingBottom: 42,
+    gap: 14,
+  },
+  sectionHeaderWrap: {
+    marginBottom: 2,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: "800",
+    marginBottom: 2,
+  },
+  sectionSubtitle: {
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  card: {
+    borderRadius: 16,
+    overflow: "hidden",
+  },
+  padded: {
+    padding: 14,
+    gap: 10,
+  },
+  taskRow: {
+    minHeight: 54,
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 14,
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+  },
+  rowDivider: {
+    borderTopWidth: StyleSheet.hairlineWidth,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  rowHint: {
+    fontSize: 13,
+    lineHeight: 17,
+  },
+  action: {
+    fontSize: 14,
+    fontWeight: "700",
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 999,
+    paddingHorizontal: 12,
+    paddingVertical: 7,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: "700",
+  },
+  button: {
+    minHeight: 44,
+    borderWidth: 1,
+    borderRadius: 12,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 6,
+  },
+  buttonText: {
+    fontSize: 14,
+    fontWeight: "700",
+  },
+});
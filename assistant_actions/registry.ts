@@ -1,5 +1,5 @@
 import { router } from "expo-router";
-import { addTask, deleteTask, updateTask } from "@/lib/database";
+import { recordBatch, startBatch, type JournalRecorder } from "@/lib/action-journal";
 import { updateAvailabilityWithFeedback } from "@/utils/availabilityFeedback";
 import { disableReminder, enableReminder, saveReminderSettings } from "@/lib/notifications";
 import { saveNavQuickAction } from "@/lib/nav-quick-actions-store";
@@ -11,7 +11,14 @@ export type ActionDeps = {
   debug?: boolean;
 };
 
-async function exec(action: AssistantAction, deps: ActionDeps) {
+const UNDO_LABELS: Partial<Record<AssistantAction["type"], string>> = {
+  CREATE_TASK: "Added a task",
+  UPDATE_TASK: "Updated a task",
+  COMPLETE_TASK: "Updated a task",
+  DELETE_TASK: "Deleted a task",
+};
+
+async function exec(action: AssistantAction, deps: ActionDeps, journal: JournalRecorder) {
   if (deps.debug) {
     console.log("[assistant_action]", action);
   }
@@ -27,7 +34,7 @@ async function exec(action: AssistantAction, deps: ActionDeps) {
       return;
     case "CREATE_TASK": {
       const due = action.payload.due_date ?? null;
-      await addTask({
+      await journal.addTask({
         title: action.payload.title,
         description: action.payload.description ?? action.payload.title,
         difficulty: action.payload.difficulty ?? "medium",
@@ -39,7 +46,7 @@ async function exec(action: AssistantAction, deps: ActionDeps) {
       return;
     }
     case "UPDATE_TASK": {
-      await updateTask({
+      await journal.updateTask({
         id: action.payload.id,
         title: action.payload.title ?? "",
         notes: action.payload.notes ?? "",
@@ -50,12 +57,14 @@ async function exec(action: AssistantAction, deps: ActionDeps) {
       return;
     }
     case "COMPLETE_TASK": {
-      await updateAvailabilityWithFeedback(action.payload.id, action.payload.value ?? true);
+      await updateAvailabilityWithFeedback(action.payload.id, action.payload.value ?? true, {
+        complete: journal.setCompleted,
+      });
       await deps.onTasksChanged?.();
       return;
     }
     case "DELETE_TASK": {
-      await deleteTask(action.payload.id);
+      await journal.deleteTask(action.payload.id);
       await deps.onTasksChanged?.();
       return;
     }
@@ -82,8 +91,15 @@ async function exec(action: AssistantAction, deps: ActionDeps) {
   }
 }
 
+// One reply's task changes are journaled as a single batch, so "undo that" reverts all of them
 export async function runAssistantActions(actions: AssistantAction[] = [], deps: ActionDeps = {}) {
-  for (const action of actions) {
-    await exec(action, deps);
+  const journal = startBatch();
+  try {
+    for (const action of actions) {
+      await exec(action, deps, journal);
+    }
+  } finally {
+    const labels = actions.flatMap((action) => UNDO_LABELS[action.type] ?? []);
+    recordBatch(labels.length === 1 ? labels[0] : "Assistant changes", journal.steps);
   }
 }
@@ -73,6 +73,17 @@ export async function getTaskMemory(taskId: number, lib: LibraryType) {
   return state[makeKey(taskId, lib)] || null;
 }
 
+// Drops what the assistant said about tasks that no longer exist, e.g. after deleting an account
+export async function forgetTaskMemory(taskIds: number[]) {
+  const ids = new Set(taskIds.map(String));
+  const state = await load();
+  Object.keys(state).forEach((key) => {
+    if (ids.has(key.slice(key.indexOf(":") + 1))) delete state[key];
+  });
+  cache = state;
+  await persist();
+}
+
 export function resetTaskMemoryCache() {
   cache = null;
 }
@@ -1,5 +1,5 @@
-import React, { useCallback, useEffect, useMemo, useState } from "react";
-import { ActivityIndicator, View } from "react-native";
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { ActivityIndicator, AppState, BackHandler, StyleSheet, View } from "react-native";
 import { router } from "expo-router";
 
 import {
@@ -8,13 +8,19 @@ import {
   clearPin,
   getAppLockSecurityState,
   getAppLockState,
+  getAutoLockSetting,
+  getBiometricUnlockEnabled,
   recordFailedUnlockAttempt,
   setAppLockEnabled,
   verifyPin,
 } from "@/lib/app-lock-storage";
+import { setAppSwitcherProtection } from "@/lib/app-switcher-privacy";
+import { authenticateWithBiometrics, getBiometricSupport } from "@/lib/biometrics";
+import { addDataKeyWrap, verifyActiveUserPassword } from "@/lib/database";
 import { LockScreen } from "@/components/lock-screen";
 import { PinRecoveryScreen } from "@/components/pin-recovery-screen";
 import { useAuth } from "@/hooks/useAuth";
+import { shouldLockOnResume } from "@/utils/appLockPolicy";
 
 type Props = {
   children: React.ReactNode;
@@ -22,32 +28,84 @@ type Props = {
 
 export function AppLockGate({ children }: Props) {
   const { user } = useAuth();
+  const userId = user?.id ?? null;
   const [loading, setLoading] = useState(true);
+  // Whose lock settings are loaded; content stays hidden until it matches the current profile
+  const [loadedFor, setLoadedFor] = useState<number | null | undefined>(undefined);
+  const [lockEnabled, setLockEnabled] = useState(false);
   const [locked, setLocked] = useState(false);
   const [missingPin, setMissingPin] = useState(false);
   const [attemptsRemaining, setAttemptsRemaining] = useState(APP_LOCK_MAX_ATTEMPTS);
   const [lockoutUntil, setLockoutUntil] = useState<number | null>(null);
   const [recoveringPin, setRecoveringPin] = useState(false);
+  // Set when biometric unlock is turned on and the device can do it
+  const [biometricLabel, setBiometricLabel] = useState<string | null>(null);
+  const backgroundedAtRef = useRef<number | null>(null);
+
+  const unlock = useCallback(async () => {
+    await clearFailedUnlockAttempts();
+    setLocked(false);
+    setAttemptsRemaining(APP_LOCK_MAX_ATTEMPTS);
+    setLockoutUntil(null);
+  }, []);
+
+  const handleBiometricUnlock = useCallback(async () => {
+    if (await authenticateWithBiometrics("Unlock Work Assessor")) {
+      await unlock();
+    }
+  }, [unlock]);
 
   const loadState = useCallback(async () => {
-    const [state, security] = await Promise.all([
+    const [state, security, biometricsEnabled] = await Promise.all([
       getAppLockState(),
       getAppLockSecurityState(),
+      getBiometricUnlockEnabled(),
     ]);
 
     const shouldLock = state.enabled === true;
     const pinMissing = shouldLock && (!state.pinHash || !state.salt);
+    const support = shouldLock && !pinMissing && biometricsEnabled ? await getBiometricSupport() : null;
+    setLockEnabled(shouldLock);
     setMissingPin(pinMissing);
     setLocked(shouldLock && !pinMissing);
     setAttemptsRemaining(Math.max(0, security.maxAttempts - security.attempts));
     setLockoutUntil(security.lockoutUntil);
+    setBiometricLabel(support?.available ? support.label : null);
+    setLoadedFor(userId);
     setLoading(false);
-  }, []);
+    // Offer biometrics straight away; cancelling leaves the PIN keypad
+    if (support?.available) void handleBiometricUnlock();
+  }, [handleBiometricUnlock, userId]);
 
   useEffect(() => {
     void loadState();
   }, [loadState]);
 
+  // Relock after the app has been in the background for longer than the auto-lock setting allows
+  useEffect(() => {
+    const subscription = AppState.addEventListener("change", (status) => {
+      if (status === "background") {
+        backgroundedAtRef.current = Date.now();
+        // Lock before the OS takes its app-switcher snapshot when the setting is "immediately"
+        void getAutoLockSetting().then((setting) => {
+          if (setting === "immediately" && lockEnabled && !missingPin) setLocked(true);
+        });
+        return;
+      }
+      if (status !== "active") return;
+      const backgroundedAt = backgroundedAtRef.current;
+      backgroundedAtRef.current = null;
+      void getAutoLockSetting().then((setting) => {
+        if (shouldLockOnResume(setting, backgroundedAt, Date.now())) void loadState();
+      });
+    });
+    return () => subscription.remove();
+  }, [loadState, lockEnabled, missingPin]);
+
+  useEffect(() => {
+    void setAppSwitcherProtection({ lockEnabled, locked: locked || missingPin });
+  }, [lockEnabled, locked, missingPin]);
+
   const handleUnlock = useCallback(
     async (pin: string) => {
       if (lockoutUntil && lockoutUntil > Date.now()) {
@@ -56,10 +114,11 @@ export function AppLockGate({ children }: Props) {
 
       const ok = await verifyPin(pin);
       if (ok) {
-        await clearFailedUnlockAttempts();
-        setLocked(false);
-        setAttemptsRemaining(APP_LOCK_MAX_ATTEMPTS);
-        setLockoutUntil(null);
+        // A profile without a copy of the task encryption key gets one under its PIN
+        void addDataKeyWrap("pin", pin).catch((error) => {
+          if (__DEV__) console.error("Failed to keep a copy of the data key", error);
+        });
+        await unlock();
         return true;
       }
 
@@ -68,7 +127,7 @@ export function AppLockGate({ children }: Props) {
       setLockoutUntil(security.lockoutUntil);
       return false;
     },
-    [lockoutUntil]
+    [lockoutUntil, unlock]
   );
 
   const handleResetPin = useCallback(() => {
@@ -90,7 +149,7 @@ export function AppLockGate({ children }: Props) {
       if (user.provider !== "email") {
         return "This account does not use a password. Please sign out and sign in again to reset PIN.";
       }
-      if ((user.password ?? "") !== password) {
+      if (!(await verifyActiveUserPassword(password))) {
         return "Incorrect account password.";
       }
 
@@ -108,15 +167,9 @@ export function AppLockGate({ children }: Props) {
     [user]
   );
 
-  const content = useMemo(() => {
-    if (loading) {
-      return (
-        <View style={{ flex: 1, alignItems: "center", justifyContent: "center" }}>
-          <ActivityIndicator />
-        </View>
-      );
-    }
-
+  // Shown above the app rather than in its place, so relocking keeps the navigation stack,
+  // half-filled forms and a running focus session mounted underneath
+  const overlay = useMemo(() => {
     if (recoveringPin) {
       return (
         <PinRecoveryScreen
@@ -137,25 +190,64 @@ export function AppLockGate({ children }: Props) {
           attemptsRemaining={attemptsRemaining}
           maxAttempts={APP_LOCK_MAX_ATTEMPTS}
           lockoutUntil={lockoutUntil}
+          biometricLabel={biometricLabel}
+          onBiometricUnlock={handleBiometricUnlock}
         />
       );
     }
 
-    return children;
+    return null;
   }, [
     attemptsRemaining,
-    children,
+    biometricLabel,
+    handleBiometricUnlock,
     handleForgotPin,
     handleRecoverWithPassword,
     handleResetPin,
     handleUnlock,
-    loading,
     locked,
     lockoutUntil,
     missingPin,
     recoveringPin,
     user?.email,
   ]);
+  const covered = overlay !== null;
 
-  return <>{content}</>;
+  // The Android back button would otherwise navigate the hidden stack
+  useEffect(() => {
+    if (!covered) return;
+    const subscription = BackHandler.addEventListener("hardwareBackPress", () => true);
+    return () => subscription.remove();
+  }, [covered]);
+
+  if (loading || loadedFor !== userId) {
+    return (
+      <View style={{ flex: 1, alignItems: "center", justifyContent: "center" }}>
+        <ActivityIndicator />
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.root}>
+      <View
+        style={[styles.root, covered && styles.hidden]}
+        pointerEvents={covered ? "none" : "auto"}
+        accessibilityElementsHidden={covered}
+        importantForAccessibility={covered ? "no-hide-descendants" : "auto"}
+      >
+        {children}
+      </View>
+      {covered ? <View style={StyleSheet.absoluteFill}>{overlay}</View> : null}
+    </View>
+  );
 }
+
+const styles = StyleSheet.create({
+  root: {
+    flex: 1,
+  },
+  hidden: {
+    opacity: 0,
+  },
+});
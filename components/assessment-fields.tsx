@@ -0,0 +1,81 @@
+import { StyleSheet, Text, TextInput, View } from "react-native";
+
+type Props = {
+  // Kept as typed; the screens read them with utils/grades when saving
+  weight: string;
+  grade: string;
+  onChangeWeight: (next: string) => void;
+  onChangeGrade: (next: string) => void;
+  colors: { text: string; muted: string; border: string; subtleSurface: string; blue: string };
+};
+
+// Assessment weight and grade inputs shared by the add and edit task screens.
+export function AssessmentFields({ weight, grade, onChangeWeight, onChangeGrade, colors }: Props) {
+  const inputStyle = [
+    styles.input,
+    { color: colors.text, borderColor: colors.border, backgroundColor: colors.subtleSurface },
+  ];
+
+  return (
+    <View style={styles.wrap}>
+      <View style={styles.row}>
+        <View style={styles.field}>
+          <Text style={[styles.label, { color: colors.muted }]}>Worth (% of course)</Text>
+          <TextInput
+            value={weight}
+            onChangeText={onChangeWeight}
+            placeholder="e.g. 30"
+            placeholderTextColor={colors.muted}
+            keyboardType="decimal-pad"
+            style={inputStyle}
+          />
+        </View>
+        <View style={styles.field}>
+          <Text style={[styles.label, { color: colors.muted }]}>Grade achieved (%)</Text>
+          <TextInput
+            value={grade}
+            onChangeText={onChangeGrade}
+            placeholder="Once marked"
+            placeholderTextColor={colors.muted}
+            keyboardType="decimal-pad"
+            style={inputStyle}
+          />
+        </View>
+      </View>
+      {weight.trim() ? (
+        <Text style={[styles.hint, { color: colors.muted }]}>
+          Heavier assessments rank higher in the planner. Grades feed the course average.
+        </Text>
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  wrap: {
+    gap: 8,
+  },
+  row: {
+    flexDirection: "row",
+    gap: 10,
+  },
+  field: {
+    flex: 1,
+    gap: 6,
+  },
+  label: {
+    fontSize: 12,
+    fontWeight: "700",
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 14,
+  },
+  hint: {
+    fontSize: 12,
+    lineHeight: 16,
+  },
+});
@@ -0,0 +1,88 @@
+import { Ionicons } from "@expo/vector-icons";
+import { StyleSheet, Text, TouchableOpacity, View } from "react-native";
+
+import { courseLabel, type Course } from "@/utils/courses";
+
+type Props = {
+  value: number | null;
+  onChange: (next: number | null) => void;
+  courses: Course[];
+  // Opens the Courses screen, where courses are created and edited
+  onManage?: () => void;
+  colors: { text: string; muted: string; border: string; subtleSurface: string; blue: string };
+};
+
+// Course chooser shared by the add and edit task screens.
+export function CoursePicker({ value, onChange, courses, onManage, colors }: Props) {
+  return (
+    <View style={styles.row}>
+      <TouchableOpacity
+        onPress={() => onChange(null)}
+        style={[
+          styles.chip,
+          {
+            borderColor: value === null ? colors.blue : colors.border,
+            backgroundColor: value === null ? colors.subtleSurface : "transparent",
+          },
+        ]}
+      >
+        <Text style={[styles.chipText, { color: value === null ? colors.text : colors.muted }]}>None</Text>
+      </TouchableOpacity>
+      {courses.map((course) => {
+        const active = course.id === value;
+        return (
+          <TouchableOpacity
+            key={course.id}
+            onPress={() => onChange(active ? null : course.id)}
+            style={[
+              styles.chip,
+              {
+                borderColor: active ? course.color : colors.border,
+                backgroundColor: active ? `${course.color}1F` : "transparent",
+              },
+            ]}
+            accessibilityState={{ selected: active }}
+          >
+            <View style={[styles.dot, { backgroundColor: course.color }]} />
+            <Text style={[styles.chipText, { color: active ? colors.text : colors.muted }]} numberOfLines={1}>
+              {courseLabel(course)}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+      {onManage ? (
+        <TouchableOpacity onPress={onManage} style={[styles.chip, { borderColor: colors.border }]}>
+          <Ionicons name={courses.length ? "create-outline" : "add"} size={14} color={colors.blue} />
+          <Text style={[styles.chipText, { color: colors.blue }]}>{courses.length ? "Manage courses" : "Add a course"}</Text>
+        </TouchableOpacity>
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  chip: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    borderWidth: 1,
+    borderRadius: 999,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    maxWidth: 220,
+  },
+  dot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: "700",
+  },
+});
@@ -0,0 +1,91 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { ActivityIndicator, Alert, View } from "react-native";
+
+import { DataUnlockScreen } from "@/components/data-unlock-screen";
+import { useColorScheme } from "@/hooks/use-color-scheme";
+import { useAuth } from "@/hooks/useAuth";
+import type { DataEncryptionStatus, DataKeySource } from "@/lib/data-encryption";
+import {
+  eraseEncryptedTasks,
+  getDataKeySources,
+  getTaskEncryptionStatus,
+  unlockTaskEncryption,
+} from "@/lib/database";
+
+type Props = {
+  children: React.ReactNode;
+};
+
+// Holds the app back while encrypted tasks can't be read, instead of letting every screen fail
+export function DataLockGate({ children }: Props) {
+  const { loading } = useAuth();
+  const scheme = useColorScheme();
+  const [status, setStatus] = useState<DataEncryptionStatus | null>(null);
+  const [sources, setSources] = useState<DataKeySource[]>([]);
+
+  const refresh = useCallback(async () => {
+    const [next, available] = await Promise.all([getTaskEncryptionStatus(), getDataKeySources()]);
+    setSources(available);
+    setStatus(next);
+  }, []);
+
+  useEffect(() => {
+    if (loading) return;
+    void refresh();
+  }, [loading, refresh]);
+
+  const handleUnlock = useCallback(
+    async (source: DataKeySource, secret: string) => {
+      try {
+        const unlocked = await unlockTaskEncryption(source, secret);
+        if (!unlocked) {
+          return source === "pin" ? "That PIN doesn't unlock your tasks." : "That password doesn't unlock your tasks.";
+        }
+        await refresh();
+        return null;
+      } catch (error) {
+        if (__DEV__) console.error("Failed to unlock encrypted tasks", error);
+        return error instanceof Error ? error.message : "Could not unlock your tasks. Please try again.";
+      }
+    },
+    [refresh]
+  );
+
+  const handleErase = useCallback(() => {
+    Alert.alert(
+      "Erase encrypted tasks?",
+      "Without the key they can't be read. This deletes every task on this device and turns encryption off.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Erase",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await eraseEncryptedTasks();
+              await refresh();
+            } catch (error) {
+              if (__DEV__) console.error("Failed to erase encrypted tasks", error);
+              Alert.alert("Could not erase tasks", "Please try again.");
+            }
+          },
+        },
+      ],
+      { userInterfaceStyle: scheme === "dark" ? "dark" : "light" }
+    );
+  }, [refresh, scheme]);
+
+  if (!status) {
+    return (
+      <View style={{ flex: 1, alignItems: "center", justifyContent: "center" }}>
+        <ActivityIndicator />
+      </View>
+    );
+  }
+
+  if (!status.unlocked) {
+    return <DataUnlockScreen sources={sources} onSubmit={handleUnlock} onErase={handleErase} />;
+  }
+
+  return <>{children}</>;
+}
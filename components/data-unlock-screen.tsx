@@ -0,0 +1,273 @@
+import { useColorScheme } from "@/hooks/use-color-scheme";
+import { Ionicons } from "@expo/vector-icons";
+import { useMemo, useState } from "react";
+import {
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+import type { DataKeySource } from "@/lib/data-encryption";
+
+type Props = {
+  sources: DataKeySource[];
+  onSubmit: (source: DataKeySource, secret: string) => Promise<string | null>;
+  onErase: () => void;
+};
+
+const SOURCE_LABELS: Record<DataKeySource, string> = {
+  pin: "App-lock PIN",
+  password: "Account password",
+};
+
+// Shown when task encryption is on but the key isn't in secure storage, e.g. on a new phone or in a
+// new browser session. Any profile's PIN or password with a copy of the key can bring it back.
+export function DataUnlockScreen({ sources, onSubmit, onErase }: Props) {
+  const scheme = useColorScheme();
+  const dark = scheme === "dark";
+  const [source, setSource] = useState<DataKeySource | null>(sources[0] ?? null);
+  const [secret, setSecret] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const colors = useMemo(
+    () => ({
+      background: dark ? "#0F1117" : "#EEF1F7",
+      card: dark ? "#171B24" : "#FFFFFF",
+      text: dark ? "#F5F7FB" : "#12151C",
+      muted: dark ? "#9BA5B7" : "#677285",
+      border: dark ? "rgba(255,255,255,0.12)" : "rgba(10,22,70,0.10)",
+      accent: dark ? "#7CB5FF" : "#0A84FF",
+      danger: "#FF3B30",
+      fieldBg: dark ? "#212836" : "#F4F6FA",
+      fieldBorder: dark ? "rgba(255,255,255,0.16)" : "#DCE3EC",
+    }),
+    [dark]
+  );
+
+  const handleUnlock = async () => {
+    if (submitting || !source) return;
+    if (!secret) {
+      setError(`Enter your ${SOURCE_LABELS[source].toLowerCase()}.`);
+      return;
+    }
+
+    setSubmitting(true);
+    setError(null);
+    const result = await onSubmit(source, secret);
+    setSubmitting(false);
+    if (result) setError(result);
+  };
+
+  return (
+    <View style={[styles.safe, { backgroundColor: colors.background }]}>
+      <KeyboardAvoidingView behavior={Platform.OS === "ios" ? "padding" : undefined} style={{ width: "100%" }}>
+        <View style={[styles.card, { backgroundColor: colors.card, borderColor: colors.border }]}>
+          <View style={styles.header}>
+            <View style={[styles.iconWrap, { backgroundColor: `${colors.accent}20` }]}>
+              <Ionicons name="lock-closed-outline" size={18} color={colors.accent} />
+            </View>
+            <Text style={[styles.headerTitle, { color: colors.accent }]}>Encrypted Tasks</Text>
+          </View>
+
+          <Text style={[styles.title, { color: colors.text }]}>Unlock your tasks</Text>
+          {source ? (
+            <Text style={[styles.subtitle, { color: colors.muted }]}>
+              The encryption key isn&apos;t in secure storage here, e.g. on a new phone or in a new browser session.
+              Enter the app-lock PIN or account password of any profile that kept a copy of it.
+            </Text>
+          ) : (
+            <Text style={[styles.subtitle, { color: colors.muted }]}>
+              The encryption key isn&apos;t in secure storage here, and no PIN or password kept a copy of it, so the
+              tasks can&apos;t be read.
+            </Text>
+          )}
+
+          {source ? (
+            <View style={styles.form}>
+              {sources.length > 1 ? (
+                <View style={styles.chipRow}>
+                  {sources.map((entry) => {
+                    const active = source === entry;
+                    return (
+                      <TouchableOpacity
+                        key={entry}
+                        onPress={() => {
+                          setSource(entry);
+                          setSecret("");
+                          setError(null);
+                        }}
+                        style={[
+                          styles.chip,
+                          {
+                            borderColor: active ? colors.accent : colors.fieldBorder,
+                            backgroundColor: active ? `${colors.accent}22` : "transparent",
+                          },
+                        ]}
+                      >
+                        <Text style={[styles.chipText, { color: active ? colors.accent : colors.muted }]}>
+                          {SOURCE_LABELS[entry]}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              ) : null}
+              <TextInput
+                value={secret}
+                onChangeText={setSecret}
+                secureTextEntry
+                autoCapitalize="none"
+                autoCorrect={false}
+                keyboardType={source === "pin" ? "number-pad" : "default"}
+                placeholder={SOURCE_LABELS[source]}
+                placeholderTextColor={colors.muted}
+                style={[
+                  styles.input,
+                  {
+                    color: colors.text,
+                    backgroundColor: colors.fieldBg,
+                    borderColor: error ? colors.danger : colors.fieldBorder,
+                  },
+                ]}
+              />
+              {error ? <Text style={[styles.error, { color: colors.danger }]}>{error}</Text> : null}
+            </View>
+          ) : null}
+
+          <View style={styles.actionRow}>
+            <TouchableOpacity
+              onPress={onErase}
+              style={[styles.secondaryBtn, { borderColor: colors.fieldBorder }]}
+              disabled={submitting}
+            >
+              <Text style={[styles.secondaryText, { color: colors.danger }]}>Erase tasks</Text>
+            </TouchableOpacity>
+            {source ? (
+              <TouchableOpacity
+                onPress={handleUnlock}
+                style={[styles.primaryBtn, { backgroundColor: colors.accent }]}
+                disabled={submitting}
+              >
+                {submitting ? <ActivityIndicator color="#fff" /> : <Text style={styles.primaryText}>Unlock</Text>}
+              </TouchableOpacity>
+            ) : null}
+          </View>
+        </View>
+      </KeyboardAvoidingView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  safe: {
+    flex: 1,
+    paddingHorizontal: 16,
+    justifyContent: "center",
+  },
+  card: {
+    borderRadius: 28,
+    paddingVertical: 18,
+    paddingHorizontal: 16,
+    borderWidth: 1,
+    shadowColor: "#000",
+    shadowOpacity: 0.08,
+    shadowRadius: 18,
+    shadowOffset: { width: 0, height: 8 },
+    elevation: 5,
+  },
+  header: {
+    alignItems: "center",
+    marginBottom: 10,
+    gap: 6,
+  },
+  iconWrap: {
+    width: 38,
+    height: 38,
+    borderRadius: 19,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  headerTitle: {
+    fontSize: 13,
+    fontWeight: "700",
+    letterSpacing: 0.4,
+    textTransform: "uppercase",
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: "800",
+    textAlign: "center",
+  },
+  subtitle: {
+    marginTop: 6,
+    fontSize: 15,
+    lineHeight: 21,
+    textAlign: "center",
+  },
+  form: {
+    marginTop: 16,
+    gap: 10,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    justifyContent: "center",
+    gap: 8,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 999,
+    paddingHorizontal: 12,
+    paddingVertical: 7,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: "700",
+  },
+  input: {
+    borderRadius: 14,
+    borderWidth: 1,
+    paddingHorizontal: 14,
+    paddingVertical: 13,
+    fontSize: 16,
+  },
+  error: {
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  actionRow: {
+    marginTop: 16,
+    flexDirection: "row",
+    gap: 10,
+  },
+  secondaryBtn: {
+    flex: 1,
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingVertical: 12,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  secondaryText: {
+    fontSize: 15,
+    fontWeight: "700",
+  },
+  primaryBtn: {
+    flex: 1,
+    borderRadius: 12,
+    paddingVertical: 12,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  primaryText: {
+    color: "#fff",
+    fontSize: 15,
+    fontWeight: "800",
+  },
+});
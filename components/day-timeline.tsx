@@ -0,0 +1,94 @@
+import type { ReactNode } from "react";
+import { StyleSheet, Text, TouchableOpacity, View } from "react-native";
+
+import { formatClock, type ScheduleBlock } from "@/utils/scheduler";
+import { formatDuration } from "@/utils/workSessions";
+
+type Props = {
+  blocks: ScheduleBlock[];
+  onPressTask?: (taskId: number) => void;
+  // Extra controls on the right of task rows, e.g. complete / more actions
+  renderAccessory?: (block: ScheduleBlock) => ReactNode;
+  colors: { text: string; muted: string; border: string; blue: string };
+};
+
+const LATE_COLOR = "#FF453A";
+
+function describeBlock(block: ScheduleBlock) {
+  if (block.kind === "commitment") return "Commitment";
+  const parts = [formatDuration((block.end - block.start) * 60)];
+  if (block.parts) parts.push(`part ${block.part} of ${block.parts}`);
+  if (block.late) parts.push("overdue");
+  return parts.join(" · ");
+}
+
+// One day of the schedule: task blocks and fixed commitments in time order.
+export function DayTimeline({ blocks, onPressTask, renderAccessory, colors }: Props) {
+  return (
+    <View style={styles.wrap}>
+      {blocks.map((block) => {
+        const barColor = block.kind === "commitment" ? colors.muted : block.late ? LATE_COLOR : colors.blue;
+        const taskId = block.taskId;
+        return (
+          <TouchableOpacity
+            key={`${block.kind}-${block.start}-${taskId ?? block.title}`}
+            style={styles.row}
+            activeOpacity={0.85}
+            disabled={taskId === undefined || !onPressTask}
+            onPress={() => taskId !== undefined && onPressTask?.(taskId)}
+          >
+            <View style={styles.timeColumn}>
+              <Text style={[styles.time, { color: colors.text }]}>{formatClock(block.start)}</Text>
+              <Text style={[styles.timeEnd, { color: colors.muted }]}>{formatClock(block.end)}</Text>
+            </View>
+            <View style={[styles.bar, { backgroundColor: barColor, opacity: block.kind === "commitment" ? 0.5 : 1 }]} />
+            <View style={{ flex: 1 }}>
+              <Text
+                style={[styles.title, { color: block.kind === "commitment" ? colors.muted : colors.text }]}
+                numberOfLines={1}
+              >
+                {block.title}
+              </Text>
+              <Text style={[styles.meta, { color: block.late ? LATE_COLOR : colors.muted }]}>{describeBlock(block)}</Text>
+            </View>
+            {block.kind === "task" ? renderAccessory?.(block) : null}
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  wrap: {
+    gap: 10,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+  },
+  timeColumn: {
+    width: 64,
+  },
+  time: {
+    fontSize: 13,
+    fontWeight: "700",
+  },
+  timeEnd: {
+    fontSize: 12,
+  },
+  bar: {
+    width: 4,
+    alignSelf: "stretch",
+    borderRadius: 2,
+  },
+  title: {
+    fontSize: 15,
+    fontWeight: "600",
+  },
+  meta: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+});
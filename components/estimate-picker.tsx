@@ -0,0 +1,116 @@
+import { Ionicons } from "@expo/vector-icons";
+import { StyleSheet, Text, TouchableOpacity, View } from "react-native";
+
+import type { TaskEstimate } from "@/utils/effortEstimate";
+import { formatDuration } from "@/utils/workSessions";
+
+type Props = {
+  // Minutes set by the user; null leaves it to the planner
+  value: number | null;
+  onChange: (next: number | null) => void;
+  // What the planner would use if nothing is set
+  suggestion: TaskEstimate | null;
+  colors: { text: string; muted: string; border: string; subtleSurface: string; blue: string };
+};
+
+const PRESETS = [15, 30, 45, 60, 90, 120];
+const STEP_MINUTES = 5;
+const MAX_MINUTES = 600;
+
+// Time estimate editor shared by the add and edit task screens.
+export function EstimatePicker({ value, onChange, suggestion, colors }: Props) {
+  const chipStyle = (active: boolean) => [
+    styles.chip,
+    {
+      borderColor: active ? colors.blue : colors.border,
+      backgroundColor: active ? `${colors.blue}14` : colors.subtleSurface,
+    },
+  ];
+
+  const step = (delta: number) => {
+    const start = value ?? suggestion?.minutes ?? 30;
+    onChange(Math.min(MAX_MINUTES, Math.max(STEP_MINUTES, start + delta * STEP_MINUTES)));
+  };
+
+  return (
+    <View style={styles.wrap}>
+      <View style={styles.row}>
+        <TouchableOpacity onPress={() => onChange(null)} style={chipStyle(value === null)}>
+          <Text style={[styles.chipText, { color: value === null ? colors.text : colors.muted }]}>Auto</Text>
+        </TouchableOpacity>
+        {PRESETS.map((minutes) => (
+          <TouchableOpacity key={minutes} onPress={() => onChange(minutes)} style={chipStyle(value === minutes)}>
+            <Text style={[styles.chipText, { color: value === minutes ? colors.text : colors.muted }]}>
+              {formatDuration(minutes * 60)}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {value !== null ? (
+        <View style={[styles.stepper, { borderColor: colors.border, backgroundColor: colors.subtleSurface }]}>
+          <TouchableOpacity onPress={() => step(-1)} accessibilityLabel="Decrease estimate" hitSlop={6}>
+            <Ionicons name="remove-circle-outline" size={22} color={colors.blue} />
+          </TouchableOpacity>
+          <Text style={[styles.stepperText, { color: colors.text }]}>About {formatDuration(value * 60)}</Text>
+          <TouchableOpacity onPress={() => step(1)} accessibilityLabel="Increase estimate" hitSlop={6}>
+            <Ionicons name="add-circle-outline" size={22} color={colors.blue} />
+          </TouchableOpacity>
+        </View>
+      ) : suggestion ? (
+        <View style={styles.summaryRow}>
+          <Ionicons name={suggestion.source === "learned" ? "analytics-outline" : "time-outline"} size={15} color={colors.blue} />
+          <Text style={[styles.summaryText, { color: colors.muted }]}>
+            {suggestion.source === "learned"
+              ? `Planner will use ${formatDuration(suggestion.minutes * 60)}, learned from similar tasks you finished`
+              : `Planner will use ${formatDuration(suggestion.minutes * 60)} until it has your own timings`}
+          </Text>
+        </View>
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  wrap: {
+    gap: 10,
+  },
+  row: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 999,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: "700",
+  },
+  stepper: {
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  stepperText: {
+    fontSize: 14,
+    fontWeight: "700",
+  },
+  summaryRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+  },
+  summaryText: {
+    flex: 1,
+    fontSize: 13,
+    fontWeight: "600",
+  },
+});
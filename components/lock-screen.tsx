@@ -1,6 +1,7 @@
 import { PasscodeKeypad } from "@/components/passcode-keypad";
 import { Ionicons } from "@expo/vector-icons";
 import { useColorScheme } from "@/hooks/use-color-scheme";
+import { formatLockoutWait } from "@/utils/appLockPolicy";
 import React, { useEffect, useMemo, useState } from "react";
 import { StyleSheet, Text, TouchableOpacity, View } from "react-native";
 
@@ -12,6 +13,9 @@ type Props = {
   attemptsRemaining?: number;
   maxAttempts?: number;
   lockoutUntil?: number | null;
+  // e.g. "Face ID"; shows a button to retry biometric unlock
+  biometricLabel?: string | null;
+  onBiometricUnlock?: () => void;
 };
 
 export function LockScreen({
@@ -22,6 +26,8 @@ export function LockScreen({
   attemptsRemaining,
   maxAttempts = 5,
   lockoutUntil,
+  biometricLabel,
+  onBiometricUnlock,
 }: Props) {
   const scheme = useColorScheme();
   const dark = scheme === "dark";
@@ -53,7 +59,7 @@ export function LockScreen({
   const isLockedOut = lockoutRemainingSeconds > 0;
 
   const statusMessage = isLockedOut
-    ? `Too many tries. Try again in ${lockoutRemainingSeconds}s.`
+    ? `Too many tries. Try again in ${formatLockoutWait(lockoutRemainingSeconds * 1000)}.`
     : typeof attemptsRemaining === "number" && attemptsRemaining < maxAttempts
     ? `${attemptsRemaining} attempt${attemptsRemaining === 1 ? "" : "s"} remaining before lockout.`
     : null;
@@ -98,6 +104,21 @@ export function LockScreen({
 
         {!missingPin ? (
           <View style={styles.secondaryActions}>
+            {biometricLabel && onBiometricUnlock ? (
+              <TouchableOpacity
+                style={[styles.secondaryBtn, styles.biometricBtn, { borderColor: `${colors.accent}44` }]}
+                onPress={onBiometricUnlock}
+                accessibilityRole="button"
+                accessibilityLabel={`Unlock with ${biometricLabel}`}
+              >
+                <Ionicons
+                  name={biometricLabel === "Face ID" ? "scan-outline" : "finger-print-outline"}
+                  size={16}
+                  color={colors.accent}
+                />
+                <Text style={[styles.secondaryText, { color: colors.accent }]}>Use {biometricLabel}</Text>
+              </TouchableOpacity>
+            ) : null}
             <TouchableOpacity
               style={[styles.secondaryBtn, { borderColor: `${colors.danger}44` }]}
               onPress={onForgotPin}
@@ -168,6 +189,11 @@ const styles = StyleSheet.create({
     paddingHorizontal: 14,
     paddingVertical: 9,
   },
+  biometricBtn: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+  },
   secondaryText: {
     fontSize: 14,
     fontWeight: "700",
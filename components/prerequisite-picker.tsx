@@ -0,0 +1,119 @@
+import { Ionicons } from "@expo/vector-icons";
+import { useMemo, useState } from "react";
+import { StyleSheet, Text, TextInput, TouchableOpacity, View } from "react-native";
+
+type Option = { id: number; title: string; completed: boolean };
+
+type Props = {
+  // Ids of the tasks this one waits on
+  value: number[];
+  onChange: (next: number[]) => void;
+  // Every other task the user could pick, open or done
+  options: Option[];
+  colors: { text: string; muted: string; border: string; subtleSurface: string; blue: string; green: string };
+};
+
+const MATCH_LIMIT = 6;
+
+// Picks the tasks that have to be finished before this one, for the edit task screen.
+export function PrerequisitePicker({ value, onChange, options, colors }: Props) {
+  const [query, setQuery] = useState("");
+
+  const byId = useMemo(() => new Map(options.map((option) => [option.id, option])), [options]);
+  const matches = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    if (!needle) return [];
+    return options
+      .filter((option) => !option.completed && !value.includes(option.id))
+      .filter((option) => option.title.toLowerCase().includes(needle))
+      .slice(0, MATCH_LIMIT);
+  }, [options, query, value]);
+
+  const add = (id: number) => {
+    onChange([...value, id]);
+    setQuery("");
+  };
+
+  return (
+    <View style={styles.wrap}>
+      {value.map((id) => {
+        const option = byId.get(id);
+        if (!option) return null;
+        return (
+          <View key={id} style={[styles.row, { borderColor: colors.border, backgroundColor: colors.subtleSurface }]}>
+            <Ionicons
+              name={option.completed ? "checkmark-circle" : "git-commit-outline"}
+              size={18}
+              color={option.completed ? colors.green : colors.blue}
+            />
+            <Text style={[styles.rowText, { color: option.completed ? colors.muted : colors.text }]} numberOfLines={1}>
+              {option.title || "Untitled task"}
+            </Text>
+            <TouchableOpacity
+              onPress={() => onChange(value.filter((entry) => entry !== id))}
+              accessibilityLabel={`Stop waiting on ${option.title}`}
+              hitSlop={6}
+            >
+              <Ionicons name="close-circle-outline" size={20} color={colors.muted} />
+            </TouchableOpacity>
+          </View>
+        );
+      })}
+
+      <TextInput
+        value={query}
+        onChangeText={setQuery}
+        placeholder="Search tasks that must be done first"
+        placeholderTextColor={colors.muted}
+        style={[styles.input, { color: colors.text, borderColor: colors.border, backgroundColor: colors.subtleSurface }]}
+      />
+      {matches.map((option) => (
+        <TouchableOpacity
+          key={option.id}
+          onPress={() => add(option.id)}
+          style={[styles.row, { borderColor: colors.border }]}
+          accessibilityLabel={`Wait on ${option.title}`}
+        >
+          <Ionicons name="add-circle-outline" size={18} color={colors.blue} />
+          <Text style={[styles.rowText, { color: colors.text }]} numberOfLines={1}>
+            {option.title || "Untitled task"}
+          </Text>
+        </TouchableOpacity>
+      ))}
+      {query.trim() && !matches.length ? (
+        <Text style={[styles.hint, { color: colors.muted }]}>No open tasks match.</Text>
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  wrap: {
+    gap: 8,
+  },
+  row: {
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 9,
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  rowText: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 14,
+  },
+  hint: {
+    fontSize: 13,
+    fontWeight: "600",
+  },
+});
@@ -0,0 +1,324 @@
+import DateTimePicker, { DateTimePickerEvent } from "@react-native-community/datetimepicker";
+import { Ionicons } from "@expo/vector-icons";
+import { useState } from "react";
+import { Modal, Platform, Pressable, StyleSheet, Text, TouchableOpacity, View } from "react-native";
+
+import { describeRecurrence, normalizeRecurrenceRule, type RecurrenceRule } from "@/utils/recurrence";
+
+type Mode = "none" | "daily" | "weekly" | "interval" | "monthly";
+type EndMode = "never" | "count" | "until";
+
+type Props = {
+  value: RecurrenceRule | null;
+  onChange: (next: RecurrenceRule | null) => void;
+  // First due date; weekly/monthly rules default to its weekday / day of month
+  anchorDate: Date | null;
+  colors: { text: string; muted: string; border: string; subtleSurface: string; card: string; blue: string };
+};
+
+const MODES: { value: Mode; label: string }[] = [
+  { value: "none", label: "Never" },
+  { value: "daily", label: "Daily" },
+  { value: "weekly", label: "Weekly" },
+  { value: "interval", label: "Every N days" },
+  { value: "monthly", label: "Monthly" },
+];
+
+// Monday-first, values match Date#getDay
+const WEEKDAYS = [
+  { value: 1, label: "M" },
+  { value: 2, label: "T" },
+  { value: 3, label: "W" },
+  { value: 4, label: "T" },
+  { value: 5, label: "F" },
+  { value: 6, label: "S" },
+  { value: 0, label: "S" },
+];
+
+function toISODateLocal(date: Date) {
+  const y = date.getFullYear();
+  const m = String(date.getMonth() + 1).padStart(2, "0");
+  const d = String(date.getDate()).padStart(2, "0");
+  return `${y}-${m}-${d}`;
+}
+
+function modeOf(rule: RecurrenceRule | null): Mode {
+  if (!rule) return "none";
+  if (rule.freq === "daily") return rule.interval > 1 ? "interval" : "daily";
+  return rule.freq;
+}
+
+function endModeOf(rule: RecurrenceRule | null): EndMode {
+  if (rule?.count) return "count";
+  if (rule?.until) return "until";
+  return "never";
+}
+
+// Repeat rule editor shared by the add and edit task screens.
+export function RecurrencePicker({ value, onChange, anchorDate, colors }: Props) {
+  const [showUntilPicker, setShowUntilPicker] = useState(false);
+  const [draftUntil, setDraftUntil] = useState(new Date());
+  const mode = modeOf(value);
+  const endMode = endModeOf(value);
+  const anchor = anchorDate ?? new Date();
+  const anchorISO = toISODateLocal(anchor);
+
+  const selectMode = (next: Mode) => {
+    if (next === "none") {
+      onChange(null);
+      return;
+    }
+    const base = { until: value?.until ?? null, count: value?.count ?? null };
+    if (next === "daily") onChange({ freq: "daily", interval: 1, byWeekday: [], byMonthDay: null, ...base });
+    if (next === "interval") onChange({ freq: "daily", interval: 2, byWeekday: [], byMonthDay: null, ...base });
+    if (next === "weekly") {
+      onChange({ freq: "weekly", interval: 1, byWeekday: [anchor.getDay()], byMonthDay: null, ...base });
+    }
+    if (next === "monthly") {
+      onChange({ freq: "monthly", interval: 1, byWeekday: [], byMonthDay: anchor.getDate(), ...base });
+    }
+  };
+
+  const toggleWeekday = (day: number) => {
+    if (!value) return;
+    const has = value.byWeekday.includes(day);
+    const byWeekday = has ? value.byWeekday.filter((d) => d !== day) : [...value.byWeekday, day];
+    if (!byWeekday.length) return;
+    onChange({ ...value, byWeekday });
+  };
+
+  const stepInterval = (delta: number) => {
+    if (!value) return;
+    onChange({ ...value, interval: Math.min(365, Math.max(2, value.interval + delta)) });
+  };
+
+  const selectEndMode = (next: EndMode) => {
+    if (!value) return;
+    if (next === "never") onChange({ ...value, count: null, until: null });
+    if (next === "count") onChange({ ...value, count: value.count ?? 10, until: null });
+    if (next === "until") {
+      const fallback = new Date(anchor);
+      fallback.setMonth(fallback.getMonth() + 3);
+      setDraftUntil(value.until ? new Date(`${value.until}T00:00:00`) : fallback);
+      setShowUntilPicker(true);
+    }
+  };
+
+  const stepCount = (delta: number) => {
+    if (!value) return;
+    onChange({ ...value, count: Math.min(999, Math.max(2, (value.count ?? 10) + delta)) });
+  };
+
+  const onUntilChange = (_event: DateTimePickerEvent, selected?: Date) => {
+    if (selected) setDraftUntil(selected);
+  };
+
+  const chipStyle = (active: boolean) => [
+    styles.chip,
+    {
+      borderColor: active ? colors.blue : colors.border,
+      backgroundColor: active ? `${colors.blue}14` : colors.subtleSurface,
+    },
+  ];
+
+  return (
+    <View style={styles.wrap}>
+      <View style={styles.row}>
+        {MODES.map((option) => (
+          <TouchableOpacity key={option.value} onPress={() => selectMode(option.value)} style={chipStyle(mode === option.value)}>
+            <Text style={[styles.chipText, { color: mode === option.value ? colors.text : colors.muted }]}>
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {value && mode === "weekly" ? (
+        <View style={styles.row}>
+          {WEEKDAYS.map((day) => {
+            const active = value.byWeekday.includes(day.value);
+            return (
+              <TouchableOpacity
+                key={day.value}
+                onPress={() => toggleWeekday(day.value)}
+                style={[
+                  styles.dayChip,
+                  { borderColor: active ? colors.blue : colors.border, backgroundColor: active ? colors.blue : colors.subtleSurface },
+                ]}
+              >
+                <Text style={[styles.dayText, { color: active ? "#fff" : colors.muted }]}>{day.label}</Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      ) : null}
+
+      {value && mode === "interval" ? (
+        <Stepper label={`Every ${value.interval} days`} onStep={stepInterval} colors={colors} />
+      ) : null}
+
+      {value ? (
+        <>
+          <View style={styles.row}>
+            {(["never", "count", "until"] as const).map((option) => (
+              <TouchableOpacity key={option} onPress={() => selectEndMode(option)} style={chipStyle(endMode === option)}>
+                <Text style={[styles.chipText, { color: endMode === option ? colors.text : colors.muted }]}>
+                  {option === "never" ? "No end" : option === "count" ? "After N times" : "Until a date"}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          {endMode === "count" ? (
+            <Stepper label={`${value.count} times in total`} onStep={stepCount} colors={colors} />
+          ) : null}
+          <View style={styles.summaryRow}>
+            <Ionicons name="repeat" size={15} color={colors.blue} />
+            <Text style={[styles.summaryText, { color: colors.muted }]}>
+              {describeRecurrence(normalizeRecurrenceRule(value, anchorISO))}
+            </Text>
+          </View>
+        </>
+      ) : null}
+
+      <Modal transparent visible={showUntilPicker} animationType="fade" onRequestClose={() => setShowUntilPicker(false)}>
+        <Pressable style={styles.modalBackdrop} onPress={() => setShowUntilPicker(false)}>
+          <Pressable style={[styles.modalCard, { backgroundColor: colors.card, borderColor: colors.border }]}>
+            <Text style={[styles.modalTitle, { color: colors.text }]}>Repeat until</Text>
+            <DateTimePicker
+              value={draftUntil}
+              mode="date"
+              display={Platform.OS === "ios" ? "spinner" : "default"}
+              minimumDate={anchor}
+              onChange={onUntilChange}
+            />
+            <View style={styles.modalActions}>
+              <TouchableOpacity onPress={() => setShowUntilPicker(false)} style={[styles.modalBtn, { borderColor: colors.border }]}>
+                <Text style={[styles.modalBtnText, { color: colors.muted }]}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={() => {
+                  if (value) onChange({ ...value, count: null, until: toISODateLocal(draftUntil) });
+                  setShowUntilPicker(false);
+                }}
+                style={[styles.modalBtn, { backgroundColor: colors.blue, borderColor: colors.blue }]}
+              >
+                <Text style={[styles.modalBtnText, { color: "#fff" }]}>Set date</Text>
+              </TouchableOpacity>
+            </View>
+          </Pressable>
+        </Pressable>
+      </Modal>
+    </View>
+  );
+}
+
+function Stepper({
+  label,
+  onStep,
+  colors,
+}: {
+  label: string;
+  onStep: (delta: number) => void;
+  colors: Props["colors"];
+}) {
+  return (
+    <View style={[styles.stepper, { borderColor: colors.border, backgroundColor: colors.subtleSurface }]}>
+      <TouchableOpacity onPress={() => onStep(-1)} accessibilityLabel="Decrease" hitSlop={6}>
+        <Ionicons name="remove-circle-outline" size={22} color={colors.blue} />
+      </TouchableOpacity>
+      <Text style={[styles.stepperText, { color: colors.text }]}>{label}</Text>
+      <TouchableOpacity onPress={() => onStep(1)} accessibilityLabel="Increase" hitSlop={6}>
+        <Ionicons name="add-circle-outline" size={22} color={colors.blue} />
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  wrap: {
+    gap: 10,
+  },
+  row: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 999,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: "700",
+  },
+  dayChip: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    borderWidth: 1,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  dayText: {
+    fontSize: 13,
+    fontWeight: "800",
+  },
+  stepper: {
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  stepperText: {
+    fontSize: 14,
+    fontWeight: "700",
+  },
+  summaryRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+  },
+  summaryText: {
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  modalBackdrop: {
+    flex: 1,
+    backgroundColor: "rgba(0,0,0,0.34)",
+    alignItems: "center",
+    justifyContent: "center",
+    paddingHorizontal: 18,
+  },
+  modalCard: {
+    width: "100%",
+    borderRadius: 16,
+    borderWidth: 1,
+    padding: 14,
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: "800",
+    marginBottom: 6,
+  },
+  modalActions: {
+    marginTop: 8,
+    flexDirection: "row",
+    gap: 8,
+  },
+  modalBtn: {
+    flex: 1,
+    borderWidth: 1,
+    borderRadius: 11,
+    paddingVertical: 12,
+    alignItems: "center",
+  },
+  modalBtnText: {
+    fontSize: 14,
+    fontWeight: "700",
+  },
+});
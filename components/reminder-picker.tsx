@@ -0,0 +1,99 @@
+import { Ionicons } from "@expo/vector-icons";
+import { StyleSheet, Text, TouchableOpacity, View } from "react-native";
+
+import { REMINDER_OFFSET_LABELS, REMINDER_OFFSETS, type ReminderOffset } from "@/utils/taskReminders";
+
+type Props = {
+  // null follows the category default; [] turns reminders off for this task
+  value: ReminderOffset[] | null;
+  onChange: (next: ReminderOffset[] | null) => void;
+  // What the task gets while it follows the default
+  defaultOffsets: ReminderOffset[];
+  hasDueDate: boolean;
+  colors: { text: string; muted: string; border: string; subtleSurface: string; blue: string };
+};
+
+function describeOffsets(offsets: ReminderOffset[]) {
+  return offsets.length ? offsets.map((offset) => REMINDER_OFFSET_LABELS[offset]).join(", ") : "no reminders";
+}
+
+// Deadline reminder editor shared by the add and edit task screens.
+export function ReminderPicker({ value, onChange, defaultOffsets, hasDueDate, colors }: Props) {
+  const active = value ?? defaultOffsets;
+
+  const chipStyle = (selected: boolean) => [
+    styles.chip,
+    {
+      borderColor: selected ? colors.blue : colors.border,
+      backgroundColor: selected ? `${colors.blue}14` : colors.subtleSurface,
+    },
+  ];
+
+  const toggle = (offset: ReminderOffset) => {
+    onChange(active.includes(offset) ? active.filter((entry) => entry !== offset) : [...active, offset]);
+  };
+
+  return (
+    <View style={styles.wrap}>
+      <View style={styles.row}>
+        <TouchableOpacity onPress={() => onChange(null)} style={chipStyle(value === null)}>
+          <Text style={[styles.chipText, { color: value === null ? colors.text : colors.muted }]}>Default</Text>
+        </TouchableOpacity>
+        {REMINDER_OFFSETS.map((offset) => {
+          const selected = value !== null && value.includes(offset);
+          return (
+            <TouchableOpacity key={offset} onPress={() => toggle(offset)} style={chipStyle(selected)}>
+              <Text style={[styles.chipText, { color: selected ? colors.text : colors.muted }]}>
+                {REMINDER_OFFSET_LABELS[offset]}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      <View style={styles.summaryRow}>
+        <Ionicons name={active.length ? "notifications-outline" : "notifications-off-outline"} size={15} color={colors.blue} />
+        <Text style={[styles.summaryText, { color: colors.muted }]}>
+          {!hasDueDate
+            ? "Reminders need a due date."
+            : value === null
+            ? `Default for this category: ${describeOffsets(defaultOffsets)}`
+            : value.length
+            ? `Reminds you: ${describeOffsets(value)}`
+            : "No reminders for this task."}
+        </Text>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  wrap: {
+    gap: 10,
+  },
+  row: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 999,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: "700",
+  },
+  summaryRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+  },
+  summaryText: {
+    flex: 1,
+    fontSize: 13,
+    fontWeight: "600",
+  },
+});
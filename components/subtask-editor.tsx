@@ -0,0 +1,146 @@
+import { Ionicons } from "@expo/vector-icons";
+import { useCallback, useState } from "react";
+import { StyleSheet, Text, TextInput, TouchableOpacity, View } from "react-native";
+
+import type { SubtaskDraft } from "@/lib/database";
+
+const SUBTASK_TITLE_LIMIT = 80;
+
+type Props = {
+  items: SubtaskDraft[];
+  onChange: (next: SubtaskDraft[]) => void;
+  colors: { text: string; muted: string; border: string; subtleSurface: string; blue: string; green: string; red: string };
+  // New tasks start with everything open, so the add screen hides the tick boxes.
+  allowToggle?: boolean;
+};
+
+// Ordered checklist editor shared by the add and edit task screens.
+export function SubtaskEditor({ items, onChange, colors, allowToggle = true }: Props) {
+  const [draft, setDraft] = useState("");
+
+  const addItem = useCallback(() => {
+    const title = draft.trim();
+    if (!title) return;
+    onChange([...items, { title, completed: false }]);
+    setDraft("");
+  }, [draft, items, onChange]);
+
+  const updateAt = useCallback(
+    (index: number, patch: Partial<SubtaskDraft>) => {
+      onChange(items.map((item, i) => (i === index ? { ...item, ...patch } : item)));
+    },
+    [items, onChange]
+  );
+
+  const removeAt = useCallback(
+    (index: number) => {
+      onChange(items.filter((_, i) => i !== index));
+    },
+    [items, onChange]
+  );
+
+  const moveUp = useCallback(
+    (index: number) => {
+      if (index === 0) return;
+      const next = [...items];
+      [next[index - 1], next[index]] = [next[index], next[index - 1]];
+      onChange(next);
+    },
+    [items, onChange]
+  );
+
+  return (
+    <View style={styles.wrap}>
+      {items.map((item, index) => (
+        <View
+          key={item.id ?? `new-${index}`}
+          style={[styles.row, { borderColor: colors.border, backgroundColor: colors.subtleSurface }]}
+        >
+          {allowToggle ? (
+            <TouchableOpacity
+              onPress={() => updateAt(index, { completed: !item.completed })}
+              accessibilityLabel={item.completed ? `Mark ${item.title} not done` : `Mark ${item.title} done`}
+              hitSlop={6}
+            >
+              <Ionicons
+                name={item.completed ? "checkmark-circle" : "ellipse-outline"}
+                size={20}
+                color={item.completed ? colors.green : colors.muted}
+              />
+            </TouchableOpacity>
+          ) : (
+            <Text style={[styles.index, { color: colors.muted }]}>{index + 1}.</Text>
+          )}
+          <TextInput
+            value={item.title}
+            onChangeText={(next) => updateAt(index, { title: next.slice(0, SUBTASK_TITLE_LIMIT) })}
+            style={[
+              styles.rowInput,
+              {
+                color: item.completed ? colors.muted : colors.text,
+                textDecorationLine: item.completed ? "line-through" : "none",
+              },
+            ]}
+          />
+          <TouchableOpacity
+            onPress={() => moveUp(index)}
+            disabled={index === 0}
+            accessibilityLabel={`Move ${item.title} up`}
+            hitSlop={6}
+          >
+            <Ionicons name="arrow-up" size={16} color={index === 0 ? colors.border : colors.muted} />
+          </TouchableOpacity>
+          <TouchableOpacity onPress={() => removeAt(index)} accessibilityLabel={`Remove ${item.title}`} hitSlop={6}>
+            <Ionicons name="close" size={18} color={colors.red} />
+          </TouchableOpacity>
+        </View>
+      ))}
+
+      <View style={[styles.row, { borderColor: colors.border, backgroundColor: colors.subtleSurface }]}>
+        <Ionicons name="add" size={18} color={colors.blue} />
+        <TextInput
+          value={draft}
+          onChangeText={(next) => setDraft(next.slice(0, SUBTASK_TITLE_LIMIT))}
+          placeholder={items.length ? "Add another step" : "e.g. Outline, draft intro, references"}
+          placeholderTextColor={colors.muted}
+          style={[styles.rowInput, { color: colors.text }]}
+          returnKeyType="done"
+          blurOnSubmit={false}
+          onSubmitEditing={addItem}
+        />
+        <TouchableOpacity onPress={addItem} disabled={!draft.trim()} accessibilityLabel="Add step">
+          <Text style={[styles.addText, { color: draft.trim() ? colors.blue : colors.muted }]}>Add</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  wrap: {
+    gap: 8,
+  },
+  row: {
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+  },
+  index: {
+    fontSize: 13,
+    fontWeight: "700",
+    minWidth: 18,
+  },
+  rowInput: {
+    flex: 1,
+    fontSize: 14,
+    paddingVertical: 4,
+  },
+  addText: {
+    fontSize: 13,
+    fontWeight: "800",
+  },
+});
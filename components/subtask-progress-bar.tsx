@@ -0,0 +1,53 @@
+import { StyleSheet, Text, View } from "react-native";
+
+import { getSubtaskProgress } from "@/utils/subtaskProgress";
+
+type Props = {
+  task: { subtask_total?: number | null; subtask_done?: number | null };
+  color: string;
+  trackColor: string;
+  textColor: string;
+};
+
+// Thin checklist progress bar for task cards; renders nothing for tasks without subtasks.
+export function SubtaskProgressBar({ task, color, trackColor, textColor }: Props) {
+  const progress = getSubtaskProgress(task);
+  if (!progress) return null;
+
+  return (
+    <View
+      style={styles.wrap}
+      accessibilityLabel={`${progress.done} of ${progress.total} steps done`}
+    >
+      <View style={[styles.track, { backgroundColor: trackColor }]}>
+        <View style={[styles.fill, { width: `${Math.round(progress.ratio * 100)}%`, backgroundColor: color }]} />
+      </View>
+      <Text style={[styles.label, { color: textColor }]}>
+        {progress.done}/{progress.total} steps
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  wrap: {
+    marginTop: 8,
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  track: {
+    flex: 1,
+    height: 6,
+    borderRadius: 999,
+    overflow: "hidden",
+  },
+  fill: {
+    height: "100%",
+    borderRadius: 999,
+  },
+  label: {
+    fontSize: 11,
+    fontWeight: "700",
+  },
+});
@@ -0,0 +1,65 @@
+import { StyleSheet, Text, View } from "react-native";
+
+import { tagsForTask, type TaskTag } from "@/utils/taskTags";
+
+type Props = {
+  task: { tag_ids?: string | null };
+  tagsById: Map<number, TaskTag>;
+  textColor: string;
+  // Cards stay compact: the rest collapse into "+N"
+  limit?: number;
+};
+
+// Read-only tag chips for task cards.
+export function TagChips({ task, tagsById, textColor, limit = 3 }: Props) {
+  const tags = tagsForTask(task, tagsById);
+  if (!tags.length) return null;
+  const hidden = tags.length - limit;
+
+  return (
+    <View style={styles.row}>
+      {tags.slice(0, limit).map((tag) => (
+        <View key={tag.id} style={[styles.chip, { borderColor: `${tag.color}66`, backgroundColor: `${tag.color}1F` }]}>
+          <View style={[styles.dot, { backgroundColor: tag.color }]} />
+          <Text style={[styles.text, { color: textColor }]} numberOfLines={1}>
+            #{tag.name}
+          </Text>
+        </View>
+      ))}
+      {hidden > 0 ? <Text style={[styles.more, { color: textColor }]}>+{hidden}</Text> : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    marginTop: 8,
+    flexDirection: "row",
+    flexWrap: "wrap",
+    alignItems: "center",
+    gap: 6,
+  },
+  chip: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 5,
+    borderWidth: 1,
+    borderRadius: 999,
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    maxWidth: 160,
+  },
+  dot: {
+    width: 7,
+    height: 7,
+    borderRadius: 4,
+  },
+  text: {
+    fontSize: 12,
+    fontWeight: "700",
+  },
+  more: {
+    fontSize: 12,
+    fontWeight: "700",
+  },
+});
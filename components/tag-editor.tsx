@@ -0,0 +1,184 @@
+import { Ionicons } from "@expo/vector-icons";
+import { useMemo, useState } from "react";
+import { StyleSheet, Text, TextInput, TouchableOpacity, View } from "react-native";
+
+import { normalizeTagName, suggestTags, TAG_COLORS, TAG_NAME_LIMIT, type TaskTag } from "@/utils/taskTags";
+
+type Props = {
+  // Normalised tag names on the task
+  value: string[];
+  onChange: (next: string[]) => void;
+  // The user's existing tags, for autocomplete and colours
+  tags: TaskTag[];
+  // Recolouring applies to the tag everywhere, so it is offered only for tags that exist
+  onRecolor?: (tag: TaskTag, color: string) => void;
+  // Deleting a tag takes it off every task
+  onDelete?: (tag: TaskTag) => void;
+  colors: { text: string; muted: string; border: string; subtleSurface: string; blue: string };
+};
+
+// Tag picker with autocomplete, shared by the add and edit task screens.
+export function TagEditor({ value, onChange, tags, onRecolor, onDelete, colors }: Props) {
+  const [draft, setDraft] = useState("");
+  const [recoloring, setRecoloring] = useState<number | null>(null);
+
+  const byName = useMemo(() => new Map(tags.map((tag) => [tag.name, tag])), [tags]);
+  const suggestions = useMemo(() => suggestTags(tags, draft, value, 6), [draft, tags, value]);
+  const draftName = normalizeTagName(draft);
+  const canCreate = !!draftName && !byName.has(draftName) && !value.includes(draftName);
+  const recolorTag = tags.find((tag) => tag.id === recoloring) ?? null;
+
+  const add = (raw: string) => {
+    const name = normalizeTagName(raw);
+    setDraft("");
+    if (!name || value.includes(name)) return;
+    onChange([...value, name]);
+  };
+
+  const remove = (name: string) => {
+    onChange(value.filter((entry) => entry !== name));
+    if (recolorTag?.name === name) setRecoloring(null);
+  };
+
+  return (
+    <View style={styles.wrap}>
+      {value.length ? (
+        <View style={styles.row}>
+          {value.map((name) => {
+            const tag = byName.get(name);
+            const color = tag?.color ?? colors.muted;
+            return (
+              <View key={name} style={[styles.chip, { borderColor: `${color}88`, backgroundColor: `${color}1F` }]}>
+                <TouchableOpacity
+                  onPress={() => (tag && onRecolor ? setRecoloring(recoloring === tag.id ? null : tag.id) : undefined)}
+                  disabled={!tag || !onRecolor}
+                  style={styles.chipLabel}
+                  accessibilityLabel={tag && onRecolor ? `Change the colour of ${name}` : undefined}
+                >
+                  <View style={[styles.dot, { backgroundColor: color }]} />
+                  <Text style={[styles.chipText, { color: colors.text }]}>#{name}</Text>
+                </TouchableOpacity>
+                <TouchableOpacity onPress={() => remove(name)} accessibilityLabel={`Remove tag ${name}`} hitSlop={6}>
+                  <Ionicons name="close" size={14} color={colors.muted} />
+                </TouchableOpacity>
+              </View>
+            );
+          })}
+        </View>
+      ) : null}
+
+      {recolorTag && onRecolor ? (
+        <View style={styles.row}>
+          {TAG_COLORS.map((color) => (
+            <TouchableOpacity
+              key={color}
+              onPress={() => onRecolor(recolorTag, color)}
+              style={[
+                styles.swatch,
+                { backgroundColor: color, borderColor: recolorTag.color === color ? colors.text : "transparent" },
+              ]}
+              accessibilityLabel={`Use colour ${color} for ${recolorTag.name}`}
+            />
+          ))}
+          {onDelete ? (
+            <TouchableOpacity
+              onPress={() => {
+                setRecoloring(null);
+                onDelete(recolorTag);
+              }}
+              style={[styles.chip, styles.chipLabel, { borderColor: colors.border }]}
+              accessibilityLabel={`Delete tag ${recolorTag.name}`}
+            >
+              <Ionicons name="trash-outline" size={14} color={colors.muted} />
+              <Text style={[styles.chipText, { color: colors.muted }]}>Delete tag</Text>
+            </TouchableOpacity>
+          ) : null}
+        </View>
+      ) : null}
+
+      <TextInput
+        value={draft}
+        onChangeText={(next) => setDraft(next.slice(0, TAG_NAME_LIMIT + 1))}
+        onSubmitEditing={() => add(draft)}
+        placeholder="Add a tag, e.g. group-project"
+        placeholderTextColor={colors.muted}
+        autoCapitalize="none"
+        autoCorrect={false}
+        returnKeyType="done"
+        blurOnSubmit={false}
+        style={[styles.input, { color: colors.text, borderColor: colors.border, backgroundColor: colors.subtleSurface }]}
+      />
+
+      {suggestions.length || canCreate ? (
+        <View style={styles.row}>
+          {suggestions.map((tag) => (
+            <TouchableOpacity
+              key={tag.id}
+              onPress={() => add(tag.name)}
+              style={[styles.chip, styles.chipLabel, { borderColor: colors.border }]}
+            >
+              <View style={[styles.dot, { backgroundColor: tag.color }]} />
+              <Text style={[styles.chipText, { color: colors.muted }]}>#{tag.name}</Text>
+            </TouchableOpacity>
+          ))}
+          {canCreate ? (
+            <TouchableOpacity
+              onPress={() => add(draftName)}
+              style={[styles.chip, styles.chipLabel, { borderColor: colors.blue }]}
+            >
+              <Ionicons name="add" size={14} color={colors.blue} />
+              <Text style={[styles.chipText, { color: colors.blue }]}>Create #{draftName}</Text>
+            </TouchableOpacity>
+          ) : null}
+        </View>
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  wrap: {
+    gap: 8,
+  },
+  row: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  chip: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    borderWidth: 1,
+    borderRadius: 999,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+  },
+  chipLabel: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+  },
+  dot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: "700",
+  },
+  swatch: {
+    width: 26,
+    height: 26,
+    borderRadius: 13,
+    borderWidth: 2,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 14,
+  },
+});
@@ -0,0 +1,123 @@
+import { useEffect, useRef, useState } from "react";
+import { Alert, Animated, Easing, StyleSheet, Text, TouchableOpacity } from "react-native";
+
+import { useColorScheme } from "@/hooks/use-color-scheme";
+import { useThemeColors } from "@/hooks/use-theme-colors";
+import { onJournalChanged, undoLastBatch } from "@/lib/action-journal";
+import type { JournalBatch } from "@/utils/actionJournal";
+
+const VISIBLE_MS = 6000;
+
+type UndoSnackbarProps = {
+  // Distance from the bottom of the screen, to clear a tab bar or input row
+  bottom?: number;
+  onUndone?: () => Promise<void> | void;
+};
+
+// Offers to revert each batch recorded in the action journal for a few seconds
+export function UndoSnackbar({ bottom = 16, onUndone }: UndoSnackbarProps) {
+  const dark = useColorScheme() === "dark";
+  const colors = useThemeColors();
+  const [batch, setBatch] = useState<JournalBatch | null>(null);
+  const [undoing, setUndoing] = useState(false);
+  const anim = useRef(new Animated.Value(0)).current;
+  const timeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => {
+    const hide = () => {
+      Animated.timing(anim, {
+        toValue: 0,
+        duration: 180,
+        easing: Easing.in(Easing.cubic),
+        useNativeDriver: true,
+      }).start(({ finished }) => {
+        if (finished) setBatch(null);
+      });
+    };
+
+    const unsubscribe = onJournalChanged((next) => {
+      if (timeoutRef.current) clearTimeout(timeoutRef.current);
+      if (!next) {
+        hide();
+        return;
+      }
+      setBatch(next);
+      Animated.timing(anim, {
+        toValue: 1,
+        duration: 180,
+        easing: Easing.out(Easing.cubic),
+        useNativeDriver: true,
+      }).start();
+      timeoutRef.current = setTimeout(hide, VISIBLE_MS);
+    });
+
+    return () => {
+      unsubscribe();
+      if (timeoutRef.current) clearTimeout(timeoutRef.current);
+    };
+  }, [anim]);
+
+  const handleUndo = async () => {
+    if (undoing) return;
+    try {
+      setUndoing(true);
+      await undoLastBatch();
+      await onUndone?.();
+    } catch (error) {
+      if (__DEV__) console.error("Failed to undo", error);
+      Alert.alert("Undo failed", "Please try again.");
+    } finally {
+      setUndoing(false);
+    }
+  };
+
+  if (!batch) return null;
+
+  return (
+    <Animated.View
+      pointerEvents="box-none"
+      style={[
+        styles.snackbar,
+        {
+          bottom,
+          backgroundColor: dark ? "#1E2B3D" : "#EAF2FF",
+          borderColor: colors.borderSubtle,
+          opacity: anim,
+          transform: [{ translateY: anim.interpolate({ inputRange: [0, 1], outputRange: [12, 0] }) }],
+        },
+      ]}
+    >
+      <Text style={[styles.message, { color: colors.textPrimary }]} numberOfLines={1}>
+        {batch.label}
+      </Text>
+      <TouchableOpacity onPress={handleUndo} disabled={undoing} accessibilityRole="button" hitSlop={8}>
+        <Text style={[styles.action, { color: colors.accentBlue }]}>{undoing ? "Undoing..." : "Undo"}</Text>
+      </TouchableOpacity>
+    </Animated.View>
+  );
+}
+
+const styles = StyleSheet.create({
+  snackbar: {
+    position: "absolute",
+    left: 16,
+    right: 16,
+    minHeight: 44,
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    gap: 12,
+  },
+  message: {
+    flex: 1,
+    fontSize: 13,
+    fontWeight: "700",
+  },
+  action: {
+    fontSize: 14,
+    fontWeight: "800",
+  },
+});
@@ -1,15 +1,22 @@
 import React, { createContext, useCallback, useContext, useEffect, useState } from "react";
 import { Alert } from "react-native";
 
+import { forgetTaskMemory } from "@/assistant_engine";
 import {
   adoptOrphanTasks,
+  createLocalProfile,
+  deleteActiveAccount,
   getOrCreateActiveUser,
   initDatabase,
   signInWithEmail,
   signOutUser,
   signUpWithEmail,
+  switchToProfile,
+  upgradeGuestAccount,
   type UserProfile,
 } from "@/lib/database";
+import { clearNavQuickActions } from "@/lib/nav-quick-actions-store";
+import { deleteProfileData } from "@/lib/profile-store";
 
 type AuthContextShape = {
   user: UserProfile | null;
@@ -17,6 +24,10 @@ type AuthContextShape = {
   signIn: (email: string, password: string) => Promise<boolean>;
   signUp: (name: string, email: string, password: string) => Promise<boolean>;
   signOut: () => Promise<void>;
+  switchProfile: (userId: number, password?: string) => Promise<boolean>;
+  createProfile: (name: string) => Promise<boolean>;
+  upgradeAccount: (name: string, email: string, password: string) => Promise<boolean>;
+  deleteAccount: (password?: string) => Promise<boolean>;
   refreshUser: () => Promise<void>;
 };
 
@@ -99,6 +110,59 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     setUser(null);
   }, []);
 
+  const switchProfile = useCallback(async (userId: number, password?: string) => {
+    try {
+      setUser(await switchToProfile(userId, password));
+      return true;
+    } catch (error) {
+      console.error("Profile switch failed", error);
+      Alert.alert("Could not switch profile", error instanceof Error ? error.message : "Please try again.");
+      return false;
+    }
+  }, []);
+
+  const createProfile = useCallback(async (name: string) => {
+    try {
+      const created = await createLocalProfile(name);
+      if (!created) return false;
+      setUser(created);
+      return true;
+    } catch (error) {
+      console.error("Profile creation failed", error);
+      Alert.alert("Could not add profile", "Please try again.");
+      return false;
+    }
+  }, []);
+
+  const upgradeAccount = useCallback(async (name: string, email: string, password: string) => {
+    try {
+      const upgraded = await upgradeGuestAccount(name, email, password);
+      if (!upgraded) return false;
+      setUser(upgraded);
+      return true;
+    } catch (error) {
+      console.error("Account upgrade failed", error);
+      Alert.alert("Could not create account", error instanceof Error ? error.message : "Please try again.");
+      return false;
+    }
+  }, []);
+
+  const deleteAccount = useCallback(async (password?: string) => {
+    try {
+      const { userId, taskIds } = await deleteActiveAccount(password);
+      // Quick actions, profile settings and assistant memory live outside the database tables
+      await clearNavQuickActions(userId);
+      await deleteProfileData(userId);
+      await forgetTaskMemory(taskIds);
+      setUser(null);
+      return true;
+    } catch (error) {
+      console.error("Account deletion failed", error);
+      Alert.alert("Could not delete account", error instanceof Error ? error.message : "Please try again.");
+      return false;
+    }
+  }, []);
+
   return (
     <AuthContext.Provider
       value={{
@@ -107,6 +171,10 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         signIn,
         signUp,
         signOut,
+        switchProfile,
+        createProfile,
+        upgradeAccount,
+        deleteAccount,
         refreshUser,
       }}
     >
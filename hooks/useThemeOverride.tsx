@@ -1,8 +1,7 @@
 import { createContext, ReactNode, useCallback, useContext, useEffect, useState } from "react";
-import { Platform } from "react-native";
 
 import { AccentTheme } from "@/constants/accent-theme";
-import * as SecureStore from "@/lib/secure-store";
+import { deleteProfileItem, getProfileItem, onProfileChanged, setProfileItem } from "@/lib/profile-store";
 
 type ThemeOverride = "light" | "dark" | null;
 const THEME_STORAGE_KEY = "theme_override_v1";
@@ -31,23 +30,12 @@ export function ThemeOverrideProvider({ children }: { children: ReactNode }) {
 
   useEffect(() => {
     let mounted = true;
-    (async () => {
+    const load = async () => {
       try {
-        let storedTheme: string | null = null;
-        let storedAccent: string | null = null;
-        if (Platform.OS === "web") {
-          if (typeof window !== "undefined") {
-            storedTheme = window.localStorage.getItem(THEME_STORAGE_KEY);
-            storedAccent = window.localStorage.getItem(ACCENT_STORAGE_KEY);
-          }
-        } else {
-          const [savedTheme, savedAccent] = await Promise.all([
-            SecureStore.getItemAsync(THEME_STORAGE_KEY),
-            SecureStore.getItemAsync(ACCENT_STORAGE_KEY),
-          ]);
-          storedTheme = savedTheme;
-          storedAccent = savedAccent;
-        }
+        const [storedTheme, storedAccent] = await Promise.all([
+          getProfileItem(THEME_STORAGE_KEY),
+          getProfileItem(ACCENT_STORAGE_KEY),
+        ]);
 
         if (!mounted) return;
         setThemeOverrideState(storedTheme === "light" || storedTheme === "dark" ? storedTheme : null);
@@ -66,26 +54,24 @@ export function ThemeOverrideProvider({ children }: { children: ReactNode }) {
       } finally {
         if (mounted) setIsReady(true);
       }
-    })();
+    };
+
+    void load();
+    // Each profile keeps its own theme
+    const unsubscribe = onProfileChanged(() => void load());
 
     return () => {
       mounted = false;
+      unsubscribe();
     };
   }, []);
 
   const setThemeOverride = useCallback((theme: ThemeOverride) => {
     setThemeOverrideState(theme);
-    if (Platform.OS === "web") {
-      if (typeof window === "undefined") return;
-      if (theme) window.localStorage.setItem(THEME_STORAGE_KEY, theme);
-      else window.localStorage.removeItem(THEME_STORAGE_KEY);
-      return;
-    }
-
     const persist = async () => {
       try {
-        if (theme) await SecureStore.setItemAsync(THEME_STORAGE_KEY, theme);
-        else await SecureStore.deleteItemAsync(THEME_STORAGE_KEY);
+        if (theme) await setProfileItem(THEME_STORAGE_KEY, theme);
+        else await deleteProfileItem(THEME_STORAGE_KEY);
       } catch (error) {
         if (__DEV__) console.warn("Failed to persist theme override", error);
       }
@@ -95,15 +81,9 @@ export function ThemeOverrideProvider({ children }: { children: ReactNode }) {
 
   const setAccentTheme = useCallback((theme: AccentTheme) => {
     setAccentThemeState(theme);
-    if (Platform.OS === "web") {
-      if (typeof window === "undefined") return;
-      window.localStorage.setItem(ACCENT_STORAGE_KEY, theme);
-      return;
-    }
-
     const persist = async () => {
       try {
-        await SecureStore.setItemAsync(ACCENT_STORAGE_KEY, theme);
+        await setProfileItem(ACCENT_STORAGE_KEY, theme);
       } catch (error) {
         if (__DEV__) console.warn("Failed to persist accent theme", error);
       }
@@ -0,0 +1,145 @@
+import { DeviceEventEmitter } from "react-native";
+
+import {
+  addTask,
+  deleteTask,
+  deleteTaskForever,
+  getTask,
+  restoreTask,
+  setTaskCompleted,
+  updateManyTaskDueDates,
+  updateTask,
+  updateTaskDueDate,
+} from "@/lib/database";
+import { onProfileChanged } from "@/lib/profile-store";
+import {
+  appendBatch,
+  revertEdit,
+  snapshotTask,
+  undoOrder,
+  type JournalBatch,
+  type JournalStep,
+} from "@/utils/actionJournal";
+
+// Kept in memory only: undo covers what was just done in this session, not past launches
+const JOURNAL_CHANGED_EVENT = "action-journal-changed";
+
+let journal: JournalBatch[] = [];
+let nextBatchId = 1;
+
+function emitJournalChanged(batch: JournalBatch | null) {
+  DeviceEventEmitter.emit(JOURNAL_CHANGED_EVENT, batch);
+}
+
+// Another profile's changes must never be undone from this one
+onProfileChanged(() => {
+  journal = [];
+  emitJournalChanged(null);
+});
+
+// Listener gets the batch just recorded, or null when the journal was undone or cleared
+export function onJournalChanged(listener: (batch: JournalBatch | null) => void) {
+  const subscription = DeviceEventEmitter.addListener(JOURNAL_CHANGED_EVENT, listener);
+  return () => subscription.remove();
+}
+
+export function getLastBatch() {
+  return journal[journal.length - 1] ?? null;
+}
+
+export function recordBatch(label: string, steps: JournalStep[]) {
+  const batch: JournalBatch = { id: nextBatchId++, label, at: Date.now(), steps };
+  const next = appendBatch(journal, batch);
+  if (next === journal) return null;
+  journal = next;
+  emitJournalChanged(batch);
+  return batch;
+}
+
+async function removeTask(taskId: number) {
+  await deleteTask(taskId);
+  await deleteTaskForever(taskId);
+}
+
+async function revertStep(step: JournalStep) {
+  switch (step.kind) {
+    case "create":
+      await removeTask(step.taskId);
+      return;
+    case "delete":
+      await restoreTask(step.taskId);
+      return;
+    case "due_date":
+      await updateTaskDueDate(step.taskId, step.before);
+      return;
+    case "complete":
+      if (step.spawnedId !== null) await removeTask(step.spawnedId);
+      await setTaskCompleted(step.taskId, step.wasCompleted);
+      return;
+    case "edit":
+      await updateTask(revertEdit(step.taskId, step.before));
+      return;
+  }
+}
+
+// Reverts the most recent batch; resolves to it, or null when there was nothing to undo
+export async function undoLastBatch() {
+  const batch = journal.pop();
+  if (!batch) return null;
+  // Sequential: each revert is its own write, in reverse order of the originals
+  for (const step of undoOrder(batch)) {
+    await revertStep(step);
+  }
+  emitJournalChanged(null);
+  return batch;
+}
+
+export type JournalRecorder = {
+  steps: JournalStep[];
+  addTask: (task: Parameters<typeof addTask>[0]) => Promise<number>;
+  updateTask: (task: Parameters<typeof updateTask>[0]) => Promise<void>;
+  setCompleted: (taskId: number, completed: boolean) => ReturnType<typeof setTaskCompleted>;
+  deleteTask: (taskId: number) => Promise<void>;
+  moveTasks: (updates: { id: number; due_date: string | null }[]) => Promise<void>;
+};
+
+// Runs task writes while noting what each replaced; pass the steps to recordBatch afterwards
+export function startBatch(): JournalRecorder {
+  const steps: JournalStep[] = [];
+  return {
+    steps,
+    addTask: async (task) => {
+      const taskId = await addTask(task);
+      steps.push({ kind: "create", taskId });
+      return taskId;
+    },
+    updateTask: async (task) => {
+      const before = await getTask(task.id);
+      await updateTask(task);
+      if (before) steps.push({ kind: "edit", taskId: task.id, before: snapshotTask(before) });
+    },
+    setCompleted: async (taskId, completed) => {
+      const before = await getTask(taskId);
+      const next = await setTaskCompleted(taskId, completed);
+      if (before && !!before.completed !== completed) {
+        steps.push({ kind: "complete", taskId, wasCompleted: !!before.completed, spawnedId: next?.id ?? null });
+      }
+      return next;
+    },
+    deleteTask: async (taskId) => {
+      const before = await getTask(taskId);
+      await deleteTask(taskId);
+      if (before) steps.push({ kind: "delete", taskId });
+    },
+    moveTasks: async (updates) => {
+      const befores = await Promise.all(updates.map((update) => getTask(update.id)));
+      await updateManyTaskDueDates(updates);
+      updates.forEach((update, index) => {
+        const before = befores[index];
+        if (before && before.due_date !== update.due_date) {
+          steps.push({ kind: "due_date", taskId: update.id, before: before.due_date });
+        }
+      });
+    },
+  };
+}
@@ -1,6 +1,25 @@
 import * as Crypto from "expo-crypto";
-import * as SecureStore from "@/lib/secure-store";
-
+import { deleteProfileItem, getProfileItem, setProfileItem } from "@/lib/profile-store";
+import {
+  APP_LOCK_MAX_ATTEMPTS,
+  DEFAULT_AUTO_LOCK,
+  isAutoLockSetting,
+  registerFailedUnlock,
+  type AutoLockSetting,
+  type FailedUnlockState,
+} from "@/utils/appLockPolicy";
+import {
+  checkPassword,
+  constantTimeEqual,
+  hashPasswordWithSalt,
+  isPasswordHash,
+  toHex,
+  utf8Bytes,
+} from "@/utils/passwordHash";
+
+export { APP_LOCK_LOCKOUT_MS, APP_LOCK_MAX_ATTEMPTS } from "@/utils/appLockPolicy";
+
+// Every key is per profile, so each profile has its own PIN, lockout and auto-lock setting
 type AppLockState = {
   enabled: boolean;
   pinHash?: string | null;
@@ -20,13 +39,18 @@ const PIN_HASH_KEY = "app_lock_pin_hash";
 const SALT_KEY = "app_lock_salt";
 const FAILED_ATTEMPTS_KEY = "app_lock_failed_attempts";
 const LOCKED_UNTIL_KEY = "app_lock_locked_until";
+const LOCKOUT_COUNT_KEY = "app_lock_lockout_count";
+const BIOMETRICS_KEY = "app_lock_biometrics";
+const AUTO_LOCK_KEY = "app_lock_auto_lock";
 
-export const APP_LOCK_MAX_ATTEMPTS = 5;
-export const APP_LOCK_LOCKOUT_MS = 30_000;
+const PIN_SALT_BYTES = 16;
+// Lower than account passwords so unlocking stays quick; the escalating lockout does most of
+// the work against guessing a short PIN
+const PIN_HASH_ITERATIONS = 20_000;
 
 async function getString(key: string) {
   try {
-    return await SecureStore.getItemAsync(key);
+    return await getProfileItem(key);
   } catch (error) {
     console.warn("SecureStore get failed", error);
     return null;
@@ -36,9 +60,9 @@ async function getString(key: string) {
 async function setString(key: string, value: string | null) {
   try {
     if (value == null) {
-      await SecureStore.deleteItemAsync(key);
+      await deleteProfileItem(key);
     } else {
-      await SecureStore.setItemAsync(key, value);
+      await setProfileItem(key, value);
     }
   } catch (error) {
     console.warn("SecureStore set failed", error);
@@ -93,23 +117,46 @@ export async function clearPin() {
   await clearFailedUnlockAttempts();
 }
 
+// The stored hash carries its own salt; SALT_KEY is still written so "is a PIN set" checks keep working
 export async function setPinHash(pin: string) {
-  const salt = Math.random().toString(36).slice(2, 10);
-  const digest = await Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, pin + salt);
-  await setString(PIN_HASH_KEY, digest);
-  await setString(SALT_KEY, salt);
+  const salt = Crypto.getRandomBytes(PIN_SALT_BYTES);
+  await setString(PIN_HASH_KEY, await hashPasswordWithSalt(pin, salt, PIN_HASH_ITERATIONS));
+  await setString(SALT_KEY, toHex(salt));
 }
 
 export async function verifyPin(pin: string): Promise<boolean> {
   const { pinHash, salt } = await getAppLockState();
   if (!pinHash || !salt) return false;
+  if (isPasswordHash(pinHash)) return (await checkPassword(pin, pinHash)).valid;
+
+  // PINs set before stretching were a single SHA-256 of pin + salt; upgrade once one matches
   const digest = await Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, pin + salt);
-  return digest === pinHash;
+  const valid = constantTimeEqual(utf8Bytes(digest), utf8Bytes(pinHash));
+  if (valid) await setPinHash(pin);
+  return valid;
 }
 
 export async function clearFailedUnlockAttempts() {
   await setNumber(FAILED_ATTEMPTS_KEY, 0);
   await setNumber(LOCKED_UNTIL_KEY, null);
+  await setNumber(LOCKOUT_COUNT_KEY, 0);
+}
+
+export async function getBiometricUnlockEnabled() {
+  return (await getString(BIOMETRICS_KEY)) === "true";
+}
+
+export async function setBiometricUnlockEnabled(enabled: boolean) {
+  await setString(BIOMETRICS_KEY, enabled ? "true" : "false");
+}
+
+export async function getAutoLockSetting(): Promise<AutoLockSetting> {
+  const raw = await getString(AUTO_LOCK_KEY);
+  return isAutoLockSetting(raw) ? raw : DEFAULT_AUTO_LOCK;
+}
+
+export async function setAutoLockSetting(setting: AutoLockSetting) {
+  await setString(AUTO_LOCK_KEY, setting);
 }
 
 export async function getAppLockSecurityState(now = Date.now()): Promise<AppLockSecurityState> {
@@ -122,19 +169,19 @@ export async function getAppLockSecurityState(now = Date.now()): Promise<AppLock
   return state;
 }
 
+// Kept in SecureStore so closing the app doesn't reset the count or end a lockout early
 export async function recordFailedUnlockAttempt(now = Date.now()): Promise<AppLockSecurityState> {
   const current = await getAppLockSecurityState(now);
   if (current.isLockedOut) return current;
 
-  const nextAttempts = current.attempts + 1;
-  if (nextAttempts >= APP_LOCK_MAX_ATTEMPTS) {
-    const lockoutUntil = now + APP_LOCK_LOCKOUT_MS;
-    await setNumber(FAILED_ATTEMPTS_KEY, 0);
-    await setNumber(LOCKED_UNTIL_KEY, lockoutUntil);
-    return toSecurityState(0, lockoutUntil, now);
-  }
-
-  await setNumber(FAILED_ATTEMPTS_KEY, nextAttempts);
-  await setNumber(LOCKED_UNTIL_KEY, null);
-  return toSecurityState(nextAttempts, null, now);
+  const previous: FailedUnlockState = {
+    attempts: current.attempts,
+    lockouts: (await getNumber(LOCKOUT_COUNT_KEY)) ?? 0,
+    lockoutUntil: null,
+  };
+  const next = registerFailedUnlock(previous, now);
+  await setNumber(FAILED_ATTEMPTS_KEY, next.attempts);
+  await setNumber(LOCKED_UNTIL_KEY, next.lockoutUntil);
+  await setNumber(LOCKOUT_COUNT_KEY, next.lockouts);
+  return toSecurityState(next.attempts, next.lockoutUntil, now);
 }
@@ -0,0 +1,21 @@
+import * as ScreenCapture from "expo-screen-capture";
+import { Platform } from "react-native";
+
+const CAPTURE_KEY = "app-lock";
+
+// iOS blurs the app-switcher snapshot whenever the app isn't focused, so it can stay on for as
+// long as app lock is. Android has no snapshot hook; FLAG_SECURE blanks the preview (and blocks
+// screenshots), so it is only set while the lock screen is up.
+export async function setAppSwitcherProtection(options: { lockEnabled: boolean; locked: boolean }) {
+  try {
+    if (Platform.OS === "ios") {
+      if (options.lockEnabled) await ScreenCapture.enableAppSwitcherProtectionAsync(1);
+      else await ScreenCapture.disableAppSwitcherProtectionAsync();
+    } else if (Platform.OS === "android") {
+      if (options.locked) await ScreenCapture.preventScreenCaptureAsync(CAPTURE_KEY);
+      else await ScreenCapture.allowScreenCaptureAsync(CAPTURE_KEY);
+    }
+  } catch (error) {
+    console.warn("App switcher protection failed", error);
+  }
+}
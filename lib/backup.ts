@@ -0,0 +1,86 @@
+import { exportUserData, getActiveUser, getTasks, importUserData } from "@/lib/database";
+import {
+  clearFocusSessionSnapshot,
+  loadFocusSessionSnapshot,
+  saveFocusSessionSnapshot,
+} from "@/lib/focus-session-storage";
+import { isNavItemId, isQuickActionId, navItems } from "@/lib/nav-config";
+import { loadNavQuickActions, saveNavQuickAction } from "@/lib/nav-quick-actions-store";
+import { disableReminder, enableReminder, loadReminderSettings, saveReminderSettings } from "@/lib/notifications";
+import {
+  buildBackup,
+  findBackupConflicts,
+  type BackupPayload,
+  type BackupSettings,
+  type RestoreMode,
+} from "@/utils/backupFormat";
+
+// Theme and accent live in React context, so the screen passes them in and applies restored ones itself
+type AppearanceSettings = Pick<BackupSettings, "theme_override" | "accent_theme">;
+
+export async function createBackup(appearance: AppearanceSettings) {
+  const [user, data, navQuickActions, reminder, focusSnapshot] = await Promise.all([
+    getActiveUser(),
+    exportUserData(),
+    loadNavQuickActions(),
+    loadReminderSettings(),
+    loadFocusSessionSnapshot(),
+  ]);
+
+  return buildBackup({
+    user: user
+      ? { name: user.name, email: user.email, provider: user.provider, created_at: user.created_at ?? null }
+      : null,
+    data,
+    nav_quick_actions: navQuickActions,
+    settings: { reminder, ...appearance },
+    focus_snapshot: focusSnapshot,
+  });
+}
+
+export async function getBackupConflicts(backup: BackupPayload, appearance: AppearanceSettings) {
+  const [user, tasks, reminder] = await Promise.all([getActiveUser(), getTasks(), loadReminderSettings()]);
+  return findBackupConflicts(backup, {
+    email: user?.email ?? null,
+    tasks,
+    settings: { reminder, ...appearance },
+  });
+}
+
+// Writes tasks for either mode; device settings are only taken from the backup on "replace"
+export async function restoreBackup(backup: BackupPayload, mode: RestoreMode) {
+  const result = await importUserData(backup.data, mode);
+  let reminderBlocked = false;
+
+  if (mode === "replace") {
+    for (const [navId, actionId] of Object.entries(backup.nav_quick_actions)) {
+      if (!isNavItemId(navId) || !isQuickActionId(actionId)) continue;
+      const allowed = navItems.find((item) => item.id === navId)?.quickActions ?? [];
+      if (allowed.includes(actionId)) await saveNavQuickAction(navId, actionId);
+    }
+
+    const reminder = backup.settings.reminder;
+    if (reminder?.enabled) {
+      reminderBlocked = !(await enableReminder(reminder.hour, reminder.minute));
+    } else if (reminder) {
+      await disableReminder();
+      await saveReminderSettings(reminder);
+    }
+
+    // The snapshot points at a task id, which only survives if that task was restored
+    const snapshot = backup.focus_snapshot;
+    const taskId = snapshot?.taskId != null ? result.taskIds.get(snapshot.taskId) : null;
+    if (snapshot && (snapshot.taskId == null || taskId)) {
+      await saveFocusSessionSnapshot({ ...snapshot, taskId: taskId ?? null });
+    } else {
+      await clearFocusSessionSnapshot();
+    }
+  }
+
+  return {
+    added: result.added,
+    skipped: result.skipped,
+    reminderBlocked,
+    appearance: mode === "replace" ? backup.settings : null,
+  };
+}
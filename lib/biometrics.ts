@@ -0,0 +1,47 @@
+import * as LocalAuthentication from "expo-local-authentication";
+import { Platform } from "react-native";
+
+export type BiometricSupport = {
+  available: boolean;
+  // What to call it in the UI, e.g. "Face ID"
+  label: string;
+};
+
+export async function getBiometricSupport(): Promise<BiometricSupport> {
+  try {
+    const [hasHardware, enrolled, types] = await Promise.all([
+      LocalAuthentication.hasHardwareAsync(),
+      LocalAuthentication.isEnrolledAsync(),
+      LocalAuthentication.supportedAuthenticationTypesAsync(),
+    ]);
+    const face = types.includes(LocalAuthentication.AuthenticationType.FACIAL_RECOGNITION);
+    const fingerprint = types.includes(LocalAuthentication.AuthenticationType.FINGERPRINT);
+    const label =
+      Platform.OS === "ios"
+        ? face
+          ? "Face ID"
+          : "Touch ID"
+        : fingerprint && !face
+        ? "Fingerprint"
+        : "Biometrics";
+    return { available: hasHardware && enrolled, label };
+  } catch (error) {
+    console.warn("Biometric support check failed", error);
+    return { available: false, label: "Biometrics" };
+  }
+}
+
+// The device passcode fallback is turned off: the app's own PIN keypad is the fallback
+export async function authenticateWithBiometrics(promptMessage: string) {
+  try {
+    const result = await LocalAuthentication.authenticateAsync({
+      promptMessage,
+      cancelLabel: "Use PIN",
+      disableDeviceFallback: true,
+    });
+    return result.success;
+  } catch (error) {
+    console.warn("Biometric unlock failed", error);
+    return false;
+  }
+}
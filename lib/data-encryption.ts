@@ -0,0 +1,132 @@
+import * as Crypto from "expo-crypto";
+
+import { deleteStoredDataKey, loadStoredDataKey, storeDataKey } from "@/lib/data-key-store";
+import {
+  DATA_KEY_BYTES,
+  dataKeyCheck,
+  deriveWrappingKey,
+  isSealed,
+  NONCE_BYTES,
+  openString,
+  sealString,
+  WRAPPING_KEY_COST,
+} from "@/utils/fieldCipher";
+import { fromHex, toHex } from "@/utils/passwordHash";
+
+// Task titles and notes are sealed with a random data key. Day to day the key comes from
+// SecureStore (on web, the browser session). Each profile also keeps its own copy of the key in
+// the database, sealed with a key derived from its app-lock PIN or account password, so the key
+// can be recovered on a new phone or a new browser session. Copies are per profile: changing
+// one profile's PIN or password only replaces that profile's copy.
+export type DataKeySource = "pin" | "password";
+
+export type DataEncryptionMeta = {
+  key_check: string;
+};
+
+export type DataKeyWrap = {
+  user_id: number;
+  source: DataKeySource;
+  salt: string;
+  cost: number;
+  wrapped_key: string;
+};
+
+export type DataEncryptionStatus = {
+  enabled: boolean;
+  // False when encryption is on but the key isn't loaded; reads and writes fail until unlocked
+  unlocked: boolean;
+};
+
+const SALT_BYTES = 16;
+
+export const DATA_LOCKED_MESSAGE = "Your tasks are encrypted and locked. Unlock them with your PIN or password.";
+
+let currentMeta: DataEncryptionMeta | null = null;
+let activeKey: Uint8Array | null = null;
+
+export function getDataEncryptionStatus(): DataEncryptionStatus {
+  return { enabled: !!currentMeta, unlocked: !currentMeta || !!activeKey };
+}
+
+// Picks up the stored key for the database's current settings; a key that doesn't match them is ignored
+export async function loadDataKey(meta: DataEncryptionMeta | null) {
+  currentMeta = meta;
+  activeKey = null;
+  if (!meta) return;
+  const key = fromHex((await loadStoredDataKey()) ?? "");
+  if (key && key.length === DATA_KEY_BYTES && dataKeyCheck(key) === meta.key_check) activeKey = key;
+}
+
+export function getActiveDataKey() {
+  return activeKey;
+}
+
+export function createDataKey() {
+  const key = Crypto.getRandomBytes(DATA_KEY_BYTES);
+  return { key, meta: { key_check: dataKeyCheck(key) } };
+}
+
+export async function wrapDataKey(
+  key: Uint8Array,
+  userId: number,
+  source: DataKeySource,
+  secret: string
+): Promise<DataKeyWrap> {
+  const salt = Crypto.getRandomBytes(SALT_BYTES);
+  const wrappingKey = await deriveWrappingKey(secret, salt, WRAPPING_KEY_COST);
+  return {
+    user_id: userId,
+    source,
+    salt: toHex(salt),
+    cost: WRAPPING_KEY_COST,
+    wrapped_key: sealWithKey(wrappingKey, toHex(key)),
+  };
+}
+
+// Null when the secret is wrong or the copy doesn't belong to this data
+export async function unwrapDataKey(wrap: DataKeyWrap, secret: string, meta: DataEncryptionMeta) {
+  const salt = fromHex(wrap.salt);
+  if (!salt) return null;
+  try {
+    const wrappingKey = await deriveWrappingKey(secret, salt, wrap.cost);
+    const key = fromHex(openString(wrappingKey, wrap.wrapped_key));
+    return key && dataKeyCheck(key) === meta.key_check ? key : null;
+  } catch {
+    return null;
+  }
+}
+
+// Saves the key for everyday use and reads it back, so nothing is sealed under a key that wasn't kept
+export async function activateDataKey(meta: DataEncryptionMeta, key: Uint8Array) {
+  await storeDataKey(toHex(key));
+  if ((await loadStoredDataKey()) !== toHex(key)) {
+    throw new Error("Couldn't save the encryption key in this device's secure storage.");
+  }
+  currentMeta = meta;
+  activeKey = key;
+}
+
+export async function deactivateDataKey() {
+  currentMeta = null;
+  activeKey = null;
+  await deleteStoredDataKey();
+}
+
+export function sealWithKey(key: Uint8Array, value: string) {
+  return sealString(key, value, Crypto.getRandomBytes(NONCE_BYTES));
+}
+
+// Seals a title or notes value while encryption is on; passes it through otherwise
+export function sealField<T extends string | null | undefined>(value: T): T {
+  if (typeof value !== "string" || !currentMeta) return value;
+  if (!activeKey) throw new Error(DATA_LOCKED_MESSAGE);
+  return sealWithKey(activeKey, value) as T;
+}
+
+// Plain values pass through, so rows written before encryption was turned on still read
+export function openField<T extends string | null | undefined>(value: T): T {
+  if (typeof value !== "string" || !isSealed(value)) return value;
+  if (!activeKey) throw new Error(DATA_LOCKED_MESSAGE);
+  return openString(activeKey, value) as T;
+}
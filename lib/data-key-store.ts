@@ -0,0 +1,32 @@
+import * as ExpoSecureStore from "expo-secure-store";
+
+const DATA_KEY_KEY = "data_encryption_key";
+
+// Kept out of device backups and transfers; a new phone unlocks with the PIN or password
+// instead. Readable after the first unlock since boot, for notification actions handled in
+// the background.
+const KEY_OPTIONS: ExpoSecureStore.SecureStoreOptions = {
+  keychainAccessible: ExpoSecureStore.AFTER_FIRST_UNLOCK_THIS_DEVICE_ONLY,
+};
+
+export async function loadStoredDataKey() {
+  try {
+    return await ExpoSecureStore.getItemAsync(DATA_KEY_KEY, KEY_OPTIONS);
+  } catch (error) {
+    console.warn("SecureStore get failed", error);
+    return null;
+  }
+}
+
+// Throws, unlike the other two: nothing may be sealed under a key that wasn't saved
+export async function storeDataKey(hex: string) {
+  await ExpoSecureStore.setItemAsync(DATA_KEY_KEY, hex, KEY_OPTIONS);
+}
+
+export async function deleteStoredDataKey() {
+  try {
+    await ExpoSecureStore.deleteItemAsync(DATA_KEY_KEY, KEY_OPTIONS);
+  } catch (error) {
+    console.warn("SecureStore delete failed", error);
+  }
+}
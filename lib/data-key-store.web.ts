@@ -0,0 +1,22 @@
+// The web SecureStore fallback is localStorage, right next to the data it would protect.
+// Keep the key for this tab session only; a new session unlocks with the PIN or password.
+const DATA_KEY_KEY = "workloadassapp.web.data-key";
+
+function hasSessionStorage() {
+  return typeof window !== "undefined" && typeof window.sessionStorage !== "undefined";
+}
+
+export async function loadStoredDataKey() {
+  if (!hasSessionStorage()) return null;
+  return window.sessionStorage.getItem(DATA_KEY_KEY);
+}
+
+export async function storeDataKey(hex: string) {
+  if (!hasSessionStorage()) throw new Error("This browser can't keep the encryption key for the session.");
+  window.sessionStorage.setItem(DATA_KEY_KEY, hex);
+}
+
+export async function deleteStoredDataKey() {
+  if (!hasSessionStorage()) return;
+  window.sessionStorage.removeItem(DATA_KEY_KEY);
+}
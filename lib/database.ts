@@ -1,6 +1,58 @@
 import { openDatabaseSync } from "expo-sqlite";
 
-export type AuthProvider = "email" | "apple" | "google";
+import {
+  replacedTaskIds,
+  restoredPrerequisites,
+  taskFingerprint,
+  type BackupData,
+  type RestoreMode,
+} from "@/utils/backupFormat";
+import { COURSE_COLORS, COURSE_NAME_LIMIT, findCourse, type Course, type CourseDraft } from "@/utils/courses";
+import type { CsvTaskDraft } from "@/utils/csv";
+import type { EffortSample } from "@/utils/effortEstimate";
+import { verifyPin } from "@/lib/app-lock-storage";
+import {
+  activateDataKey,
+  createDataKey,
+  DATA_LOCKED_MESSAGE,
+  deactivateDataKey,
+  getActiveDataKey,
+  getDataEncryptionStatus,
+  loadDataKey,
+  openField,
+  sealField,
+  sealWithKey,
+  unwrapDataKey,
+  wrapDataKey,
+  type DataEncryptionMeta,
+  type DataKeySource,
+  type DataKeyWrap,
+} from "@/lib/data-encryption";
+import { checkPassword, hashPassword } from "@/lib/password";
+import { setActiveProfileId } from "@/lib/profile-store";
+import { emitTasksChanged } from "@/lib/task-events";
+import { nextRecurrenceInstance, parseRecurrenceRule } from "@/utils/recurrence";
+import {
+  addableEdges,
+  describeDependencyCycle,
+  findDependencyCycle,
+  type DependencyEdge,
+} from "@/utils/taskDependencies";
+import { isTagColor, nextTagColor, normalizeTagNames, type TaskTag } from "@/utils/taskTags";
+import {
+  pickSyncFields,
+  SYNC_FIELDS,
+  type LocalSyncTask,
+  type SyncConflict,
+  type SyncField,
+  type SyncFields,
+  type SyncRow,
+  type SyncShadowEntry,
+  type SyncValue,
+} from "@/utils/syncProtocol";
+import type { WorkSessionDraft, WorkSessionOutcome } from "@/utils/workSessions";
+
+export type AuthProvider = "email" | "apple" | "google" | "local";
 
 export type UserProfile = {
   id: number;
@@ -23,6 +75,62 @@ export type TaskRow = {
   completed: number;
   created_at: string;
   user_id: number | null;
+  recurrence_id: number | null;
+  occurrence: number | null;
+  // UID from an imported .ics entry, used to skip it on re-import
+  ical_uid: string | null;
+  // User's own time estimate; null lets the planner use its learned default
+  estimated_minutes: number | null;
+  // Deadline reminder offsets (utils/taskReminders); null follows the category default
+  reminder_offsets: string | null;
+  // Share of the course the assessment is worth and the grade achieved, both in % (utils/grades)
+  assessment_weight: number | null;
+  grade: number | null;
+  // Last local write, kept by triggers; sync sends it as the field clock
+  updated_at?: string | null;
+  // Set while the task is in the Trash; list queries leave these rows out
+  deleted_at?: string | null;
+  recurrence_rule?: string | null;
+  subtask_total?: number;
+  subtask_done?: number;
+  // Comma-separated ids of the tasks this one waits on (utils/taskDependencies)
+  prerequisite_ids?: string | null;
+  // Comma-separated ids of the task's tags (utils/taskTags)
+  tag_ids?: string | null;
+  // Course the task belongs to; subject holds its name (utils/courses)
+  course_id?: number | null;
+};
+
+export type SubtaskRow = {
+  id: number;
+  task_id: number;
+  title: string;
+  completed: number;
+  position: number;
+  created_at: string;
+};
+
+export type SubtaskDraft = {
+  id?: number;
+  title: string;
+  completed: boolean;
+};
+
+export type WorkSessionRow = {
+  id: number;
+  task_id: number;
+  user_id: number | null;
+  started_at: string;
+  ended_at: string;
+  planned_minutes: number;
+  actual_seconds: number;
+  outcome: WorkSessionOutcome;
+};
+
+export type TaskTimeTotals = {
+  sessions: number;
+  seconds: number;
+  last_ended_at: string | null;
 };
 
 // Open database
@@ -83,11 +191,212 @@ export async function initDatabase() {
     );
   `);
 
+  await db.execAsync(`
+    CREATE TABLE IF NOT EXISTS subtasks (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      task_id INTEGER NOT NULL,
+      title TEXT NOT NULL,
+      completed INTEGER DEFAULT 0,
+      position INTEGER DEFAULT 0,
+      created_at TEXT
+    );
+  `);
+  await db.execAsync("CREATE INDEX IF NOT EXISTS idx_subtasks_task ON subtasks (task_id, position);");
+
+  // "task_id can't start until prerequisite_id is done"; loops are refused when saving
+  await db.execAsync(`
+    CREATE TABLE IF NOT EXISTS task_prerequisites (
+      task_id INTEGER NOT NULL,
+      prerequisite_id INTEGER NOT NULL,
+      PRIMARY KEY (task_id, prerequisite_id)
+    );
+  `);
+  await db.execAsync(
+    "CREATE INDEX IF NOT EXISTS idx_task_prerequisites_prerequisite ON task_prerequisites (prerequisite_id);"
+  );
+
+  // Each user's tags; names are normalised (utils/taskTags) so one name is one tag
+  await db.execAsync(`
+    CREATE TABLE IF NOT EXISTS tags (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER NOT NULL,
+      name TEXT NOT NULL,
+      color TEXT NOT NULL,
+      created_at TEXT
+    );
+  `);
+  await db.execAsync("CREATE UNIQUE INDEX IF NOT EXISTS idx_tags_user_name ON tags (user_id, name);");
+  await db.execAsync(`
+    CREATE TABLE IF NOT EXISTS task_tags (
+      task_id INTEGER NOT NULL,
+      tag_id INTEGER NOT NULL,
+      PRIMARY KEY (task_id, tag_id)
+    );
+  `);
+  await db.execAsync("CREATE INDEX IF NOT EXISTS idx_task_tags_tag ON task_tags (tag_id);");
+
+  // Each user's courses; tasks point here through course_id and keep the name in subject
+  await db.execAsync(`
+    CREATE TABLE IF NOT EXISTS courses (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER NOT NULL,
+      name TEXT NOT NULL,
+      code TEXT,
+      color TEXT NOT NULL,
+      term TEXT,
+      credit_weight REAL,
+      exam_date TEXT,
+      created_at TEXT
+    );
+  `);
+  await db.execAsync("CREATE UNIQUE INDEX IF NOT EXISTS idx_courses_user_name ON courses (user_id, name COLLATE NOCASE);");
+
+  // One row per repeating series; each task instance points at it and records its position
+  await db.execAsync(`
+    CREATE TABLE IF NOT EXISTS recurrences (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      rule TEXT NOT NULL,
+      user_id INTEGER,
+      created_at TEXT
+    );
+  `);
+
+  // One row per focus timer run; rows outlive their task so weekly totals stay honest
+  await db.execAsync(`
+    CREATE TABLE IF NOT EXISTS work_sessions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      task_id INTEGER NOT NULL,
+      user_id INTEGER,
+      started_at TEXT NOT NULL,
+      ended_at TEXT NOT NULL,
+      planned_minutes INTEGER DEFAULT 0,
+      actual_seconds INTEGER DEFAULT 0,
+      outcome TEXT NOT NULL
+    );
+  `);
+  await db.execAsync("CREATE INDEX IF NOT EXISTS idx_work_sessions_task ON work_sessions (task_id);");
+  await db.execAsync("CREATE INDEX IF NOT EXISTS idx_work_sessions_user ON work_sessions (user_id, started_at);");
+
+  // Present only while task encryption is on (lib/data-encryption)
+  await db.execAsync(`
+    CREATE TABLE IF NOT EXISTS data_encryption (
+      id INTEGER PRIMARY KEY CHECK (id = 1),
+      key_check TEXT NOT NULL
+    );
+  `);
+  // Each profile's copy of the data key, sealed with its PIN or password
+  await db.execAsync(`
+    CREATE TABLE IF NOT EXISTS data_key_wraps (
+      user_id INTEGER NOT NULL,
+      source TEXT NOT NULL,
+      salt TEXT NOT NULL,
+      cost INTEGER NOT NULL,
+      wrapped_key TEXT NOT NULL,
+      PRIMARY KEY (user_id, source)
+    );
+  `);
+
+  // Each synced task as last pulled from the sync server (utils/syncProtocol). Fields are a
+  // JSON object, sealed like titles while task encryption is on.
+  await db.execAsync(`
+    CREATE TABLE IF NOT EXISTS sync_shadow (
+      user_id INTEGER NOT NULL,
+      uid TEXT NOT NULL,
+      task_id INTEGER,
+      version INTEGER NOT NULL DEFAULT 0,
+      fields TEXT NOT NULL,
+      PRIMARY KEY (user_id, uid)
+    );
+  `);
+
+  // Conflicts from sync waiting for the user to keep or restore. `data` is the whole
+  // conflict as JSON, sealed like the shadow since it holds task text.
+  await db.execAsync(`
+    CREATE TABLE IF NOT EXISTS sync_conflicts (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER NOT NULL,
+      uid TEXT NOT NULL,
+      field TEXT NOT NULL,
+      at INTEGER NOT NULL,
+      data TEXT NOT NULL
+    );
+  `);
+
   // Old installs won't have user scoping yet
   await ensureColumnExists("tasks", "user_id", "INTEGER");
   await ensureColumnExists("tasks", "priority", "TEXT DEFAULT 'normal'");
   await ensureColumnExists("tasks", "category", "TEXT");
+  await ensureColumnExists("tasks", "recurrence_id", "INTEGER");
+  await ensureColumnExists("tasks", "occurrence", "INTEGER");
+  await ensureColumnExists("tasks", "ical_uid", "TEXT");
+  await ensureColumnExists("tasks", "estimated_minutes", "INTEGER");
+  await ensureColumnExists("tasks", "reminder_offsets", "TEXT");
+  await ensureColumnExists("tasks", "updated_at", "TEXT");
+  await ensureColumnExists("tasks", "deleted_at", "TEXT");
+  await ensureColumnExists("tasks", "course_id", "INTEGER");
+  await ensureColumnExists("tasks", "assessment_weight", "REAL");
+  await ensureColumnExists("tasks", "grade", "REAL");
   await ensureColumnExists("sessions", "signed_out", "INTEGER DEFAULT 0");
+
+  // Stamp every task write unless the statement set updated_at itself (sync does, to keep the server's time)
+  await db.execAsync(`
+    CREATE TRIGGER IF NOT EXISTS tasks_stamp_insert AFTER INSERT ON tasks
+    WHEN NEW.updated_at IS NULL
+    BEGIN
+      UPDATE tasks SET updated_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now') WHERE id = NEW.id;
+    END;
+  `);
+  await db.execAsync(`
+    CREATE TRIGGER IF NOT EXISTS tasks_stamp_update AFTER UPDATE ON tasks
+    WHEN NEW.updated_at IS OLD.updated_at
+    BEGIN
+      UPDATE tasks SET updated_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now') WHERE id = NEW.id;
+    END;
+  `);
+
+  await loadDataKey(await getEncryptionMeta());
+
+  // Subjects typed before courses existed become courses of their own
+  const unlinked = await db.getAllAsync<{ user_id: number }>(
+    "SELECT DISTINCT user_id FROM tasks WHERE course_id IS NULL AND user_id IS NOT NULL AND TRIM(COALESCE(subject, '')) != ''"
+  );
+  for (const { user_id } of unlinked) await linkTaskCourses(user_id);
+}
+
+async function getEncryptionMeta() {
+  return db.getFirstAsync<DataEncryptionMeta>("SELECT key_check FROM data_encryption WHERE id = 1");
+}
+
+async function saveEncryptionMeta(meta: DataEncryptionMeta) {
+  await db.runAsync(
+    `
+      INSERT INTO data_encryption (id, key_check)
+      VALUES (1, ?)
+      ON CONFLICT(id) DO UPDATE SET key_check = excluded.key_check;
+    `,
+    [meta.key_check]
+  );
+}
+
+async function saveDataKeyWrap(wrap: DataKeyWrap) {
+  await db.runAsync(
+    `
+      INSERT INTO data_key_wraps (user_id, source, salt, cost, wrapped_key)
+      VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT(user_id, source) DO UPDATE SET
+        salt = excluded.salt,
+        cost = excluded.cost,
+        wrapped_key = excluded.wrapped_key;
+    `,
+    [wrap.user_id, wrap.source, wrap.salt, wrap.cost, wrap.wrapped_key]
+  );
+}
+
+// Titles and notes are stored sealed while encryption is on
+function openTask<T extends { title: string; notes?: string | null }>(task: T): T {
+  const opened = { ...task, title: openField(task.title) };
+  if (task.notes !== undefined) opened.notes = openField(task.notes);
+  return opened;
 }
 
 const normalizeEmail = (email: string) => email.trim().toLowerCase();
@@ -115,6 +424,7 @@ async function setActiveUser(userId: number) {
     `,
     [userId]
   );
+  await setActiveProfileId(userId);
 }
 
 async function getSession(): Promise<SessionRow | null> {
@@ -134,17 +444,22 @@ async function ensureActiveUser(options?: { ignoreSignedOut?: boolean }): Promis
       "SELECT id, name, email, provider, password, created_at FROM users WHERE id = ?",
       [session.user_id]
     );
-    if (existing) return existing;
+    if (existing) {
+      await setActiveProfileId(existing.id);
+      return existing;
+    }
   }
 
-  // Rehydrate from first user if session was cleared
-  const fallback = await db.getFirstAsync<UserProfile>(
-    "SELECT id, name, email, provider, password, created_at FROM users ORDER BY id LIMIT 1"
+  // Rehydrate the only user if the session was cleared. With several profiles there's no
+  // safe guess, so the caller has to pick one.
+  const users = await db.getAllAsync<UserProfile>(
+    "SELECT id, name, email, provider, password, created_at FROM users ORDER BY id LIMIT 2"
   );
-  if (fallback) {
-    await setActiveUser(fallback.id);
-    return fallback;
+  if (users.length === 1) {
+    await setActiveUser(users[0].id);
+    return users[0];
   }
+  if (users.length > 1) return null;
 
   // Create a local guest so the app remains usable without manual signup
   await db.runAsync(
@@ -198,10 +513,55 @@ async function getActiveUserId() {
   return recovered?.id ?? null;
 }
 
+// Tasks from before user scoping have no owner. They only go to a user when nobody else
+// could have made them, so signing in to a second profile never picks up another's tasks.
 export async function adoptOrphanTasks(userId: number) {
+  const row = await db.getFirstAsync<{ count: number }>("SELECT COUNT(*) AS count FROM users");
+  if ((row?.count ?? 0) > 1) return;
   await db.runAsync("UPDATE tasks SET user_id = ? WHERE user_id IS NULL", [userId]);
 }
 
+// Everyone with data on this device, for the profile picker
+export async function getProfiles(): Promise<UserProfile[]> {
+  return db.getAllAsync<UserProfile>("SELECT id, name, email, provider, created_at FROM users ORDER BY id");
+}
+
+// A profile without an account; its own PIN is the only thing guarding it
+export async function createLocalProfile(name: string) {
+  const email = `profile-${Date.now()}@local`;
+  await db.runAsync(
+    `
+      INSERT INTO users (name, email, provider, password, created_at)
+      VALUES (?, ?, 'local', NULL, datetime('now'))
+    `,
+    [name.trim(), email]
+  );
+
+  const user = await findUserByEmail(email);
+  if (user) {
+    await setActiveUser(user.id);
+  }
+  return user;
+}
+
+// Email accounts still need their password; other profiles open straight away and their
+// app-lock PIN, if any, is asked for next
+export async function switchToProfile(userId: number, password?: string) {
+  const user = await db.getFirstAsync<UserProfile>(
+    "SELECT id, name, email, provider, password, created_at FROM users WHERE id = ?",
+    [userId]
+  );
+  if (!user) throw new Error("That profile no longer exists.");
+  if (user.provider === "email") {
+    const { valid } = await checkPassword(password ?? "", user.password);
+    if (!valid) throw new Error("Incorrect password.");
+  }
+
+  await setActiveUser(user.id);
+  emitTasksChanged("all");
+  return user;
+}
+
 export async function signUpWithEmail(name: string, email: string, password: string) {
   const normalizedEmail = normalizeEmail(email);
   const existing = await findUserByEmail(normalizedEmail);
@@ -214,7 +574,7 @@ export async function signUpWithEmail(name: string, email: string, password: str
       INSERT INTO users (name, email, provider, password, created_at)
       VALUES (?, ?, 'email', ?, datetime('now'))
     `,
-    [name.trim(), normalizedEmail, password]
+    [name.trim(), normalizedEmail, await hashPassword(password)]
   );
 
   const user = await findUserByEmail(normalizedEmail);
@@ -227,12 +587,89 @@ export async function signUpWithEmail(name: string, email: string, password: str
 export async function signInWithEmail(email: string, password: string) {
   const user = await findUserByEmail(email);
   if (!user) return null;
-  if ((user.password ?? "") !== password) return null;
+  const { valid, needsRehash } = await checkPassword(password, user.password);
+  if (!valid) return null;
+  // Accounts from before hashing still hold the plaintext; replace it now that we have the password
+  if (needsRehash) {
+    user.password = await hashPassword(password);
+    await db.runAsync("UPDATE users SET password = ? WHERE id = ?", [user.password, user.id]);
+  }
 
   await setActiveUser(user.id);
+  await storeDataKeyWrap(user.id, "password", password, false);
   return user;
 }
 
+// For screens that re-confirm the signed-in user, e.g. PIN recovery
+export async function verifyActiveUserPassword(password: string) {
+  const user = await getActiveUser();
+  if (!user || user.provider !== "email") return false;
+  const { valid } = await checkPassword(password, user.password);
+  return valid;
+}
+
+export async function changePassword(currentPassword: string, newPassword: string) {
+  const user = await getActiveUser();
+  if (!user) throw new Error("No active user session");
+  if (user.provider !== "email") throw new Error("This account does not use a password.");
+  const { valid } = await checkPassword(currentPassword, user.password);
+  if (!valid) throw new Error("Current password is incorrect.");
+
+  await db.runAsync("UPDATE users SET password = ? WHERE id = ?", [await hashPassword(newPassword), user.id]);
+  await storeDataKeyWrap(user.id, "password", newPassword, true);
+}
+
+// Turns the active guest or local profile into an email account. The user row is updated in
+// place, so tasks, quick actions and profile settings, all keyed by user id, come along in
+// the same write.
+export async function upgradeGuestAccount(name: string, email: string, password: string) {
+  const user = await getActiveUser();
+  if (!user) throw new Error("No active user session");
+  if (user.provider !== "local") throw new Error("This profile already has an account.");
+  const normalizedEmail = normalizeEmail(email);
+  if (await findUserByEmail(normalizedEmail)) throw new Error("Email already registered.");
+
+  await db.runAsync("UPDATE users SET name = ?, email = ?, provider = 'email', password = ? WHERE id = ?", [
+    name.trim(),
+    normalizedEmail,
+    await hashPassword(password),
+    user.id,
+  ]);
+  return findUserByEmail(normalizedEmail);
+}
+
+// Removes the active user and everything stored against them in the database, then signs out.
+// Resolves to the ids of the deleted tasks so callers can clear what's kept outside it.
+export async function deleteActiveAccount(password?: string) {
+  const user = await getActiveUser();
+  if (!user) throw new Error("No active user session");
+  if (user.provider === "email") {
+    const { valid } = await checkPassword(password ?? "", user.password);
+    if (!valid) throw new Error("Incorrect password.");
+  }
+
+  const rows = await db.getAllAsync<{ id: number }>("SELECT id FROM tasks WHERE user_id = ?", [user.id]);
+  await db.withTransactionAsync(async () => {
+    await db.runAsync("DELETE FROM subtasks WHERE task_id IN (SELECT id FROM tasks WHERE user_id = ?)", [user.id]);
+    await db.runAsync("DELETE FROM task_prerequisites WHERE task_id IN (SELECT id FROM tasks WHERE user_id = ?)", [
+      user.id,
+    ]);
+    await db.runAsync("DELETE FROM task_tags WHERE task_id IN (SELECT id FROM tasks WHERE user_id = ?)", [user.id]);
+    await db.runAsync("DELETE FROM tags WHERE user_id = ?", [user.id]);
+    await db.runAsync("DELETE FROM courses WHERE user_id = ?", [user.id]);
+    await db.runAsync("DELETE FROM tasks WHERE user_id = ?", [user.id]);
+    await db.runAsync("DELETE FROM recurrences WHERE user_id = ?", [user.id]);
+    await db.runAsync("DELETE FROM work_sessions WHERE user_id = ?", [user.id]);
+    await db.runAsync("DELETE FROM sync_shadow WHERE user_id = ?", [user.id]);
+    await db.runAsync("DELETE FROM sync_conflicts WHERE user_id = ?", [user.id]);
+    await db.runAsync("DELETE FROM data_key_wraps WHERE user_id = ?", [user.id]);
+    await db.runAsync("DELETE FROM users WHERE id = ?", [user.id]);
+    await db.runAsync("UPDATE sessions SET user_id = NULL, signed_out = 1, updated_at = datetime('now') WHERE id = 1");
+  });
+  emitTasksChanged("all");
+  return { userId: user.id, taskIds: rows.map((row) => row.id) };
+}
+
 export async function signInWithProvider(
   provider: AuthProvider,
   profile: { email?: string; name?: string } = {}
@@ -262,7 +699,7 @@ export async function signInWithProvider(
   return user;
 }
 
-// Add a task
+// Add a task (returns the new row id)
 export async function addTask(task: {
   title: string;
   description: string;
@@ -270,29 +707,138 @@ export async function addTask(task: {
   due_date: string | null;
   priority?: "normal" | "high";
   category?: "coursework" | "revision" | "project" | "personal" | null;
+  subtasks?: string[];
+  // RRULE-style text from utils/recurrence; the task becomes the first instance of the series
+  recurrence?: string | null;
+  ical_uid?: string | null;
+  estimated_minutes?: number | null;
+  reminder_offsets?: string | null;
+  // Tag names; missing tags are created
+  tags?: string[];
+  // A course id, or a subject name that is matched to a course (created if new)
+  course_id?: number | null;
+  subject?: string | null;
+  assessment_weight?: number | null;
+  grade?: number | null;
 }) {
-  const { title, description, difficulty, due_date, priority = "normal", category = null } = task;
+  const {
+    title,
+    description,
+    difficulty,
+    due_date,
+    priority = "normal",
+    category = null,
+    subtasks = [],
+    recurrence = null,
+    ical_uid = null,
+    estimated_minutes = null,
+    reminder_offsets = null,
+    tags = [],
+    course_id = null,
+    subject = null,
+    assessment_weight = null,
+    grade = null,
+  } = task;
   const userId = await getActiveUserId();
   if (!userId) throw new Error("No active user session");
 
-  await db.runAsync(
-    `
-      INSERT INTO tasks (title, notes, difficulty, priority, category, due_date, created_at, user_id)
-      VALUES (?, ?, ?, ?, ?, ?, datetime('now'), ?);
-    `,
-    [title, description, difficulty, priority, category, due_date, userId]
-  );
+  let taskId = 0;
+  await db.withTransactionAsync(async () => {
+    const recurrenceId = recurrence ? await insertRecurrence(recurrence, userId) : null;
+    const course = await resolveTaskCourse(userId, course_id, subject);
+    const result = await db.runAsync(
+      `
+        INSERT INTO tasks (title, notes, difficulty, priority, category, due_date, created_at, user_id, recurrence_id, occurrence, ical_uid, estimated_minutes, reminder_offsets, subject, course_id, assessment_weight, grade)
+        VALUES (?, ?, ?, ?, ?, ?, datetime('now'), ?, ?, ?, ?, ?, ?, ?, ?, ?, ?);
+      `,
+      [
+        sealField(title),
+        sealField(description),
+        difficulty,
+        priority,
+        category,
+        due_date,
+        userId,
+        recurrenceId,
+        recurrenceId ? 1 : null,
+        ical_uid,
+        estimated_minutes,
+        reminder_offsets,
+        course?.name ?? null,
+        course?.id ?? null,
+        assessment_weight,
+        grade,
+      ]
+    );
+    taskId = result.lastInsertRowId;
+    await insertSubtasks(
+      taskId,
+      subtasks.map((entry) => ({ title: entry, completed: false }))
+    );
+    await linkTaskTags(userId, taskId, tags);
+  });
+  emitTasksChanged([taskId]);
+  return taskId;
+}
+
+// Bulk insert for imports: all rows land or none do
+export async function addTasks(tasks: CsvTaskDraft[]) {
+  const userId = await getActiveUserId();
+  if (!userId) throw new Error("No active user session");
+  if (!tasks.length) return 0;
+
+  await db.withTransactionAsync(async () => {
+    const stmt = await db.prepareAsync(
+      `
+        INSERT INTO tasks (title, subject, notes, difficulty, priority, category, due_date, created_at, user_id)
+        VALUES (?, ?, ?, ?, ?, ?, ?, datetime('now'), ?);
+      `
+    );
+    try {
+      for (const task of tasks) {
+        await stmt.executeAsync([
+          sealField(task.title),
+          task.subject,
+          sealField(task.notes ?? ""),
+          task.difficulty,
+          task.priority,
+          task.category,
+          task.due_date,
+          userId,
+        ]);
+      }
+    } finally {
+      await stmt.finalizeAsync();
+    }
+    await linkTaskCourses(userId);
+  });
+  emitTasksChanged("all");
+  return tasks.length;
 }
 
+// Tasks come back with a count of their checklist items so cards can show progress, and
+// with the ids of the tasks they wait on and of their tags
+const TASK_SELECT = `
+  SELECT
+    t.*,
+    (SELECT COUNT(*) FROM subtasks s WHERE s.task_id = t.id) AS subtask_total,
+    (SELECT COUNT(*) FROM subtasks s WHERE s.task_id = t.id AND s.completed = 1) AS subtask_done,
+    (SELECT GROUP_CONCAT(p.prerequisite_id) FROM task_prerequisites p WHERE p.task_id = t.id) AS prerequisite_ids,
+    (SELECT GROUP_CONCAT(tt.tag_id) FROM task_tags tt WHERE tt.task_id = t.id) AS tag_ids,
+    r.rule AS recurrence_rule
+  FROM tasks t
+  LEFT JOIN recurrences r ON r.id = t.recurrence_id
+`;
+
 // Load all tasks for the active user
 export async function getTasks() {
   const userId = await getActiveUserId();
   if (!userId) return [];
   const result = await db.getAllAsync<TaskRow>(
-    "SELECT * FROM tasks WHERE user_id = ? ORDER BY created_at DESC",
+    `${TASK_SELECT} WHERE t.user_id = ? AND t.deleted_at IS NULL ORDER BY t.created_at DESC`,
     [userId]
   );
-  return result;
+  return result.map(openTask);
 }
 
 // Load single task
@@ -300,10 +846,10 @@ export async function getTask(id: number) {
   const userId = await getActiveUserId();
   if (!userId) return null;
   const result = await db.getFirstAsync<TaskRow>(
-    "SELECT * FROM tasks WHERE id = ? AND user_id = ?",
+    `${TASK_SELECT} WHERE t.id = ? AND t.user_id = ? AND t.deleted_at IS NULL`,
     [id, userId]
   );
-  return result;
+  return result ? openTask(result) : null;
 }
 
 // Update a task
@@ -315,12 +861,37 @@ export async function updateTask(task: {
   due_date: string | null;
   priority?: "normal" | "high";
   category?: "coursework" | "revision" | "project" | "personal" | null;
+  estimated_minutes?: number | null;
+  reminder_offsets?: string | null;
+  // null takes the task off its course; undefined leaves it alone
+  course_id?: number | null;
+  assessment_weight?: number | null;
+  grade?: number | null;
 }) {
-  const { id, title, notes, difficulty, due_date, priority, category } = task;
+  const {
+    id,
+    title,
+    notes,
+    difficulty,
+    due_date,
+    priority,
+    category,
+    estimated_minutes,
+    reminder_offsets,
+    course_id,
+    assessment_weight,
+    grade,
+  } = task;
   const userId = await getActiveUserId();
   if (!userId) throw new Error("No active user session");
   const hasPriority = priority === "normal" || priority === "high";
   const hasCategory = category !== undefined;
+  const hasEstimate = estimated_minutes !== undefined;
+  const hasReminders = reminder_offsets !== undefined;
+  const hasCourse = course_id !== undefined;
+  const hasWeight = assessment_weight !== undefined;
+  const hasGrade = grade !== undefined;
+  const course = hasCourse ? await resolveTaskCourse(userId, course_id, null) : null;
 
   await db.runAsync(
     `
@@ -331,28 +902,48 @@ export async function updateTask(task: {
         difficulty = ?,
         due_date = ?,
         priority = CASE WHEN ? = 1 THEN ? ELSE priority END,
-        category = CASE WHEN ? = 1 THEN ? ELSE category END
+        category = CASE WHEN ? = 1 THEN ? ELSE category END,
+        estimated_minutes = CASE WHEN ? = 1 THEN ? ELSE estimated_minutes END,
+        reminder_offsets = CASE WHEN ? = 1 THEN ? ELSE reminder_offsets END,
+        course_id = CASE WHEN ? = 1 THEN ? ELSE course_id END,
+        subject = CASE WHEN ? = 1 THEN ? ELSE subject END,
+        assessment_weight = CASE WHEN ? = 1 THEN ? ELSE assessment_weight END,
+        grade = CASE WHEN ? = 1 THEN ? ELSE grade END
       WHERE id = ? AND user_id = ?
     `,
     [
-      title,
-      notes,
+      sealField(title),
+      sealField(notes),
       difficulty,
       due_date,
       hasPriority ? 1 : 0,
       priority ?? null,
       hasCategory ? 1 : 0,
       category ?? null,
+      hasEstimate ? 1 : 0,
+      estimated_minutes ?? null,
+      hasReminders ? 1 : 0,
+      reminder_offsets ?? null,
+      hasCourse ? 1 : 0,
+      course?.id ?? null,
+      hasCourse ? 1 : 0,
+      course?.name ?? null,
+      hasWeight ? 1 : 0,
+      assessment_weight ?? null,
+      hasGrade ? 1 : 0,
+      grade ?? null,
       id,
       userId,
     ]
   );
+  emitTasksChanged([id]);
 }
 
 export async function updateTaskDueDate(id: number, due_date: string | null) {
   const userId = await getActiveUserId();
   if (!userId) throw new Error("No active user session");
   await db.runAsync("UPDATE tasks SET due_date = ? WHERE id = ? AND user_id = ?", [due_date, id, userId]);
+  emitTasksChanged([id]);
 }
 
 export async function updateManyTaskDueDates(updates: { id: number; due_date: string | null }[]) {
@@ -367,27 +958,126 @@ export async function updateManyTaskDueDates(updates: { id: number; due_date: st
   } finally {
     await stmt.finalizeAsync();
   }
+  emitTasksChanged(updates.map((update) => update.id));
 }
 
-// Delete a single task
+const TRASH_STAMP = "strftime('%Y-%m-%dT%H:%M:%fZ', 'now')";
+
+// Move a single task to the Trash
 export async function deleteTask(id: number) {
   const userId = await getActiveUserId();
   if (!userId) throw new Error("No active user session");
-  await db.runAsync("DELETE FROM tasks WHERE id = ? AND user_id = ?", [id, userId]);
+  await db.runAsync(
+    `UPDATE tasks SET deleted_at = ${TRASH_STAMP} WHERE id = ? AND user_id = ? AND deleted_at IS NULL`,
+    [id, userId]
+  );
+  emitTasksChanged([id]);
 }
 
-// Toggle completed flag
+// Toggle completed flag. Completing an instance of a repeating task creates the next
+// instance (returned) unless the series has ended or a later instance already exists.
 export async function setTaskCompleted(id: number, completed: boolean) {
   const userId = await getActiveUserId();
   if (!userId) throw new Error("No active user session");
-  await db.runAsync("UPDATE tasks SET completed = ? WHERE id = ? AND user_id = ?", [
-    completed ? 1 : 0,
-    id,
-    userId,
-  ]);
+  const task = completed ? await getTask(id) : null;
+
+  let next = null as { id: number; due_date: string } | null;
+  await db.withTransactionAsync(async () => {
+    await db.runAsync("UPDATE tasks SET completed = ? WHERE id = ? AND user_id = ?", [
+      completed ? 1 : 0,
+      id,
+      userId,
+    ]);
+    if (!task || task.completed || !task.recurrence_id || !task.due_date) return;
+
+    const rule = parseRecurrenceRule(task.recurrence_rule);
+    if (!rule) return;
+    const occurrence = task.occurrence ?? 1;
+    const later = await db.getFirstAsync<{ id: number }>(
+      "SELECT id FROM tasks WHERE recurrence_id = ? AND user_id = ? AND occurrence > ? LIMIT 1",
+      [task.recurrence_id, userId, occurrence]
+    );
+    if (later) return;
+
+    const instance = nextRecurrenceInstance(rule, task.due_date, occurrence, todayISO());
+    if (!instance) return;
+
+    const result = await db.runAsync(
+      `
+        INSERT INTO tasks (title, notes, difficulty, priority, category, due_date, created_at, completed, subject, course_id, user_id, recurrence_id, occurrence, ical_uid, estimated_minutes, reminder_offsets, assessment_weight)
+        VALUES (?, ?, ?, ?, ?, ?, datetime('now'), 0, ?, ?, ?, ?, ?, ?, ?, ?, ?);
+      `,
+      [
+        sealField(task.title),
+        sealField(task.notes),
+        task.difficulty,
+        task.priority ?? "normal",
+        task.category ?? null,
+        instance.due_date,
+        task.subject,
+        task.course_id ?? null,
+        userId,
+        task.recurrence_id,
+        instance.occurrence,
+        task.ical_uid,
+        task.estimated_minutes,
+        task.reminder_offsets,
+        task.assessment_weight,
+      ]
+    );
+    const subtasks = await db.getAllAsync<SubtaskRow>(
+      "SELECT * FROM subtasks WHERE task_id = ? ORDER BY position ASC, id ASC",
+      [id]
+    );
+    await insertSubtasks(
+      result.lastInsertRowId,
+      subtasks.map((entry) => ({ title: entry.title, completed: false }))
+    );
+    await copyTaskTags(id, result.lastInsertRowId);
+    next = { id: result.lastInsertRowId, due_date: instance.due_date };
+  });
+  const spawned = next as { id: number } | null;
+  emitTasksChanged(spawned ? [id, spawned.id] : [id]);
+  return next;
+}
+
+// Attach, change, or (with null) stop the repeat rule for a task. Editing a rule applies to
+// the whole series; stopping only detaches this instance so past instances keep their history.
+export async function setTaskRecurrence(id: number, rule: string | null) {
+  const userId = await getActiveUserId();
+  if (!userId) throw new Error("No active user session");
+  const task = await db.getFirstAsync<{ recurrence_id: number | null }>(
+    "SELECT recurrence_id FROM tasks WHERE id = ? AND user_id = ?",
+    [id, userId]
+  );
+  if (!task) return;
+
+  await db.withTransactionAsync(async () => {
+    if (!rule) {
+      await db.runAsync("UPDATE tasks SET recurrence_id = NULL, occurrence = NULL WHERE id = ? AND user_id = ?", [
+        id,
+        userId,
+      ]);
+      return;
+    }
+    if (task.recurrence_id) {
+      await db.runAsync("UPDATE recurrences SET rule = ? WHERE id = ? AND user_id = ?", [
+        rule,
+        task.recurrence_id,
+        userId,
+      ]);
+      return;
+    }
+    const recurrenceId = await insertRecurrence(rule, userId);
+    await db.runAsync("UPDATE tasks SET recurrence_id = ?, occurrence = 1 WHERE id = ? AND user_id = ?", [
+      recurrenceId,
+      id,
+      userId,
+    ]);
+  });
 }
 
-// Duplicate a task row (appends "(copy)" to the title)
+// Duplicate a task row (appends "(copy)" to the title); checklist items are copied unticked
 export async function duplicateTask(id: number) {
   const original = await getTask(id);
   if (!original) return;
@@ -395,34 +1085,1115 @@ export async function duplicateTask(id: number) {
   const copyTitle = `${original.title} (copy)`;
   const userId = await getActiveUserId();
   if (!userId) throw new Error("No active user session");
+  const subtasks = await getSubtasks(id);
 
-  await db.runAsync(
-    `
-      INSERT INTO tasks (title, notes, difficulty, priority, category, due_date, created_at, completed, subject, user_id)
-      VALUES (?, ?, ?, ?, ?, ?, datetime('now'), 0, ?, ?);
-    `,
-    [
-      copyTitle,
-      original.notes,
-      original.difficulty,
-      original.priority ?? "normal",
-      original.category ?? null,
-      original.due_date,
-      original.subject,
-      userId,
-    ]
-  );
+  let copyId = 0;
+  await db.withTransactionAsync(async () => {
+    const result = await db.runAsync(
+      `
+        INSERT INTO tasks (title, notes, difficulty, priority, category, due_date, created_at, completed, subject, course_id, user_id, estimated_minutes, reminder_offsets, assessment_weight)
+        VALUES (?, ?, ?, ?, ?, ?, datetime('now'), 0, ?, ?, ?, ?, ?, ?);
+      `,
+      [
+        sealField(copyTitle),
+        sealField(original.notes),
+        original.difficulty,
+        original.priority ?? "normal",
+        original.category ?? null,
+        original.due_date,
+        original.subject,
+        original.course_id ?? null,
+        userId,
+        original.estimated_minutes,
+        original.reminder_offsets,
+        original.assessment_weight,
+      ]
+    );
+    await insertSubtasks(
+      result.lastInsertRowId,
+      subtasks.map((entry) => ({ title: entry.title, completed: false }))
+    );
+    await copyTaskTags(id, result.lastInsertRowId);
+    copyId = result.lastInsertRowId;
+  });
+  emitTasksChanged([copyId]);
 }
 
+// Moves every task to the Trash; series and focus history stay so a restore is complete
 export async function deleteAllTasks() {
   const userId = await getActiveUserId();
   if (!userId) throw new Error("No active user session");
-  await db.runAsync("DELETE FROM tasks WHERE user_id = ?", [userId]);
+  await db.runAsync(`UPDATE tasks SET deleted_at = ${TRASH_STAMP} WHERE user_id = ? AND deleted_at IS NULL`, [
+    userId,
+  ]);
+  emitTasksChanged("all");
 }
 
-// Delete only completed tasks
+// Move only completed tasks to the Trash
 export async function deleteCompletedTasks() {
   const userId = await getActiveUserId();
   if (!userId) throw new Error("No active user session");
-  await db.runAsync("DELETE FROM tasks WHERE completed = 1 AND user_id = ?", [userId]);
+  await db.runAsync(
+    `UPDATE tasks SET deleted_at = ${TRASH_STAMP} WHERE completed = 1 AND user_id = ? AND deleted_at IS NULL`,
+    [userId]
+  );
+  emitTasksChanged("all");
+}
+
+// Tasks in the Trash, most recently deleted first
+export async function getTrashedTasks() {
+  const userId = await getActiveUserId();
+  if (!userId) return [];
+  const result = await db.getAllAsync<TaskRow>(
+    `${TASK_SELECT} WHERE t.user_id = ? AND t.deleted_at IS NOT NULL ORDER BY t.deleted_at DESC`,
+    [userId]
+  );
+  return result.map(openTask);
+}
+
+export async function restoreTask(id: number) {
+  const userId = await getActiveUserId();
+  if (!userId) throw new Error("No active user session");
+  await db.runAsync("UPDATE tasks SET deleted_at = NULL WHERE id = ? AND user_id = ?", [id, userId]);
+  emitTasksChanged([id]);
+}
+
+async function removeTrashedTasks(userId: number, filter: string, params: (string | number)[]) {
+  const where = `user_id = ? AND deleted_at IS NOT NULL AND ${filter}`;
+  let removed = 0;
+  await db.withTransactionAsync(async () => {
+    await db.runAsync(`DELETE FROM subtasks WHERE task_id IN (SELECT id FROM tasks WHERE ${where})`, [
+      userId,
+      ...params,
+    ]);
+    await db.runAsync(
+      `DELETE FROM task_prerequisites WHERE task_id IN (SELECT id FROM tasks WHERE ${where}) OR prerequisite_id IN (SELECT id FROM tasks WHERE ${where})`,
+      [userId, ...params, userId, ...params]
+    );
+    await db.runAsync(`DELETE FROM task_tags WHERE task_id IN (SELECT id FROM tasks WHERE ${where})`, [
+      userId,
+      ...params,
+    ]);
+    removed = (await db.runAsync(`DELETE FROM tasks WHERE ${where}`, [userId, ...params])).changes;
+  });
+  return removed;
+}
+
+// Permanently delete one task from the Trash
+export async function deleteTaskForever(id: number) {
+  const userId = await getActiveUserId();
+  if (!userId) throw new Error("No active user session");
+  await removeTrashedTasks(userId, "id = ?", [id]);
+  emitTasksChanged([id]);
+}
+
+export async function emptyTrash() {
+  const userId = await getActiveUserId();
+  if (!userId) throw new Error("No active user session");
+  await removeTrashedTasks(userId, "1 = 1", []);
+  emitTasksChanged("all");
+}
+
+// Permanently deletes tasks trashed before the cutoff (ISO time); resolves to how many went
+export async function purgeTrashedTasks(before: string) {
+  const userId = await getActiveUserId();
+  if (!userId) return 0;
+  const removed = await removeTrashedTasks(userId, "deleted_at < ?", [before]);
+  if (removed) emitTasksChanged("all");
+  return removed;
+}
+
+// Everything the active user owns, shaped for utils/backupFormat
+export async function exportUserData(): Promise<BackupData> {
+  const userId = await getActiveUserId();
+  if (!userId) throw new Error("No active user session");
+  const tasks = (
+    await db.getAllAsync<TaskRow>("SELECT * FROM tasks WHERE user_id = ? AND deleted_at IS NULL ORDER BY id ASC", [
+      userId,
+    ])
+  ).map(openTask);
+  const subtasks = await db.getAllAsync<SubtaskRow>(
+    `
+      SELECT s.* FROM subtasks s
+      JOIN tasks t ON t.id = s.task_id
+      WHERE t.user_id = ? AND t.deleted_at IS NULL
+      ORDER BY s.position ASC, s.id ASC
+    `,
+    [userId]
+  );
+  const recurrences = await db.getAllAsync<{ id: number; rule: string; created_at: string | null }>(
+    "SELECT id, rule, created_at FROM recurrences WHERE user_id = ? ORDER BY id ASC",
+    [userId]
+  );
+  const courses = await db.getAllAsync<Course>(
+    `SELECT ${COURSE_COLUMNS} FROM courses WHERE user_id = ? ORDER BY id ASC`,
+    [userId]
+  );
+  const edges = await db.getAllAsync<DependencyEdge>(
+    `
+      SELECT p.task_id, p.prerequisite_id FROM task_prerequisites p
+      JOIN tasks t ON t.id = p.task_id
+      WHERE t.user_id = ?
+    `,
+    [userId]
+  );
+  const exported = new Set(tasks.map((task) => task.id));
+  const tags = await db.getAllAsync<TaskTag>("SELECT id, name, color FROM tags WHERE user_id = ? ORDER BY name ASC", [
+    userId,
+  ]);
+  const tagLinks = await db.getAllAsync<{ task_id: number; tag_id: number }>(
+    `
+      SELECT tt.task_id, tt.tag_id FROM task_tags tt
+      JOIN tags g ON g.id = tt.tag_id
+      WHERE g.user_id = ?
+    `,
+    [userId]
+  );
+  const tagNames = new Map(tags.map((tag) => [tag.id, tag.name]));
+
+  return {
+    tasks: tasks.map((task) => ({
+      id: task.id,
+      title: task.title,
+      subject: task.subject,
+      difficulty: task.difficulty,
+      priority: task.priority,
+      category: task.category,
+      due_date: task.due_date,
+      notes: task.notes,
+      completed: task.completed,
+      created_at: task.created_at,
+      recurrence_id: task.recurrence_id,
+      occurrence: task.occurrence,
+      ical_uid: task.ical_uid,
+      estimated_minutes: task.estimated_minutes,
+      reminder_offsets: task.reminder_offsets,
+      assessment_weight: task.assessment_weight,
+      grade: task.grade,
+      prerequisite_ids: edges
+        .filter((edge) => edge.task_id === task.id && exported.has(edge.prerequisite_id))
+        .map((edge) => edge.prerequisite_id),
+      tags: tagLinks
+        .filter((link) => link.task_id === task.id && tagNames.has(link.tag_id))
+        .map((link) => tagNames.get(link.tag_id)!),
+      subtasks: subtasks
+        .filter((item) => item.task_id === task.id)
+        .map((item) => ({ title: item.title, completed: item.completed, position: item.position })),
+    })),
+    recurrences,
+    courses: courses.map(({ id: _id, ...course }) => course),
+    tags: tags.map(({ id: _id, ...tag }) => tag),
+  };
+}
+
+// Restores backup rows into the active user's data. "replace" wipes it first; "merge" skips
+// tasks that already exist (same title, due date and creation time). Row ids are reassigned.
+// Focus sessions aren't in backups, so both keep them; a replace moves them onto the restored
+// copies of their tasks.
+export async function importUserData(data: BackupData, mode: RestoreMode) {
+  const userId = await getActiveUserId();
+  if (!userId) throw new Error("No active user session");
+  let added = 0;
+  let skipped = 0;
+  // Backup task id -> new row id, for settings that point at a task
+  const taskIds = new Map<number, number>();
+  // Backup task id -> the row it became or, when merging, the row it matched
+  const localIds = new Map<number, number>();
+
+  await db.withTransactionAsync(async () => {
+    const previous =
+      mode === "replace"
+        ? (
+            await db.getAllAsync<{ id: number; title: string; due_date: string | null; created_at: string | null }>(
+              "SELECT id, title, due_date, created_at FROM tasks WHERE user_id = ?",
+              [userId]
+            )
+          ).map(openTask)
+        : [];
+    if (mode === "replace") {
+      await db.runAsync("DELETE FROM subtasks WHERE task_id IN (SELECT id FROM tasks WHERE user_id = ?)", [userId]);
+      await db.runAsync("DELETE FROM task_prerequisites WHERE task_id IN (SELECT id FROM tasks WHERE user_id = ?)", [
+        userId,
+      ]);
+      await db.runAsync("DELETE FROM task_tags WHERE task_id IN (SELECT id FROM tasks WHERE user_id = ?)", [userId]);
+      await db.runAsync("DELETE FROM tags WHERE user_id = ?", [userId]);
+      await db.runAsync("DELETE FROM tasks WHERE user_id = ?", [userId]);
+      await db.runAsync("DELETE FROM recurrences WHERE user_id = ?", [userId]);
+      await db.runAsync("DELETE FROM courses WHERE user_id = ?", [userId]);
+    }
+
+    // Courses the user already has keep their settings
+    const courses = await db.getAllAsync<Course>(`SELECT ${COURSE_COLUMNS} FROM courses WHERE user_id = ?`, [userId]);
+    for (const course of data.courses) {
+      if (findCourse(courses, course.name)) continue;
+      const color = COURSE_COLORS.includes(course.color) ? course.color : nextTagColor(courses);
+      const result = await db.runAsync(
+        `
+          INSERT INTO courses (user_id, name, code, color, term, credit_weight, exam_date, created_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, datetime('now'));
+        `,
+        [userId, course.name, course.code, color, course.term, course.credit_weight, course.exam_date]
+      );
+      courses.push({ ...course, id: result.lastInsertRowId, color });
+    }
+
+    // So do tags; new ones bring their colour along
+    const tags = await db.getAllAsync<TaskTag>("SELECT id, name, color FROM tags WHERE user_id = ?", [userId]);
+    for (const tag of data.tags) {
+      if (tags.some((entry) => entry.name === tag.name)) continue;
+      const color = isTagColor(tag.color) ? tag.color : nextTagColor(tags);
+      const result = await db.runAsync(
+        "INSERT INTO tags (user_id, name, color, created_at) VALUES (?, ?, ?, datetime('now'))",
+        [userId, tag.name, color]
+      );
+      tags.push({ id: result.lastInsertRowId, name: tag.name, color });
+    }
+
+    const existing = new Map<string, number | null>();
+    const matched = new Map<string, number>();
+    const current = await db.getAllAsync<Pick<TaskRow, "id" | "title" | "due_date" | "created_at" | "recurrence_id">>(
+      "SELECT id, title, due_date, created_at, recurrence_id FROM tasks WHERE user_id = ? AND deleted_at IS NULL",
+      [userId]
+    );
+    current.map(openTask).forEach((task) => {
+      existing.set(taskFingerprint(task), task.recurrence_id);
+      matched.set(taskFingerprint(task), task.id);
+    });
+
+    const rules = new Map(data.recurrences.map((entry) => [entry.id, entry.rule]));
+    // Backup series id -> local series id; a skipped duplicate keeps its series so merged
+    // instances don't end up split across two copies of the same rule
+    const seriesIds = new Map<number, number>();
+    data.tasks.forEach((task) => {
+      const local = existing.get(taskFingerprint(task));
+      if (task.recurrence_id !== null && local) seriesIds.set(task.recurrence_id, local);
+    });
+
+    for (const task of data.tasks) {
+      const key = taskFingerprint(task);
+      if (existing.has(key)) {
+        const match = matched.get(key);
+        if (match !== undefined) localIds.set(task.id, match);
+        skipped += 1;
+        continue;
+      }
+      existing.set(key, null);
+
+      let recurrenceId: number | null = null;
+      const rule = task.recurrence_id !== null ? rules.get(task.recurrence_id) : undefined;
+      if (task.recurrence_id !== null && rule) {
+        recurrenceId = seriesIds.get(task.recurrence_id) ?? (await insertRecurrence(rule, userId));
+        seriesIds.set(task.recurrence_id, recurrenceId);
+      }
+
+      const result = await db.runAsync(
+        `
+          INSERT INTO tasks (title, subject, notes, difficulty, priority, category, due_date, completed, created_at, user_id, recurrence_id, occurrence, ical_uid, estimated_minutes, reminder_offsets, assessment_weight, grade)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, COALESCE(?, datetime('now')), ?, ?, ?, ?, ?, ?, ?, ?);
+        `,
+        [
+          sealField(task.title),
+          task.subject,
+          sealField(task.notes),
+          task.difficulty,
+          task.priority ?? "normal",
+          task.category,
+          task.due_date,
+          task.completed ? 1 : 0,
+          task.created_at,
+          userId,
+          recurrenceId,
+          recurrenceId ? task.occurrence ?? 1 : null,
+          task.ical_uid,
+          task.estimated_minutes,
+          task.reminder_offsets,
+          task.assessment_weight,
+          task.grade,
+        ]
+      );
+      await insertSubtasks(
+        result.lastInsertRowId,
+        [...task.subtasks]
+          .sort((a, b) => a.position - b.position)
+          .map((item) => ({ title: item.title, completed: item.completed === 1 }))
+      );
+      await linkTaskTags(userId, result.lastInsertRowId, task.tags);
+      taskIds.set(task.id, result.lastInsertRowId);
+      localIds.set(task.id, result.lastInsertRowId);
+      added += 1;
+    }
+
+    const edges = await db.getAllAsync<DependencyEdge>(
+      `
+        SELECT p.task_id, p.prerequisite_id FROM task_prerequisites p
+        JOIN tasks t ON t.id = p.task_id
+        WHERE t.user_id = ?
+      `,
+      [userId]
+    );
+    const links = addableEdges(edges, restoredPrerequisites(data.tasks, localIds, new Set(taskIds.values())));
+    for (const link of links) {
+      await db.runAsync("INSERT INTO task_prerequisites (task_id, prerequisite_id) VALUES (?, ?)", [
+        link.task_id,
+        link.prerequisite_id,
+      ]);
+    }
+
+    // Row by row: new task ids can reuse ids the wiped tasks had
+    const moved = replacedTaskIds(previous, data.tasks, taskIds);
+    const sessions = moved.size
+      ? await db.getAllAsync<{ id: number; task_id: number }>("SELECT id, task_id FROM work_sessions WHERE user_id = ?", [
+          userId,
+        ])
+      : [];
+    for (const session of sessions) {
+      const taskId = moved.get(session.task_id);
+      if (taskId !== undefined) {
+        await db.runAsync("UPDATE work_sessions SET task_id = ? WHERE id = ?", [taskId, session.id]);
+      }
+    }
+    await linkTaskCourses(userId);
+  });
+  emitTasksChanged("all");
+  return { added, skipped, taskIds };
+}
+
+function todayISO() {
+  const now = new Date();
+  const m = String(now.getMonth() + 1).padStart(2, "0");
+  const d = String(now.getDate()).padStart(2, "0");
+  return `${now.getFullYear()}-${m}-${d}`;
+}
+
+async function insertRecurrence(rule: string, userId: number) {
+  const result = await db.runAsync(
+    "INSERT INTO recurrences (rule, user_id, created_at) VALUES (?, ?, datetime('now'))",
+    [rule, userId]
+  );
+  return result.lastInsertRowId;
+}
+
+async function insertSubtasks(taskId: number, items: SubtaskDraft[]) {
+  const entries = items.map((item) => ({ ...item, title: item.title.trim() })).filter((item) => item.title);
+  if (!entries.length) return;
+  const stmt = await db.prepareAsync(
+    "INSERT INTO subtasks (task_id, title, completed, position, created_at) VALUES (?, ?, ?, ?, datetime('now'))"
+  );
+  try {
+    for (const [index, entry] of entries.entries()) {
+      await stmt.executeAsync([taskId, entry.title, entry.completed ? 1 : 0, index]);
+    }
+  } finally {
+    await stmt.finalizeAsync();
+  }
+}
+
+// Load the ordered checklist for a task owned by the active user
+export async function getSubtasks(taskId: number) {
+  const userId = await getActiveUserId();
+  if (!userId) return [];
+  return db.getAllAsync<SubtaskRow>(
+    `
+      SELECT s.* FROM subtasks s
+      JOIN tasks t ON t.id = s.task_id
+      WHERE s.task_id = ? AND t.user_id = ?
+      ORDER BY s.position ASC, s.id ASC
+    `,
+    [taskId, userId]
+  );
+}
+
+// Replace a task's checklist with the given ordered list, keeping ids for rows that survive
+export async function saveSubtasks(taskId: number, items: SubtaskDraft[]) {
+  const userId = await getActiveUserId();
+  if (!userId) throw new Error("No active user session");
+  const owner = await db.getFirstAsync<{ id: number }>("SELECT id FROM tasks WHERE id = ? AND user_id = ?", [
+    taskId,
+    userId,
+  ]);
+  if (!owner) return;
+
+  const entries = items.map((item) => ({ ...item, title: item.title.trim() })).filter((item) => item.title);
+  const keepIds = entries.map((item) => item.id).filter((value): value is number => typeof value === "number");
+
+  await db.withTransactionAsync(async () => {
+    if (keepIds.length) {
+      await db.runAsync(
+        `DELETE FROM subtasks WHERE task_id = ? AND id NOT IN (${keepIds.map(() => "?").join(", ")})`,
+        [taskId, ...keepIds]
+      );
+    } else {
+      await db.runAsync("DELETE FROM subtasks WHERE task_id = ?", [taskId]);
+    }
+
+    for (const [index, entry] of entries.entries()) {
+      if (entry.id) {
+        await db.runAsync(
+          "UPDATE subtasks SET title = ?, completed = ?, position = ? WHERE id = ? AND task_id = ?",
+          [entry.title, entry.completed ? 1 : 0, index, entry.id, taskId]
+        );
+      } else {
+        await db.runAsync(
+          "INSERT INTO subtasks (task_id, title, completed, position, created_at) VALUES (?, ?, ?, ?, datetime('now'))",
+          [taskId, entry.title, entry.completed ? 1 : 0, index]
+        );
+      }
+    }
+  });
+}
+
+// Tick or untick a single checklist item
+export async function setSubtaskCompleted(id: number, completed: boolean) {
+  const userId = await getActiveUserId();
+  if (!userId) throw new Error("No active user session");
+  await db.runAsync(
+    "UPDATE subtasks SET completed = ? WHERE id = ? AND task_id IN (SELECT id FROM tasks WHERE user_id = ?)",
+    [completed ? 1 : 0, id, userId]
+  );
+}
+
+// Replace the tasks this one waits on. Throws, naming the tasks, if that would make a loop.
+export async function setTaskPrerequisites(taskId: number, prerequisiteIds: number[]) {
+  const userId = await getActiveUserId();
+  if (!userId) throw new Error("No active user session");
+  const owned = (
+    await db.getAllAsync<{ id: number; title: string }>("SELECT id, title FROM tasks WHERE user_id = ?", [userId])
+  ).map((row) => ({ id: row.id, title: openField(row.title) }));
+  const titles = new Map(owned.map((row) => [row.id, row.title]));
+  if (!titles.has(taskId)) return;
+
+  const wanted = [...new Set(prerequisiteIds)].filter((id) => titles.has(id));
+  const edges = await db.getAllAsync<DependencyEdge>(
+    `
+      SELECT p.task_id, p.prerequisite_id FROM task_prerequisites p
+      JOIN tasks t ON t.id = p.task_id
+      WHERE t.user_id = ?
+    `,
+    [userId]
+  );
+  const cycle = findDependencyCycle(edges, taskId, wanted);
+  if (cycle) throw new Error(describeDependencyCycle(cycle.map((id) => titles.get(id) || "Untitled task")));
+
+  await db.withTransactionAsync(async () => {
+    await db.runAsync("DELETE FROM task_prerequisites WHERE task_id = ?", [taskId]);
+    for (const prerequisiteId of wanted) {
+      await db.runAsync("INSERT INTO task_prerequisites (task_id, prerequisite_id) VALUES (?, ?)", [
+        taskId,
+        prerequisiteId,
+      ]);
+    }
+  });
+  emitTasksChanged([taskId]);
+}
+
+// The active user's tags, by name
+export async function getTags() {
+  const userId = await getActiveUserId();
+  if (!userId) return [];
+  return db.getAllAsync<TaskTag>("SELECT id, name, color FROM tags WHERE user_id = ? ORDER BY name ASC", [userId]);
+}
+
+// Points the task at these tag names, creating any the user doesn't have yet
+async function linkTaskTags(userId: number, taskId: number, names: string[]) {
+  await db.runAsync("DELETE FROM task_tags WHERE task_id = ?", [taskId]);
+  const wanted = normalizeTagNames(names);
+  if (!wanted.length) return;
+  const existing = await db.getAllAsync<TaskTag>("SELECT id, name, color FROM tags WHERE user_id = ?", [userId]);
+  for (const name of wanted) {
+    let tag = existing.find((entry) => entry.name === name);
+    if (!tag) {
+      const color = nextTagColor(existing);
+      const result = await db.runAsync(
+        "INSERT INTO tags (user_id, name, color, created_at) VALUES (?, ?, ?, datetime('now'))",
+        [userId, name, color]
+      );
+      tag = { id: result.lastInsertRowId, name, color };
+      existing.push(tag);
+    }
+    await db.runAsync("INSERT OR IGNORE INTO task_tags (task_id, tag_id) VALUES (?, ?)", [taskId, tag.id]);
+  }
+}
+
+async function copyTaskTags(fromTaskId: number, toTaskId: number) {
+  await db.runAsync("INSERT OR IGNORE INTO task_tags (task_id, tag_id) SELECT ?, tag_id FROM task_tags WHERE task_id = ?", [
+    toTaskId,
+    fromTaskId,
+  ]);
+}
+
+// Replace a task's tags with the given names
+export async function setTaskTags(taskId: number, names: string[]) {
+  const userId = await getActiveUserId();
+  if (!userId) throw new Error("No active user session");
+  const owner = await db.getFirstAsync<{ id: number }>("SELECT id FROM tasks WHERE id = ? AND user_id = ?", [
+    taskId,
+    userId,
+  ]);
+  if (!owner) return;
+  await db.withTransactionAsync(async () => {
+    await linkTaskTags(userId, taskId, names);
+  });
+  emitTasksChanged([taskId]);
+}
+
+export async function setTagColor(tagId: number, color: string) {
+  const userId = await getActiveUserId();
+  if (!userId) throw new Error("No active user session");
+  await db.runAsync("UPDATE tags SET color = ? WHERE id = ? AND user_id = ?", [color, tagId, userId]);
+  emitTasksChanged("all");
+}
+
+// Removes the tag from every task, then the tag itself
+export async function deleteTag(tagId: number) {
+  const userId = await getActiveUserId();
+  if (!userId) throw new Error("No active user session");
+  await db.withTransactionAsync(async () => {
+    await db.runAsync("DELETE FROM task_tags WHERE tag_id IN (SELECT id FROM tags WHERE id = ? AND user_id = ?)", [
+      tagId,
+      userId,
+    ]);
+    await db.runAsync("DELETE FROM tags WHERE id = ? AND user_id = ?", [tagId, userId]);
+  });
+  emitTasksChanged("all");
+}
+
+const COURSE_COLUMNS = "id, name, code, color, term, credit_weight, exam_date";
+
+export async function getCourses() {
+  const userId = await getActiveUserId();
+  if (!userId) return [];
+  return db.getAllAsync<Course>(
+    `SELECT ${COURSE_COLUMNS} FROM courses WHERE user_id = ? ORDER BY name COLLATE NOCASE ASC`,
+    [userId]
+  );
+}
+
+// The course a subject names (by name or code), created when the user has none yet
+async function findOrCreateCourse(userId: number, courses: Course[], subject: string | null | undefined) {
+  const name = subject?.trim().replace(/\s+/g, " ").slice(0, COURSE_NAME_LIMIT);
+  if (!name) return null;
+  const match = findCourse(courses, name);
+  if (match) return match;
+  const color = nextTagColor(courses);
+  const result = await db.runAsync(
+    "INSERT INTO courses (user_id, name, color, created_at) VALUES (?, ?, ?, datetime('now'))",
+    [userId, name, color]
+  );
+  const course: Course = { id: result.lastInsertRowId, name, code: null, color, term: null, credit_weight: null, exam_date: null };
+  courses.push(course);
+  return course;
+}
+
+// The course a task written from a form should point at: the given id if it is the user's,
+// otherwise whatever the subject names
+async function resolveTaskCourse(userId: number, courseId: number | null | undefined, subject: string | null | undefined) {
+  const courses = await db.getAllAsync<Course>(`SELECT ${COURSE_COLUMNS} FROM courses WHERE user_id = ?`, [userId]);
+  const owned = courseId != null ? courses.find((course) => course.id === courseId) : undefined;
+  return owned ?? findOrCreateCourse(userId, courses, subject);
+}
+
+// Points tasks that were written with only a subject (CSV, backups, sync, installs from before
+// courses) at their course
+async function linkTaskCourses(userId: number) {
+  const courses = await db.getAllAsync<Course>(`SELECT ${COURSE_COLUMNS} FROM courses WHERE user_id = ?`, [userId]);
+  const tasks = await db.getAllAsync<{ id: number; subject: string | null; course_id: number | null }>(
+    "SELECT id, subject, course_id FROM tasks WHERE user_id = ?",
+    [userId]
+  );
+  for (const task of tasks) {
+    const current = courses.find((course) => course.id === task.course_id);
+    if (current && findCourse([current], task.subject)) continue;
+    const course = await findOrCreateCourse(userId, courses, task.subject);
+    if ((course?.id ?? null) !== task.course_id) {
+      await db.runAsync("UPDATE tasks SET course_id = ? WHERE id = ?", [course?.id ?? null, task.id]);
+    }
+  }
+}
+
+export async function addCourse(draft: CourseDraft) {
+  const userId = await getActiveUserId();
+  if (!userId) throw new Error("No active user session");
+  const result = await db.runAsync(
+    `
+      INSERT INTO courses (user_id, name, code, color, term, credit_weight, exam_date, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, datetime('now'));
+    `,
+    [userId, draft.name, draft.code, draft.color, draft.term, draft.credit_weight, draft.exam_date]
+  );
+  return result.lastInsertRowId;
+}
+
+// Saves a course's settings; a new name is written onto every task on the course
+export async function updateCourse(id: number, draft: CourseDraft) {
+  const userId = await getActiveUserId();
+  if (!userId) throw new Error("No active user session");
+  await db.withTransactionAsync(async () => {
+    await db.runAsync(
+      `
+        UPDATE courses
+        SET name = ?, code = ?, color = ?, term = ?, credit_weight = ?, exam_date = ?
+        WHERE id = ? AND user_id = ?
+      `,
+      [draft.name, draft.code, draft.color, draft.term, draft.credit_weight, draft.exam_date, id, userId]
+    );
+    await db.runAsync("UPDATE tasks SET subject = ? WHERE course_id = ? AND user_id = ? AND subject IS NOT ?", [
+      draft.name,
+      id,
+      userId,
+      draft.name,
+    ]);
+  });
+  emitTasksChanged("all");
+}
+
+// The course's tasks stay, without a course
+export async function deleteCourse(id: number) {
+  const userId = await getActiveUserId();
+  if (!userId) throw new Error("No active user session");
+  await db.withTransactionAsync(async () => {
+    await db.runAsync("UPDATE tasks SET course_id = NULL, subject = NULL WHERE course_id = ? AND user_id = ?", [
+      id,
+      userId,
+    ]);
+    await db.runAsync("DELETE FROM courses WHERE id = ? AND user_id = ?", [id, userId]);
+  });
+  emitTasksChanged("all");
+}
+
+// Record one focus timer run against a task
+export async function logWorkSession(session: WorkSessionDraft) {
+  const userId = await getActiveUserId();
+  if (!userId) throw new Error("No active user session");
+  await db.runAsync(
+    `
+      INSERT INTO work_sessions (task_id, user_id, started_at, ended_at, planned_minutes, actual_seconds, outcome)
+      VALUES (?, ?, ?, ?, ?, ?, ?);
+    `,
+    [
+      session.task_id,
+      userId,
+      session.started_at,
+      session.ended_at,
+      session.planned_minutes,
+      session.actual_seconds,
+      session.outcome,
+    ]
+  );
+}
+
+// Time logged against one task across all of its sessions
+export async function getTaskTimeTotals(taskId: number): Promise<TaskTimeTotals> {
+  const userId = await getActiveUserId();
+  if (!userId) return { sessions: 0, seconds: 0, last_ended_at: null };
+  const row = await db.getFirstAsync<TaskTimeTotals>(
+    `
+      SELECT COUNT(*) AS sessions, COALESCE(SUM(actual_seconds), 0) AS seconds, MAX(ended_at) AS last_ended_at
+      FROM work_sessions
+      WHERE task_id = ? AND user_id = ?
+    `,
+    [taskId, userId]
+  );
+  return row ?? { sessions: 0, seconds: 0, last_ended_at: null };
+}
+
+// Seconds focused since the given moment, e.g. the start of this week
+export async function getTimeSpentSince(since: Date) {
+  const userId = await getActiveUserId();
+  if (!userId) return 0;
+  const row = await db.getFirstAsync<{ seconds: number | null }>(
+    "SELECT SUM(actual_seconds) AS seconds FROM work_sessions WHERE user_id = ? AND started_at >= ?",
+    [userId, since.toISOString()]
+  );
+  return row?.seconds ?? 0;
+}
+
+// Completed tasks with the focus time logged against them, for calibrating estimates
+export async function getEffortSamples(): Promise<EffortSample[]> {
+  const userId = await getActiveUserId();
+  if (!userId) return [];
+  const samples = await db.getAllAsync<EffortSample>(
+    `
+      SELECT t.title, t.subject, t.difficulty, t.category, t.estimated_minutes, SUM(w.actual_seconds) AS actual_seconds
+      FROM tasks t
+      JOIN work_sessions w ON w.task_id = t.id AND w.user_id = t.user_id
+      WHERE t.user_id = ? AND t.completed = 1
+      GROUP BY t.id
+    `,
+    [userId]
+  );
+  return samples.map(openTask);
+}
+
+export async function getTaskEncryptionStatus() {
+  return getDataEncryptionStatus();
+}
+
+async function checkDataKeySecret(source: DataKeySource, secret: string) {
+  return source === "pin" ? verifyPin(secret) : verifyActiveUserPassword(secret);
+}
+
+// Seals every task title and note on the device (all profiles) with a new key. The active
+// profile gets a copy of the key sealed with the PIN or password it confirmed with.
+export async function enableTaskEncryption(source: DataKeySource, secret: string) {
+  if (getDataEncryptionStatus().enabled) throw new Error("Task encryption is already on.");
+  const userId = await getActiveUserId();
+  if (!userId) throw new Error("No active user session");
+  if (!(await checkDataKeySecret(source, secret))) {
+    throw new Error(source === "pin" ? "That PIN is incorrect." : "That password is incorrect.");
+  }
+
+  const { key, meta } = createDataKey();
+  const wrap = await wrapDataKey(key, userId, source, secret);
+  await activateDataKey(meta, key);
+  try {
+    await sealAllTasks(key, meta, wrap);
+  } catch (error) {
+    await deactivateDataKey();
+    throw error;
+  }
+  emitTasksChanged("all");
+}
+
+async function sealAllTasks(key: Uint8Array, meta: DataEncryptionMeta, wrap: DataKeyWrap) {
+  await db.withTransactionAsync(async () => {
+    const rows = await db.getAllAsync<{ id: number; title: string; notes: string | null }>(
+      "SELECT id, title, notes FROM tasks"
+    );
+    for (const row of rows) {
+      await db.runAsync("UPDATE tasks SET title = ?, notes = ? WHERE id = ?", [
+        sealWithKey(key, row.title),
+        row.notes == null ? null : sealWithKey(key, row.notes),
+        row.id,
+      ]);
+    }
+    const shadow = await db.getAllAsync<{ user_id: number; uid: string; fields: string }>(
+      "SELECT user_id, uid, fields FROM sync_shadow"
+    );
+    for (const entry of shadow) {
+      await db.runAsync("UPDATE sync_shadow SET fields = ? WHERE user_id = ? AND uid = ?", [
+        sealWithKey(key, entry.fields),
+        entry.user_id,
+        entry.uid,
+      ]);
+    }
+    const conflicts = await db.getAllAsync<{ id: number; data: string }>("SELECT id, data FROM sync_conflicts");
+    for (const conflict of conflicts) {
+      await db.runAsync("UPDATE sync_conflicts SET data = ? WHERE id = ?", [sealWithKey(key, conflict.data), conflict.id]);
+    }
+    await saveEncryptionMeta(meta);
+    await saveDataKeyWrap(wrap);
+  });
+}
+
+// Writes every title and note back in plain text; needs the key to be unlocked
+export async function disableTaskEncryption() {
+  const status = getDataEncryptionStatus();
+  if (!status.enabled) return;
+  if (!status.unlocked) throw new Error(DATA_LOCKED_MESSAGE);
+
+  await db.withTransactionAsync(async () => {
+    const rows = await db.getAllAsync<{ id: number; title: string; notes: string | null }>(
+      "SELECT id, title, notes FROM tasks"
+    );
+    for (const row of rows) {
+      const opened = openTask(row);
+      await db.runAsync("UPDATE tasks SET title = ?, notes = ? WHERE id = ?", [opened.title, opened.notes, row.id]);
+    }
+    const shadow = await db.getAllAsync<{ user_id: number; uid: string; fields: string }>(
+      "SELECT user_id, uid, fields FROM sync_shadow"
+    );
+    for (const entry of shadow) {
+      await db.runAsync("UPDATE sync_shadow SET fields = ? WHERE user_id = ? AND uid = ?", [
+        openField(entry.fields),
+        entry.user_id,
+        entry.uid,
+      ]);
+    }
+    const conflicts = await db.getAllAsync<{ id: number; data: string }>("SELECT id, data FROM sync_conflicts");
+    for (const conflict of conflicts) {
+      await db.runAsync("UPDATE sync_conflicts SET data = ? WHERE id = ?", [openField(conflict.data), conflict.id]);
+    }
+    await db.runAsync("DELETE FROM data_encryption");
+    await db.runAsync("DELETE FROM data_key_wraps");
+  });
+  await deactivateDataKey();
+  emitTasksChanged("all");
+}
+
+// For when SecureStore no longer has the key, e.g. on a new phone. Any profile's copy sealed
+// with that kind of secret may open it; the active profile's is tried first.
+export async function unlockTaskEncryption(source: DataKeySource, secret: string) {
+  const meta = await getEncryptionMeta();
+  if (!meta) return true;
+  const activeUserId = await getActiveUserId();
+  const wraps = await db.getAllAsync<DataKeyWrap>(
+    "SELECT user_id, source, salt, cost, wrapped_key FROM data_key_wraps WHERE source = ? ORDER BY (user_id = ?) DESC",
+    [source, activeUserId ?? 0]
+  );
+  for (const wrap of wraps) {
+    const key = await unwrapDataKey(wrap, secret, meta);
+    if (!key) continue;
+    await activateDataKey(meta, key);
+    emitTasksChanged("all");
+    return true;
+  }
+  return false;
+}
+
+// Sources with a copy of the key, for the unlock screen to offer
+export async function getDataKeySources() {
+  const rows = await db.getAllAsync<{ source: DataKeySource }>("SELECT DISTINCT source FROM data_key_wraps");
+  return rows.map((row) => row.source);
+}
+
+// Last resort when no PIN or password opens the key either: sealed tasks can't be read, so remove them
+export async function eraseEncryptedTasks() {
+  await db.withTransactionAsync(async () => {
+    await db.runAsync("DELETE FROM subtasks");
+    await db.runAsync("DELETE FROM task_prerequisites");
+    await db.runAsync("DELETE FROM task_tags");
+    await db.runAsync("DELETE FROM work_sessions");
+    await db.runAsync("DELETE FROM tasks");
+    await db.runAsync("DELETE FROM recurrences");
+    await db.runAsync("DELETE FROM sync_shadow");
+    await db.runAsync("DELETE FROM sync_conflicts");
+    await db.runAsync("DELETE FROM data_encryption");
+    await db.runAsync("DELETE FROM data_key_wraps");
+  });
+  await deactivateDataKey();
+  emitTasksChanged("all");
+}
+
+// Seals a copy of the unlocked key with a profile's PIN or password. `replace` is for a changed
+// secret; otherwise a profile that already has a copy keeps it. Other profiles' copies are never touched.
+async function storeDataKeyWrap(userId: number, source: DataKeySource, secret: string, replace: boolean) {
+  const key = getActiveDataKey();
+  if (!getDataEncryptionStatus().enabled || !key) return;
+  if (!replace) {
+    const existing = await db.getFirstAsync("SELECT 1 FROM data_key_wraps WHERE user_id = ? AND source = ?", [
+      userId,
+      source,
+    ]);
+    if (existing) return;
+  }
+  await saveDataKeyWrap(await wrapDataKey(key, userId, source, secret));
+}
+
+// After the active profile's PIN changes
+export async function rewrapDataKey(source: DataKeySource, secret: string) {
+  const userId = await getActiveUserId();
+  if (userId) await storeDataKeyWrap(userId, source, secret, true);
+}
+
+// After the PIN unlocks the app, so profiles that joined after encryption was turned on get a copy too
+export async function addDataKeyWrap(source: DataKeySource, secret: string) {
+  const userId = await getActiveUserId();
+  if (userId) await storeDataKeyWrap(userId, source, secret, false);
+}
+
+type SyncShadowRow = { uid: string; task_id: number | null; version: number; fields: string };
+
+function readShadowEntry(row: SyncShadowRow): SyncShadowEntry {
+  let fields: SyncFields = {};
+  try {
+    fields = pickSyncFields(JSON.parse(openField(row.fields)));
+  } catch {
+    // An unreadable entry diffs as empty, so the task's fields are simply sent again
+  }
+  return { uid: row.uid, task_id: row.task_id, version: row.version, fields };
+}
+
+function parseStamp(value: string | null | undefined) {
+  const ms = value ? Date.parse(value) : Number.NaN;
+  return Number.isFinite(ms) ? ms : null;
+}
+
+// Titles and notes go into the table sealed; the title column can't be null
+function syncColumnValue(field: SyncField, value: SyncValue | undefined) {
+  if (field === "title") return sealField(value == null ? "" : String(value));
+  if (field === "notes") return value == null ? null : sealField(String(value));
+  return value ?? null;
+}
+
+async function insertSyncedTask(userId: number, fields: SyncFields, updatedAt: string | null) {
+  const columns = SYNC_FIELDS.filter((field) => field in fields || field === "title");
+  const result = await db.runAsync(
+    `INSERT INTO tasks (${columns.join(", ")}, created_at, user_id, updated_at)
+     VALUES (${columns.map(() => "?").join(", ")}, datetime('now'), ?, ?)`,
+    [...columns.map((field) => syncColumnValue(field, fields[field])), userId, updatedAt]
+  );
+  return Number(result.lastInsertRowId);
+}
+
+async function saveShadowEntry(userId: number, entry: SyncShadowEntry) {
+  await db.runAsync(
+    `
+      INSERT INTO sync_shadow (user_id, uid, task_id, version, fields)
+      VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT(user_id, uid) DO UPDATE SET
+        task_id = excluded.task_id,
+        version = excluded.version,
+        fields = excluded.fields;
+    `,
+    [userId, entry.uid, entry.task_id, entry.version, sealField(JSON.stringify(entry.fields))]
+  );
+}
+
+// The active user's tasks and sync shadow, as lib/sync diffs them
+export async function getSyncSnapshot(): Promise<{ tasks: LocalSyncTask[]; shadow: SyncShadowEntry[] }> {
+  const userId = await getActiveUserId();
+  if (!userId) throw new Error("No active user session");
+  // Trashed tasks go out as deletes; one restored later syncs as a new task
+  const tasks = await db.getAllAsync<TaskRow>("SELECT * FROM tasks WHERE user_id = ? AND deleted_at IS NULL", [
+    userId,
+  ]);
+  const shadow = await db.getAllAsync<SyncShadowRow>(
+    "SELECT uid, task_id, version, fields FROM sync_shadow WHERE user_id = ?",
+    [userId]
+  );
+  return {
+    tasks: tasks.map(openTask).map((task) => ({
+      id: task.id,
+      updated_at: parseStamp(task.updated_at),
+      fields: pickSyncFields(task),
+    })),
+    shadow: shadow.map(readShadowEntry),
+  };
+}
+
+// Links tasks pushed for the first time to their new uids until the pull brings them back
+export async function saveSyncMappings(created: { uid: string; task_id: number }[]) {
+  const userId = await getActiveUserId();
+  if (!userId || !created.length) return;
+  await db.withTransactionAsync(async () => {
+    for (const entry of created) {
+      await saveShadowEntry(userId, { uid: entry.uid, task_id: entry.task_id, version: 0, fields: {} });
+    }
+  });
+}
+
+// Writes pulled rows into the tasks table: tombstones move the task to the Trash, the rest update or create it
+export async function applySyncRows(rows: SyncRow[]) {
+  const userId = await getActiveUserId();
+  if (!userId) throw new Error("No active user session");
+  if (!rows.length) return;
+
+  const shadow = await db.getAllAsync<SyncShadowRow>(
+    "SELECT uid, task_id, version, fields FROM sync_shadow WHERE user_id = ?",
+    [userId]
+  );
+  const taskIds = new Map(shadow.map((entry) => [entry.uid, entry.task_id]));
+
+  await db.withTransactionAsync(async () => {
+    for (const row of rows) {
+      const mapped = taskIds.get(row.uid) ?? null;
+      const existing =
+        mapped === null
+          ? null
+          : await db.getFirstAsync<{ id: number }>("SELECT id FROM tasks WHERE id = ? AND user_id = ?", [
+              mapped,
+              userId,
+            ]);
+
+      if (row.deleted) {
+        if (existing) {
+          await db.runAsync(`UPDATE tasks SET deleted_at = ${TRASH_STAMP} WHERE id = ? AND deleted_at IS NULL`, [
+            existing.id,
+          ]);
+        }
+        await db.runAsync("DELETE FROM sync_shadow WHERE user_id = ? AND uid = ?", [userId, row.uid]);
+        continue;
+      }
+
+      const updatedAt = new Date(row.updated_at).toISOString();
+      let taskId = existing?.id ?? null;
+      if (taskId !== null) {
+        const fields = SYNC_FIELDS.filter((field) => field in row.fields);
+        await db.runAsync(
+          `UPDATE tasks SET ${[...fields.map((field) => `${field} = ?`), "updated_at = ?"].join(", ")} WHERE id = ?`,
+          [...fields.map((field) => syncColumnValue(field, row.fields[field])), updatedAt, taskId]
+        );
+      } else {
+        taskId = await insertSyncedTask(userId, row.fields, updatedAt);
+      }
+      await saveShadowEntry(userId, { uid: row.uid, task_id: taskId, version: row.version, fields: row.fields });
+    }
+    await linkTaskCourses(userId);
+  });
+  emitTasksChanged("all");
+}
+
+// Puts a value the server discarded in a conflict back on the task; false if the task is gone
+export async function setSyncedTaskField(uid: string, field: SyncField, value: SyncValue) {
+  const userId = await getActiveUserId();
+  if (!userId) throw new Error("No active user session");
+  const entry = await db.getFirstAsync<{ task_id: number | null }>(
+    "SELECT task_id FROM sync_shadow WHERE user_id = ? AND uid = ?",
+    [userId, uid]
+  );
+  if (entry?.task_id == null) return false;
+  const result = await db.runAsync(`UPDATE tasks SET ${field} = ? WHERE id = ? AND user_id = ?`, [
+    syncColumnValue(field, value),
+    entry.task_id,
+    userId,
+  ]);
+  if (!result.changes) return false;
+  if (field === "subject") await linkTaskCourses(userId);
+  emitTasksChanged([entry.task_id]);
+  return true;
+}
+
+// Recreates a task that was deleted on another device while it was being edited here
+export async function restoreSyncedTask(fields: SyncFields) {
+  const userId = await getActiveUserId();
+  if (!userId) throw new Error("No active user session");
+  const id = await insertSyncedTask(userId, fields, null);
+  await linkTaskCourses(userId);
+  emitTasksChanged([id]);
+  return id;
+}
+
+// The active user's unresolved sync conflicts, oldest first
+export async function getSyncConflicts(): Promise<SyncConflict[]> {
+  const userId = await getActiveUserId();
+  if (!userId) return [];
+  const rows = await db.getAllAsync<{ data: string }>(
+    "SELECT data FROM sync_conflicts WHERE user_id = ? ORDER BY id ASC",
+    [userId]
+  );
+  return rows.flatMap((row) => {
+    try {
+      return [JSON.parse(openField(row.data)) as SyncConflict];
+    } catch {
+      return [];
+    }
+  });
+}
+
+export async function addSyncConflicts(conflicts: SyncConflict[]) {
+  const userId = await getActiveUserId();
+  if (!userId) throw new Error("No active user session");
+  if (!conflicts.length) return;
+  await db.withTransactionAsync(async () => {
+    for (const conflict of conflicts) {
+      await db.runAsync("INSERT INTO sync_conflicts (user_id, uid, field, at, data) VALUES (?, ?, ?, ?, ?)", [
+        userId,
+        conflict.uid,
+        conflict.field,
+        conflict.at,
+        sealField(JSON.stringify(conflict)),
+      ]);
+    }
+  });
+}
+
+export async function deleteSyncConflict(conflict: Pick<SyncConflict, "uid" | "field" | "at">) {
+  const userId = await getActiveUserId();
+  if (!userId) return;
+  await db.runAsync("DELETE FROM sync_conflicts WHERE user_id = ? AND uid = ? AND field = ? AND at = ?", [
+    userId,
+    conflict.uid,
+    conflict.field,
+    conflict.at,
+  ]);
 }
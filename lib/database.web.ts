@@ -1,3 +1,55 @@
+import { verifyPin } from "@/lib/app-lock-storage";
+import {
+  activateDataKey,
+  createDataKey,
+  DATA_LOCKED_MESSAGE,
+  deactivateDataKey,
+  getActiveDataKey,
+  getDataEncryptionStatus,
+  loadDataKey,
+  openField,
+  sealField,
+  sealWithKey,
+  unwrapDataKey,
+  wrapDataKey,
+  type DataEncryptionMeta,
+  type DataKeySource,
+  type DataKeyWrap,
+} from "@/lib/data-encryption";
+import { checkPassword, hashPassword } from "@/lib/password";
+import { setActiveProfileId } from "@/lib/profile-store";
+import { emitTasksChanged } from "@/lib/task-events";
+import {
+  replacedTaskIds,
+  restoredPrerequisites,
+  taskFingerprint,
+  type BackupData,
+  type RestoreMode,
+} from "@/utils/backupFormat";
+import { COURSE_COLORS, COURSE_NAME_LIMIT, findCourse, type Course, type CourseDraft } from "@/utils/courses";
+import type { CsvTaskDraft } from "@/utils/csv";
+import type { EffortSample } from "@/utils/effortEstimate";
+import { nextRecurrenceInstance, parseRecurrenceRule } from "@/utils/recurrence";
+import {
+  addableEdges,
+  describeDependencyCycle,
+  findDependencyCycle,
+  type DependencyEdge,
+} from "@/utils/taskDependencies";
+import { isTagColor, nextTagColor, normalizeTagNames, type TaskTag } from "@/utils/taskTags";
+import {
+  pickSyncFields,
+  SYNC_FIELDS,
+  type LocalSyncTask,
+  type SyncConflict,
+  type SyncField,
+  type SyncFields,
+  type SyncRow,
+  type SyncShadowEntry,
+  type SyncValue,
+} from "@/utils/syncProtocol";
+import type { WorkSessionDraft, WorkSessionOutcome } from "@/utils/workSessions";
+
 export type AuthProvider = "email" | "apple" | "google" | "local";
 
 export type UserProfile = {
@@ -21,6 +73,66 @@ export type TaskRow = {
   completed: number;
   created_at: string;
   user_id: number | null;
+  recurrence_id: number | null;
+  occurrence: number | null;
+  ical_uid: string | null;
+  estimated_minutes: number | null;
+  reminder_offsets: string | null;
+  // Share of the course the assessment is worth and the grade achieved, both in % (utils/grades)
+  assessment_weight: number | null;
+  grade: number | null;
+  // Last local write, stamped by updateState; sync sends it as the field clock
+  updated_at?: string | null;
+  // Set while the task is in the Trash; list queries leave these rows out
+  deleted_at?: string | null;
+  recurrence_rule?: string | null;
+  subtask_total?: number;
+  subtask_done?: number;
+  // Comma-separated ids of the tasks this one waits on (utils/taskDependencies)
+  prerequisite_ids?: string | null;
+  // Comma-separated ids of the task's tags (utils/taskTags)
+  tag_ids?: string | null;
+  // Course the task belongs to; subject holds its name (utils/courses)
+  course_id?: number | null;
+};
+
+export type SubtaskRow = {
+  id: number;
+  task_id: number;
+  title: string;
+  completed: number;
+  position: number;
+  created_at: string;
+};
+
+export type SubtaskDraft = {
+  id?: number;
+  title: string;
+  completed: boolean;
+};
+
+export type WorkSessionRow = {
+  id: number;
+  task_id: number;
+  user_id: number | null;
+  started_at: string;
+  ended_at: string;
+  planned_minutes: number;
+  actual_seconds: number;
+  outcome: WorkSessionOutcome;
+};
+
+export type TaskTimeTotals = {
+  sessions: number;
+  seconds: number;
+  last_ended_at: string | null;
+};
+
+type RecurrenceRow = {
+  id: number;
+  rule: string;
+  user_id: number | null;
+  created_at: string;
 };
 
 type SessionRow = {
@@ -29,12 +141,51 @@ type SessionRow = {
   updated_at: string | null;
 };
 
+// Fields are a JSON object, sealed like titles while task encryption is on
+type SyncShadowRow = {
+  user_id: number;
+  uid: string;
+  task_id: number | null;
+  version: number;
+  fields: string;
+};
+
+// `data` is the conflict as JSON, sealed like shadow fields
+type SyncConflictRow = {
+  user_id: number;
+  data: string;
+};
+
+type TagRow = TaskTag & { user_id: number; created_at: string };
+
+type CourseRow = Course & { user_id: number; created_at: string };
+
 type WebDatabaseState = {
   users: UserProfile[];
   tasks: TaskRow[];
+  subtasks: SubtaskRow[];
+  // "task_id can't start until prerequisite_id is done"
+  taskPrerequisites: DependencyEdge[];
+  tags: TagRow[];
+  taskTags: { task_id: number; tag_id: number }[];
+  courses: CourseRow[];
+  recurrences: RecurrenceRow[];
+  workSessions: WorkSessionRow[];
+  // Each synced task as last pulled from the sync server (utils/syncProtocol)
+  syncShadow: SyncShadowRow[];
+  syncConflicts: SyncConflictRow[];
   session: SessionRow | null;
+  // Present only while task encryption is on (lib/data-encryption)
+  encryption: DataEncryptionMeta | null;
+  // Copies of the data key, each sealed with one profile's PIN or password
+  dataKeyWraps: DataKeyWrap[];
   nextUserId: number;
   nextTaskId: number;
+  nextSubtaskId: number;
+  nextTagId: number;
+  nextCourseId: number;
+  nextRecurrenceId: number;
+  nextWorkSessionId: number;
 };
 
 const STORAGE_KEY = "workloadassapp.web.database.v1";
@@ -42,9 +193,25 @@ const STORAGE_KEY = "workloadassapp.web.database.v1";
 const defaultState = (): WebDatabaseState => ({
   users: [],
   tasks: [],
+  subtasks: [],
+  taskPrerequisites: [],
+  tags: [],
+  taskTags: [],
+  courses: [],
+  recurrences: [],
+  workSessions: [],
+  syncShadow: [],
+  syncConflicts: [],
   session: null,
+  encryption: null,
+  dataKeyWraps: [],
   nextUserId: 1,
   nextTaskId: 1,
+  nextSubtaskId: 1,
+  nextTagId: 1,
+  nextCourseId: 1,
+  nextRecurrenceId: 1,
+  nextWorkSessionId: 1,
 });
 
 let memoryState: WebDatabaseState = defaultState();
@@ -57,9 +224,25 @@ function cloneState(state: WebDatabaseState): WebDatabaseState {
   return {
     users: state.users.map((user) => ({ ...user })),
     tasks: state.tasks.map((task) => ({ ...task })),
+    subtasks: state.subtasks.map((subtask) => ({ ...subtask })),
+    taskPrerequisites: state.taskPrerequisites.map((edge) => ({ ...edge })),
+    tags: state.tags.map((tag) => ({ ...tag })),
+    taskTags: state.taskTags.map((link) => ({ ...link })),
+    courses: state.courses.map((course) => ({ ...course })),
+    recurrences: state.recurrences.map((recurrence) => ({ ...recurrence })),
+    workSessions: state.workSessions.map((entry) => ({ ...entry })),
+    syncShadow: state.syncShadow.map((entry) => ({ ...entry })),
+    syncConflicts: state.syncConflicts.map((entry) => ({ ...entry })),
     session: state.session ? { ...state.session } : null,
+    encryption: state.encryption ? { ...state.encryption } : null,
+    dataKeyWraps: state.dataKeyWraps.map((wrap) => ({ ...wrap })),
     nextUserId: state.nextUserId,
     nextTaskId: state.nextTaskId,
+    nextSubtaskId: state.nextSubtaskId,
+    nextTagId: state.nextTagId,
+    nextCourseId: state.nextCourseId,
+    nextRecurrenceId: state.nextRecurrenceId,
+    nextWorkSessionId: state.nextWorkSessionId,
   };
 }
 
@@ -75,6 +258,15 @@ function readState(): WebDatabaseState {
     return {
       users: Array.isArray(parsed.users) ? parsed.users : [],
       tasks: Array.isArray(parsed.tasks) ? parsed.tasks : [],
+      subtasks: Array.isArray(parsed.subtasks) ? parsed.subtasks : [],
+      taskPrerequisites: Array.isArray(parsed.taskPrerequisites) ? parsed.taskPrerequisites : [],
+      tags: Array.isArray(parsed.tags) ? parsed.tags : [],
+      taskTags: Array.isArray(parsed.taskTags) ? parsed.taskTags : [],
+      courses: Array.isArray(parsed.courses) ? parsed.courses : [],
+      recurrences: Array.isArray(parsed.recurrences) ? parsed.recurrences : [],
+      workSessions: Array.isArray(parsed.workSessions) ? parsed.workSessions : [],
+      syncShadow: Array.isArray(parsed.syncShadow) ? parsed.syncShadow : [],
+      syncConflicts: Array.isArray(parsed.syncConflicts) ? parsed.syncConflicts : [],
       session: parsed.session
         ? {
             user_id: parsed.session.user_id ?? null,
@@ -82,8 +274,15 @@ function readState(): WebDatabaseState {
             updated_at: parsed.session.updated_at ?? null,
           }
         : null,
+      encryption: parsed.encryption ?? null,
+      dataKeyWraps: Array.isArray(parsed.dataKeyWraps) ? parsed.dataKeyWraps : [],
       nextUserId: Number.isFinite(parsed.nextUserId) ? Number(parsed.nextUserId) : 1,
       nextTaskId: Number.isFinite(parsed.nextTaskId) ? Number(parsed.nextTaskId) : 1,
+      nextSubtaskId: Number.isFinite(parsed.nextSubtaskId) ? Number(parsed.nextSubtaskId) : 1,
+      nextTagId: Number.isFinite(parsed.nextTagId) ? Number(parsed.nextTagId) : 1,
+      nextCourseId: Number.isFinite(parsed.nextCourseId) ? Number(parsed.nextCourseId) : 1,
+      nextRecurrenceId: Number.isFinite(parsed.nextRecurrenceId) ? Number(parsed.nextRecurrenceId) : 1,
+      nextWorkSessionId: Number.isFinite(parsed.nextWorkSessionId) ? Number(parsed.nextWorkSessionId) : 1,
     };
   } catch {
     return defaultState();
@@ -98,11 +297,28 @@ function writeState(state: WebDatabaseState) {
 
 function updateState(mutator: (state: WebDatabaseState) => void) {
   const state = readState();
+  const before = new Map(state.tasks.map((task) => [task.id, JSON.stringify(task)]));
   mutator(state);
+  stampChangedTasks(state, before);
   writeState(state);
   return state;
 }
 
+// Native does this with triggers: a changed task gets a fresh updated_at unless the
+// mutator set one itself (sync does, to keep the server's time)
+function stampChangedTasks(state: WebDatabaseState, before: Map<number, string>) {
+  const now = nowIso();
+  state.tasks.forEach((task) => {
+    const previous = before.get(task.id);
+    if (previous === undefined) {
+      task.updated_at ??= now;
+      return;
+    }
+    if (previous === JSON.stringify(task)) return;
+    if ((JSON.parse(previous) as TaskRow).updated_at === task.updated_at) task.updated_at = now;
+  });
+}
+
 function nowIso() {
   return new Date().toISOString();
 }
@@ -120,6 +336,142 @@ function findUserByEmailFromState(state: WebDatabaseState, email: string) {
   return state.users.find((user) => normalizeEmail(user.email) === normalized) ?? null;
 }
 
+// Titles and notes are stored sealed while encryption is on
+function openTask<T extends { title: string; notes?: string | null }>(task: T): T {
+  const opened = { ...task, title: openField(task.title) };
+  if (task.notes !== undefined) opened.notes = openField(task.notes);
+  return opened;
+}
+
+// Mirrors TASK_SELECT on native: checklist counts, prerequisites, tags and the series rule
+function withDerivedFields(state: WebDatabaseState, task: TaskRow): TaskRow {
+  const items = state.subtasks.filter((entry) => entry.task_id === task.id);
+  const prerequisites = state.taskPrerequisites.filter((edge) => edge.task_id === task.id);
+  const tagIds = state.taskTags.filter((link) => link.task_id === task.id).map((link) => link.tag_id);
+  const recurrence = task.recurrence_id
+    ? state.recurrences.find((entry) => entry.id === task.recurrence_id)
+    : undefined;
+  return {
+    ...openTask(task),
+    recurrence_id: task.recurrence_id ?? null,
+    occurrence: task.occurrence ?? null,
+    ical_uid: task.ical_uid ?? null,
+    estimated_minutes: task.estimated_minutes ?? null,
+    reminder_offsets: task.reminder_offsets ?? null,
+    assessment_weight: task.assessment_weight ?? null,
+    grade: task.grade ?? null,
+    course_id: task.course_id ?? null,
+    recurrence_rule: recurrence?.rule ?? null,
+    subtask_total: items.length,
+    subtask_done: items.filter((entry) => entry.completed === 1).length,
+    prerequisite_ids: prerequisites.length ? prerequisites.map((edge) => edge.prerequisite_id).join(",") : null,
+    tag_ids: tagIds.length ? tagIds.join(",") : null,
+  };
+}
+
+// Points the task at these tag names, creating any the user doesn't have yet
+function linkTaskTags(state: WebDatabaseState, userId: number, taskId: number, names: string[]) {
+  state.taskTags = state.taskTags.filter((link) => link.task_id !== taskId);
+  normalizeTagNames(names).forEach((name) => {
+    const owned = state.tags.filter((tag) => tag.user_id === userId);
+    let tag = owned.find((entry) => entry.name === name);
+    if (!tag) {
+      tag = { id: state.nextTagId++, user_id: userId, name, color: nextTagColor(owned), created_at: nowIso() };
+      state.tags.push(tag);
+    }
+    state.taskTags.push({ task_id: taskId, tag_id: tag.id });
+  });
+}
+
+function copyTaskTags(state: WebDatabaseState, fromTaskId: number, toTaskId: number) {
+  state.taskTags
+    .filter((link) => link.task_id === fromTaskId)
+    .forEach((link) => state.taskTags.push({ task_id: toTaskId, tag_id: link.tag_id }));
+}
+
+function toCourse({ user_id: _userId, created_at: _createdAt, ...course }: CourseRow): Course {
+  return course;
+}
+
+// The course a subject names (by name or code), created when the user has none yet
+function findOrCreateCourse(state: WebDatabaseState, userId: number, subject: string | null | undefined) {
+  const name = subject?.trim().replace(/\s+/g, " ").slice(0, COURSE_NAME_LIMIT);
+  if (!name) return null;
+  const owned = state.courses.filter((course) => course.user_id === userId);
+  const match = findCourse(owned, name);
+  if (match) return match;
+  const course: CourseRow = {
+    id: state.nextCourseId++,
+    user_id: userId,
+    name,
+    code: null,
+    color: nextTagColor(owned),
+    term: null,
+    credit_weight: null,
+    exam_date: null,
+    created_at: nowIso(),
+  };
+  state.courses.push(course);
+  return course;
+}
+
+// The given course if it is the user's, otherwise whatever the subject names
+function resolveTaskCourse(
+  state: WebDatabaseState,
+  userId: number,
+  courseId: number | null | undefined,
+  subject: string | null | undefined
+) {
+  const owned =
+    courseId != null ? state.courses.find((course) => course.id === courseId && course.user_id === userId) : undefined;
+  return owned ?? findOrCreateCourse(state, userId, subject);
+}
+
+// Points tasks that were written with only a subject (CSV, backups, sync) at their course
+function linkTaskCourses(state: WebDatabaseState, userId: number) {
+  state.tasks
+    .filter((task) => task.user_id === userId)
+    .forEach((task) => {
+      const current = state.courses.find((course) => course.id === task.course_id && course.user_id === userId);
+      if (current && findCourse([current], task.subject)) return;
+      const courseId = findOrCreateCourse(state, userId, task.subject)?.id ?? null;
+      if ((task.course_id ?? null) !== courseId) task.course_id = courseId;
+    });
+}
+
+function pushRecurrence(state: WebDatabaseState, rule: string, userId: number) {
+  const id = state.nextRecurrenceId++;
+  state.recurrences.push({ id, rule, user_id: userId, created_at: nowIso() });
+  return id;
+}
+
+function todayISO() {
+  const now = new Date();
+  const m = String(now.getMonth() + 1).padStart(2, "0");
+  const d = String(now.getDate()).padStart(2, "0");
+  return `${now.getFullYear()}-${m}-${d}`;
+}
+
+function pushSubtasks(state: WebDatabaseState, taskId: number, items: SubtaskDraft[]) {
+  items
+    .map((item) => ({ ...item, title: item.title.trim() }))
+    .filter((item) => item.title)
+    .forEach((item, index) => {
+      state.subtasks.push({
+        id: state.nextSubtaskId++,
+        task_id: taskId,
+        title: item.title,
+        completed: item.completed ? 1 : 0,
+        position: index,
+        created_at: nowIso(),
+      });
+    });
+}
+
+function ownsTask(state: WebDatabaseState, taskId: number, userId: number) {
+  return state.tasks.some((task) => task.id === taskId && task.user_id === userId);
+}
+
 function getUserById(state: WebDatabaseState, userId: number | null | undefined) {
   if (!userId) return null;
   return state.users.find((user) => user.id === userId) ?? null;
@@ -133,6 +485,12 @@ function setActiveUserInState(state: WebDatabaseState, userId: number) {
   };
 }
 
+// Points per-profile settings at whoever the session ended up with
+async function syncActiveProfile(user: UserProfile | null) {
+  if (user) await setActiveProfileId(user.id);
+  return user;
+}
+
 async function ensureActiveUser(options?: { ignoreSignedOut?: boolean }): Promise<UserProfile | null> {
   const ignoreSignedOut = options?.ignoreSignedOut === true;
   let result: UserProfile | null = null;
@@ -149,10 +507,15 @@ async function ensureActiveUser(options?: { ignoreSignedOut?: boolean }): Promis
       return;
     }
 
-    const fallback = state.users[0] ?? null;
-    if (fallback) {
-      setActiveUserInState(state, fallback.id);
-      result = { ...fallback };
+    // Rehydrate the only user if the session was cleared; with several profiles the caller picks one
+    if (state.users.length === 1) {
+      const [only] = state.users;
+      setActiveUserInState(state, only.id);
+      result = { ...only };
+      return;
+    }
+    if (state.users.length > 1) {
+      result = null;
       return;
     }
 
@@ -169,7 +532,7 @@ async function ensureActiveUser(options?: { ignoreSignedOut?: boolean }): Promis
     result = { ...guest };
   });
 
-  return result;
+  return syncActiveProfile(result);
 }
 
 async function getActiveUserId() {
@@ -185,7 +548,13 @@ export async function initDatabase() {
   const state = readState();
   if (state.nextUserId < 1) state.nextUserId = 1;
   if (state.nextTaskId < 1) state.nextTaskId = 1;
+  if (state.nextSubtaskId < 1) state.nextSubtaskId = 1;
+  if (state.nextRecurrenceId < 1) state.nextRecurrenceId = 1;
+  // Subjects typed before courses existed become courses of their own
+  const unlinked = state.tasks.filter((task) => task.user_id !== null && !task.course_id && task.subject?.trim());
+  new Set(unlinked.map((task) => task.user_id as number)).forEach((userId) => linkTaskCourses(state, userId));
   writeState(state);
+  await loadDataKey(state.encryption);
 }
 
 export async function getOrCreateActiveUser(): Promise<UserProfile | null> {
@@ -209,16 +578,54 @@ export async function getActiveUser(): Promise<UserProfile | null> {
   return user ? { ...user } : null;
 }
 
+// Tasks from before user scoping only go to a user when nobody else could have made them
 export async function adoptOrphanTasks(userId: number) {
   updateState((state) => {
+    if (state.users.length > 1) return;
     state.tasks = state.tasks.map((task) =>
       task.user_id == null ? { ...task, user_id: userId } : task
     );
   });
 }
 
+export async function getProfiles(): Promise<UserProfile[]> {
+  return readState().users.map(({ password: _password, ...user }) => user);
+}
+
+export async function createLocalProfile(name: string) {
+  let created: UserProfile | null = null;
+  updateState((state) => {
+    created = {
+      id: state.nextUserId++,
+      name: name.trim(),
+      email: `profile-${Date.now()}@local`,
+      provider: "local",
+      password: null,
+      created_at: nowIso(),
+    };
+    state.users.push(created);
+    setActiveUserInState(state, created.id);
+  });
+  return syncActiveProfile(created);
+}
+
+export async function switchToProfile(userId: number, password?: string) {
+  const user = getUserById(readState(), userId);
+  if (!user) throw new Error("That profile no longer exists.");
+  if (user.provider === "email") {
+    const { valid } = await checkPassword(password ?? "", user.password);
+    if (!valid) throw new Error("Incorrect password.");
+  }
+
+  updateState((state) => setActiveUserInState(state, user.id));
+  await setActiveProfileId(user.id);
+  emitTasksChanged("all");
+  return { ...user };
+}
+
 export async function signUpWithEmail(name: string, email: string, password: string) {
   let created: UserProfile | null = null;
+  const passwordHash = await hashPassword(password);
 
   updateState((state) => {
     const normalizedEmail = normalizeEmail(email);
@@ -232,7 +639,7 @@ export async function signUpWithEmail(name: string, email: string, password: str
       name: name.trim(),
       email: normalizedEmail,
       provider: "email",
-      password,
+      password: passwordHash,
       created_at: nowIso(),
     };
 
@@ -240,21 +647,105 @@ export async function signUpWithEmail(name: string, email: string, password: str
     setActiveUserInState(state, created.id);
   });
 
-  return created;
+  return syncActiveProfile(created);
 }
 
 export async function signInWithEmail(email: string, password: string) {
+  const existing = findUserByEmailFromState(readState(), email);
+  if (!existing) return null;
+  const { valid, needsRehash } = await checkPassword(password, existing.password);
+  if (!valid) return null;
+  // Accounts from before hashing still hold the plaintext; replace it now that we have the password
+  const rehashed = needsRehash ? await hashPassword(password) : null;
+
   let user: UserProfile | null = null;
+  updateState((state) => {
+    const current = getUserById(state, existing.id);
+    if (!current) return;
+    if (rehashed) current.password = rehashed;
+    setActiveUserInState(state, current.id);
+    user = { ...current };
+  });
+  await storeDataKeyWrap(existing.id, "password", password, false);
+
+  return syncActiveProfile(user);
+}
 
+// For screens that re-confirm the signed-in user, e.g. PIN recovery
+export async function verifyActiveUserPassword(password: string) {
+  const user = await getActiveUser();
+  if (!user || user.provider !== "email") return false;
+  const { valid } = await checkPassword(password, user.password);
+  return valid;
+}
+
+export async function changePassword(currentPassword: string, newPassword: string) {
+  const user = await getActiveUser();
+  if (!user) throw new Error("No active user session");
+  if (user.provider !== "email") throw new Error("This account does not use a password.");
+  const { valid } = await checkPassword(currentPassword, user.password);
+  if (!valid) throw new Error("Current password is incorrect.");
+
+  const passwordHash = await hashPassword(newPassword);
   updateState((state) => {
-    const existing = findUserByEmailFromState(state, email);
-    if (!existing) return;
-    if ((existing.password ?? "") !== password) return;
-    setActiveUserInState(state, existing.id);
-    user = { ...existing };
+    const current = getUserById(state, user.id);
+    if (current) current.password = passwordHash;
   });
+  await storeDataKeyWrap(user.id, "password", newPassword, true);
+}
 
-  return user;
+// Updates the guest's user row in place, so everything keyed by its id moves with it
+export async function upgradeGuestAccount(name: string, email: string, password: string) {
+  const user = await getActiveUser();
+  if (!user) throw new Error("No active user session");
+  if (user.provider !== "local") throw new Error("This profile already has an account.");
+  const normalizedEmail = normalizeEmail(email);
+  const passwordHash = await hashPassword(password);
+
+  let upgraded: UserProfile | null = null;
+  updateState((state) => {
+    if (findUserByEmailFromState(state, normalizedEmail)) {
+      throw new Error("Email already registered.");
+    }
+    const current = getUserById(state, user.id);
+    if (!current) return;
+    current.name = name.trim();
+    current.email = normalizedEmail;
+    current.provider = "email";
+    current.password = passwordHash;
+    upgraded = { ...current };
+  });
+  return upgraded;
+}
+
+export async function deleteActiveAccount(password?: string) {
+  const user = await getActiveUser();
+  if (!user) throw new Error("No active user session");
+  if (user.provider === "email") {
+    const { valid } = await checkPassword(password ?? "", user.password);
+    if (!valid) throw new Error("Incorrect password.");
+  }
+
+  let taskIds: number[] = [];
+  updateState((state) => {
+    const removed = new Set(state.tasks.filter((entry) => entry.user_id === user.id).map((entry) => entry.id));
+    taskIds = [...removed];
+    state.subtasks = state.subtasks.filter((entry) => !removed.has(entry.task_id));
+    state.taskPrerequisites = state.taskPrerequisites.filter((edge) => !removed.has(edge.task_id));
+    state.taskTags = state.taskTags.filter((link) => !removed.has(link.task_id));
+    state.tags = state.tags.filter((tag) => tag.user_id !== user.id);
+    state.courses = state.courses.filter((course) => course.user_id !== user.id);
+    state.tasks = state.tasks.filter((entry) => entry.user_id !== user.id);
+    state.recurrences = state.recurrences.filter((entry) => entry.user_id !== user.id);
+    state.workSessions = state.workSessions.filter((entry) => entry.user_id !== user.id);
+    state.syncShadow = state.syncShadow.filter((entry) => entry.user_id !== user.id);
+    state.syncConflicts = state.syncConflicts.filter((entry) => entry.user_id !== user.id);
+    state.dataKeyWraps = state.dataKeyWraps.filter((wrap) => wrap.user_id !== user.id);
+    state.users = state.users.filter((entry) => entry.id !== user.id);
+    state.session = { user_id: null, signed_out: 1, updated_at: nowIso() };
+  });
+  emitTasksChanged("all");
+  return { userId: user.id, taskIds };
 }
 
 export async function signInWithProvider(
@@ -286,7 +777,7 @@ export async function signInWithProvider(
     setActiveUserInState(state, user.id);
   });
 
-  return user;
+  return syncActiveProfile(user);
 }
 
 export async function addTask(task: {
@@ -296,25 +787,89 @@ export async function addTask(task: {
   due_date: string | null;
   priority?: "normal" | "high";
   category?: "coursework" | "revision" | "project" | "personal" | null;
+  subtasks?: string[];
+  recurrence?: string | null;
+  ical_uid?: string | null;
+  estimated_minutes?: number | null;
+  reminder_offsets?: string | null;
+  tags?: string[];
+  course_id?: number | null;
+  subject?: string | null;
+  assessment_weight?: number | null;
+  grade?: number | null;
 }) {
   const userId = await getActiveUserId();
   if (!userId) throw new Error("No active user session");
+  let taskId = 0;
 
   updateState((state) => {
+    taskId = state.nextTaskId++;
+    const recurrenceId = task.recurrence ? pushRecurrence(state, task.recurrence, userId) : null;
+    const course = resolveTaskCourse(state, userId, task.course_id, task.subject);
     state.tasks.push({
-      id: state.nextTaskId++,
-      title: task.title,
-      subject: null,
+      id: taskId,
+      title: sealField(task.title),
+      subject: course?.name ?? null,
+      course_id: course?.id ?? null,
       difficulty: task.difficulty,
       priority: task.priority ?? "normal",
       category: task.category ?? null,
       due_date: task.due_date,
-      notes: task.description,
+      notes: sealField(task.description),
       completed: 0,
       created_at: nowIso(),
       user_id: userId,
+      recurrence_id: recurrenceId,
+      occurrence: recurrenceId ? 1 : null,
+      ical_uid: task.ical_uid ?? null,
+      estimated_minutes: task.estimated_minutes ?? null,
+      reminder_offsets: task.reminder_offsets ?? null,
+      assessment_weight: task.assessment_weight ?? null,
+      grade: task.grade ?? null,
     });
+    pushSubtasks(
+      state,
+      taskId,
+      (task.subtasks ?? []).map((title) => ({ title, completed: false }))
+    );
+    linkTaskTags(state, userId, taskId, task.tags ?? []);
   });
+  emitTasksChanged([taskId]);
+  return taskId;
+}
+
+export async function addTasks(tasks: CsvTaskDraft[]) {
+  const userId = await getActiveUserId();
+  if (!userId) throw new Error("No active user session");
+  if (!tasks.length) return 0;
+
+  updateState((state) => {
+    tasks.forEach((task) => {
+      state.tasks.push({
+        id: state.nextTaskId++,
+        title: sealField(task.title),
+        subject: task.subject,
+        difficulty: task.difficulty,
+        priority: task.priority,
+        category: task.category,
+        due_date: task.due_date,
+        notes: sealField(task.notes ?? ""),
+        completed: 0,
+        created_at: nowIso(),
+        user_id: userId,
+        recurrence_id: null,
+        occurrence: null,
+        ical_uid: null,
+        estimated_minutes: null,
+        reminder_offsets: null,
+        assessment_weight: null,
+        grade: null,
+      });
+    });
+    linkTaskCourses(state, userId);
+  });
+  emitTasksChanged("all");
+  return tasks.length;
 }
 
 export async function getTasks() {
@@ -322,17 +877,17 @@ export async function getTasks() {
   if (!userId) return [];
   const state = readState();
   return state.tasks
-    .filter((task) => task.user_id === userId)
+    .filter((task) => task.user_id === userId && !task.deleted_at)
     .sort((a, b) => (a.created_at < b.created_at ? 1 : -1))
-    .map((task) => ({ ...task }));
+    .map((task) => withDerivedFields(state, task));
 }
 
 export async function getTask(id: number) {
   const userId = await getActiveUserId();
   if (!userId) return null;
   const state = readState();
-  const task = state.tasks.find((entry) => entry.id === id && entry.user_id === userId);
-  return task ? { ...task } : null;
+  const task = state.tasks.find((entry) => entry.id === id && entry.user_id === userId && !entry.deleted_at);
+  return task ? withDerivedFields(state, task) : null;
 }
 
 export async function updateTask(task: {
@@ -343,24 +898,40 @@ export async function updateTask(task: {
   due_date: string | null;
   priority?: "normal" | "high";
   category?: "coursework" | "revision" | "project" | "personal" | null;
+  estimated_minutes?: number | null;
+  reminder_offsets?: string | null;
+  course_id?: number | null;
+  assessment_weight?: number | null;
+  grade?: number | null;
 }) {
   const userId = await getActiveUserId();
   if (!userId) throw new Error("No active user session");
 
   updateState((state) => {
+    const course = task.course_id !== undefined ? resolveTaskCourse(state, userId, task.course_id, null) : undefined;
     state.tasks = state.tasks.map((entry) => {
       if (entry.id !== task.id || entry.user_id !== userId) return entry;
       return {
         ...entry,
-        title: task.title,
-        notes: task.notes,
+        title: sealField(task.title),
+        notes: sealField(task.notes),
         difficulty: task.difficulty,
         due_date: task.due_date,
         priority: task.priority ?? entry.priority ?? "normal",
         category: task.category !== undefined ? task.category : entry.category,
+        estimated_minutes:
+          task.estimated_minutes !== undefined ? task.estimated_minutes : entry.estimated_minutes ?? null,
+        reminder_offsets:
+          task.reminder_offsets !== undefined ? task.reminder_offsets : entry.reminder_offsets ?? null,
+        assessment_weight:
+          task.assessment_weight !== undefined ? task.assessment_weight : entry.assessment_weight ?? null,
+        grade: task.grade !== undefined ? task.grade : entry.grade ?? null,
+        course_id: course !== undefined ? course?.id ?? null : entry.course_id ?? null,
+        subject: course !== undefined ? course?.name ?? null : entry.subject,
       };
     });
   });
+  emitTasksChanged([task.id]);
 }
 
 export async function updateTaskDueDate(id: number, due_date: string | null) {
@@ -372,6 +943,7 @@ export async function updateTaskDueDate(id: number, due_date: string | null) {
       entry.id === id && entry.user_id === userId ? { ...entry, due_date } : entry
     );
   });
+  emitTasksChanged([id]);
 }
 
 export async function updateManyTaskDueDates(updates: { id: number; due_date: string | null }[]) {
@@ -386,6 +958,15 @@ export async function updateManyTaskDueDates(updates: { id: number; due_date: st
       return { ...entry, due_date: dueDates.get(entry.id) ?? null };
     });
   });
+  emitTasksChanged(updates.map((update) => update.id));
+}
+
+// Moves matching live tasks to the Trash
+function trashTasks(state: WebDatabaseState, matches: (task: TaskRow) => boolean) {
+  const now = nowIso();
+  state.tasks.forEach((task) => {
+    if (!task.deleted_at && matches(task)) task.deleted_at = now;
+  });
 }
 
 export async function deleteTask(id: number) {
@@ -393,20 +974,83 @@ export async function deleteTask(id: number) {
   if (!userId) throw new Error("No active user session");
 
   updateState((state) => {
-    state.tasks = state.tasks.filter((entry) => !(entry.id === id && entry.user_id === userId));
+    trashTasks(state, (task) => task.id === id && task.user_id === userId);
   });
+  emitTasksChanged([id]);
 }
 
 export async function setTaskCompleted(id: number, completed: boolean) {
   const userId = await getActiveUserId();
   if (!userId) throw new Error("No active user session");
+  let next = null as { id: number; due_date: string } | null;
 
   updateState((state) => {
-    state.tasks = state.tasks.map((entry) =>
-      entry.id === id && entry.user_id === userId
-        ? { ...entry, completed: completed ? 1 : 0 }
-        : entry
+    const task = state.tasks.find((entry) => entry.id === id && entry.user_id === userId);
+    if (!task) return;
+    const wasCompleted = task.completed === 1;
+    task.completed = completed ? 1 : 0;
+    if (!completed || wasCompleted || !task.recurrence_id || !task.due_date) return;
+
+    const recurrence = state.recurrences.find((entry) => entry.id === task.recurrence_id);
+    const rule = parseRecurrenceRule(recurrence?.rule);
+    if (!rule) return;
+    const occurrence = task.occurrence ?? 1;
+    const hasLater = state.tasks.some(
+      (entry) =>
+        entry.recurrence_id === task.recurrence_id && entry.user_id === userId && (entry.occurrence ?? 1) > occurrence
     );
+    if (hasLater) return;
+
+    const instance = nextRecurrenceInstance(rule, task.due_date, occurrence, todayISO());
+    if (!instance) return;
+
+    const nextId = state.nextTaskId++;
+    state.tasks.push({
+      ...task,
+      id: nextId,
+      due_date: instance.due_date,
+      occurrence: instance.occurrence,
+      completed: 0,
+      grade: null,
+      created_at: nowIso(),
+    });
+    pushSubtasks(
+      state,
+      nextId,
+      state.subtasks
+        .filter((entry) => entry.task_id === id)
+        .sort((a, b) => a.position - b.position)
+        .map((entry) => ({ title: entry.title, completed: false }))
+    );
+    copyTaskTags(state, id, nextId);
+    next = { id: nextId, due_date: instance.due_date };
+  });
+  const spawned = next as { id: number } | null;
+  emitTasksChanged(spawned ? [id, spawned.id] : [id]);
+  return next;
+}
+
+export async function setTaskRecurrence(id: number, rule: string | null) {
+  const userId = await getActiveUserId();
+  if (!userId) throw new Error("No active user session");
+
+  updateState((state) => {
+    const task = state.tasks.find((entry) => entry.id === id && entry.user_id === userId);
+    if (!task) return;
+    if (!rule) {
+      task.recurrence_id = null;
+      task.occurrence = null;
+      return;
+    }
+    const existing = task.recurrence_id
+      ? state.recurrences.find((entry) => entry.id === task.recurrence_id && entry.user_id === userId)
+      : undefined;
+    if (existing) {
+      existing.rule = rule;
+      return;
+    }
+    task.recurrence_id = pushRecurrence(state, rule, userId);
+    task.occurrence = 1;
   });
 }
 
@@ -416,16 +1060,34 @@ export async function duplicateTask(id: number) {
   const userId = await getActiveUserId();
   if (!userId) throw new Error("No active user session");
 
+  let copyId = 0;
   updateState((state) => {
+    copyId = state.nextTaskId++;
+    const { subtask_total: _total, subtask_done: _done, recurrence_rule: _rule, ...row } = original;
     state.tasks.push({
-      ...original,
-      id: state.nextTaskId++,
-      title: `${original.title} (copy)`,
+      ...row,
+      recurrence_id: null,
+      occurrence: null,
+      ical_uid: null,
+      id: copyId,
+      title: sealField(`${original.title} (copy)`),
+      notes: sealField(original.notes),
       completed: 0,
+      grade: null,
       created_at: nowIso(),
       user_id: userId,
     });
+    pushSubtasks(
+      state,
+      copyId,
+      state.subtasks
+        .filter((entry) => entry.task_id === id)
+        .sort((a, b) => a.position - b.position)
+        .map((entry) => ({ title: entry.title, completed: false }))
+    );
+    copyTaskTags(state, id, copyId);
   });
+  emitTasksChanged([copyId]);
 }
 
 export async function deleteAllTasks() {
@@ -433,8 +1095,9 @@ export async function deleteAllTasks() {
   if (!userId) throw new Error("No active user session");
 
   updateState((state) => {
-    state.tasks = state.tasks.filter((entry) => entry.user_id !== userId);
+    trashTasks(state, (task) => task.user_id === userId);
   });
+  emitTasksChanged("all");
 }
 
 export async function deleteCompletedTasks() {
@@ -442,6 +1105,770 @@ export async function deleteCompletedTasks() {
   if (!userId) throw new Error("No active user session");
 
   updateState((state) => {
-    state.tasks = state.tasks.filter((entry) => !(entry.user_id === userId && entry.completed === 1));
+    trashTasks(state, (task) => task.user_id === userId && task.completed === 1);
+  });
+  emitTasksChanged("all");
+}
+
+export async function getTrashedTasks() {
+  const userId = await getActiveUserId();
+  if (!userId) return [];
+  const state = readState();
+  return state.tasks
+    .filter((task) => task.user_id === userId && !!task.deleted_at)
+    .sort((a, b) => ((a.deleted_at ?? "") < (b.deleted_at ?? "") ? 1 : -1))
+    .map((task) => withDerivedFields(state, task));
+}
+
+export async function restoreTask(id: number) {
+  const userId = await getActiveUserId();
+  if (!userId) throw new Error("No active user session");
+  updateState((state) => {
+    const task = state.tasks.find((entry) => entry.id === id && entry.user_id === userId);
+    if (task) task.deleted_at = null;
+  });
+  emitTasksChanged([id]);
+}
+
+function removeTrashedTasks(userId: number, matches: (task: TaskRow) => boolean) {
+  let removed = 0;
+  updateState((state) => {
+    const ids = new Set(
+      state.tasks.filter((task) => task.user_id === userId && !!task.deleted_at && matches(task)).map((task) => task.id)
+    );
+    state.subtasks = state.subtasks.filter((entry) => !ids.has(entry.task_id));
+    state.taskPrerequisites = state.taskPrerequisites.filter(
+      (edge) => !ids.has(edge.task_id) && !ids.has(edge.prerequisite_id)
+    );
+    state.taskTags = state.taskTags.filter((link) => !ids.has(link.task_id));
+    state.tasks = state.tasks.filter((task) => !ids.has(task.id));
+    removed = ids.size;
+  });
+  return removed;
+}
+
+export async function deleteTaskForever(id: number) {
+  const userId = await getActiveUserId();
+  if (!userId) throw new Error("No active user session");
+  removeTrashedTasks(userId, (task) => task.id === id);
+  emitTasksChanged([id]);
+}
+
+export async function emptyTrash() {
+  const userId = await getActiveUserId();
+  if (!userId) throw new Error("No active user session");
+  removeTrashedTasks(userId, () => true);
+  emitTasksChanged("all");
+}
+
+export async function purgeTrashedTasks(before: string) {
+  const userId = await getActiveUserId();
+  if (!userId) return 0;
+  const removed = removeTrashedTasks(userId, (task) => (task.deleted_at ?? "") < before);
+  if (removed) emitTasksChanged("all");
+  return removed;
+}
+
+export async function exportUserData(): Promise<BackupData> {
+  const userId = await getActiveUserId();
+  if (!userId) throw new Error("No active user session");
+  const state = readState();
+  const tasks = state.tasks
+    .filter((task) => task.user_id === userId && !task.deleted_at)
+    .sort((a, b) => a.id - b.id)
+    .map(openTask);
+  const exported = new Set(tasks.map((task) => task.id));
+  const tags = state.tags.filter((tag) => tag.user_id === userId).sort((a, b) => a.name.localeCompare(b.name));
+  const tagNames = new Map(tags.map((tag) => [tag.id, tag.name]));
+
+  return {
+    tasks: tasks.map((task) => ({
+      id: task.id,
+      title: task.title,
+      subject: task.subject,
+      difficulty: task.difficulty,
+      priority: task.priority,
+      category: task.category,
+      due_date: task.due_date,
+      notes: task.notes,
+      completed: task.completed,
+      created_at: task.created_at,
+      recurrence_id: task.recurrence_id ?? null,
+      occurrence: task.occurrence ?? null,
+      ical_uid: task.ical_uid ?? null,
+      estimated_minutes: task.estimated_minutes ?? null,
+      reminder_offsets: task.reminder_offsets ?? null,
+      assessment_weight: task.assessment_weight ?? null,
+      grade: task.grade ?? null,
+      prerequisite_ids: state.taskPrerequisites
+        .filter((edge) => edge.task_id === task.id && exported.has(edge.prerequisite_id))
+        .map((edge) => edge.prerequisite_id),
+      tags: state.taskTags
+        .filter((link) => link.task_id === task.id && tagNames.has(link.tag_id))
+        .map((link) => tagNames.get(link.tag_id)!),
+      subtasks: state.subtasks
+        .filter((item) => item.task_id === task.id)
+        .sort((a, b) => a.position - b.position || a.id - b.id)
+        .map((item) => ({ title: item.title, completed: item.completed, position: item.position })),
+    })),
+    recurrences: state.recurrences
+      .filter((entry) => entry.user_id === userId)
+      .map((entry) => ({ id: entry.id, rule: entry.rule, created_at: entry.created_at })),
+    courses: state.courses
+      .filter((course) => course.user_id === userId)
+      .map(({ id: _id, user_id: _userId, created_at: _createdAt, ...course }) => course),
+    tags: tags.map((tag) => ({ name: tag.name, color: tag.color })),
+  };
+}
+
+export async function importUserData(data: BackupData, mode: RestoreMode) {
+  const userId = await getActiveUserId();
+  if (!userId) throw new Error("No active user session");
+  let added = 0;
+  let skipped = 0;
+  // Backup task id -> new row id, for settings that point at a task
+  const taskIds = new Map<number, number>();
+  // Backup task id -> the row it became or, when merging, the row it matched
+  const localIds = new Map<number, number>();
+
+  updateState((state) => {
+    const previous = mode === "replace" ? state.tasks.filter((entry) => entry.user_id === userId).map(openTask) : [];
+    if (mode === "replace") {
+      const removed = new Set(previous.map((entry) => entry.id));
+      state.subtasks = state.subtasks.filter((entry) => !removed.has(entry.task_id));
+      state.taskPrerequisites = state.taskPrerequisites.filter((edge) => !removed.has(edge.task_id));
+      state.taskTags = state.taskTags.filter((link) => !removed.has(link.task_id));
+      state.tags = state.tags.filter((tag) => tag.user_id !== userId);
+      state.tasks = state.tasks.filter((entry) => entry.user_id !== userId);
+      state.recurrences = state.recurrences.filter((entry) => entry.user_id !== userId);
+      state.courses = state.courses.filter((entry) => entry.user_id !== userId);
+    }
+
+    // Courses the user already has keep their settings
+    data.courses.forEach((course) => {
+      const owned = state.courses.filter((entry) => entry.user_id === userId);
+      if (findCourse(owned, course.name)) return;
+      const color = COURSE_COLORS.includes(course.color) ? course.color : nextTagColor(owned);
+      state.courses.push({ ...course, id: state.nextCourseId++, user_id: userId, color, created_at: nowIso() });
+    });
+
+    // So do tags; new ones bring their colour along
+    data.tags.forEach((tag) => {
+      const owned = state.tags.filter((entry) => entry.user_id === userId);
+      if (owned.some((entry) => entry.name === tag.name)) return;
+      const color = isTagColor(tag.color) ? tag.color : nextTagColor(owned);
+      state.tags.push({ id: state.nextTagId++, user_id: userId, name: tag.name, color, created_at: nowIso() });
+    });
+
+    const existing = new Map<string, number | null>();
+    const matched = new Map<string, number>();
+    state.tasks
+      .filter((task) => task.user_id === userId && !task.deleted_at)
+      .forEach((task) => {
+        const key = taskFingerprint(openTask(task));
+        existing.set(key, task.recurrence_id ?? null);
+        matched.set(key, task.id);
+      });
+
+    const rules = new Map(data.recurrences.map((entry) => [entry.id, entry.rule]));
+    const seriesIds = new Map<number, number>();
+    data.tasks.forEach((task) => {
+      const local = existing.get(taskFingerprint(task));
+      if (task.recurrence_id !== null && local) seriesIds.set(task.recurrence_id, local);
+    });
+
+    data.tasks.forEach((task) => {
+      const key = taskFingerprint(task);
+      if (existing.has(key)) {
+        const match = matched.get(key);
+        if (match !== undefined) localIds.set(task.id, match);
+        skipped += 1;
+        return;
+      }
+      existing.set(key, null);
+
+      let recurrenceId: number | null = null;
+      const rule = task.recurrence_id !== null ? rules.get(task.recurrence_id) : undefined;
+      if (task.recurrence_id !== null && rule) {
+        recurrenceId = seriesIds.get(task.recurrence_id) ?? pushRecurrence(state, rule, userId);
+        seriesIds.set(task.recurrence_id, recurrenceId);
+      }
+
+      const taskId = state.nextTaskId++;
+      state.tasks.push({
+        id: taskId,
+        title: sealField(task.title),
+        subject: task.subject,
+        difficulty: task.difficulty,
+        priority: task.priority ?? "normal",
+        category: task.category,
+        due_date: task.due_date,
+        notes: sealField(task.notes),
+        completed: task.completed ? 1 : 0,
+        created_at: task.created_at ?? nowIso(),
+        user_id: userId,
+        recurrence_id: recurrenceId,
+        occurrence: recurrenceId ? task.occurrence ?? 1 : null,
+        ical_uid: task.ical_uid,
+        estimated_minutes: task.estimated_minutes,
+        reminder_offsets: task.reminder_offsets,
+        assessment_weight: task.assessment_weight,
+        grade: task.grade,
+      });
+      pushSubtasks(
+        state,
+        taskId,
+        [...task.subtasks]
+          .sort((a, b) => a.position - b.position)
+          .map((item) => ({ title: item.title, completed: item.completed === 1 }))
+      );
+      linkTaskTags(state, userId, taskId, task.tags);
+      taskIds.set(task.id, taskId);
+      localIds.set(task.id, taskId);
+      added += 1;
+    });
+
+    const owned = new Set(state.tasks.filter((task) => task.user_id === userId).map((task) => task.id));
+    const edges = state.taskPrerequisites.filter((edge) => owned.has(edge.task_id));
+    state.taskPrerequisites.push(
+      ...addableEdges(edges, restoredPrerequisites(data.tasks, localIds, new Set(taskIds.values())))
+    );
+
+    const moved = replacedTaskIds(previous, data.tasks, taskIds);
+    state.workSessions = state.workSessions.map((session) => {
+      const taskId = session.user_id === userId ? moved.get(session.task_id) : undefined;
+      return taskId === undefined ? session : { ...session, task_id: taskId };
+    });
+    linkTaskCourses(state, userId);
+  });
+  emitTasksChanged("all");
+  return { added, skipped, taskIds };
+}
+
+export async function getSubtasks(taskId: number) {
+  const userId = await getActiveUserId();
+  if (!userId) return [];
+  const state = readState();
+  if (!ownsTask(state, taskId, userId)) return [];
+  return state.subtasks
+    .filter((entry) => entry.task_id === taskId)
+    .sort((a, b) => a.position - b.position || a.id - b.id)
+    .map((entry) => ({ ...entry }));
+}
+
+export async function saveSubtasks(taskId: number, items: SubtaskDraft[]) {
+  const userId = await getActiveUserId();
+  if (!userId) throw new Error("No active user session");
+
+  updateState((state) => {
+    if (!ownsTask(state, taskId, userId)) return;
+    const existing = new Map(
+      state.subtasks.filter((entry) => entry.task_id === taskId).map((entry) => [entry.id, entry])
+    );
+    const next: SubtaskRow[] = [];
+    items
+      .map((item) => ({ ...item, title: item.title.trim() }))
+      .filter((item) => item.title)
+      .forEach((item, index) => {
+        const previous = item.id ? existing.get(item.id) : undefined;
+        next.push({
+          id: previous ? previous.id : state.nextSubtaskId++,
+          task_id: taskId,
+          title: item.title,
+          completed: item.completed ? 1 : 0,
+          position: index,
+          created_at: previous?.created_at ?? nowIso(),
+        });
+      });
+    state.subtasks = [...state.subtasks.filter((entry) => entry.task_id !== taskId), ...next];
+  });
+}
+
+export async function setSubtaskCompleted(id: number, completed: boolean) {
+  const userId = await getActiveUserId();
+  if (!userId) throw new Error("No active user session");
+
+  updateState((state) => {
+    state.subtasks = state.subtasks.map((entry) =>
+      entry.id === id && ownsTask(state, entry.task_id, userId)
+        ? { ...entry, completed: completed ? 1 : 0 }
+        : entry
+    );
+  });
+}
+
+export async function setTaskPrerequisites(taskId: number, prerequisiteIds: number[]) {
+  const userId = await getActiveUserId();
+  if (!userId) throw new Error("No active user session");
+  const state = readState();
+  const titles = new Map(
+    state.tasks.filter((task) => task.user_id === userId).map((task) => [task.id, openField(task.title)])
+  );
+  if (!titles.has(taskId)) return;
+
+  const wanted = [...new Set(prerequisiteIds)].filter((id) => titles.has(id));
+  const edges = state.taskPrerequisites.filter((edge) => titles.has(edge.task_id));
+  const cycle = findDependencyCycle(edges, taskId, wanted);
+  if (cycle) throw new Error(describeDependencyCycle(cycle.map((id) => titles.get(id) || "Untitled task")));
+
+  updateState((next) => {
+    next.taskPrerequisites = [
+      ...next.taskPrerequisites.filter((edge) => edge.task_id !== taskId),
+      ...wanted.map((prerequisiteId) => ({ task_id: taskId, prerequisite_id: prerequisiteId })),
+    ];
+  });
+  emitTasksChanged([taskId]);
+}
+
+export async function getTags(): Promise<TaskTag[]> {
+  const userId = await getActiveUserId();
+  if (!userId) return [];
+  return readState()
+    .tags.filter((tag) => tag.user_id === userId)
+    .map((tag) => ({ id: tag.id, name: tag.name, color: tag.color }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function setTaskTags(taskId: number, names: string[]) {
+  const userId = await getActiveUserId();
+  if (!userId) throw new Error("No active user session");
+  updateState((state) => {
+    if (!ownsTask(state, taskId, userId)) return;
+    linkTaskTags(state, userId, taskId, names);
+  });
+  emitTasksChanged([taskId]);
+}
+
+export async function setTagColor(tagId: number, color: string) {
+  const userId = await getActiveUserId();
+  if (!userId) throw new Error("No active user session");
+  updateState((state) => {
+    const tag = state.tags.find((entry) => entry.id === tagId && entry.user_id === userId);
+    if (tag) tag.color = color;
+  });
+  emitTasksChanged("all");
+}
+
+export async function deleteTag(tagId: number) {
+  const userId = await getActiveUserId();
+  if (!userId) throw new Error("No active user session");
+  updateState((state) => {
+    if (!state.tags.some((tag) => tag.id === tagId && tag.user_id === userId)) return;
+    state.taskTags = state.taskTags.filter((link) => link.tag_id !== tagId);
+    state.tags = state.tags.filter((tag) => tag.id !== tagId);
+  });
+  emitTasksChanged("all");
+}
+
+export async function getCourses(): Promise<Course[]> {
+  const userId = await getActiveUserId();
+  if (!userId) return [];
+  return readState()
+    .courses.filter((course) => course.user_id === userId)
+    .map(toCourse)
+    .sort((a, b) => a.name.localeCompare(b.name, undefined, { sensitivity: "base" }));
+}
+
+export async function addCourse(draft: CourseDraft) {
+  const userId = await getActiveUserId();
+  if (!userId) throw new Error("No active user session");
+  let id = 0;
+  updateState((state) => {
+    id = state.nextCourseId++;
+    state.courses.push({ ...draft, id, user_id: userId, created_at: nowIso() });
+  });
+  return id;
+}
+
+// Saves a course's settings; a new name is written onto every task on the course
+export async function updateCourse(id: number, draft: CourseDraft) {
+  const userId = await getActiveUserId();
+  if (!userId) throw new Error("No active user session");
+  updateState((state) => {
+    const course = state.courses.find((entry) => entry.id === id && entry.user_id === userId);
+    if (!course) return;
+    Object.assign(course, draft);
+    state.tasks
+      .filter((task) => task.course_id === id && task.user_id === userId && task.subject !== draft.name)
+      .forEach((task) => {
+        task.subject = draft.name;
+      });
+  });
+  emitTasksChanged("all");
+}
+
+// The course's tasks stay, without a course
+export async function deleteCourse(id: number) {
+  const userId = await getActiveUserId();
+  if (!userId) throw new Error("No active user session");
+  updateState((state) => {
+    if (!state.courses.some((course) => course.id === id && course.user_id === userId)) return;
+    state.tasks
+      .filter((task) => task.course_id === id && task.user_id === userId)
+      .forEach((task) => {
+        task.course_id = null;
+        task.subject = null;
+      });
+    state.courses = state.courses.filter((course) => course.id !== id);
+  });
+  emitTasksChanged("all");
+}
+
+export async function logWorkSession(session: WorkSessionDraft) {
+  const userId = await getActiveUserId();
+  if (!userId) throw new Error("No active user session");
+
+  updateState((state) => {
+    state.workSessions.push({ ...session, id: state.nextWorkSessionId++, user_id: userId });
+  });
+}
+
+export async function getTaskTimeTotals(taskId: number): Promise<TaskTimeTotals> {
+  const userId = await getActiveUserId();
+  const totals: TaskTimeTotals = { sessions: 0, seconds: 0, last_ended_at: null };
+  if (!userId) return totals;
+
+  const state = readState();
+  state.workSessions
+    .filter((entry) => entry.task_id === taskId && entry.user_id === userId)
+    .forEach((entry) => {
+      totals.sessions += 1;
+      totals.seconds += entry.actual_seconds;
+      if (!totals.last_ended_at || entry.ended_at > totals.last_ended_at) totals.last_ended_at = entry.ended_at;
+    });
+  return totals;
+}
+
+export async function getTimeSpentSince(since: Date) {
+  const userId = await getActiveUserId();
+  if (!userId) return 0;
+
+  const state = readState();
+  const sinceIso = since.toISOString();
+  return state.workSessions
+    .filter((entry) => entry.user_id === userId && entry.started_at >= sinceIso)
+    .reduce((sum, entry) => sum + entry.actual_seconds, 0);
+}
+
+export async function getEffortSamples(): Promise<EffortSample[]> {
+  const userId = await getActiveUserId();
+  if (!userId) return [];
+
+  const state = readState();
+  const seconds = new Map<number, number>();
+  state.workSessions
+    .filter((entry) => entry.user_id === userId)
+    .forEach((entry) => seconds.set(entry.task_id, (seconds.get(entry.task_id) ?? 0) + entry.actual_seconds));
+  return state.tasks
+    .filter((task) => task.user_id === userId && task.completed === 1 && seconds.has(task.id))
+    .map((task) => ({
+      title: openField(task.title),
+      subject: task.subject,
+      difficulty: task.difficulty,
+      category: task.category,
+      estimated_minutes: task.estimated_minutes ?? null,
+      actual_seconds: seconds.get(task.id) ?? 0,
+    }));
+}
+
+export async function getTaskEncryptionStatus() {
+  return getDataEncryptionStatus();
+}
+
+async function checkDataKeySecret(source: DataKeySource, secret: string) {
+  return source === "pin" ? verifyPin(secret) : verifyActiveUserPassword(secret);
+}
+
+// Seals every task title and note in the browser (all profiles) with a new key. The active
+// profile gets a copy of the key sealed with the PIN or password it confirmed with.
+export async function enableTaskEncryption(source: DataKeySource, secret: string) {
+  if (getDataEncryptionStatus().enabled) throw new Error("Task encryption is already on.");
+  const userId = await getActiveUserId();
+  if (!userId) throw new Error("No active user session");
+  if (!(await checkDataKeySecret(source, secret))) {
+    throw new Error(source === "pin" ? "That PIN is incorrect." : "That password is incorrect.");
+  }
+
+  const { key, meta } = createDataKey();
+  const wrap = await wrapDataKey(key, userId, source, secret);
+  await activateDataKey(meta, key);
+  try {
+    updateState((state) => {
+      state.tasks = state.tasks.map((task) => ({
+        ...task,
+        title: sealWithKey(key, task.title),
+        notes: task.notes == null ? null : sealWithKey(key, task.notes),
+      }));
+      state.syncShadow = state.syncShadow.map((entry) => ({ ...entry, fields: sealWithKey(key, entry.fields) }));
+      state.syncConflicts = state.syncConflicts.map((entry) => ({ ...entry, data: sealWithKey(key, entry.data) }));
+      state.encryption = meta;
+      state.dataKeyWraps = [wrap];
+    });
+  } catch (error) {
+    await deactivateDataKey();
+    throw error;
+  }
+  emitTasksChanged("all");
+}
+
+export async function disableTaskEncryption() {
+  const status = getDataEncryptionStatus();
+  if (!status.enabled) return;
+  if (!status.unlocked) throw new Error(DATA_LOCKED_MESSAGE);
+
+  updateState((state) => {
+    state.tasks = state.tasks.map(openTask);
+    state.syncShadow = state.syncShadow.map((entry) => ({ ...entry, fields: openField(entry.fields) }));
+    state.syncConflicts = state.syncConflicts.map((entry) => ({ ...entry, data: openField(entry.data) }));
+    state.encryption = null;
+    state.dataKeyWraps = [];
+  });
+  await deactivateDataKey();
+  emitTasksChanged("all");
+}
+
+// The key only lasts for the browser session, so a new session opens it again with a PIN or password
+export async function unlockTaskEncryption(source: DataKeySource, secret: string) {
+  const state = readState();
+  if (!state.encryption) return true;
+  const activeUserId = await getActiveUserId();
+  const wraps = state.dataKeyWraps
+    .filter((wrap) => wrap.source === source)
+    .sort((a, b) => Number(b.user_id === activeUserId) - Number(a.user_id === activeUserId));
+  for (const wrap of wraps) {
+    const key = await unwrapDataKey(wrap, secret, state.encryption);
+    if (!key) continue;
+    await activateDataKey(state.encryption, key);
+    emitTasksChanged("all");
+    return true;
+  }
+  return false;
+}
+
+export async function getDataKeySources() {
+  return [...new Set(readState().dataKeyWraps.map((wrap) => wrap.source))];
+}
+
+export async function eraseEncryptedTasks() {
+  updateState((state) => {
+    state.tasks = [];
+    state.subtasks = [];
+    state.taskPrerequisites = [];
+    state.taskTags = [];
+    state.recurrences = [];
+    state.workSessions = [];
+    state.syncShadow = [];
+    state.syncConflicts = [];
+    state.encryption = null;
+    state.dataKeyWraps = [];
+  });
+  await deactivateDataKey();
+  emitTasksChanged("all");
+}
+
+async function storeDataKeyWrap(userId: number, source: DataKeySource, secret: string, replace: boolean) {
+  const key = getActiveDataKey();
+  if (!getDataEncryptionStatus().enabled || !key) return;
+  const matches = (wrap: DataKeyWrap) => wrap.user_id === userId && wrap.source === source;
+  if (!replace && readState().dataKeyWraps.some(matches)) return;
+  const wrap = await wrapDataKey(key, userId, source, secret);
+  updateState((state) => {
+    state.dataKeyWraps = [...state.dataKeyWraps.filter((entry) => !matches(entry)), wrap];
+  });
+}
+
+export async function rewrapDataKey(source: DataKeySource, secret: string) {
+  const userId = await getActiveUserId();
+  if (userId) await storeDataKeyWrap(userId, source, secret, true);
+}
+
+export async function addDataKeyWrap(source: DataKeySource, secret: string) {
+  const userId = await getActiveUserId();
+  if (userId) await storeDataKeyWrap(userId, source, secret, false);
+}
+
+function readShadowEntry(row: SyncShadowRow): SyncShadowEntry {
+  let fields: SyncFields = {};
+  try {
+    fields = pickSyncFields(JSON.parse(openField(row.fields)));
+  } catch {
+    // An unreadable entry diffs as empty, so the task's fields are simply sent again
+  }
+  return { uid: row.uid, task_id: row.task_id, version: row.version, fields };
+}
+
+function parseStamp(value: string | null | undefined) {
+  const ms = value ? Date.parse(value) : Number.NaN;
+  return Number.isFinite(ms) ? ms : null;
+}
+
+function syncColumnValue(field: SyncField, value: SyncValue | undefined) {
+  if (field === "title") return sealField(value == null ? "" : String(value));
+  if (field === "notes") return value == null ? null : sealField(String(value));
+  return value ?? null;
+}
+
+function writeSyncFields(task: TaskRow, fields: SyncFields) {
+  const target = task as Record<SyncField, unknown>;
+  SYNC_FIELDS.forEach((field) => {
+    if (field in fields) target[field] = syncColumnValue(field, fields[field]);
+  });
+}
+
+function pushSyncedTask(state: WebDatabaseState, userId: number, fields: SyncFields, updatedAt: string | null) {
+  const task: TaskRow = {
+    id: state.nextTaskId++,
+    title: sealField(""),
+    subject: null,
+    difficulty: null,
+    priority: "normal",
+    category: null,
+    due_date: null,
+    notes: null,
+    completed: 0,
+    created_at: nowIso(),
+    user_id: userId,
+    recurrence_id: null,
+    occurrence: null,
+    ical_uid: null,
+    estimated_minutes: null,
+    reminder_offsets: null,
+    assessment_weight: null,
+    grade: null,
+    updated_at: updatedAt,
+  };
+  writeSyncFields(task, fields);
+  state.tasks.push(task);
+  return task.id;
+}
+
+function saveShadowEntry(state: WebDatabaseState, userId: number, entry: SyncShadowEntry) {
+  const row: SyncShadowRow = { ...entry, user_id: userId, fields: sealField(JSON.stringify(entry.fields)) };
+  const index = state.syncShadow.findIndex((item) => item.user_id === userId && item.uid === entry.uid);
+  if (index >= 0) state.syncShadow[index] = row;
+  else state.syncShadow.push(row);
+}
+
+export async function getSyncSnapshot(): Promise<{ tasks: LocalSyncTask[]; shadow: SyncShadowEntry[] }> {
+  const userId = await getActiveUserId();
+  if (!userId) throw new Error("No active user session");
+  const state = readState();
+  return {
+    // Trashed tasks go out as deletes; one restored later syncs as a new task
+    tasks: state.tasks
+      .filter((task) => task.user_id === userId && !task.deleted_at)
+      .map(openTask)
+      .map((task) => ({ id: task.id, updated_at: parseStamp(task.updated_at), fields: pickSyncFields(task) })),
+    shadow: state.syncShadow.filter((entry) => entry.user_id === userId).map(readShadowEntry),
+  };
+}
+
+export async function saveSyncMappings(created: { uid: string; task_id: number }[]) {
+  const userId = await getActiveUserId();
+  if (!userId || !created.length) return;
+  updateState((state) => {
+    created.forEach((entry) => {
+      saveShadowEntry(state, userId, { uid: entry.uid, task_id: entry.task_id, version: 0, fields: {} });
+    });
+  });
+}
+
+export async function applySyncRows(rows: SyncRow[]) {
+  const userId = await getActiveUserId();
+  if (!userId) throw new Error("No active user session");
+  if (!rows.length) return;
+
+  updateState((state) => {
+    rows.forEach((row) => {
+      const mapped = state.syncShadow.find((entry) => entry.user_id === userId && entry.uid === row.uid);
+      const existing = state.tasks.find((task) => task.id === mapped?.task_id && task.user_id === userId);
+
+      if (row.deleted) {
+        if (existing) trashTasks(state, (task) => task.id === existing.id);
+        state.syncShadow = state.syncShadow.filter((entry) => !(entry.user_id === userId && entry.uid === row.uid));
+        return;
+      }
+
+      const updatedAt = new Date(row.updated_at).toISOString();
+      let taskId: number;
+      if (existing) {
+        writeSyncFields(existing, row.fields);
+        existing.updated_at = updatedAt;
+        taskId = existing.id;
+      } else {
+        taskId = pushSyncedTask(state, userId, row.fields, updatedAt);
+      }
+      saveShadowEntry(state, userId, { uid: row.uid, task_id: taskId, version: row.version, fields: row.fields });
+    });
+    linkTaskCourses(state, userId);
+  });
+  emitTasksChanged("all");
+}
+
+export async function setSyncedTaskField(uid: string, field: SyncField, value: SyncValue) {
+  const userId = await getActiveUserId();
+  if (!userId) throw new Error("No active user session");
+  let taskId: number | null = null;
+  updateState((state) => {
+    const entry = state.syncShadow.find((item) => item.user_id === userId && item.uid === uid);
+    const task = state.tasks.find((item) => item.id === entry?.task_id && item.user_id === userId);
+    if (!task) return;
+    writeSyncFields(task, { [field]: value });
+    if (field === "subject") linkTaskCourses(state, userId);
+    taskId = task.id;
+  });
+  if (taskId === null) return false;
+  emitTasksChanged([taskId]);
+  return true;
+}
+
+export async function restoreSyncedTask(fields: SyncFields) {
+  const userId = await getActiveUserId();
+  if (!userId) throw new Error("No active user session");
+  let id = 0;
+  updateState((state) => {
+    id = pushSyncedTask(state, userId, fields, null);
+    linkTaskCourses(state, userId);
+  });
+  emitTasksChanged([id]);
+  return id;
+}
+
+function readConflict(entry: SyncConflictRow): SyncConflict[] {
+  try {
+    return [JSON.parse(openField(entry.data)) as SyncConflict];
+  } catch {
+    return [];
+  }
+}
+
+export async function getSyncConflicts(): Promise<SyncConflict[]> {
+  const userId = await getActiveUserId();
+  if (!userId) return [];
+  return readState()
+    .syncConflicts.filter((entry) => entry.user_id === userId)
+    .flatMap(readConflict);
+}
+
+export async function addSyncConflicts(conflicts: SyncConflict[]) {
+  const userId = await getActiveUserId();
+  if (!userId) throw new Error("No active user session");
+  if (!conflicts.length) return;
+  updateState((state) => {
+    conflicts.forEach((conflict) => {
+      state.syncConflicts.push({ user_id: userId, data: sealField(JSON.stringify(conflict)) });
+    });
+  });
+}
+
+export async function deleteSyncConflict(conflict: Pick<SyncConflict, "uid" | "field" | "at">) {
+  const userId = await getActiveUserId();
+  if (!userId) return;
+  updateState((state) => {
+    state.syncConflicts = state.syncConflicts.filter((entry) => {
+      if (entry.user_id !== userId) return true;
+      const [stored] = readConflict(entry);
+      return !stored || stored.uid !== conflict.uid || stored.field !== conflict.field || stored.at !== conflict.at;
+    });
   });
 }
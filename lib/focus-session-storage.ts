@@ -1,4 +1,4 @@
-import * as SecureStore from "@/lib/secure-store";
+import { deleteProfileItem, getProfileItem, setProfileItem } from "@/lib/profile-store";
 
 export type FocusSessionState = "ready" | "running" | "paused" | "finished";
 
@@ -8,13 +8,15 @@ export type FocusSessionSnapshot = {
   remainingSeconds: number;
   sessionState: FocusSessionState;
   updatedAt: number;
+  // When the timer was first started; cleared once the run is logged as a work session
+  startedAt?: string | null;
 };
 
 const FOCUS_SESSION_KEY = "focus_session_snapshot_v1";
 
 export async function loadFocusSessionSnapshot(): Promise<FocusSessionSnapshot | null> {
   try {
-    const raw = await SecureStore.getItemAsync(FOCUS_SESSION_KEY);
+    const raw = await getProfileItem(FOCUS_SESSION_KEY);
     if (!raw) return null;
     const parsed = JSON.parse(raw) as FocusSessionSnapshot;
     if (!parsed || typeof parsed !== "object") return null;
@@ -27,7 +29,7 @@ export async function loadFocusSessionSnapshot(): Promise<FocusSessionSnapshot |
 
 export async function saveFocusSessionSnapshot(snapshot: FocusSessionSnapshot) {
   try {
-    await SecureStore.setItemAsync(FOCUS_SESSION_KEY, JSON.stringify(snapshot));
+    await setProfileItem(FOCUS_SESSION_KEY, JSON.stringify(snapshot));
   } catch (error) {
     console.warn("Failed to save focus session snapshot", error);
   }
@@ -35,7 +37,7 @@ export async function saveFocusSessionSnapshot(snapshot: FocusSessionSnapshot) {
 
 export async function clearFocusSessionSnapshot() {
   try {
-    await SecureStore.deleteItemAsync(FOCUS_SESSION_KEY);
+    await deleteProfileItem(FOCUS_SESSION_KEY);
   } catch (error) {
     console.warn("Failed to clear focus session snapshot", error);
   }
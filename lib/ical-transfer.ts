@@ -0,0 +1,52 @@
+import { addTask, getTasks } from "@/lib/database";
+import { parseICS, planICSImport, serializeTasksToICS, taskUid, type ICalImportPlan, type ICalKind } from "@/utils/ical";
+
+function todayISO() {
+  const now = new Date();
+  const m = String(now.getMonth() + 1).padStart(2, "0");
+  const d = String(now.getDate()).padStart(2, "0");
+  return `${now.getFullYear()}-${m}-${d}`;
+}
+
+// Open tasks only; completed work has no place in someone's calendar
+export async function exportTasksAsICS(kind: ICalKind) {
+  const tasks = (await getTasks()).filter((task) => !task.completed);
+  const exported = kind === "event" ? tasks.filter((task) => task.due_date) : tasks;
+  return { text: serializeTasksToICS(exported, kind), count: exported.length };
+}
+
+// Accepts pasted .ics text or a subscription link (https:// or webcal://)
+export async function loadICSSource(input: string) {
+  const trimmed = input.trim();
+  if (!/^(https?|webcal):\/\//i.test(trimmed)) return trimmed;
+  const response = await fetch(trimmed.replace(/^webcal:/i, "https:"));
+  if (!response.ok) throw new Error(`The calendar link returned ${response.status}.`);
+  return response.text();
+}
+
+export async function previewICSImport(text: string): Promise<ICalImportPlan> {
+  const items = parseICS(text);
+  if (!items.length) throw new Error("No events or to-dos were found in that calendar.");
+  // Our own exports use generated UIDs, so re-importing them matches the original tasks
+  const uids = (await getTasks()).map(taskUid);
+  return planICSImport(items, uids, todayISO());
+}
+
+export async function importICSPlan(plan: ICalImportPlan) {
+  let added = 0;
+  // Sequential on purpose: each addTask opens its own transaction
+  for (const item of plan.toAdd) {
+    await addTask({
+      title: item.title,
+      description: item.notes ?? "",
+      difficulty: item.difficulty ?? "medium",
+      due_date: item.due_date,
+      priority: item.priority ?? "normal",
+      category: item.category,
+      recurrence: item.recurrence,
+      ical_uid: item.uid,
+    });
+    added += 1;
+  }
+  return added;
+}
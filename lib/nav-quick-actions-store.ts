@@ -77,3 +77,8 @@ export async function saveNavQuickAction(navId: NavItemId, actionId: QuickAction
     [navId, actionId, userId]
   );
 }
+
+export async function clearNavQuickActions(userId: number) {
+  await ensureTable();
+  await db.runAsync(`DELETE FROM ${TABLE} WHERE user_id = ?`, [userId]);
+}
@@ -83,3 +83,8 @@ export async function saveNavQuickAction(navId: NavItemId, actionId: QuickAction
   };
   writeState(nextState);
 }
+
+export async function clearNavQuickActions(userId: number) {
+  const { [String(userId)]: _removed, ...rest } = readState();
+  writeState(rest);
+}
@@ -1,25 +1,65 @@
 import * as Notifications from "expo-notifications";
-import { Platform } from "react-native";
+import { AppState, DeviceEventEmitter, Platform } from "react-native";
+import { buildAssistantContext } from "@/assistant_actions/context";
+import { getTask, setTaskCompleted, updateTaskDueDate } from "@/lib/database";
+import { loadReminderSettings, saveReminderSettings, type ReminderSettings } from "@/lib/reminder-settings";
+import { deleteProfileItem, getProfileItem, setProfileItem } from "@/lib/profile-store";
 import * as SecureStore from "@/lib/secure-store";
+import { TASKS_CHANGED_EVENT } from "@/lib/task-events";
+import { composeDailyDigest, composeWeeklySummary, countDueTasks } from "@/utils/dailyDigest";
+import {
+  applyNotificationRules,
+  normalizeNotificationRules,
+  type NotificationRules,
+  type PendingNotification,
+} from "@/utils/notificationRules";
+import {
+  normalizeReminderDefaults,
+  planTaskReminders,
+  resolveReminderOffsets,
+  snoozeDueDate,
+  type ReminderDefaults,
+} from "@/utils/taskReminders";
 
-export type ReminderSettings = {
-  enabled: boolean;
-  hour: number;
-  minute: number;
-};
+export {
+  DEFAULT_REMINDER_TIME,
+  loadReminderSettings,
+  saveReminderSettings,
+  type ReminderSettings,
+} from "@/lib/reminder-settings";
 
-const ENABLED_KEY = "reminder_enabled";
-const TIME_KEY = "reminder_time";
+// Ids of everything currently scheduled, digest and deadline reminders alike
 const SCHEDULE_ID_KEY = "reminder_schedule_id";
+const TASK_REMINDER_IDS_KEY = "task_reminder_ids_v1";
+// Date of the last digest scheduled, so Settings can say when reminders run out
+const DIGEST_UNTIL_KEY = "digest_scheduled_until";
+// Per profile (lib/profile-store); the ids above belong to the device
+const WEEKLY_SUMMARY_DAY_KEY = "weekly_summary_day";
+const REMINDER_DEFAULTS_KEY = "task_reminder_defaults_v1";
+const NOTIFICATION_RULES_KEY = "notification_rules_v1";
 
-export const DEFAULT_REMINDER_TIME = { hour: 9, minute: 0 };
+// Buttons shown on notifications that are about one task
+const TASK_ACTIONS_CATEGORY = "task-actions";
+const MARK_DONE_ACTION = "mark-done";
+const SNOOZE_ACTION = "snooze-day";
+const START_FOCUS_ACTION = "start-focus";
+const NOTIFICATION_FOCUS_MINUTES = 25;
 
-let handlerRegistered = false;
+// Local notifications can't compute their text when they fire, so the digest is
+// scheduled a day at a time this far ahead and rebuilt whenever tasks change or the
+// app opens. The pending-notification cap may cut it shorter; see loadDigestScheduledUntil.
+const DIGEST_DAYS = 28;
+
+// Same-day and next-day deadlines outrank the digest, which outranks early heads-ups
+const DIGEST_PRIORITY = 5;
 
-function pad(n: number) {
-  return String(n).padStart(2, "0");
+function deadlinePriority(daysLeft: number) {
+  return 8 - Math.min(daysLeft, 7);
 }
 
+let handlerRegistered = false;
+let categoryRegistered = false;
+
 function ensureHandler() {
   if (handlerRegistered) return;
   Notifications.setNotificationHandler({
@@ -34,6 +74,22 @@ function ensureHandler() {
   handlerRegistered = true;
 }
 
+// Every action foregrounds the app: with the app killed, actions that stay in the
+// background never reach the JS response listener.
+async function ensureTaskActionCategory() {
+  if (categoryRegistered || Platform.OS === "web") return;
+  await Notifications.setNotificationCategoryAsync(TASK_ACTIONS_CATEGORY, [
+    { identifier: MARK_DONE_ACTION, buttonTitle: "Mark done", options: { opensAppToForeground: true } },
+    { identifier: SNOOZE_ACTION, buttonTitle: "Snooze 1 day", options: { opensAppToForeground: true } },
+    {
+      identifier: START_FOCUS_ACTION,
+      buttonTitle: `Start ${NOTIFICATION_FOCUS_MINUTES}-min focus`,
+      options: { opensAppToForeground: true },
+    },
+  ]);
+  categoryRegistered = true;
+}
+
 async function ensureAndroidChannel(): Promise<string | undefined> {
   if (Platform.OS !== "android") return undefined;
   const channelId = "daily-reminder";
@@ -45,35 +101,52 @@ async function ensureAndroidChannel(): Promise<string | undefined> {
   return channelId;
 }
 
-function parseTime(raw: string | null): { hour: number; minute: number } | null {
-  if (!raw) return null;
-  const [h, m] = raw.split(":").map((v) => Number.parseInt(v, 10));
-  if (Number.isNaN(h) || Number.isNaN(m)) return null;
-  return { hour: Math.max(0, Math.min(23, h)), minute: Math.max(0, Math.min(59, m)) };
+async function ensureTaskReminderChannel(): Promise<string | undefined> {
+  if (Platform.OS !== "android") return undefined;
+  const channelId = "task-reminders";
+  await Notifications.setNotificationChannelAsync(channelId, {
+    name: "Deadline Reminders",
+    importance: Notifications.AndroidImportance.HIGH,
+    sound: undefined,
+  });
+  return channelId;
 }
 
-async function saveScheduleId(id: string | null) {
-  if (!id) {
+async function saveScheduleIds(ids: string[]) {
+  if (!ids.length) {
     await SecureStore.deleteItemAsync(SCHEDULE_ID_KEY);
   } else {
-    await SecureStore.setItemAsync(SCHEDULE_ID_KEY, id);
+    await SecureStore.setItemAsync(SCHEDULE_ID_KEY, JSON.stringify(ids));
   }
 }
 
-export async function loadReminderSettings(): Promise<ReminderSettings> {
-  const enabledRaw = await SecureStore.getItemAsync(ENABLED_KEY);
-  const timeRaw = await SecureStore.getItemAsync(TIME_KEY);
-  const parsedTime = parseTime(timeRaw);
-  return {
-    enabled: enabledRaw === "true",
-    hour: parsedTime?.hour ?? DEFAULT_REMINDER_TIME.hour,
-    minute: parsedTime?.minute ?? DEFAULT_REMINDER_TIME.minute,
-  };
+// Older builds stored the single id of a repeating reminder here
+async function loadScheduleIds(): Promise<string[]> {
+  const raw = await SecureStore.getItemAsync(SCHEDULE_ID_KEY);
+  if (!raw) return [];
+  if (!raw.startsWith("[")) return [raw];
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.filter((id): id is string => typeof id === "string") : [];
+  } catch {
+    return [];
+  }
 }
 
-export async function saveReminderSettings(settings: ReminderSettings) {
-  await SecureStore.setItemAsync(ENABLED_KEY, settings.enabled ? "true" : "false");
-  await SecureStore.setItemAsync(TIME_KEY, `${pad(settings.hour)}:${pad(settings.minute)}`);
+// Day of the week (Date#getDay) that gets the weekly summary instead of the digest; null is off
+export async function loadWeeklySummaryDay(): Promise<number | null> {
+  const raw = await getProfileItem(WEEKLY_SUMMARY_DAY_KEY);
+  const day = raw === null ? Number.NaN : Number.parseInt(raw, 10);
+  return day >= 0 && day <= 6 ? day : null;
+}
+
+export async function saveWeeklySummaryDay(day: number | null) {
+  if (day === null) {
+    await deleteProfileItem(WEEKLY_SUMMARY_DAY_KEY);
+  } else {
+    await setProfileItem(WEEKLY_SUMMARY_DAY_KEY, String(day));
+  }
+  await syncReminders();
 }
 
 export function formatReminderTime(hour: number, minute: number) {
@@ -93,48 +166,27 @@ export async function requestNotificationPermission(): Promise<boolean> {
 }
 
 export async function cancelScheduledReminder() {
-  const existingId = await SecureStore.getItemAsync(SCHEDULE_ID_KEY);
-  if (existingId) {
+  const ids = await loadScheduleIds();
+  // Earlier builds tracked deadline reminders per task under their own key
+  const legacy = await SecureStore.getItemAsync(TASK_REMINDER_IDS_KEY);
+  if (legacy) {
     try {
-      await Notifications.cancelScheduledNotificationAsync(existingId);
-    } catch (error) {
-      console.warn("Failed to cancel reminder", error);
+      ids.push(...Object.values(JSON.parse(legacy) as Record<string, string[]>).flat());
+    } catch {
+      // Nothing usable to cancel
     }
+    await SecureStore.deleteItemAsync(TASK_REMINDER_IDS_KEY);
   }
-  await saveScheduleId(null);
+  await cancelNotificationIds(ids);
+  await saveScheduleIds([]);
+  await SecureStore.deleteItemAsync(DIGEST_UNTIL_KEY);
 }
 
-export async function scheduleDailyReminder(hour: number, minute: number) {
-  ensureHandler();
-  const channelId = await ensureAndroidChannel();
-  await cancelScheduledReminder();
-  const trigger: Notifications.NotificationTriggerInput =
-    Platform.select({
-      android: {
-        type: Notifications.SchedulableTriggerInputTypes.DAILY,
-        hour,
-        minute,
-        channelId,
-      },
-      default: {
-        type: Notifications.SchedulableTriggerInputTypes.DAILY,
-        hour,
-        minute,
-      },
-    }) ?? {
-      type: Notifications.SchedulableTriggerInputTypes.DAILY,
-      hour,
-      minute,
-    };
-
-  const id = await Notifications.scheduleNotificationAsync({
-    content: {
-      title: "Work Assessor",
-      body: "Hey! Why not get back to work.",
-    },
-    trigger,
-  });
-  await saveScheduleId(id);
+// When the last scheduled daily reminder fires, or null if none is scheduled
+export async function loadDigestScheduledUntil(): Promise<Date | null> {
+  const raw = await SecureStore.getItemAsync(DIGEST_UNTIL_KEY);
+  const time = raw ? Number(raw) : Number.NaN;
+  return Number.isFinite(time) ? new Date(time) : null;
 }
 
 export async function enableReminder(hour: number, minute: number): Promise<boolean> {
@@ -143,15 +195,201 @@ export async function enableReminder(hour: number, minute: number): Promise<bool
     await saveReminderSettings({ enabled: false, hour, minute });
     return false;
   }
-  await scheduleDailyReminder(hour, minute);
   await saveReminderSettings({ enabled: true, hour, minute });
+  // Deadline reminders fire at the same time of day, so they move with it
+  await syncReminders();
   return true;
 }
 
 export async function disableReminder() {
-  await cancelScheduledReminder();
   const current = await loadReminderSettings();
   await saveReminderSettings({ ...current, enabled: false });
+  await syncReminders();
+}
+
+export async function loadReminderDefaults(): Promise<ReminderDefaults> {
+  try {
+    const raw = await getProfileItem(REMINDER_DEFAULTS_KEY);
+    return normalizeReminderDefaults(raw ? JSON.parse(raw) : null);
+  } catch (error) {
+    console.warn("Failed to load reminder defaults", error);
+    return normalizeReminderDefaults(null);
+  }
+}
+
+export async function saveReminderDefaults(defaults: ReminderDefaults) {
+  await setProfileItem(REMINDER_DEFAULTS_KEY, JSON.stringify(defaults));
+  // With the daily reminder off, this may be the first time notifications are needed
+  if (Platform.OS !== "web" && Object.values(defaults).some((offsets) => offsets.length)) {
+    await requestNotificationPermission();
+  }
+  await syncReminders();
+}
+
+export async function loadNotificationRules(): Promise<NotificationRules> {
+  try {
+    const raw = await getProfileItem(NOTIFICATION_RULES_KEY);
+    return normalizeNotificationRules(raw ? JSON.parse(raw) : null);
+  } catch (error) {
+    console.warn("Failed to load notification rules", error);
+    return normalizeNotificationRules(null);
+  }
+}
+
+export async function saveNotificationRules(rules: NotificationRules) {
+  await setProfileItem(NOTIFICATION_RULES_KEY, JSON.stringify(rules));
+  await syncReminders();
+}
+
+async function cancelNotificationIds(ids: string[]) {
+  for (const id of ids) {
+    try {
+      await Notifications.cancelScheduledNotificationAsync(id);
+    } catch (error) {
+      console.warn("Failed to cancel reminder", error);
+    }
+  }
+}
+
+// Everything the app would send over the coming days, before quiet hours, grouping and the daily limit
+async function collectPendingNotifications(settings: ReminderSettings, now: Date): Promise<PendingNotification[]> {
+  const context = await buildAssistantContext();
+  const weeklyDay = await loadWeeklySummaryDay();
+  const defaults = await loadReminderDefaults();
+  const pending: PendingNotification[] = [];
+
+  // Deadline reminders don't depend on the digest being on
+  for (let offset = 0; settings.enabled && offset < DIGEST_DAYS; offset += 1) {
+    const fireAt = new Date(now.getFullYear(), now.getMonth(), now.getDate() + offset, settings.hour, settings.minute);
+    if (fireAt.getTime() <= now.getTime()) continue;
+    // Counts for later days assume today's open tasks are still open; any change reschedules them
+    const digest =
+      fireAt.getDay() === weeklyDay
+        ? composeWeeklySummary(context.tasks, fireAt)
+        : composeDailyDigest(context.tasks, offset === 0 ? context.counts : countDueTasks(context.tasks, fireAt), fireAt);
+    pending.push({ kind: "digest", fireAt, ...digest, priority: DIGEST_PRIORITY });
+  }
+
+  context.tasks.forEach((task) => {
+    planTaskReminders(task, resolveReminderOffsets(task, defaults), settings, now).forEach((reminder) => {
+      pending.push({
+        kind: "deadline",
+        fireAt: reminder.fireAt,
+        title: reminder.title,
+        body: reminder.body,
+        taskId: task.id,
+        priority: deadlinePriority(reminder.daysLeft),
+      });
+    });
+  });
+  return pending;
+}
+
+// Replaces everything scheduled with a fresh plan; the rules are applied here and only here
+async function runReminderSync() {
+  // expo-notifications can't schedule on web
+  if (Platform.OS === "web") return;
+  await cancelScheduledReminder();
+  const settings = await loadReminderSettings();
+  const permission = await Notifications.getPermissionsAsync();
+  if (!permission.granted) return;
+
+  ensureHandler();
+  await ensureTaskActionCategory();
+  const channels = { digest: await ensureAndroidChannel(), deadline: await ensureTaskReminderChannel() };
+  const now = new Date();
+  const planned = applyNotificationRules(
+    await collectPendingNotifications(settings, now),
+    await loadNotificationRules(),
+    now
+  );
+
+  const ids: string[] = [];
+  for (const entry of planned) {
+    ids.push(
+      await Notifications.scheduleNotificationAsync({
+        content: {
+          title: entry.title,
+          body: entry.body,
+          data: { kind: entry.kind, taskId: entry.taskId },
+          categoryIdentifier: entry.taskId === null ? undefined : TASK_ACTIONS_CATEGORY,
+        },
+        trigger: {
+          type: Notifications.SchedulableTriggerInputTypes.DATE,
+          date: entry.fireAt,
+          channelId: channels[entry.kind],
+        },
+      })
+    );
+  }
+  await saveScheduleIds(ids);
+  const lastDigest = planned.filter((entry) => entry.kind === "digest").pop();
+  if (lastDigest) await SecureStore.setItemAsync(DIGEST_UNTIL_KEY, String(lastDigest.fireAt.getTime()));
+}
+
+let reminderQueue: Promise<void> = Promise.resolve();
+
+// Runs one sync at a time so quick successive edits can't interleave cancel and schedule
+export function syncReminders() {
+  reminderQueue = reminderQueue.then(runReminderSync).catch((error) => console.warn("Failed to sync reminders", error));
+  return reminderQueue;
+}
+
+// Keeps deadline reminders and the daily digest in step with task edits while a user is signed in.
+// Coming back to the app also reschedules, which moves the digest horizon forward.
+export function startReminderSync() {
+  const subscription = DeviceEventEmitter.addListener(TASKS_CHANGED_EVENT, () => {
+    syncReminders();
+  });
+  const appState = AppState.addEventListener("change", (state) => {
+    if (state === "active") syncReminders();
+  });
+  syncReminders();
+  return () => {
+    subscription.remove();
+    appState.remove();
+    // Signed out: there are no tasks to keep, so this clears deadline reminders and empties the digest
+    syncReminders();
+  };
+}
+
+// Applies a notification button to its task; resolves to the task id when the
+// user asked for a focus session, which needs the router to open
+async function applyNotificationAction(response: Notifications.NotificationResponse): Promise<number | null> {
+  const { actionIdentifier, notification } = response;
+  const taskId = Number(notification.request.content.data?.taskId);
+  if (!Number.isInteger(taskId)) return null;
+
+  if (actionIdentifier === START_FOCUS_ACTION) return taskId;
+  if (actionIdentifier === MARK_DONE_ACTION) {
+    await setTaskCompleted(taskId, true);
+  } else if (actionIdentifier === SNOOZE_ACTION) {
+    const task = await getTask(taskId);
+    if (task && !task.completed) await updateTaskDueDate(taskId, snoozeDueDate(task.due_date));
+  } else {
+    return null;
+  }
+  // Android leaves the notification up after a button press
+  await Notifications.dismissNotificationAsync(notification.request.identifier);
+  return null;
+}
+
+// Handles notification buttons while a user is signed in, including the one that launched the app
+export function startNotificationActions(onStartFocus: (taskId: number) => void) {
+  if (Platform.OS === "web") return () => {};
+  const handle = (response: Notifications.NotificationResponse) => {
+    // Otherwise the launch response would be replayed after the next sign-in
+    Notifications.clearLastNotificationResponse();
+    applyNotificationAction(response)
+      .then((taskId) => {
+        if (taskId !== null) onStartFocus(taskId);
+      })
+      .catch((error) => console.warn("Failed to handle notification action", error));
+  };
+  const launchResponse = Notifications.getLastNotificationResponse();
+  if (launchResponse) handle(launchResponse);
+  const subscription = Notifications.addNotificationResponseReceivedListener(handle);
+  return () => subscription.remove();
 }
 
 export async function triggerTestNotification() {
@@ -178,11 +416,10 @@ export async function triggerTestNotification() {
       repeats: false,
     };
 
+  // Shows what today's digest would say right now
+  const context = await buildAssistantContext();
   await Notifications.scheduleNotificationAsync({
-    content: {
-      title: "Work Assessor",
-      body: "Hey! Why not get back to work.",
-    },
+    content: composeDailyDigest(context.tasks, context.counts),
     trigger,
   });
   return true;
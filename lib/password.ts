@@ -0,0 +1,12 @@
+import * as Crypto from "expo-crypto";
+
+import { hashPasswordWithSalt } from "@/utils/passwordHash";
+
+const SALT_BYTES = 16;
+
+// Fresh random salt per password; the salt and iteration count travel inside the stored string
+export function hashPassword(password: string) {
+  return hashPasswordWithSalt(password, Crypto.getRandomBytes(SALT_BYTES));
+}
+
+export { checkPassword } from "@/utils/passwordHash";
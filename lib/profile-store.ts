@@ -0,0 +1,107 @@
+import { DeviceEventEmitter } from "react-native";
+
+import * as SecureStore from "@/lib/secure-store";
+
+// Settings that belong to one profile (PIN, theme, reminders...) are stored under
+// "<key>_p<profile id>". The active id is kept here as well as in the database so the
+// theme, which loads before the database opens, can find the right keys on launch.
+const ACTIVE_PROFILE_KEY = "active_profile_id";
+// The profile that inherits settings saved before profiles existed
+const LEGACY_OWNER_KEY = "profile_settings_owner";
+// SecureStore can't list keys, so each profile keeps a list of the ones it has written
+const KEY_INDEX_KEY = "profile_keys";
+
+export const PROFILE_CHANGED_EVENT = "profile-changed";
+
+// Undefined until first read from storage
+let activeProfileId: number | null | undefined;
+
+function parseId(raw: string | null) {
+  const id = raw === null ? Number.NaN : Number.parseInt(raw, 10);
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+function scopedKey(key: string, profileId: number) {
+  return `${key}_p${profileId}`;
+}
+
+async function loadKeyIndex(profileId: number): Promise<string[]> {
+  try {
+    const parsed = JSON.parse((await SecureStore.getItemAsync(scopedKey(KEY_INDEX_KEY, profileId))) ?? "[]");
+    return Array.isArray(parsed) ? parsed.filter((key): key is string => typeof key === "string") : [];
+  } catch {
+    return [];
+  }
+}
+
+async function writeScoped(profileId: number, key: string, value: string) {
+  await SecureStore.setItemAsync(scopedKey(key, profileId), value);
+  const index = await loadKeyIndex(profileId);
+  if (!index.includes(key)) {
+    await SecureStore.setItemAsync(scopedKey(KEY_INDEX_KEY, profileId), JSON.stringify([...index, key]));
+  }
+}
+
+export async function getActiveProfileId() {
+  if (activeProfileId === undefined) {
+    activeProfileId = parseId(await SecureStore.getItemAsync(ACTIVE_PROFILE_KEY));
+  }
+  return activeProfileId;
+}
+
+// Called by the database whenever the session moves to another user
+export async function setActiveProfileId(profileId: number) {
+  if ((await getActiveProfileId()) === profileId) return;
+  activeProfileId = profileId;
+  await SecureStore.setItemAsync(ACTIVE_PROFILE_KEY, String(profileId));
+  if (!(await SecureStore.getItemAsync(LEGACY_OWNER_KEY))) {
+    await SecureStore.setItemAsync(LEGACY_OWNER_KEY, String(profileId));
+  }
+  DeviceEventEmitter.emit(PROFILE_CHANGED_EVENT, profileId);
+}
+
+export function onProfileChanged(listener: (profileId: number) => void) {
+  const subscription = DeviceEventEmitter.addListener(PROFILE_CHANGED_EVENT, listener);
+  return () => subscription.remove();
+}
+
+export async function getProfileItem(key: string) {
+  const profileId = await getActiveProfileId();
+  if (profileId === null) return null;
+  const value = await SecureStore.getItemAsync(scopedKey(key, profileId));
+  if (value !== null) return value;
+
+  // Move a device-wide value from an older build over to the profile that owned it
+  if (parseId(await SecureStore.getItemAsync(LEGACY_OWNER_KEY)) !== profileId) return null;
+  const legacy = await SecureStore.getItemAsync(key);
+  if (legacy !== null) {
+    await writeScoped(profileId, key, legacy);
+    await SecureStore.deleteItemAsync(key);
+  }
+  return legacy;
+}
+
+export async function setProfileItem(key: string, value: string) {
+  const profileId = await getActiveProfileId();
+  if (profileId === null) throw new Error("No active user session");
+  await writeScoped(profileId, key, value);
+}
+
+export async function deleteProfileItem(key: string) {
+  const profileId = await getActiveProfileId();
+  if (profileId === null) return;
+  await SecureStore.deleteItemAsync(scopedKey(key, profileId));
+  if (parseId(await SecureStore.getItemAsync(LEGACY_OWNER_KEY)) === profileId) {
+    await SecureStore.deleteItemAsync(key);
+  }
+}
+
+// Removes every setting a deleted profile left behind
+export async function deleteProfileData(profileId: number) {
+  const ownsLegacy = parseId(await SecureStore.getItemAsync(LEGACY_OWNER_KEY)) === profileId;
+  for (const key of await loadKeyIndex(profileId)) {
+    await SecureStore.deleteItemAsync(scopedKey(key, profileId));
+    if (ownsLegacy) await SecureStore.deleteItemAsync(key);
+  }
+  await SecureStore.deleteItemAsync(scopedKey(KEY_INDEX_KEY, profileId));
+}
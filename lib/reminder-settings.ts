@@ -0,0 +1,41 @@
+import { getProfileItem, setProfileItem } from "@/lib/profile-store";
+
+// Kept apart from lib/notifications so the assistant context can read these
+// without importing the scheduler, which itself builds on that context.
+export type ReminderSettings = {
+  enabled: boolean;
+  hour: number;
+  minute: number;
+};
+
+const ENABLED_KEY = "reminder_enabled";
+const TIME_KEY = "reminder_time";
+
+export const DEFAULT_REMINDER_TIME = { hour: 9, minute: 0 };
+
+function pad(n: number) {
+  return String(n).padStart(2, "0");
+}
+
+function parseTime(raw: string | null): { hour: number; minute: number } | null {
+  if (!raw) return null;
+  const [h, m] = raw.split(":").map((v) => Number.parseInt(v, 10));
+  if (Number.isNaN(h) || Number.isNaN(m)) return null;
+  return { hour: Math.max(0, Math.min(23, h)), minute: Math.max(0, Math.min(59, m)) };
+}
+
+export async function loadReminderSettings(): Promise<ReminderSettings> {
+  const enabledRaw = await getProfileItem(ENABLED_KEY);
+  const timeRaw = await getProfileItem(TIME_KEY);
+  const parsedTime = parseTime(timeRaw);
+  return {
+    enabled: enabledRaw === "true",
+    hour: parsedTime?.hour ?? DEFAULT_REMINDER_TIME.hour,
+    minute: parsedTime?.minute ?? DEFAULT_REMINDER_TIME.minute,
+  };
+}
+
+export async function saveReminderSettings(settings: ReminderSettings) {
+  await setProfileItem(ENABLED_KEY, settings.enabled ? "true" : "false");
+  await setProfileItem(TIME_KEY, `${pad(settings.hour)}:${pad(settings.minute)}`);
+}
@@ -0,0 +1,23 @@
+import { getProfileItem, setProfileItem } from "@/lib/profile-store";
+import { DEFAULT_SCHEDULE_SETTINGS, normalizeScheduleSettings, type ScheduleSettings } from "@/utils/scheduler";
+
+const SCHEDULE_SETTINGS_KEY = "schedule_settings_v1";
+
+export async function loadScheduleSettings(): Promise<ScheduleSettings> {
+  try {
+    const raw = await getProfileItem(SCHEDULE_SETTINGS_KEY);
+    if (!raw) return normalizeScheduleSettings(DEFAULT_SCHEDULE_SETTINGS);
+    return normalizeScheduleSettings(JSON.parse(raw));
+  } catch (error) {
+    console.warn("Failed to load schedule settings", error);
+    return normalizeScheduleSettings(DEFAULT_SCHEDULE_SETTINGS);
+  }
+}
+
+export async function saveScheduleSettings(settings: ScheduleSettings) {
+  try {
+    await setProfileItem(SCHEDULE_SETTINGS_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.warn("Failed to save schedule settings", error);
+  }
+}
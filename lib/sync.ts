@@ -0,0 +1,139 @@
+import * as Crypto from "expo-crypto";
+
+import {
+  addSyncConflicts,
+  applySyncRows,
+  deleteSyncConflict,
+  getActiveUser,
+  getSyncConflicts,
+  getSyncSnapshot,
+  restoreSyncedTask,
+  saveSyncMappings,
+  setSyncedTaskField,
+} from "@/lib/database";
+import { deleteProfileItem, getProfileItem, setProfileItem } from "@/lib/profile-store";
+import * as SecureStore from "@/lib/secure-store";
+import { collectLocalChanges, type PullResult, type PushResult, type SyncConflict } from "@/utils/syncProtocol";
+
+// Device-wide: every profile on this device writes with the same clock id
+const DEVICE_ID_KEY = "sync_device_id";
+const SERVER_URL_KEY = "sync_server_url";
+const TOKEN_KEY = "sync_token";
+// Server version this profile has pulled up to
+const CURSOR_KEY = "sync_cursor";
+// Where conflicts used to be kept before they moved into the database
+const LEGACY_CONFLICTS_KEY = "sync_conflicts_v1";
+
+export type SyncSettings = { serverUrl: string; token: string };
+
+export type SyncSummary = { pushed: number; pulled: number; conflicts: number };
+
+async function getDeviceId() {
+  const existing = await SecureStore.getItemAsync(DEVICE_ID_KEY);
+  if (existing) return existing;
+  const created = Crypto.randomUUID();
+  await SecureStore.setItemAsync(DEVICE_ID_KEY, created);
+  return created;
+}
+
+export async function loadSyncSettings(): Promise<SyncSettings> {
+  return {
+    serverUrl: (await getProfileItem(SERVER_URL_KEY)) ?? "",
+    token: (await getProfileItem(TOKEN_KEY)) ?? "",
+  };
+}
+
+export async function saveSyncSettings(settings: SyncSettings) {
+  const serverUrl = settings.serverUrl.trim().replace(/\/+$/, "");
+  if (serverUrl && !/^https?:\/\//i.test(serverUrl)) {
+    throw new Error("The server address should start with http:// or https://.");
+  }
+  const previous = await getProfileItem(SERVER_URL_KEY);
+  await setProfileItem(SERVER_URL_KEY, serverUrl);
+  await setProfileItem(TOKEN_KEY, settings.token.trim());
+  // A different server has its own version numbers, so start again from the beginning
+  if (previous !== serverUrl) await deleteProfileItem(CURSOR_KEY);
+}
+
+// Conflicts live in the database; secure storage is too small for a long list on Android
+async function moveLegacyConflicts() {
+  const stored = await getProfileItem(LEGACY_CONFLICTS_KEY);
+  if (stored === null) return;
+  try {
+    const parsed = JSON.parse(stored);
+    if (Array.isArray(parsed)) await addSyncConflicts(parsed);
+  } catch {
+    // Unreadable leftovers are dropped
+  }
+  await deleteProfileItem(LEGACY_CONFLICTS_KEY);
+}
+
+export async function loadSyncConflicts(): Promise<SyncConflict[]> {
+  await moveLegacyConflicts();
+  return getSyncConflicts();
+}
+
+async function request<T>(settings: SyncSettings, path: string, body?: unknown): Promise<T> {
+  let response: Response;
+  try {
+    response = await fetch(`${settings.serverUrl}${path}`, {
+      method: body === undefined ? "GET" : "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "x-sync-token": settings.token,
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+  } catch {
+    throw new Error("Couldn't reach the sync server. Check the address and that it's running.");
+  }
+  if (response.status === 401) throw new Error("The sync server didn't accept the token.");
+  if (!response.ok) throw new Error(`The sync server returned ${response.status}.`);
+  return (await response.json()) as T;
+}
+
+// Pushes local changes, then pulls everything newer than the cursor. The account is the
+// signed-in email, so the same account on the phone and the web build shares its tasks.
+export async function syncNow(): Promise<SyncSummary> {
+  const settings = await loadSyncSettings();
+  if (!settings.serverUrl) throw new Error("Add a sync server address first.");
+  if (!settings.token) throw new Error("Add the sync server's token first.");
+  const user = await getActiveUser();
+  if (!user) throw new Error("No active user session");
+  if (user.provider !== "email") throw new Error("Sync needs an email account, so each device can find your tasks.");
+
+  const device = await getDeviceId();
+  const { tasks, shadow } = await getSyncSnapshot();
+  const { changes, created } = collectLocalChanges(tasks, shadow, Date.now(), () => Crypto.randomUUID());
+
+  const pushed = changes.length
+    ? await request<PushResult>(settings, "/push", { account: user.email, device, changes })
+    : { accepted: [], conflicts: [] };
+  await saveSyncMappings(created);
+
+  const since = Number((await getProfileItem(CURSOR_KEY)) ?? 0) || 0;
+  const pulled = await request<PullResult>(
+    settings,
+    `/pull?account=${encodeURIComponent(user.email)}&since=${since}`
+  );
+  await applySyncRows(pulled.rows);
+  await setProfileItem(CURSOR_KEY, String(pulled.cursor));
+
+  await addSyncConflicts(pushed.conflicts);
+  return { pushed: changes.length, pulled: pulled.rows.length, conflicts: pushed.conflicts.length };
+}
+
+export async function dismissSyncConflict(conflict: SyncConflict) {
+  await deleteSyncConflict(conflict);
+}
+
+// Takes the losing side instead: the discarded value goes back on the task, or a deleted task
+// is recreated. The change syncs out like any other edit on the next sync.
+export async function resolveSyncConflict(conflict: SyncConflict) {
+  if (conflict.field === "deleted") {
+    if (conflict.restore) await restoreSyncedTask(conflict.restore);
+  } else if (!(await setSyncedTaskField(conflict.uid, conflict.field, conflict.discarded))) {
+    throw new Error("That task has since been deleted.");
+  }
+  await dismissSyncConflict(conflict);
+}
@@ -0,0 +1,12 @@
+import { DeviceEventEmitter } from "react-native";
+
+export const TASKS_CHANGED_EVENT = "tasks-changed";
+
+// "all" after bulk changes (imports, clears) where listing ids isn't worth it
+export type TasksChangedPayload = {
+  ids: number[] | "all";
+};
+
+export function emitTasksChanged(ids: number[] | "all") {
+  DeviceEventEmitter.emit(TASKS_CHANGED_EVENT, { ids } as TasksChangedPayload);
+}
@@ -0,0 +1,25 @@
+import { purgeTrashedTasks } from "@/lib/database";
+import { getProfileItem, setProfileItem } from "@/lib/profile-store";
+import {
+  DEFAULT_TRASH_RETENTION_DAYS,
+  isTrashRetentionDays,
+  trashPurgeCutoff,
+  type TrashRetentionDays,
+} from "@/utils/trash";
+
+const RETENTION_KEY = "trash_retention_days";
+
+export async function loadTrashRetentionDays(): Promise<TrashRetentionDays> {
+  const stored = Number((await getProfileItem(RETENTION_KEY)) ?? Number.NaN);
+  return isTrashRetentionDays(stored) ? stored : DEFAULT_TRASH_RETENTION_DAYS;
+}
+
+export async function saveTrashRetentionDays(days: TrashRetentionDays) {
+  await setProfileItem(RETENTION_KEY, String(days));
+}
+
+// Run on sign-in and when the Trash opens; there is no background job to do it
+export async function purgeExpiredTrash() {
+  const days = await loadTrashRetentionDays();
+  return purgeTrashedTasks(trashPurgeCutoff(days, Date.now()));
+}
@@ -64,3 +64,7 @@ export function isConfirmation(text: string) {
 export function isCancellation(text: string) {
   return /^(no|nah|nope|cancel|stop|wait|hold on|not now|skip|forget it|never mind|nevermind)/i.test(text.trim());
 }
+
+export function isUndoRequest(text: string) {
+  return /^(undo|take (that|it) back|revert (that|it|the last)|put (that|it|them) back)\b/i.test(text.trim());
+}
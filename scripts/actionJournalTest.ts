@@ -0,0 +1,86 @@
+import assert from "node:assert/strict";
+import {
+  appendBatch,
+  describeChange,
+  JOURNAL_LIMIT,
+  revertEdit,
+  snapshotTask,
+  undoOrder,
+  type JournalBatch,
+} from "@/utils/actionJournal";
+
+function batch(id: number, steps: JournalBatch["steps"]): JournalBatch {
+  return { id, label: `Batch ${id}`, at: id * 1000, steps };
+}
+
+function run() {
+  // 1) Empty batches are dropped and the journal keeps only the most recent ones.
+  let journal: JournalBatch[] = [];
+  journal = appendBatch(journal, batch(1, []));
+  assert.equal(journal.length, 0);
+  for (let id = 1; id <= JOURNAL_LIMIT + 3; id += 1) {
+    journal = appendBatch(journal, batch(id, [{ kind: "delete", taskId: id }]));
+  }
+  assert.equal(journal.length, JOURNAL_LIMIT);
+  assert.equal(journal[0].id, 4);
+  assert.equal(journal[journal.length - 1].id, JOURNAL_LIMIT + 3);
+
+  // 2) Steps revert newest first, so moving a task twice restores its first date.
+  const moved = batch(9, [
+    { kind: "due_date", taskId: 5, before: "2026-03-10" },
+    { kind: "due_date", taskId: 5, before: "2026-03-11" },
+  ]);
+  const order = undoOrder(moved);
+  assert.deepEqual(
+    order.map((step) => (step.kind === "due_date" ? step.before : null)),
+    ["2026-03-11", "2026-03-10"]
+  );
+  assert.equal(moved.steps[0].kind === "due_date" && moved.steps[0].before, "2026-03-10");
+
+  // 3) Snapshots keep only the editable fields.
+  const task = {
+    id: 3,
+    title: "Essay",
+    notes: null,
+    difficulty: "hard",
+    due_date: "2026-03-12",
+    priority: "high",
+    category: "coursework",
+    estimated_minutes: 90,
+    reminder_offsets: null,
+    course_id: 2,
+    assessment_weight: 40,
+    grade: null,
+    completed: 0,
+  } as const;
+  const snapshot = snapshotTask(task);
+  assert.equal("id" in snapshot, false);
+  assert.equal("completed" in snapshot, false);
+  assert.equal(snapshot.estimated_minutes, 90);
+  assert.equal(snapshot.course_id, 2);
+  // Rows from before courses and grades snapshot as "none"
+  const { course_id: _course, assessment_weight: _weight, grade: _grade, ...olderRow } = task;
+  assert.deepEqual(
+    [snapshotTask(olderRow).course_id, snapshotTask(olderRow).assessment_weight, snapshotTask(olderRow).grade],
+    [null, null, null]
+  );
+
+  // 4) Undoing a grade edit writes back the grade, weight and course it replaced.
+  const graded = { ...task, grade: 72.5, assessment_weight: 30, course_id: 5 };
+  const revert = revertEdit(task.id, snapshot);
+  assert.deepEqual(
+    [revert.grade, revert.assessment_weight, revert.course_id],
+    [null, 40, 2]
+  );
+  assert.notDeepEqual(snapshotTask(graded), snapshot);
+  assert.equal(revert.title, "Essay");
+  assert.equal(revert.notes, "");
+
+  // 5) Labels read naturally for one task or several.
+  assert.equal(describeChange("Moved", 1), "Moved 1 task");
+  assert.equal(describeChange("Deleted", 3), "Deleted 3 tasks");
+
+  console.log("actionJournalTest: all assertions passed");
+}
+
+run();
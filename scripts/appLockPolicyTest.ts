@@ -0,0 +1,70 @@
+import assert from "node:assert/strict";
+import {
+  APP_LOCK_LOCKOUT_MS,
+  APP_LOCK_MAX_ATTEMPTS,
+  APP_LOCK_MAX_LOCKOUT_MS,
+  DEFAULT_AUTO_LOCK,
+  formatLockoutWait,
+  isAutoLockSetting,
+  lockoutDurationMs,
+  registerFailedUnlock,
+  shouldLockOnResume,
+  type FailedUnlockState,
+} from "@/utils/appLockPolicy";
+
+const start = 1_000_000;
+
+function failTimes(state: FailedUnlockState, count: number, now: number) {
+  let next = state;
+  for (let i = 0; i < count; i++) next = registerFailedUnlock(next, now);
+  return next;
+}
+
+function run() {
+  // 1) Wrong PINs count up until the limit, then lock for the base time.
+  const fresh: FailedUnlockState = { attempts: 0, lockouts: 0, lockoutUntil: null };
+  assert.deepEqual(failTimes(fresh, APP_LOCK_MAX_ATTEMPTS - 1, start), {
+    attempts: APP_LOCK_MAX_ATTEMPTS - 1,
+    lockouts: 0,
+    lockoutUntil: null,
+  });
+  const first = failTimes(fresh, APP_LOCK_MAX_ATTEMPTS, start);
+  assert.deepEqual(first, { attempts: 0, lockouts: 1, lockoutUntil: start + APP_LOCK_LOCKOUT_MS });
+
+  // 2) Tries during a lockout change nothing.
+  assert.deepEqual(registerFailedUnlock(first, start + 1000), first);
+
+  // 3) Each later lockout doubles.
+  const afterFirst = start + APP_LOCK_LOCKOUT_MS;
+  const second = failTimes(first, APP_LOCK_MAX_ATTEMPTS, afterFirst);
+  assert.equal(second.lockouts, 2);
+  assert.equal(second.lockoutUntil, afterFirst + APP_LOCK_LOCKOUT_MS * 2);
+  assert.equal(lockoutDurationMs(3), APP_LOCK_LOCKOUT_MS * 4);
+
+  // 4) ...up to the cap.
+  assert.equal(lockoutDurationMs(40), APP_LOCK_MAX_LOCKOUT_MS);
+
+  // 5) Waits read naturally at every scale.
+  assert.equal(formatLockoutWait(29_200), "30s");
+  assert.equal(formatLockoutWait(4 * 60_000), "4m");
+  assert.equal(formatLockoutWait(APP_LOCK_MAX_LOCKOUT_MS), "1h");
+
+  // 6) Auto-lock relocks once the background time reaches the setting.
+  assert.equal(shouldLockOnResume("immediately", start, start), true);
+  assert.equal(shouldLockOnResume("5m", start, start + 4 * 60_000), false);
+  assert.equal(shouldLockOnResume("5m", start, start + 5 * 60_000), true);
+  assert.equal(shouldLockOnResume("cold-start", start, start + 24 * 60 * 60_000), false);
+  assert.equal(shouldLockOnResume("1m", null, start), false);
+
+  // 7) Unknown stored values fall back to the default.
+  assert.equal(isAutoLockSetting("15m"), true);
+  assert.equal(isAutoLockSetting("2m"), false);
+  // Inherited keys of the lookup object aren't settings
+  assert.equal(isAutoLockSetting("toString"), false);
+  assert.equal(isAutoLockSetting("constructor"), false);
+  assert.equal(DEFAULT_AUTO_LOCK, "cold-start");
+
+  console.log("appLockPolicyTest: all assertions passed");
+}
+
+run();
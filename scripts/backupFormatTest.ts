@@ -0,0 +1,214 @@
+import assert from "node:assert/strict";
+import {
+  BACKUP_VERSION,
+  buildBackup,
+  describeBackup,
+  findBackupConflicts,
+  parseBackup,
+  replacedTaskIds,
+  restoredPrerequisites,
+  taskFingerprint,
+} from "@/utils/backupFormat";
+
+function run() {
+  const backup = buildBackup(
+    {
+      user: { name: "Sam", email: "sam@example.com", provider: "email", created_at: "2026-01-01 09:00:00" },
+      data: {
+        tasks: [
+          {
+            id: 4,
+            title: "Essay draft",
+            subject: null,
+            difficulty: "hard",
+            priority: "high",
+            category: "coursework",
+            due_date: "2026-03-10",
+            notes: "Intro first",
+            completed: 0,
+            created_at: "2026-03-01 10:00:00",
+            recurrence_id: null,
+            occurrence: null,
+            ical_uid: null,
+            estimated_minutes: 120,
+            reminder_offsets: "day_before,morning_of",
+            assessment_weight: 40,
+            grade: 72.5,
+            prerequisite_ids: [],
+            tags: ["group-project", "lab"],
+            subtasks: [{ title: "Outline", completed: 1, position: 0 }],
+          },
+          {
+            id: 7,
+            title: "Weekly quiz",
+            subject: "Algorithms",
+            difficulty: "easy",
+            priority: "normal",
+            category: "revision",
+            due_date: "2026-03-09",
+            notes: null,
+            completed: 0,
+            created_at: "2026-03-02 10:00:00",
+            recurrence_id: 2,
+            occurrence: 3,
+            ical_uid: "lecture-42@uni.example",
+            estimated_minutes: null,
+            reminder_offsets: null,
+            assessment_weight: null,
+            grade: null,
+            prerequisite_ids: [4],
+            tags: [],
+            subtasks: [],
+          },
+        ],
+        recurrences: [{ id: 2, rule: "FREQ=WEEKLY;INTERVAL=1;BYDAY=MO", created_at: null }],
+        courses: [
+          {
+            name: "Algorithms",
+            code: "CS101",
+            color: "#0A84FF",
+            term: "Spring 2026",
+            credit_weight: 7.5,
+            exam_date: "2026-05-20",
+          },
+        ],
+        tags: [
+          { name: "group-project", color: "#FF9F0A" },
+          { name: "lab", color: "#34C759" },
+        ],
+      },
+      nav_quick_actions: { home: "new_task" },
+      settings: { reminder: { enabled: true, hour: 8, minute: 30 }, theme_override: "dark", accent_theme: "teal" },
+      focus_snapshot: null,
+    },
+    new Date("2026-03-04T12:00:00Z")
+  );
+
+  // 1) Export round-trips through JSON unchanged.
+  const restored = parseBackup(JSON.stringify(backup));
+  assert.deepEqual(restored, backup);
+  assert.equal(restored.version, BACKUP_VERSION);
+
+  // 2) Wrong format, bad JSON and newer versions are rejected with readable messages.
+  assert.throws(() => parseBackup("not json"), /valid JSON/);
+  assert.throws(() => parseBackup(JSON.stringify({ format: "other", version: 1 })), /isn't a Workload backup/);
+  assert.throws(
+    () => parseBackup(JSON.stringify({ ...backup, version: BACKUP_VERSION + 1 })),
+    /newer version of the app/
+  );
+  assert.throws(() => parseBackup(JSON.stringify({ ...backup, data: {} })), /no task list/);
+
+  // 3) Secrets and unknown values are dropped; dangling series links become one-offs.
+  const loose = parseBackup(
+    JSON.stringify({
+      ...backup,
+      user: { ...backup.user, password: "hunter2" },
+      data: {
+        tasks: [
+          {
+            ...backup.data.tasks[1],
+            difficulty: "extreme",
+            recurrence_id: 99,
+            assessment_weight: 0,
+            grade: 140,
+            prerequisite_ids: [4, 7, "x", 7],
+            tags: [" #Big Essay ", 5, "big-essay"],
+          },
+        ],
+        recurrences: [],
+        courses: [{ name: " ", color: "#0A84FF" }, { name: "Art", credit_weight: -2, exam_date: "soon" }],
+        tags: [{ name: "#Exam Prep", color: "red" }, { name: "exam-prep", color: "#34C759" }, { name: " " }],
+      },
+      settings: { reminder: { enabled: true, hour: 30, minute: 0 }, theme_override: "sepia" },
+    })
+  );
+  assert.equal("password" in (loose.user ?? {}), false);
+  assert.equal(loose.data.tasks[0].difficulty, null);
+  assert.equal(loose.data.tasks[0].recurrence_id, null);
+  assert.equal(loose.data.tasks[0].occurrence, null);
+  assert.equal(loose.data.tasks[0].assessment_weight, null);
+  assert.equal(loose.data.tasks[0].grade, null);
+  // Links to itself or to tasks missing from the file are dropped
+  assert.deepEqual(loose.data.tasks[0].prerequisite_ids, []);
+  // Tag names are normalised like everywhere else; unknown colours are left for restore to pick
+  assert.deepEqual(loose.data.tasks[0].tags, ["big-essay"]);
+  assert.deepEqual(loose.data.tags, [{ name: "exam-prep", color: "" }]);
+  assert.deepEqual(loose.settings, { reminder: null, theme_override: null, accent_theme: null });
+  assert.deepEqual(loose.data.courses, [
+    { name: "Art", code: null, color: "", term: null, credit_weight: null, exam_date: null },
+  ]);
+  // Backups from before courses restore with none
+  const { courses: _courses, ...oldData } = backup.data;
+  assert.deepEqual(parseBackup(JSON.stringify({ ...backup, data: oldData })).data.courses, []);
+
+  // v1 files had no prerequisites and v2 files no tags; they are upgraded on the way in
+  const v1 = parseBackup(JSON.stringify({ ...backup, version: 1 }));
+  assert.equal(v1.version, 1);
+  assert.deepEqual(
+    v1.data.tasks.map((task) => [task.prerequisite_ids, task.tags]),
+    [
+      [[], []],
+      [[], []],
+    ]
+  );
+  assert.deepEqual(v1.data.tags, []);
+  const v2 = parseBackup(JSON.stringify({ ...backup, version: 2 }));
+  assert.deepEqual(
+    v2.data.tasks.map((task) => [task.prerequisite_ids, task.tags]),
+    [
+      [[], []],
+      [[4], []],
+    ]
+  );
+
+  // 4) Prerequisites are re-linked to local rows, skipping links that touch no new row.
+  assert.deepEqual(restoredPrerequisites(restored.data.tasks, new Map([[4, 40], [7, 70]]), new Set([70])), [
+    { task_id: 70, prerequisite_id: 40 },
+  ]);
+  assert.deepEqual(restoredPrerequisites(restored.data.tasks, new Map([[4, 40], [7, 70]]), new Set()), []);
+  assert.deepEqual(restoredPrerequisites(restored.data.tasks, new Map([[7, 70]]), new Set([70])), []);
+
+  // 4b) Tasks wiped by a replace map to their restored copies, whatever their ids were.
+  const wiped = [
+    { id: 7, title: "essay draft", due_date: "2026-03-10", created_at: "2026-03-01 10:00:00" },
+    { id: 9, title: "Weekly quiz", due_date: "2026-03-09", created_at: "2026-03-02 10:00:00" },
+    { id: 12, title: "Not in the file", due_date: null, created_at: null },
+  ];
+  assert.deepEqual(
+    [...replacedTaskIds(wiped, restored.data.tasks, new Map([[4, 40], [7, 70]]))],
+    [
+      [7, 40],
+      [9, 70],
+    ]
+  );
+  assert.equal(replacedTaskIds(wiped, restored.data.tasks, new Map([[7, 70]])).size, 1);
+
+  // 5) Conflicts: other account, duplicate tasks and differing settings.
+  const conflicts = findBackupConflicts(restored, {
+    email: "guest@local",
+    tasks: [{ title: " essay DRAFT ", due_date: "2026-03-10", created_at: "2026-03-01 10:00:00" }],
+    settings: { reminder: { enabled: true, hour: 8, minute: 30 }, theme_override: null, accent_theme: "teal" },
+  });
+  assert.deepEqual(
+    conflicts.map((c) => c.kind),
+    ["account", "duplicates", "settings"]
+  );
+  assert.match(conflicts[1].message, /^1 task is already/);
+
+  const none = findBackupConflicts(restored, {
+    email: "SAM@example.com",
+    tasks: [],
+    settings: restored.settings,
+  });
+  assert.deepEqual(none, []);
+
+  assert.equal(
+    taskFingerprint({ title: "Essay draft", due_date: null, created_at: null }),
+    taskFingerprint({ title: "essay draft ", due_date: null, created_at: null })
+  );
+  assert.match(describeBackup(restored), /^2 tasks · 1 repeating series · 1 course · 2 tags · exported /);
+
+  console.log("backupFormatTest: all assertions passed");
+}
+
+run();
@@ -0,0 +1,98 @@
+import assert from "node:assert/strict";
+import {
+  COURSE_COLORS,
+  courseLabel,
+  courseToForm,
+  describeExam,
+  emptyCourseForm,
+  findCourse,
+  normalizeCourseCode,
+  readCourseForm,
+  summarizeCourses,
+  type Course,
+} from "@/utils/courses";
+
+function course(id: number, name: string, patch: Partial<Course> = {}): Course {
+  return { id, name, code: null, color: COURSE_COLORS[0], term: null, credit_weight: null, exam_date: null, ...patch };
+}
+
+function run() {
+  const courses = [
+    course(1, "Algorithms", { code: "CS101", credit_weight: 20 }),
+    course(2, "Linear Algebra", { code: "MA201", exam_date: "2026-11-02" }),
+    course(3, "History", { credit_weight: 10 }),
+  ];
+
+  // 1) Codes are tidied and shown before the name.
+  assert.equal(normalizeCourseCode(" cs 101 "), "CS101");
+  assert.equal(courseLabel(courses[0]), "CS101 · Algorithms");
+  assert.equal(courseLabel(courses[2]), "History");
+
+  // 2) Loose subject strings find their course by name first, then by code.
+  assert.equal(findCourse(courses, " algorithms ")?.id, 1);
+  assert.equal(findCourse(courses, "ma201")?.id, 2);
+  assert.equal(findCourse(courses, "Art"), null);
+  assert.equal(findCourse(courses, ""), null);
+
+  // 3) The form is trimmed, checked and turned into a course.
+  const draft = readCourseForm(
+    { name: "  Data   Science ", code: "ds 300", color: COURSE_COLORS[2], term: " Spring ", credit_weight: "7,5", exam_date: "2027-01-15" },
+    courses
+  );
+  assert.deepEqual(draft, {
+    name: "Data Science",
+    code: "DS300",
+    color: COURSE_COLORS[2],
+    term: "Spring",
+    credit_weight: 7.5,
+    exam_date: "2027-01-15",
+  });
+  assert.throws(() => readCourseForm({ ...emptyCourseForm(), name: " " }, courses), /name/);
+  assert.throws(() => readCourseForm({ ...emptyCourseForm(), name: "history" }, courses), /already have a course/);
+  assert.throws(() => readCourseForm({ ...emptyCourseForm(), name: "New", code: "cs101" }, courses), /code CS101/);
+  assert.throws(() => readCourseForm({ ...emptyCourseForm(), name: "New", credit_weight: "lots" }, courses), /Credit weight/);
+  // Saving a course unchanged isn't a clash with itself
+  assert.equal(readCourseForm(courseToForm(courses[0]), courses, 1).name, "Algorithms");
+  assert.equal(readCourseForm({ ...emptyCourseForm(), name: "Art", color: "red" }, courses).color, COURSE_COLORS[0]);
+  assert.equal(emptyCourseForm(courses).color, COURSE_COLORS[1]);
+
+  // 4) Exams count down and go quiet once they are past.
+  assert.equal(describeExam("2026-11-02", "2026-10-19"), "Exam in 14 days");
+  assert.equal(describeExam("2026-10-20", "2026-10-19"), "Exam tomorrow");
+  assert.equal(describeExam("2026-10-19", "2026-10-19"), "Exam today");
+  assert.equal(describeExam("2026-10-01", "2026-10-19"), null);
+  assert.equal(describeExam(null, "2026-10-19"), null);
+
+  // 5) Summaries: open work first, nearest exam, then heavier course; no course last.
+  const tasks = [
+    { course_id: 1, completed: 0, due_date: "2026-10-18", minutes: 60 },
+    { course_id: 1, completed: 0, due_date: "2026-10-25", minutes: 30 },
+    { course_id: 1, completed: 1, due_date: "2026-10-10", minutes: 45 },
+    { course_id: 2, completed: 0, due_date: null, minutes: 90 },
+    { course_id: null, completed: 0, due_date: "2026-10-20", minutes: 15 },
+    { course_id: 99, completed: 1, due_date: null, minutes: 15 },
+  ];
+  const summaries = summarizeCourses(tasks, courses, "2026-10-19", (task) => task.minutes);
+  assert.deepEqual(
+    summaries.map((summary) => summary.course?.name ?? null),
+    ["Linear Algebra", "Algorithms", "History", null]
+  );
+  const algorithms = summaries[1];
+  assert.equal(algorithms.open, 2);
+  assert.equal(algorithms.overdue, 1);
+  assert.equal(algorithms.done, 1);
+  assert.equal(algorithms.minutesLeft, 90);
+  assert.equal(algorithms.nextDue, "2026-10-25");
+  assert.equal(summaries[0].daysToExam, 14);
+  // Unknown course ids count as no course
+  assert.equal(summaries[3].open, 1);
+  assert.equal(summaries[3].done, 1);
+  assert.deepEqual(
+    summarizeCourses([], courses, "2026-10-19").map((summary) => summary.course?.id),
+    [2, 1, 3]
+  );
+
+  console.log("coursesTest: all assertions passed");
+}
+
+run();
@@ -0,0 +1,85 @@
+import assert from "node:assert/strict";
+import { guessColumnMapping, isValidISODate, mapCSVRows, parseCSV, tasksToCSV } from "@/utils/csv";
+
+function run() {
+  // 1) Quoted fields keep commas, doubled quotes and line breaks.
+  const rows = parseCSV('Module,Assessment,Deadline,Notes\r\nCS101,"Essay, part 1",2026-03-14,"Say ""hi""\nthen go"\n');
+  assert.deepEqual(rows, [
+    ["Module", "Assessment", "Deadline", "Notes"],
+    ["CS101", "Essay, part 1", "2026-03-14", 'Say "hi"\nthen go'],
+  ]);
+
+  // 2) Semicolon exports (European Excel) are detected from the header line.
+  assert.deepEqual(parseCSV("title;due_date\nLab report;2026-04-01"), [
+    ["title", "due_date"],
+    ["Lab report", "2026-04-01"],
+  ]);
+
+  // 3) Headers map onto task fields by common names.
+  assert.deepEqual(guessColumnMapping(rows[0]), {
+    title: 1,
+    subject: 0,
+    difficulty: null,
+    priority: null,
+    category: null,
+    due_date: 2,
+    notes: 3,
+  });
+  assert.equal(guessColumnMapping(["Foo", "Bar"]).title, 0);
+
+  // 4) Dates must be real YYYY-MM-DD dates; bad rows are reported with their row number.
+  assert.equal(isValidISODate("2026-02-29"), false);
+  assert.equal(isValidISODate("2028-02-29"), true);
+  const sheet = parseCSV(
+    [
+      "title,difficulty,priority,category,due_date",
+      "Essay,High,urgent,Coursework,2026-03-14",
+      ",easy,,,2026-03-15",
+      "Quiz,easy,,,14/03/2026",
+      "Poster,extreme,,,",
+      "Reading,,,,",
+      "Group work,,,sports,",
+    ].join("\n")
+  );
+  const { valid, rejected } = mapCSVRows(sheet, guessColumnMapping(sheet[0]), true);
+  assert.deepEqual(valid, [
+    {
+      title: "Essay",
+      subject: null,
+      difficulty: "hard",
+      priority: "high",
+      category: "coursework",
+      due_date: "2026-03-14",
+      notes: null,
+    },
+    {
+      title: "Reading",
+      subject: null,
+      difficulty: "medium",
+      priority: "normal",
+      category: null,
+      due_date: null,
+      notes: null,
+    },
+  ]);
+  assert.deepEqual(
+    rejected.map((entry) => entry.row),
+    [3, 4, 5, 7]
+  );
+  assert.match(rejected[1].reason, /14\/03\/2026/);
+
+  // 5) Export uses the importer's own column names, so it round-trips.
+  const exported = tasksToCSV([
+    { title: 'Essay "final", v2', subject: "CS101", difficulty: "hard", due_date: "2026-03-14", notes: "a\nb" },
+  ]);
+  assert.equal(exported.split("\r\n")[0], "title,subject,difficulty,priority,category,due_date,notes");
+  const reparsed = parseCSV(exported);
+  const back = mapCSVRows(reparsed, guessColumnMapping(reparsed[0]), true);
+  assert.equal(back.rejected.length, 0);
+  assert.equal(back.valid[0].title, 'Essay "final", v2');
+  assert.equal(back.valid[0].notes, "a\nb");
+
+  console.log("csvTest: all assertions passed");
+}
+
+run();
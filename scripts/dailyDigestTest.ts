@@ -0,0 +1,64 @@
+import assert from "node:assert/strict";
+import {
+  composeDailyDigest,
+  composeWeeklySummary,
+  countDueTasks,
+  pickFocusTask,
+  type DigestTask,
+} from "@/utils/dailyDigest";
+
+// Monday 2026-03-09, 07:00 local
+const now = new Date(2026, 2, 9, 7, 0);
+
+const tasks: DigestTask[] = [
+  { id: 1, title: "Reading log", due_date: "2026-03-09", difficulty: "easy" },
+  { id: 2, title: "Lab report", subject: "Chemistry", due_date: "2026-03-09", difficulty: "hard" },
+  { id: 3, title: "Problem set", due_date: "2026-03-09", priority: "normal" },
+  { id: 4, title: "Old quiz", due_date: "2026-03-06" },
+  { id: 5, title: "Essay", due_date: "2026-03-12" },
+  { id: 6, title: "Poster", due_date: "2026-03-12", priority: "high" },
+  { id: 7, title: "Done already", due_date: "2026-03-09", completed: 1 },
+  { id: 8, title: "Someday", due_date: null },
+];
+
+function run() {
+  // 1) Counts match the assistant context buckets.
+  assert.deepEqual(countDueTasks(tasks, now), { open: 7, overdue: 1, today: 3, week: 2, completed: 1 });
+
+  // 2) Overdue and due-today work comes first; the hardest task wins a tie.
+  assert.equal(pickFocusTask(tasks, now)?.id, 2);
+  const digest = composeDailyDigest(tasks, countDueTasks(tasks, now), now);
+  assert.equal(digest.body, "3 due today, 1 overdue — start with Lab report (Chemistry)");
+  assert.equal(digest.taskId, 2);
+
+  // 3) Later days are counted from that day's point of view.
+  const thursday = new Date(2026, 2, 12, 7, 0);
+  const open = tasks.filter((task) => task.id >= 5);
+  assert.equal(composeDailyDigest(open, countDueTasks(open, thursday), thursday).body, "2 due today — start with Poster");
+
+  // 4) Quiet days still say something useful.
+  const upcoming = [{ id: 9, title: "Slides", due_date: "2026-03-11" }];
+  assert.equal(
+    composeDailyDigest(upcoming, countDueTasks(upcoming, now), now).body,
+    "Nothing due today, 1 this week — start with Slides"
+  );
+  const undated = [{ id: 10, title: "Tidy notes" }];
+  assert.equal(
+    composeDailyDigest(undated, countDueTasks(undated, now), now).body,
+    "Nothing due this week. 1 open task on your list."
+  );
+  assert.equal(composeDailyDigest([], countDueTasks([], now), now).body, "You're all caught up. Nothing left on your list.");
+
+  // 5) The weekly summary looks at the next seven days and names the busiest one.
+  const weekly = composeWeeklySummary(tasks, now);
+  assert.equal(weekly.title, "Your week ahead");
+  assert.equal(
+    weekly.body,
+    "5 due in the next 7 days, busiest on Monday (3). 1 overdue. Start with Lab report (Chemistry)."
+  );
+  assert.equal(composeWeeklySummary([], now).body, "Nothing due in the next 7 days.");
+
+  console.log("dailyDigestTest: all assertions passed");
+}
+
+run();
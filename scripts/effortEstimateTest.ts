@@ -0,0 +1,60 @@
+import assert from "node:assert/strict";
+import {
+  calibrateEstimates,
+  defaultEstimateMinutes,
+  estimateAccuracy,
+  estimateTaskMinutes,
+  type EffortSample,
+} from "@/utils/effortEstimate";
+
+function run() {
+  // 1) Without history the default is difficulty plus keyword bonuses.
+  assert.equal(defaultEstimateMinutes({ title: "Essay draft", difficulty: "hard" }), 120);
+  assert.equal(defaultEstimateMinutes({ title: "Reading", difficulty: "easy" }), 20);
+  assert.deepEqual(estimateTaskMinutes({ title: "Reading", difficulty: "medium" }), { minutes: 45, source: "default" });
+
+  // 2) A user-set estimate always wins.
+  assert.deepEqual(estimateTaskMinutes({ title: "Essay", difficulty: "hard", estimated_minutes: 50 }), {
+    minutes: 50,
+    source: "manual",
+  });
+
+  // 3) Three finished CS tasks that ran twice as long calibrate that subject, using the median.
+  const samples: EffortSample[] = [
+    { title: "Problem set 1", subject: "CS101", difficulty: "medium", actual_seconds: 90 * 60 },
+    { title: "Problem set 2", subject: "cs101", difficulty: "medium", actual_seconds: 85 * 60 },
+    { title: "Problem set 3", subject: "CS101", difficulty: "medium", actual_seconds: 400 * 60 },
+    { title: "Reading", subject: "History", difficulty: "medium", actual_seconds: 45 * 60 },
+    { title: "Forgot to start timer", subject: "History", difficulty: "medium", actual_seconds: 20 },
+  ];
+  const calibration = calibrateEstimates(samples);
+  assert.deepEqual(calibration["subject:cs101|medium"], { ratio: 2, samples: 3 });
+  assert.equal(calibration["subject:history|medium"], undefined);
+  assert.deepEqual(estimateTaskMinutes({ title: "Problem set 4", subject: "CS101", difficulty: "medium" }, calibration), {
+    minutes: 90,
+    source: "learned",
+  });
+
+  // 4) Other subjects fall back to the difficulty-wide group once it has enough samples.
+  const history = estimateTaskMinutes({ title: "Source analysis", subject: "History", difficulty: "medium" }, calibration);
+  assert.equal(history.source, "learned");
+  assert.equal(history.minutes, 90);
+
+  // 5) Ratios are clamped so one runaway timer can't make estimates absurd.
+  const runaway = calibrateEstimates(
+    [1, 2, 3].map((n) => ({ title: `Quiz ${n}`, difficulty: "easy" as const, actual_seconds: 30 * 3600 }))
+  );
+  assert.equal(runaway["difficulty:easy"].ratio, 4);
+
+  // 6) Accuracy compares tracked time with what the planner would estimate now.
+  assert.equal(estimateAccuracy([], {}), null);
+  const accuracy = estimateAccuracy(
+    [{ title: "Lab", difficulty: "easy", estimated_minutes: 30, actual_seconds: 45 * 60 }],
+    {}
+  );
+  assert.deepEqual(accuracy, { ratio: 1.5, samples: 1 });
+
+  console.log("effortEstimateTest: all assertions passed");
+}
+
+run();
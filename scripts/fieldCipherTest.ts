@@ -0,0 +1,54 @@
+import assert from "node:assert/strict";
+import { scryptSync } from "node:crypto";
+import { dataKeyCheck, deriveWrappingKey, isSealed, openString, sealString } from "@/utils/fieldCipher";
+
+const key = Uint8Array.from({ length: 32 }, (_, i) => i + 1);
+const otherKey = Uint8Array.from({ length: 32 }, (_, i) => 200 - i);
+const nonce = Uint8Array.from({ length: 24 }, (_, i) => i * 3);
+const otherNonce = Uint8Array.from({ length: 24 }, (_, i) => i * 5 + 1);
+
+async function run() {
+  // 1) Values round-trip, including empty, multi-block and non-ASCII text.
+  for (const value of ["", "Lab report", "Extension agreed — doctor's note 🩺", "n".repeat(500)]) {
+    const sealed = sealString(key, value, nonce);
+    assert.ok(isSealed(sealed));
+    assert.ok(!sealed.includes(value) || value === "");
+    assert.equal(openString(key, sealed), value);
+  }
+
+  // 2) The nonce changes the output, so equal titles don't look equal at rest.
+  assert.notEqual(sealString(key, "Essay", nonce), sealString(key, "Essay", otherNonce));
+
+  // 3) A wrong key or an edited value is refused rather than read as garbage.
+  const sealed = sealString(key, "Grades: B+", nonce);
+  assert.throws(() => openString(otherKey, sealed), /could not be verified/);
+  const parts = sealed.split(":");
+  parts[2] = `${parts[2][0] === "0" ? "1" : "0"}${parts[2].slice(1)}`;
+  assert.throws(() => openString(key, parts.join(":")), /could not be verified/);
+  assert.throws(() => openString(key, "enc1:zz"), /format/);
+  assert.throws(() => openString(key, ["enc1", "00".repeat(12), parts[2]].join(":")), /format/);
+
+  // 4) Plain values are told apart from sealed ones.
+  assert.ok(!isSealed("Lab report"));
+  assert.ok(!isSealed(null));
+
+  // 5) The key check matches only its own key.
+  assert.equal(dataKeyCheck(key), dataKeyCheck(Uint8Array.from(key)));
+  assert.notEqual(dataKeyCheck(key), dataKeyCheck(otherKey));
+
+  // 6) Wrapping keys are scrypt, matching Node's, and a copy sealed with one opens only with the same secret.
+  const salt = Uint8Array.from({ length: 16 }, (_, i) => i + 9);
+  const wrapping = await deriveWrappingKey("4821", salt, 1024);
+  assert.deepEqual(Buffer.from(wrapping), scryptSync("4821", salt, 32, { N: 1024, r: 8, p: 1 }));
+  const wrapped = sealString(wrapping, "data key", nonce);
+  assert.equal(openString(await deriveWrappingKey("4821", salt, 1024), wrapped), "data key");
+  assert.throws(() => openString(Uint8Array.from(wrapping, (byte) => byte ^ 1), wrapped), /could not be verified/);
+  assert.notDeepEqual(await deriveWrappingKey("4822", salt, 1024), wrapping);
+
+  console.log("fieldCipherTest: all assertions passed");
+}
+
+run().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,71 @@
+import assert from "node:assert/strict";
+import {
+  assessmentWeightBoost,
+  describeRequiredGrade,
+  formatPercent,
+  readAssessmentWeight,
+  readGrade,
+  requiredGrade,
+  summarizeGrades,
+  summarizeGradesByCourse,
+} from "@/utils/grades";
+
+function run() {
+  // 1) Percentages are read leniently and checked.
+  assert.equal(readAssessmentWeight(" 40% "), 40);
+  assert.equal(readAssessmentWeight("12,5"), 12.5);
+  assert.equal(readAssessmentWeight(""), null);
+  assert.throws(() => readAssessmentWeight("0"), /weight/);
+  assert.throws(() => readAssessmentWeight("120"), /weight/);
+  assert.equal(readGrade("0"), 0);
+  assert.equal(readGrade("67.25"), 67.3);
+  assert.throws(() => readGrade("A"), /grade/);
+  assert.equal(formatPercent(66.666), "66.7%");
+  assert.equal(formatPercent(70), "70%");
+
+  // 2) Running average covers the marked share only; unweighted tasks don't count.
+  const tasks = [
+    { course_id: 1, assessment_weight: 20, grade: 80 },
+    { course_id: 1, assessment_weight: 20, grade: 60 },
+    { course_id: 1, assessment_weight: 60, grade: null },
+    { course_id: 1, assessment_weight: null, grade: 100 },
+    { course_id: 2, assessment_weight: 50, grade: 90 },
+    { course_id: null, assessment_weight: 30, grade: 50 },
+  ];
+  const course1 = summarizeGrades(tasks.filter((task) => task.course_id === 1));
+  assert.equal(course1.gradedWeight, 40);
+  assert.equal(course1.earned, 28);
+  assert.equal(course1.average, 70);
+  assert.equal(course1.pendingWeight, 60);
+  assert.equal(summarizeGrades([]).average, null);
+
+  const byCourse = summarizeGradesByCourse(tasks);
+  assert.deepEqual([...byCourse.keys()], [1, 2]);
+  assert.equal(byCourse.get(2)?.average, 90);
+
+  // 3) What the rest of the course (or a final) needs to reach a target.
+  const forSeventy = requiredGrade(course1, 70);
+  assert.equal(forSeventy?.weight, 60);
+  assert.equal(forSeventy?.needed, 70);
+  assert.equal(forSeventy?.status, "reachable");
+  assert.equal(
+    describeRequiredGrade(forSeventy, 70),
+    "You need 70% on the remaining 60% to finish on 70%."
+  );
+  // A final worth 40% leaves 20% of the course unmarked, which counts as nothing
+  assert.equal(requiredGrade(course1, 60, 40)?.needed, 80);
+  assert.equal(requiredGrade(course1, 90, 40)?.status, "out-of-reach");
+  assert.equal(requiredGrade(course1, 25)?.status, "secured");
+  assert.equal(requiredGrade(course1, 25)?.needed, 0);
+  assert.equal(requiredGrade(summarizeGrades([{ assessment_weight: 100, grade: 70 }]), 80), null);
+  assert.match(describeRequiredGrade(null, 80), /Everything is marked/);
+
+  // 4) Heavier assessments rank higher in the planner, up to a cap.
+  assert.equal(assessmentWeightBoost(null), 0);
+  assert.equal(assessmentWeightBoost(15), 1.5);
+  assert.equal(assessmentWeightBoost(60), 3);
+
+  console.log("gradesTest: all assertions passed");
+}
+
+run();
@@ -0,0 +1,126 @@
+import assert from "node:assert/strict";
+import { parseICS, planICSImport, serializeTasksToICS, taskUid } from "@/utils/ical";
+
+function run() {
+  const tasks = [
+    {
+      id: 3,
+      title: "Essay; final draft, v2",
+      due_date: "2026-03-10",
+      notes: "Check references\nSubmit on Moodle",
+      difficulty: "hard" as const,
+      priority: "high" as const,
+      category: "coursework" as const,
+      created_at: "2026-03-01 10:00:00",
+      recurrence_rule: null,
+      occurrence: null,
+    },
+    {
+      id: 4,
+      title: "Weekly quiz",
+      due_date: "2026-03-09",
+      notes: null,
+      difficulty: "easy" as const,
+      priority: "normal" as const,
+      category: "revision" as const,
+      created_at: "2026-03-02 10:00:00",
+      recurrence_rule: "FREQ=WEEKLY;INTERVAL=1;BYDAY=MO;COUNT=10",
+      occurrence: 4,
+    },
+    {
+      id: 5,
+      title: "Someday reading",
+      due_date: null,
+      notes: null,
+      difficulty: null,
+      priority: null,
+      category: null,
+      created_at: "2026-03-03 10:00:00",
+    },
+  ];
+
+  // 1) VTODO export: escaping, CRLF, properties and the remaining COUNT of a series.
+  const todos = serializeTasksToICS(tasks, "todo", new Date("2026-03-04T12:00:00Z"));
+  assert.ok(todos.startsWith("BEGIN:VCALENDAR\r\nVERSION:2.0\r\n"));
+  assert.match(todos, /SUMMARY:Essay\\; final draft\\, v2\r\n/);
+  assert.match(todos, /DUE;VALUE=DATE:20260310\r\n/);
+  assert.match(todos, /PRIORITY:1\r\nCATEGORIES:COURSEWORK\r\nX-WORKLOAD-DIFFICULTY:HARD\r\n/);
+  assert.match(todos, /DESCRIPTION:Check references\\nSubmit on Moodle/);
+  assert.match(todos, /RRULE:FREQ=WEEKLY;INTERVAL=1;BYDAY=MO;COUNT=7\r\n/);
+  assert.match(todos, /DTSTAMP:20260304T120000Z/);
+  assert.equal(todos.match(/BEGIN:VTODO/g)?.length, 3);
+
+  // 2) VEVENT export leaves undated tasks out and spans one whole day.
+  const events = serializeTasksToICS(tasks, "event");
+  assert.equal(events.match(/BEGIN:VEVENT/g)?.length, 2);
+  assert.match(events, /DTSTART;VALUE=DATE:20260310\r\nDTEND;VALUE=DATE:20260311\r\n/);
+
+  // 3) Our own export parses back to the same fields.
+  const parsed = parseICS(todos);
+  assert.equal(parsed.length, 3);
+  assert.deepEqual(parsed[0], {
+    uid: taskUid(tasks[0]),
+    kind: "todo",
+    title: "Essay; final draft, v2",
+    due_date: "2026-03-10",
+    notes: "Check references\nSubmit on Moodle",
+    difficulty: "hard",
+    priority: "high",
+    category: "coursework",
+    recurrence: null,
+    completed: false,
+  });
+
+  // 4) A university timetable feed: folded lines, TZID times, rooms, alarms and a weekly rule.
+  const timetable = [
+    "BEGIN:VCALENDAR",
+    "BEGIN:VEVENT",
+    "UID:lecture-42@uni.example",
+    "DTSTART;TZID=Europe/London:20260112T090000",
+    "SUMMARY:Algorithms lec",
+    " ture",
+    "LOCATION:Room 2.14",
+    "RRULE:FREQ=WEEKLY;BYDAY=MO;UNTIL=20260330T235959Z",
+    "BEGIN:VALARM",
+    "DESCRIPTION:Reminder",
+    "END:VALARM",
+    "END:VEVENT",
+    "BEGIN:VEVENT",
+    "UID:old-seminar@uni.example",
+    "DTSTART:20260105T140000",
+    "SUMMARY:Intro seminar",
+    "END:VEVENT",
+    "BEGIN:VTODO",
+    "UID:done@uni.example",
+    "SUMMARY:Register for modules",
+    "STATUS:COMPLETED",
+    "END:VTODO",
+    "END:VCALENDAR",
+  ].join("\n");
+  const feed = parseICS(timetable);
+  assert.equal(feed[0].title, "Algorithms lecture");
+  assert.equal(feed[0].notes, "09:00 · Room 2.14");
+  assert.equal(feed[0].recurrence, "FREQ=WEEKLY;INTERVAL=1;BYDAY=MO;UNTIL=20260330");
+
+  // 5) Import plan: known UIDs are duplicates, finished and past one-off events are skipped,
+  //    and a series that started earlier in term resumes from today.
+  const plan = planICSImport([...feed, ...parsed], [taskUid(tasks[0])], "2026-03-04");
+  assert.equal(plan.duplicates, 1);
+  assert.equal(plan.skipped, 2);
+  assert.deepEqual(
+    plan.toAdd.map((item) => [item.title, item.due_date]),
+    [
+      ["Algorithms lecture", "2026-03-09"],
+      ["Weekly quiz", "2026-03-09"],
+      ["Someday reading", null],
+    ]
+  );
+
+  // 6) Importing the same feed twice only adds new UIDs once.
+  const again = planICSImport(feed, ["lecture-42@uni.example"], "2026-03-04");
+  assert.equal(again.toAdd.length, 0);
+
+  console.log("icalTest: all assertions passed");
+}
+
+run();
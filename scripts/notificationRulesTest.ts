@@ -0,0 +1,145 @@
+import assert from "node:assert/strict";
+import {
+  applyNotificationRules,
+  DEFAULT_NOTIFICATION_RULES,
+  MAX_PENDING_NOTIFICATIONS,
+  moveOutOfQuietHours,
+  normalizeNotificationRules,
+  type NotificationRules,
+  type PendingNotification,
+} from "@/utils/notificationRules";
+import { planTaskReminders, type ReminderTask } from "@/utils/taskReminders";
+
+// Monday 2026-03-09, 08:00 local
+const now = new Date(2026, 2, 9, 8, 0);
+
+const at = (day: number, hour: number, minute = 0) => new Date(2026, 2, day, hour, minute);
+
+function pending(fireAt: Date, body: string, priority = 5, taskId: number | null = null): PendingNotification {
+  return { kind: taskId === null ? "digest" : "deadline", fireAt, title: "Reminder", body, taskId, priority };
+}
+
+const rules: NotificationRules = {
+  quietHours: { enabled: true, start: 22 * 60, end: 7 * 60 },
+  dailyLimit: 3,
+  groupWindowMinutes: 30,
+};
+
+function run() {
+  // 1) Quiet hours push notifications to when they end, across midnight if needed.
+  assert.deepEqual(moveOutOfQuietHours(at(9, 23, 15), rules.quietHours), at(10, 7));
+  assert.deepEqual(moveOutOfQuietHours(at(10, 2), rules.quietHours), at(10, 7));
+  assert.deepEqual(moveOutOfQuietHours(at(10, 12), rules.quietHours), at(10, 12));
+  assert.deepEqual(moveOutOfQuietHours(at(10, 13), { enabled: true, start: 12 * 60, end: 14 * 60 }), at(10, 14));
+  assert.deepEqual(moveOutOfQuietHours(at(10, 2), { ...rules.quietHours, enabled: false }), at(10, 2));
+
+  // 2) Input as the planner makes it: every reminder fires at the reminder time, so two tasks
+  // due the same day arrive together with the digest. The reminders become one notification
+  // without a task (so no action buttons); the digest and a reminder on its own stay as they are.
+  const reminderTime = { hour: 9, minute: 0 };
+  const tasks: ReminderTask[] = [
+    { id: 4, title: "Lab report", subject: "Chemistry", due_date: "2026-03-10" },
+    { id: 5, title: "Essay", subject: "English", due_date: "2026-03-10" },
+    { id: 6, title: "Quiz prep", subject: null, due_date: "2026-03-12" },
+  ];
+  const planned: PendingNotification[] = [
+    pending(at(9, 9), "2 due tomorrow"),
+    ...tasks.flatMap((task) =>
+      planTaskReminders(task, ["day_before", "morning_of"], reminderTime, now).map((reminder) => ({
+        kind: "deadline" as const,
+        fireAt: reminder.fireAt,
+        title: reminder.title,
+        body: reminder.body,
+        taskId: task.id,
+        priority: 9 - reminder.daysLeft,
+      }))
+    ),
+  ];
+  const grouped = applyNotificationRules(planned, rules, now);
+  assert.deepEqual(
+    grouped.map((entry) => [entry.fireAt.getDate(), entry.kind, entry.title, entry.body, entry.taskId]),
+    [
+      [9, "deadline", "2 deadline reminders", "Lab report is due tomorrow.\nEssay is due tomorrow.", null],
+      [9, "digest", "Reminder", "2 due tomorrow", null],
+      [10, "deadline", "2 deadline reminders", "Lab report is due today.\nEssay is due today.", null],
+      [11, "deadline", "Deadline reminder", "Quiz prep is due tomorrow.", 6],
+      [12, "deadline", "Deadline reminder", "Quiz prep is due today.", 6],
+    ]
+  );
+  assert.equal(grouped[0].priority, 8);
+
+  // 3) With grouping off, each task keeps its own reminder.
+  const ungrouped = applyNotificationRules(planned, { ...rules, groupWindowMinutes: 0 }, now);
+  assert.deepEqual(
+    ungrouped.filter((entry) => entry.fireAt.getDate() === 9).map((entry) => entry.taskId),
+    [4, 5, null]
+  );
+
+  // Quiet-hours arrivals group with reminders at the time they move to; ones further apart don't.
+  const overnight = applyNotificationRules(
+    [
+      pending(at(9, 23), "Late one", 7, 1),
+      pending(at(10, 7), "Morning one", 6, 2),
+      pending(at(10, 7), "Morning digest"),
+      pending(at(10, 8), "Later one", 6, 3),
+    ],
+    rules,
+    now
+  );
+  assert.deepEqual(
+    overnight.map((entry) => [entry.fireAt.getTime(), entry.body, entry.taskId]),
+    [
+      [at(10, 7).getTime(), "Late one\nMorning one", null],
+      [at(10, 7).getTime(), "Morning digest", null],
+      [at(10, 8).getTime(), "Later one", 3],
+    ]
+  );
+
+  // 4) Past the daily limit the least urgent are dropped; other days are untouched.
+  const busy = applyNotificationRules(
+    [
+      pending(at(9, 10), "Week ahead", 1, 1),
+      pending(at(9, 12), "Due today", 8, 2),
+      pending(at(9, 14), "Due tomorrow", 7, 3),
+      pending(at(9, 16), "Digest", 5),
+      pending(at(9, 18), "Another heads-up", 1, 4),
+      pending(at(10, 10), "Tomorrow's digest", 5),
+    ],
+    { ...rules, groupWindowMinutes: 0 },
+    now
+  );
+  assert.deepEqual(
+    busy.map((entry) => entry.body),
+    ["Due today", "Due tomorrow", "Digest", "Tomorrow's digest"]
+  );
+
+  // 5) Anything already past is skipped.
+  assert.deepEqual(applyNotificationRules([pending(at(9, 7, 30), "Missed")], rules, now), []);
+
+  // 6) Over the pending cap, digests furthest out make room for deadline reminders.
+  const crowded = applyNotificationRules(
+    [
+      ...Array.from({ length: 28 }, (_, day) => pending(at(10 + day, 9), `Digest ${day}`)),
+      ...Array.from({ length: 40 }, (_, index) => pending(at(10 + (index % 20), 12 + Math.floor(index / 20)), "Due", 6, index + 1)),
+    ],
+    { ...rules, dailyLimit: 20, groupWindowMinutes: 0 },
+    now
+  );
+  assert.equal(crowded.length, MAX_PENDING_NOTIFICATIONS);
+  assert.equal(crowded.filter((entry) => entry.kind === "deadline").length, 40);
+  assert.deepEqual(
+    crowded.filter((entry) => entry.kind === "digest").map((entry) => entry.body),
+    Array.from({ length: 20 }, (_, day) => `Digest ${day}`)
+  );
+
+  // 7) Stored rules are cleaned field by field.
+  const cleaned = normalizeNotificationRules({ quietHours: { enabled: false, start: 5000 }, dailyLimit: 0, groupWindowMinutes: "x" });
+  assert.deepEqual(cleaned.quietHours, { enabled: false, start: 1439, end: 7 * 60 });
+  assert.equal(cleaned.dailyLimit, 1);
+  assert.equal(cleaned.groupWindowMinutes, DEFAULT_NOTIFICATION_RULES.groupWindowMinutes);
+  assert.deepEqual(normalizeNotificationRules(null), DEFAULT_NOTIFICATION_RULES);
+
+  console.log("notificationRulesTest: all assertions passed");
+}
+
+run();
@@ -0,0 +1,49 @@
+import assert from "node:assert/strict";
+import { pbkdf2Sync } from "node:crypto";
+import {
+  checkPassword,
+  constantTimeEqual,
+  hashPasswordWithSalt,
+  isPasswordHash,
+  pbkdf2Sha256,
+  PASSWORD_HASH_ITERATIONS,
+  toHex,
+  utf8Bytes,
+} from "@/utils/passwordHash";
+
+const salt = Uint8Array.from({ length: 16 }, (_, i) => i * 7 + 3);
+
+async function run() {
+  // 1) PBKDF2 agrees with Node's implementation, including long and non-ASCII passwords.
+  for (const password of ["hunter22", "k".repeat(90), "pässwörd 🔐"]) {
+    const ours = await pbkdf2Sha256(password, salt, 2500);
+    assert.equal(toHex(ours), pbkdf2Sync(password, salt, 2500, 32, "sha256").toString("hex"));
+  }
+
+  // 2) The stored string carries its own salt and iterations.
+  const stored = await hashPasswordWithSalt("hunter22", salt);
+  assert.ok(stored.startsWith(`pbkdf2-sha256$${PASSWORD_HASH_ITERATIONS}$${toHex(salt)}$`));
+  assert.ok(isPasswordHash(stored));
+  assert.ok(!isPasswordHash("hunter22"));
+  assert.deepEqual(await checkPassword("hunter22", stored), { valid: true, needsRehash: false });
+  assert.deepEqual(await checkPassword("hunter23", stored), { valid: false, needsRehash: false });
+
+  // 3) Plaintext from older installs still signs in once and asks to be re-hashed.
+  assert.deepEqual(await checkPassword("hunter22", "hunter22"), { valid: true, needsRehash: true });
+  assert.deepEqual(await checkPassword("hunter2", "hunter22"), { valid: false, needsRehash: false });
+  assert.deepEqual(await checkPassword("", null), { valid: false, needsRehash: false });
+
+  // 4) Hashes with fewer iterations than today are upgraded too.
+  const weak = await hashPasswordWithSalt("hunter22", salt, 1000);
+  assert.deepEqual(await checkPassword("hunter22", weak), { valid: true, needsRehash: true });
+
+  assert.ok(constantTimeEqual(utf8Bytes("same"), utf8Bytes("same")));
+  assert.ok(!constantTimeEqual(utf8Bytes("same"), utf8Bytes("same!")));
+
+  console.log("passwordHashTest: all assertions passed");
+}
+
+run().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,71 @@
+import assert from "node:assert/strict";
+import {
+  describeRecurrence,
+  nextRecurrenceInstance,
+  normalizeRecurrenceRule,
+  parseRecurrenceRule,
+  projectOccurrences,
+  projectRecurringTasks,
+  serializeRecurrenceRule,
+} from "@/utils/recurrence";
+
+function run() {
+  // 1) Weekly rules default to the first due date's weekday and round-trip through RRULE text.
+  const weekly = normalizeRecurrenceRule(
+    { freq: "weekly", interval: 1, byWeekday: [], byMonthDay: null, until: null, count: 3 },
+    "2026-03-02"
+  );
+  assert.deepEqual(weekly.byWeekday, [1]);
+  const text = serializeRecurrenceRule(weekly);
+  assert.equal(text, "FREQ=WEEKLY;INTERVAL=1;BYDAY=MO;COUNT=3");
+  assert.deepEqual(parseRecurrenceRule(text), weekly);
+
+  // 2) Weekly on chosen weekdays walks through the week, then jumps by the interval.
+  const fortnightly = parseRecurrenceRule("FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH")!;
+  assert.equal(nextRecurrenceInstance(fortnightly, "2026-03-02", 1)?.due_date, "2026-03-05");
+  assert.equal(nextRecurrenceInstance(fortnightly, "2026-03-05", 2)?.due_date, "2026-03-16");
+
+  // 3) COUNT stops the series after the last instance.
+  assert.equal(nextRecurrenceInstance(weekly, "2026-03-09", 2)?.due_date, "2026-03-16");
+  assert.equal(nextRecurrenceInstance(weekly, "2026-03-16", 3), null);
+
+  // 4) Every N days with an UNTIL date.
+  const everyThree = parseRecurrenceRule("FREQ=DAILY;INTERVAL=3;UNTIL=20260310")!;
+  assert.deepEqual(
+    projectOccurrences(everyThree, "2026-03-01", 1, "2026-03-31").map((i) => i.due_date),
+    ["2026-03-04", "2026-03-07", "2026-03-10"]
+  );
+
+  // 5) Monthly on the 31st clamps to short months without drifting.
+  const monthly = parseRecurrenceRule("FREQ=MONTHLY;INTERVAL=1;BYMONTHDAY=31")!;
+  assert.equal(nextRecurrenceInstance(monthly, "2026-01-31", 1)?.due_date, "2026-02-28");
+  assert.equal(nextRecurrenceInstance(monthly, "2026-02-28", 2)?.due_date, "2026-03-31");
+
+  // 6) Completing late skips missed dates but still counts them.
+  const daily = parseRecurrenceRule("FREQ=DAILY;INTERVAL=1")!;
+  assert.deepEqual(nextRecurrenceInstance(daily, "2026-03-01", 1, "2026-03-05"), {
+    due_date: "2026-03-05",
+    occurrence: 5,
+  });
+
+  // 7) Projection starts from the latest open instance of each series only.
+  const projected = projectRecurringTasks(
+    [
+      { id: 1, due_date: "2026-03-02", completed: 1, recurrence_id: 9, recurrence_rule: text, occurrence: 1 },
+      { id: 2, due_date: "2026-03-09", completed: 0, recurrence_id: 9, recurrence_rule: text, occurrence: 2 },
+      { id: 3, due_date: "2026-03-03", completed: 0, recurrence_id: null, recurrence_rule: null, occurrence: null },
+    ],
+    "2026-04-30"
+  );
+  assert.deepEqual(
+    projected.map((t) => [t.id, t.due_date, t.occurrence]),
+    [[2, "2026-03-16", 3]]
+  );
+
+  assert.equal(describeRecurrence(fortnightly), "Every 2 weeks on Mon, Thu");
+  assert.equal(describeRecurrence(weekly), "Weekly on Mon · 3 times");
+
+  console.log("recurrenceTest: all assertions passed");
+}
+
+run();
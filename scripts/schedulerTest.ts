@@ -0,0 +1,114 @@
+import assert from "node:assert/strict";
+import {
+  buildSchedule,
+  DEFAULT_SCHEDULE_SETTINGS,
+  normalizeScheduleSettings,
+  scheduledMinutes,
+  type ScheduleSettings,
+} from "@/utils/scheduler";
+
+// Monday 2026-03-09, 08:10 local
+const now = new Date(2026, 2, 9, 8, 10);
+
+const hours = (start: number, end: number) => ({ enabled: true, start: start * 60, end: end * 60 });
+const off = { enabled: false, start: 0, end: 60 };
+
+const settings: ScheduleSettings = {
+  ...DEFAULT_SCHEDULE_SETTINGS,
+  hours: [off, hours(9, 12), hours(9, 12), hours(9, 12), off, off, off],
+  commitments: [{ id: "lecture", title: "Lecture", weekdays: [1], start: 10 * 60, end: 11 * 60 }],
+};
+
+function run() {
+  // 1) Blocks avoid commitments and leave a break after each block.
+  const single = buildSchedule([{ id: 1, title: "Reading", minutes: 120, due_date: "2026-03-09" }], settings, now, 3);
+  assert.deepEqual(
+    single.days[0].blocks.map((block) => [block.kind, block.start, block.end]),
+    [
+      ["task", 540, 600],
+      ["commitment", 600, 660],
+      ["task", 660, 720],
+    ]
+  );
+  assert.deepEqual(single.unscheduled, []);
+  assert.equal(single.days[0].blocks[0].part, 1);
+  assert.equal(single.days[0].blocks[2].parts, 2);
+  assert.equal(scheduledMinutes(single.days[0]), 120);
+
+  // 2) Long tasks are spread one block a day up to the due date.
+  const essay = buildSchedule([{ id: 2, title: "Essay", minutes: 240, due_date: "2026-03-11" }], settings, now, 3);
+  assert.deepEqual(
+    essay.days.map((day) => day.blocks.filter((block) => block.kind === "task").map((block) => block.end - block.start)),
+    [[60], [90], [90]]
+  );
+  assert.deepEqual(
+    essay.days.flatMap((day) => day.blocks.filter((block) => block.taskId === 2).map((block) => block.part)),
+    [1, 2, 3]
+  );
+
+  // 3) Earlier deadlines go first; anything that cannot fit before its due date is reported.
+  const crowded = buildSchedule(
+    [
+      { id: 3, title: "Later", minutes: 60, due_date: "2026-03-11" },
+      { id: 4, title: "Soon", minutes: 200, due_date: "2026-03-09" },
+    ],
+    settings,
+    now,
+    3
+  );
+  assert.equal(crowded.days[0].blocks[0].taskId, 4);
+  assert.deepEqual(crowded.unscheduled, [{ taskId: 4, title: "Soon", minutes: 80 }]);
+  assert.ok(crowded.days[1].blocks.some((block) => block.taskId === 3));
+
+  // 4) High priority wins a tie on the due date, whatever order the caller passed.
+  const tie = buildSchedule(
+    [
+      { id: 7, title: "Normal", minutes: 30, due_date: "2026-03-09" },
+      { id: 8, title: "Urgent", minutes: 30, due_date: "2026-03-09", priority: "high" },
+    ],
+    settings,
+    now,
+    1
+  );
+  assert.deepEqual(
+    tie.days[0].blocks.filter((block) => block.kind === "task").map((block) => block.taskId),
+    [8, 7]
+  );
+
+  // 5) Overdue work still gets time and is flagged late; today's past hours are skipped.
+  const midday = new Date(2026, 2, 10, 10, 5);
+  const overdue = buildSchedule([{ id: 5, title: "Lab", minutes: 30, due_date: "2026-03-01" }], settings, midday, 2);
+  assert.deepEqual(overdue.days[0].blocks, [
+    { kind: "task", title: "Lab", start: 615, end: 645, taskId: 5, late: true },
+  ]);
+
+  // 6) Gaps shorter than the minimum block stay free.
+  const gappy = buildSchedule(
+    [{ id: 6, title: "Quiz", minutes: 45, due_date: null }],
+    { ...settings, commitments: [{ id: "c", title: "Shift", weekdays: [1, 2, 3], start: 9 * 60 + 20, end: 12 * 60 }] },
+    now,
+    3
+  );
+  assert.equal(gappy.days.every((day) => day.blocks.every((block) => block.kind === "commitment")), true);
+  assert.deepEqual(gappy.unscheduled, [{ taskId: 6, title: "Quiz", minutes: 45 }]);
+
+  // 7) Stored settings are cleaned up field by field.
+  const cleaned = normalizeScheduleSettings({
+    hours: [{ enabled: true, start: 600, end: 500 }],
+    commitments: [{ title: "  ", weekdays: [1, 1, 9], start: 60, end: 120 }, { title: "No days", weekdays: [] }],
+    maxBlockMinutes: "lots",
+    breakMinutes: 500,
+  });
+  assert.deepEqual(cleaned.hours[0], { enabled: true, start: 600, end: 840 });
+  assert.deepEqual(cleaned.hours[1], DEFAULT_SCHEDULE_SETTINGS.hours[1]);
+  assert.deepEqual(cleaned.commitments, [
+    { id: "commitment-0", title: "Commitment", weekdays: [1], start: 60, end: 120 },
+  ]);
+  assert.equal(cleaned.maxBlockMinutes, 90);
+  assert.equal(cleaned.breakMinutes, 60);
+  assert.equal(cleaned.minBlockMinutes, 25);
+
+  console.log("schedulerTest: all assertions passed");
+}
+
+run();
@@ -0,0 +1,107 @@
+import { timingSafeEqual } from "node:crypto";
+import { existsSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import { createServer, type IncomingMessage, type ServerResponse } from "node:http";
+
+import { applyPush, emptySyncAccount, pullSince, type SyncAccount, type SyncChange } from "@/utils/syncProtocol";
+
+// Reference sync server. Run `SYNC_TOKEN=<secret> npm run sync-server`, then enter
+// http://<this computer's IP>:8787 and the same token under Settings → Sync on each device.
+// Every account is kept in one JSON file. Accounts are only named by email, so the token is
+// what keeps other people on the network out: it is required, and every request must send it
+// in the x-sync-token header.
+const PORT = Number(process.env.SYNC_PORT ?? 8787);
+const DATA_FILE = process.env.SYNC_DATA_FILE ?? "sync-data.json";
+const TOKEN = process.env.SYNC_TOKEN ?? "";
+const MIN_TOKEN_LENGTH = 16;
+const MAX_BODY_BYTES = 5 * 1024 * 1024;
+
+if (TOKEN.length < MIN_TOKEN_LENGTH) {
+  console.error(`Set SYNC_TOKEN to a secret of at least ${MIN_TOKEN_LENGTH} characters before starting the sync server.`);
+  process.exit(1);
+}
+
+type ServerState = { accounts: Record<string, SyncAccount> };
+
+function loadState(): ServerState {
+  if (!existsSync(DATA_FILE)) return { accounts: {} };
+  const parsed = JSON.parse(readFileSync(DATA_FILE, "utf8")) as Partial<ServerState>;
+  return { accounts: parsed.accounts ?? {} };
+}
+
+function saveState(state: ServerState) {
+  // Write then rename so a crash mid-write can't leave half a file
+  writeFileSync(`${DATA_FILE}.tmp`, JSON.stringify(state));
+  renameSync(`${DATA_FILE}.tmp`, DATA_FILE);
+}
+
+const state = loadState();
+
+function send(res: ServerResponse, status: number, body?: unknown) {
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    // The web build is served from another origin
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Headers": "Content-Type, x-sync-token",
+    "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+  });
+  res.end(body === undefined ? undefined : JSON.stringify(body));
+}
+
+function readBody(req: IncomingMessage) {
+  return new Promise<string>((resolve, reject) => {
+    let body = "";
+    req.on("data", (chunk: Buffer) => {
+      body += chunk.toString("utf8");
+      if (body.length > MAX_BODY_BYTES) reject(new Error("Request body too large"));
+    });
+    req.on("end", () => resolve(body));
+    req.on("error", reject);
+  });
+}
+
+function hasToken(req: IncomingMessage) {
+  const sent = Buffer.from(String(req.headers["x-sync-token"] ?? ""), "utf8");
+  const expected = Buffer.from(TOKEN, "utf8");
+  return sent.length === expected.length && timingSafeEqual(sent, expected);
+}
+
+function accountKey(value: unknown) {
+  return typeof value === "string" ? value.trim().toLowerCase() : "";
+}
+
+async function handle(req: IncomingMessage, res: ServerResponse) {
+  if (req.method === "OPTIONS") return send(res, 204);
+  if (!hasToken(req)) return send(res, 401, { error: "Invalid sync token" });
+
+  const url = new URL(req.url ?? "/", "http://localhost");
+
+  if (req.method === "POST" && url.pathname === "/push") {
+    const payload = JSON.parse(await readBody(req)) as { account?: unknown; device?: unknown; changes?: unknown };
+    const account = accountKey(payload.account);
+    if (!account || typeof payload.device !== "string" || !Array.isArray(payload.changes)) {
+      return send(res, 400, { error: "Expected account, device and changes" });
+    }
+    const target = (state.accounts[account] ??= emptySyncAccount());
+    const result = applyPush(target, payload.device, payload.changes as SyncChange[]);
+    saveState(state);
+    return send(res, 200, result);
+  }
+
+  if (req.method === "GET" && url.pathname === "/pull") {
+    const account = accountKey(url.searchParams.get("account"));
+    if (!account) return send(res, 400, { error: "Expected account" });
+    const since = Number(url.searchParams.get("since") ?? 0) || 0;
+    return send(res, 200, pullSince(state.accounts[account] ?? emptySyncAccount(), since));
+  }
+
+  return send(res, 404, { error: "Not found" });
+}
+
+createServer((req, res) => {
+  handle(req, res).catch((error) => {
+    console.error(error);
+    send(res, 500, { error: "Sync failed on the server" });
+  });
+}).listen(PORT, () => {
+  console.log(`Sync server listening on port ${PORT}, storing data in ${DATA_FILE}`);
+});
@@ -0,0 +1,104 @@
+import assert from "node:assert/strict";
+import {
+  applyPush,
+  collectLocalChanges,
+  compareClocks,
+  emptySyncAccount,
+  pickSyncFields,
+  pullSince,
+  type SyncShadowEntry,
+} from "@/utils/syncProtocol";
+
+const t0 = Date.UTC(2026, 2, 9, 9, 0);
+
+function uids(prefix: string) {
+  let n = 0;
+  return () => `${prefix}-${++n}`;
+}
+
+function run() {
+  // 1) New local tasks get uids; edits send only changed fields; missing tasks become tombstones.
+  const shadow: SyncShadowEntry[] = [
+    { uid: "a", task_id: 1, version: 3, fields: { title: "Essay", completed: 0 } },
+    { uid: "b", task_id: 2, version: 4, fields: { title: "Quiz", completed: 0 } },
+  ];
+  const local = collectLocalChanges(
+    [
+      { id: 1, updated_at: t0 + 5000, fields: { title: "Essay", completed: 1 } },
+      { id: 3, updated_at: null, fields: { title: "Lab", completed: 0 } },
+    ],
+    shadow,
+    t0 + 9000,
+    uids("new")
+  );
+  assert.deepEqual(local.created, [{ uid: "new-1", task_id: 3 }]);
+  assert.deepEqual(local.changes, [
+    { uid: "a", base_version: 3, deleted: false, fields: { completed: 1 }, at: t0 + 5000 },
+    { uid: "new-1", base_version: 0, deleted: false, fields: { title: "Lab", completed: 0 }, at: t0 + 9000 },
+    { uid: "b", base_version: 4, deleted: true, fields: {}, at: t0 + 9000 },
+  ]);
+
+  // 2) The server versions every accepted change and pull returns rows past the cursor.
+  const account = emptySyncAccount();
+  applyPush(account, "phone", [
+    { uid: "t1", base_version: 0, deleted: false, fields: { title: "Essay", due_date: "2026-03-10" }, at: t0 },
+  ]);
+  assert.equal(account.version, 1);
+  const first = pullSince(account, 0);
+  assert.equal(first.cursor, 1);
+  assert.deepEqual(first.rows.map((row) => [row.uid, row.version]), [["t1", 1]]);
+  assert.deepEqual(pullSince(account, 1).rows, []);
+
+  // 3) Edits to different fields from two devices both land without a conflict.
+  const split = applyPush(account, "web", [
+    { uid: "t1", base_version: 1, deleted: false, fields: { title: "Essay draft" }, at: t0 + 1000 },
+  ]);
+  const other = applyPush(account, "phone", [
+    { uid: "t1", base_version: 1, deleted: false, fields: { due_date: "2026-03-12" }, at: t0 + 500 },
+  ]);
+  assert.deepEqual([split.conflicts, other.conflicts], [[], []]);
+  assert.deepEqual(account.rows.t1.fields, { title: "Essay draft", due_date: "2026-03-12" });
+
+  // 4) The same field written on both: the later write wins either way round, and it's reported.
+  const late = applyPush(account, "web", [
+    { uid: "t1", base_version: 2, deleted: false, fields: { due_date: "2026-03-20" }, at: t0 + 2000 },
+  ]);
+  assert.deepEqual(late.conflicts.map((entry) => [entry.field, entry.kept, entry.discarded]), [
+    ["due_date", "2026-03-20", "2026-03-12"],
+  ]);
+  const stale = applyPush(account, "phone", [
+    { uid: "t1", base_version: 3, deleted: false, fields: { due_date: "2026-03-15" }, at: t0 + 1500 },
+  ]);
+  assert.deepEqual(stale.conflicts.map((entry) => [entry.kept, entry.discarded]), [["2026-03-20", "2026-03-15"]]);
+  assert.equal(account.rows.t1.fields.due_date, "2026-03-20");
+  assert.equal(account.version, 4);
+
+  // 5) Equal clocks fall back to the device id, so the outcome doesn't depend on push order.
+  assert.ok(compareClocks({ at: t0, device: "web" }, { at: t0, device: "phone" }) > 0);
+
+  // 6) A device never conflicts with its own earlier push.
+  const own = applyPush(account, "web", [
+    { uid: "t1", base_version: 3, deleted: false, fields: { due_date: "2026-03-21" }, at: t0 + 2500 },
+  ]);
+  assert.deepEqual(own.conflicts, []);
+
+  // 7) Deletes leave a tombstone; an edit that raced the delete comes back for review.
+  applyPush(account, "web", [{ uid: "t1", base_version: 5, deleted: true, fields: {}, at: t0 + 3000 }]);
+  assert.equal(account.rows.t1.deleted, true);
+  assert.equal(pullSince(account, 5).rows[0].deleted, true);
+  const raced = applyPush(account, "phone", [
+    { uid: "t1", base_version: 4, deleted: false, fields: { notes: "Cite sources" }, at: t0 + 2800 },
+  ]);
+  assert.equal(raced.conflicts[0].field, "deleted");
+  assert.equal(raced.conflicts[0].restore?.notes, "Cite sources");
+  assert.equal(raced.conflicts[0].restore?.title, "Essay draft");
+  assert.equal(account.rows.t1.deleted, true);
+
+  // 8) Only synced columns are read off a task row, and only the ones it has.
+  const row = { id: 7, title: "Lab", completed: 0, due_date: undefined };
+  assert.deepEqual(pickSyncFields(row), { title: "Lab", completed: 0, due_date: null });
+
+  console.log("syncProtocolTest: all assertions passed");
+}
+
+run();
@@ -0,0 +1,93 @@
+import assert from "node:assert/strict";
+import {
+  addableEdges,
+  blockedTaskIds,
+  describeDependencyCycle,
+  findDependencyCycle,
+  openPrerequisites,
+  orderByPrerequisites,
+  parsePrerequisiteIds,
+} from "@/utils/taskDependencies";
+
+function run() {
+  // 1) Stored id lists are parsed leniently and de-duplicated.
+  assert.deepEqual(parsePrerequisiteIds("3,5, 3"), [3, 5]);
+  assert.deepEqual(parsePrerequisiteIds("4,x,0,-2"), [4]);
+  assert.deepEqual(parsePrerequisiteIds(null), []);
+  assert.deepEqual(parsePrerequisiteIds(""), []);
+
+  // 2) Only open prerequisites that still exist block a task.
+  const lab = { id: 1, completed: 0 };
+  const reading = { id: 2, completed: 1 };
+  const report = { id: 3, completed: 0, prerequisite_ids: "1,2,99" };
+  const slides = { id: 4, completed: 0, prerequisite_ids: "2" };
+  const byId = new Map([lab, reading, report, slides].map((task) => [task.id, task]));
+  assert.deepEqual(openPrerequisites(report, byId), [1]);
+  assert.deepEqual(openPrerequisites(slides, byId), []);
+  assert.deepEqual([...blockedTaskIds([lab, reading, report, slides])], [3]);
+  assert.deepEqual([...blockedTaskIds([{ ...lab, completed: 1 }, reading, report, slides])], []);
+  // A finished task isn't shown as blocked even if its prerequisite was reopened.
+  assert.deepEqual([...blockedTaskIds([lab, { ...report, completed: 1 }])], []);
+
+  // 3) Cycles are found through any number of hops, including a task waiting on itself.
+  const edges = [
+    { task_id: 3, prerequisite_id: 1 },
+    { task_id: 1, prerequisite_id: 5 },
+  ];
+  assert.deepEqual(findDependencyCycle(edges, 5, [3]), [5, 3, 1, 5]);
+  assert.deepEqual(findDependencyCycle(edges, 1, [3]), [1, 3, 1]);
+  assert.deepEqual(findDependencyCycle(edges, 7, [7]), [7, 7]);
+  assert.equal(findDependencyCycle(edges, 6, [3, 1]), null);
+  // The task's own current edges are replaced, not added to.
+  assert.equal(findDependencyCycle(edges, 1, [6]), null);
+  // Restored links skip repeats and anything that would close a loop.
+  assert.deepEqual(
+    addableEdges(edges, [
+      { task_id: 3, prerequisite_id: 1 },
+      { task_id: 5, prerequisite_id: 3 },
+      { task_id: 6, prerequisite_id: 3 },
+      { task_id: 3, prerequisite_id: 6 },
+    ]),
+    [{ task_id: 6, prerequisite_id: 3 }]
+  );
+  assert.equal(
+    describeDependencyCycle(["Write report", "Finish lab", "Write report"]),
+    "That would make a loop: Write report → Finish lab → Write report. Remove one of those prerequisites first."
+  );
+
+  // 4) Ordering keeps the ranking but puts prerequisites in the list first.
+  const ranked = [
+    { id: 3, prerequisite_ids: "1" },
+    { id: 8 },
+    { id: 1, prerequisite_ids: "9" },
+    { id: 4 },
+  ];
+  assert.deepEqual(
+    orderByPrerequisites(ranked).map((task) => task.id),
+    [8, 1, 3, 4]
+  );
+  // Chains resolve in order; projected copies of a task follow it too.
+  const chain = [
+    { id: 5, prerequisite_ids: "6" },
+    { id: 5, prerequisite_ids: "6" },
+    { id: 6, prerequisite_ids: "7" },
+    { id: 7 },
+  ];
+  assert.deepEqual(
+    orderByPrerequisites(chain).map((task) => task.id),
+    [7, 6, 5, 5]
+  );
+  // A stored loop falls back to the ranked order instead of dropping tasks.
+  const loop = [
+    { id: 1, prerequisite_ids: "2" },
+    { id: 2, prerequisite_ids: "1" },
+  ];
+  assert.deepEqual(
+    orderByPrerequisites(loop).map((task) => task.id),
+    [1, 2]
+  );
+
+  console.log("taskDependenciesTest: all assertions passed");
+}
+
+run();
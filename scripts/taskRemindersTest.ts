@@ -0,0 +1,71 @@
+import assert from "node:assert/strict";
+import {
+  DEFAULT_REMINDER_DEFAULTS,
+  normalizeReminderDefaults,
+  parseReminderOffsets,
+  planTaskReminders,
+  resolveReminderOffsets,
+  serializeReminderOffsets,
+  snoozeDueDate,
+} from "@/utils/taskReminders";
+
+// Monday 2026-03-09, 10:00 local
+const now = new Date(2026, 2, 9, 10, 0);
+const time = { hour: 9, minute: 30 };
+
+function run() {
+  // 1) Stored text round-trips in a stable order; null follows the default, "" is off.
+  assert.equal(parseReminderOffsets(null), null);
+  assert.deepEqual(parseReminderOffsets(""), []);
+  assert.deepEqual(parseReminderOffsets("morning_of, bogus,week_before"), ["week_before", "morning_of"]);
+  assert.equal(serializeReminderOffsets(["morning_of", "day_before"]), "day_before,morning_of");
+  assert.equal(serializeReminderOffsets([]), "");
+  assert.equal(serializeReminderOffsets(null), null);
+
+  // 2) Category defaults apply only while the task has no offsets of its own.
+  const task = { id: 1, title: "Essay", category: "project" as const, due_date: "2026-03-20", reminder_offsets: null };
+  assert.deepEqual(resolveReminderOffsets(task, DEFAULT_REMINDER_DEFAULTS), ["week_before", "day_before"]);
+  assert.deepEqual(resolveReminderOffsets({ ...task, category: null }, DEFAULT_REMINDER_DEFAULTS), ["day_before", "morning_of"]);
+  assert.deepEqual(resolveReminderOffsets({ ...task, reminder_offsets: "" }, DEFAULT_REMINDER_DEFAULTS), []);
+
+  // 3) Reminders fire at the reminder time on their day, and ones already past are dropped.
+  const planned = planTaskReminders(
+    { id: 2, title: "Lab report", subject: "Chemistry", due_date: "2026-03-10" },
+    ["two_days_before", "day_before", "morning_of"],
+    time,
+    now
+  );
+  assert.deepEqual(
+    planned.map((reminder) => [reminder.offset, reminder.fireAt.getTime()]),
+    [["morning_of", new Date(2026, 2, 10, 9, 30).getTime()]]
+  );
+  assert.equal(planned[0].title, "Chemistry");
+  assert.equal(planned[0].body, "Lab report is due today.");
+
+  const later = planTaskReminders({ id: 3, title: "Essay", due_date: "2026-03-16" }, ["week_before", "two_days_before"], time, now);
+  assert.deepEqual(
+    later.map((reminder) => [reminder.fireAt.getDate(), reminder.title, reminder.body]),
+    [[14, "Deadline reminder", "Essay is due in 2 days."]]
+  );
+
+  // 4) Completed or undated tasks get nothing.
+  assert.deepEqual(planTaskReminders({ id: 4, title: "Done", due_date: "2026-03-12", completed: 1 }, ["day_before"], time, now), []);
+  assert.deepEqual(planTaskReminders({ id: 5, title: "Someday", due_date: null }, ["day_before"], time, now), []);
+
+  // 5) Stored defaults are cleaned per category and fall back when missing.
+  const cleaned = normalizeReminderDefaults({ revision: ["morning_of", "nope", "week_before"], personal: "day_before" });
+  assert.deepEqual(cleaned.revision, ["week_before", "morning_of"]);
+  assert.deepEqual(cleaned.personal, DEFAULT_REMINDER_DEFAULTS.personal);
+  assert.deepEqual(normalizeReminderDefaults(null), DEFAULT_REMINDER_DEFAULTS);
+
+  // 6) Snoozing pushes a day past the due date, or past today when it's already overdue.
+  assert.equal(snoozeDueDate("2026-03-12", now), "2026-03-13");
+  assert.equal(snoozeDueDate("2026-03-31", now), "2026-04-01");
+  assert.equal(snoozeDueDate("2026-03-09", now), "2026-03-10");
+  assert.equal(snoozeDueDate("2026-03-02", now), "2026-03-10");
+  assert.equal(snoozeDueDate(null, now), "2026-03-10");
+
+  console.log("taskRemindersTest: all assertions passed");
+}
+
+run();
@@ -0,0 +1,78 @@
+import assert from "node:assert/strict";
+import {
+  extractTagMentions,
+  isTagColor,
+  nextTagColor,
+  normalizeTagName,
+  normalizeTagNames,
+  parseTagIds,
+  suggestTags,
+  tagsForTask,
+  taskHasTag,
+  TAG_COLORS,
+  TAG_NAME_LIMIT,
+} from "@/utils/taskTags";
+
+function run() {
+  // 1) Names are normalised so the same tag is found however it was typed.
+  assert.equal(normalizeTagName("#Group Project"), "group-project");
+  assert.equal(normalizeTagName("  ##lab_report!  "), "lab-report");
+  assert.equal(normalizeTagName("--a  -- b--"), "a-b");
+  assert.equal(normalizeTagName("Économie"), "économie");
+  assert.equal(normalizeTagName("#"), "");
+  assert.equal(normalizeTagName("x".repeat(50)).length, TAG_NAME_LIMIT);
+  assert.deepEqual(normalizeTagNames(["Lab", "lab", " ", "#exam"]), ["lab", "exam"]);
+
+  // 2) Stored id lists are parsed leniently.
+  assert.deepEqual(parseTagIds("4,2,4"), [4, 2]);
+  assert.deepEqual(parseTagIds("x,0"), []);
+  assert.deepEqual(parseTagIds(null), []);
+  assert.ok(taskHasTag({ tag_ids: "1,7" }, 7));
+  assert.equal(taskHasTag({ tag_ids: null }, 7), false);
+
+  // 3) New tags take the least used palette colour.
+  assert.equal(nextTagColor([]), TAG_COLORS[0]);
+  assert.equal(nextTagColor([{ color: TAG_COLORS[0] }]), TAG_COLORS[1]);
+  assert.equal(
+    nextTagColor(TAG_COLORS.map((color) => ({ color })).concat([{ color: TAG_COLORS[0] }])),
+    TAG_COLORS[1]
+  );
+  assert.equal(nextTagColor([{ color: "#123456" }]), TAG_COLORS[0]);
+  assert.ok(isTagColor(TAG_COLORS[3]));
+  assert.equal(isTagColor("red"), false);
+
+  // 4) Autocomplete prefers prefix matches and skips tags already on the task.
+  const tags = [
+    { id: 1, name: "group-project", color: TAG_COLORS[0] },
+    { id: 2, name: "project-x", color: TAG_COLORS[1] },
+    { id: 3, name: "exam", color: TAG_COLORS[2] },
+  ];
+  assert.deepEqual(
+    suggestTags(tags, "proj").map((tag) => tag.name),
+    ["project-x", "group-project"]
+  );
+  assert.deepEqual(
+    suggestTags(tags, "#Proj", ["project-x"]).map((tag) => tag.name),
+    ["group-project"]
+  );
+  assert.deepEqual(
+    suggestTags(tags, "", [], 2).map((tag) => tag.name),
+    ["exam", "group-project"]
+  );
+
+  // 5) Chat mentions, but not anchors inside words or URLs.
+  assert.deepEqual(extractTagMentions("show my #group-project tasks"), ["group-project"]);
+  assert.deepEqual(extractTagMentions("#Exam and #lab_work, #exam"), ["exam", "lab-work"]);
+  assert.deepEqual(extractTagMentions("issue#4 or page.html#top"), []);
+
+  // 6) A task's tags resolve by id in name order.
+  const byId = new Map(tags.map((tag) => [tag.id, tag]));
+  assert.deepEqual(
+    tagsForTask({ tag_ids: "2,9,3" }, byId).map((tag) => tag.name),
+    ["exam", "project-x"]
+  );
+
+  console.log("taskTagsTest: all assertions passed");
+}
+
+run();
@@ -0,0 +1,33 @@
+import assert from "node:assert/strict";
+import {
+  daysLeftInTrash,
+  DEFAULT_TRASH_RETENTION_DAYS,
+  isTrashRetentionDays,
+  trashPurgeCutoff,
+} from "@/utils/trash";
+
+const now = Date.UTC(2026, 2, 31, 12, 0);
+
+function run() {
+  // 1) The cutoff is the retention period before now, in the same format as deleted_at.
+  assert.equal(trashPurgeCutoff(30, now), "2026-03-01T12:00:00.000Z");
+  assert.ok("2026-03-01T11:59:59.999Z" < trashPurgeCutoff(30, now));
+  assert.ok("2026-03-01T12:00:00.001Z" > trashPurgeCutoff(30, now));
+
+  // 2) Days left rounds up, so a task deleted just now shows the full period.
+  assert.equal(daysLeftInTrash(new Date(now).toISOString(), 30, now), 30);
+  assert.equal(daysLeftInTrash("2026-03-30T18:00:00.000Z", 7, now), 7);
+  assert.equal(daysLeftInTrash("2026-03-24T13:00:00.000Z", 7, now), 1);
+  assert.equal(daysLeftInTrash("2026-03-01T00:00:00.000Z", 7, now), 0);
+  assert.equal(daysLeftInTrash("not a date", 7, now), 0);
+
+  // 3) Only the offered periods are accepted from storage.
+  assert.ok(isTrashRetentionDays(DEFAULT_TRASH_RETENTION_DAYS));
+  assert.ok(isTrashRetentionDays(90));
+  assert.equal(isTrashRetentionDays(14), false);
+  assert.equal(isTrashRetentionDays("30"), false);
+
+  console.log("trashTest: all assertions passed");
+}
+
+run();
@@ -0,0 +1,48 @@
+import assert from "node:assert/strict";
+import { buildWorkSession, formatDuration, startOfWeek } from "@/utils/workSessions";
+
+function run() {
+  const endedAt = new Date("2026-03-04T10:25:00Z");
+  const base = {
+    taskId: 7,
+    startedAt: "2026-03-04T10:00:00.000Z",
+    plannedMinutes: 25,
+    actualSeconds: 1500,
+    endedAt,
+  };
+
+  // 1) A finished timer becomes a row with the time actually spent.
+  assert.deepEqual(buildWorkSession({ ...base, outcome: "completed" }), {
+    task_id: 7,
+    started_at: "2026-03-04T10:00:00.000Z",
+    ended_at: "2026-03-04T10:25:00.000Z",
+    planned_minutes: 25,
+    actual_seconds: 1500,
+    outcome: "completed",
+  });
+
+  // 2) Nothing is logged without a task or a started timer.
+  assert.equal(buildWorkSession({ ...base, taskId: null, outcome: "completed" }), null);
+  assert.equal(buildWorkSession({ ...base, startedAt: null, outcome: "skipped" }), null);
+
+  // 3) Short skips still count, but a quick reset is a false start.
+  assert.equal(buildWorkSession({ ...base, actualSeconds: 20, outcome: "skipped" })?.actual_seconds, 20);
+  assert.equal(buildWorkSession({ ...base, actualSeconds: 20, outcome: "abandoned" }), null);
+  assert.equal(buildWorkSession({ ...base, actualSeconds: 600, outcome: "abandoned" })?.outcome, "abandoned");
+
+  // 4) Weeks start on Monday at midnight, including when today is Sunday.
+  const sunday = startOfWeek(new Date(2026, 2, 8, 18, 30));
+  assert.deepEqual([sunday.getFullYear(), sunday.getMonth(), sunday.getDate(), sunday.getHours()], [2026, 2, 2, 0]);
+  assert.equal(startOfWeek(new Date(2026, 2, 2, 9)).getDate(), 2);
+
+  // 5) Durations read as minutes, then hours and zero-padded minutes.
+  assert.equal(formatDuration(0), "0m");
+  assert.equal(formatDuration(42), "<1m");
+  assert.equal(formatDuration(25 * 60), "25m");
+  assert.equal(formatDuration(3600 + 5 * 60), "1h 05m");
+  assert.equal(formatDuration(2 * 3600), "2h");
+
+  console.log("workSessionsTest: all assertions passed");
+}
+
+run();
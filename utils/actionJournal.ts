@@ -0,0 +1,88 @@
+// Task changes grouped into batches (one tap, one assistant reply, one reschedule), each
+// step holding what it replaced so the batch can be reverted later, newest step first.
+
+export type TaskSnapshot = {
+  title: string;
+  notes: string | null;
+  difficulty: "easy" | "medium" | "hard" | null;
+  due_date: string | null;
+  priority: "normal" | "high" | null;
+  category: "coursework" | "revision" | "project" | "personal" | null;
+  estimated_minutes: number | null;
+  reminder_offsets: string | null;
+  course_id: number | null;
+  assessment_weight: number | null;
+  grade: number | null;
+};
+
+export type JournalStep =
+  | { kind: "create"; taskId: number }
+  | { kind: "delete"; taskId: number }
+  | { kind: "due_date"; taskId: number; before: string | null }
+  // spawnedId is the next instance a repeating task created when it was completed
+  | { kind: "complete"; taskId: number; wasCompleted: boolean; spawnedId: number | null }
+  | { kind: "edit"; taskId: number; before: TaskSnapshot };
+
+export type JournalBatch = {
+  id: number;
+  label: string;
+  at: number;
+  steps: JournalStep[];
+};
+
+// Older batches fall off; undo is for the last few things done, not history
+export const JOURNAL_LIMIT = 20;
+
+// Columns added after the journal may be missing from older rows
+type LaterField = "course_id" | "assessment_weight" | "grade";
+type SnapshotSource = Omit<TaskSnapshot, LaterField> & Partial<Pick<TaskSnapshot, LaterField>>;
+
+export function snapshotTask(task: SnapshotSource): TaskSnapshot {
+  return {
+    title: task.title,
+    notes: task.notes,
+    difficulty: task.difficulty,
+    due_date: task.due_date,
+    priority: task.priority,
+    category: task.category,
+    estimated_minutes: task.estimated_minutes,
+    reminder_offsets: task.reminder_offsets,
+    course_id: task.course_id ?? null,
+    assessment_weight: task.assessment_weight ?? null,
+    grade: task.grade ?? null,
+  };
+}
+
+// The updateTask call that puts an edited task back the way the snapshot found it
+export function revertEdit(taskId: number, before: TaskSnapshot) {
+  return {
+    id: taskId,
+    title: before.title,
+    notes: before.notes ?? "",
+    difficulty: before.difficulty ?? "medium",
+    due_date: before.due_date,
+    priority: before.priority ?? "normal",
+    category: before.category,
+    estimated_minutes: before.estimated_minutes,
+    reminder_offsets: before.reminder_offsets,
+    course_id: before.course_id,
+    assessment_weight: before.assessment_weight,
+    grade: before.grade,
+  };
+}
+
+// Batches that changed nothing aren't kept, so undo never lands on a no-op
+export function appendBatch(journal: JournalBatch[], batch: JournalBatch) {
+  if (!batch.steps.length) return journal;
+  return [...journal, batch].slice(-JOURNAL_LIMIT);
+}
+
+// Steps in the order to revert them, so a task changed twice ends up as it started
+export function undoOrder(batch: JournalBatch) {
+  return [...batch.steps].reverse();
+}
+
+// e.g. "Moved 3 tasks", "Deleted 1 task"
+export function describeChange(verb: string, count: number) {
+  return `${verb} ${count} task${count === 1 ? "" : "s"}`;
+}
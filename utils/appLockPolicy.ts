@@ -0,0 +1,67 @@
+export const APP_LOCK_MAX_ATTEMPTS = 5;
+// First lockout; each one after that doubles, up to the cap
+export const APP_LOCK_LOCKOUT_MS = 30_000;
+export const APP_LOCK_MAX_LOCKOUT_MS = 60 * 60 * 1000;
+
+export type FailedUnlockState = {
+  // Wrong PINs since the last lockout
+  attempts: number;
+  // Lockouts since the last successful unlock
+  lockouts: number;
+  lockoutUntil: number | null;
+};
+
+export function lockoutDurationMs(lockouts: number) {
+  const doublings = Math.max(0, lockouts - 1);
+  return Math.min(APP_LOCK_MAX_LOCKOUT_MS, APP_LOCK_LOCKOUT_MS * 2 ** Math.min(doublings, 20));
+}
+
+// Every APP_LOCK_MAX_ATTEMPTS wrong PINs start a lockout twice as long as the one before
+export function registerFailedUnlock(state: FailedUnlockState, now: number): FailedUnlockState {
+  if (state.lockoutUntil && state.lockoutUntil > now) return state;
+  const attempts = state.attempts + 1;
+  if (attempts < APP_LOCK_MAX_ATTEMPTS) return { attempts, lockouts: state.lockouts, lockoutUntil: null };
+  const lockouts = state.lockouts + 1;
+  return { attempts: 0, lockouts, lockoutUntil: now + lockoutDurationMs(lockouts) };
+}
+
+// e.g. "45s", "4m", "1h"
+export function formatLockoutWait(ms: number) {
+  const seconds = Math.max(1, Math.ceil(ms / 1000));
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.ceil(seconds / 60);
+  if (minutes < 60) return `${minutes}m`;
+  return `${Math.ceil(minutes / 60)}h`;
+}
+
+// How long the app may sit in the background before it locks again
+export type AutoLockSetting = "immediately" | "1m" | "5m" | "15m" | "cold-start";
+
+export const AUTO_LOCK_OPTIONS: { value: AutoLockSetting; label: string }[] = [
+  { value: "immediately", label: "Immediately" },
+  { value: "1m", label: "After 1 minute" },
+  { value: "5m", label: "After 5 minutes" },
+  { value: "15m", label: "After 15 minutes" },
+  { value: "cold-start", label: "Only on app start" },
+];
+
+// Matches how the lock behaved before the setting existed
+export const DEFAULT_AUTO_LOCK: AutoLockSetting = "cold-start";
+
+const AUTO_LOCK_DELAY_MS: Record<AutoLockSetting, number | null> = {
+  immediately: 0,
+  "1m": 60_000,
+  "5m": 5 * 60_000,
+  "15m": 15 * 60_000,
+  "cold-start": null,
+};
+
+export function isAutoLockSetting(value: unknown): value is AutoLockSetting {
+  return typeof value === "string" && Object.hasOwn(AUTO_LOCK_DELAY_MS, value);
+}
+
+export function shouldLockOnResume(setting: AutoLockSetting, backgroundedAt: number | null, now: number) {
+  const delay = AUTO_LOCK_DELAY_MS[setting];
+  if (delay === null || backgroundedAt === null) return false;
+  return now - backgroundedAt >= delay;
+}
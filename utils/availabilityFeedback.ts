@@ -8,8 +8,15 @@ type AvailabilityFeedbackOptions = {
   errorMessage?: string;
   successTitle?: string;
   errorTitle?: string;
+  // Lets callers route the write through the undo journal (lib/action-journal)
+  complete?: (taskId: number, completed: boolean) => ReturnType<typeof setTaskCompleted>;
 };
 
+function formatNextDue(iso: string) {
+  const date = new Date(`${iso}T00:00:00`);
+  return date.toLocaleDateString(undefined, { weekday: "short", month: "short", day: "numeric" });
+}
+
 export async function updateAvailabilityWithFeedback(
   taskId: number,
   completed: boolean,
@@ -21,15 +28,18 @@ export async function updateAvailabilityWithFeedback(
     errorMessage,
     successTitle = "Availability updated",
     errorTitle = "Update failed",
+    complete = setTaskCompleted,
   } = options;
 
-  const successBody = successMessage ?? (completed ? "Marked as complete." : "Moved back to active.");
   const errorBody = errorMessage ?? "Couldn't update availability. Please try again.";
 
   try {
-    await setTaskCompleted(taskId, completed);
+    const next = await complete(taskId, completed);
 
     if (!silentSuccess) {
+      const baseBody = successMessage ?? (completed ? "Marked as complete." : "Moved back to active.");
+      // Repeating tasks roll over to their next instance when completed
+      const successBody = next ? `${baseBody} Next one is due ${formatNextDue(next.due_date)}.` : baseBody;
       Alert.alert(successTitle, successBody);
     }
 
@@ -0,0 +1,455 @@
+import type { DependencyEdge } from "@/utils/taskDependencies";
+import { isTagColor, normalizeTagName, normalizeTagNames } from "@/utils/taskTags";
+
+export const BACKUP_FORMAT = "workloadassapp-backup";
+// v2 added task prerequisites, v3 tags
+export const BACKUP_VERSION = 3;
+
+export type RestoreMode = "merge" | "replace";
+
+export type BackupSubtask = {
+  title: string;
+  completed: number;
+  position: number;
+};
+
+export type BackupTask = {
+  // Ids are only used to link rows inside the file; restore assigns fresh ones
+  id: number;
+  title: string;
+  subject: string | null;
+  difficulty: "easy" | "medium" | "hard" | null;
+  priority: "normal" | "high" | null;
+  category: "coursework" | "revision" | "project" | "personal" | null;
+  due_date: string | null;
+  notes: string | null;
+  completed: number;
+  created_at: string | null;
+  recurrence_id: number | null;
+  occurrence: number | null;
+  ical_uid: string | null;
+  estimated_minutes: number | null;
+  reminder_offsets: string | null;
+  // % of the course and % achieved; missing from older backups
+  assessment_weight: number | null;
+  grade: number | null;
+  // Ids (in this file) of the tasks this one waits on
+  prerequisite_ids: number[];
+  // Tag names, as in BackupData.tags
+  tags: string[];
+  subtasks: BackupSubtask[];
+};
+
+export type BackupRecurrence = {
+  id: number;
+  rule: string;
+  created_at: string | null;
+};
+
+// Matched to tasks by name (their subject), so no id is needed
+export type BackupCourse = {
+  name: string;
+  code: string | null;
+  color: string;
+  term: string | null;
+  credit_weight: number | null;
+  exam_date: string | null;
+};
+
+// Matched by name like courses; an empty colour means "pick one"
+export type BackupTag = {
+  name: string;
+  color: string;
+};
+
+export type BackupData = {
+  tasks: BackupTask[];
+  recurrences: BackupRecurrence[];
+  // Missing from backups made before courses existed
+  courses: BackupCourse[];
+  tags: BackupTag[];
+};
+
+// Profile without the password / provider secrets
+export type BackupUser = {
+  name: string;
+  email: string;
+  provider: string;
+  created_at: string | null;
+};
+
+export type BackupSettings = {
+  reminder: { enabled: boolean; hour: number; minute: number } | null;
+  theme_override: "light" | "dark" | null;
+  accent_theme: string | null;
+};
+
+export type BackupFocusSnapshot = {
+  taskId: number | null;
+  selectedMinutes: number;
+  remainingSeconds: number;
+  sessionState: "ready" | "running" | "paused" | "finished";
+  updatedAt: number;
+};
+
+export type BackupPayload = {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exported_at: string;
+  user: BackupUser | null;
+  data: BackupData;
+  nav_quick_actions: Record<string, string>;
+  settings: BackupSettings;
+  focus_snapshot: BackupFocusSnapshot | null;
+};
+
+export type BackupConflict = {
+  kind: "account" | "duplicates" | "settings";
+  message: string;
+};
+
+const DIFFICULTIES = ["easy", "medium", "hard"] as const;
+const PRIORITIES = ["normal", "high"] as const;
+const CATEGORIES = ["coursework", "revision", "project", "personal"] as const;
+const SESSION_STATES = ["ready", "running", "paused", "finished"] as const;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function text(value: unknown) {
+  return typeof value === "string" ? value : null;
+}
+
+function int(value: unknown) {
+  const n = Number(value);
+  return Number.isInteger(n) ? n : null;
+}
+
+// A percentage from 0 to 100, or null
+function percent(value: unknown) {
+  const n = value === null || value === "" ? Number.NaN : Number(value);
+  return Number.isFinite(n) && n >= 0 && n <= 100 ? n : null;
+}
+
+function oneOf<T extends string>(value: unknown, allowed: readonly T[]): T | null {
+  return typeof value === "string" && (allowed as readonly string[]).includes(value) ? (value as T) : null;
+}
+
+function intList(value: unknown) {
+  return [...new Set((Array.isArray(value) ? value : []).map(int).filter((n): n is number => n !== null))];
+}
+
+function readSubtask(raw: unknown, index: number): BackupSubtask | null {
+  if (!isRecord(raw)) return null;
+  const title = text(raw.title)?.trim();
+  if (!title) return null;
+  return { title, completed: raw.completed ? 1 : 0, position: int(raw.position) ?? index };
+}
+
+function readTask(raw: unknown, index: number): BackupTask {
+  if (!isRecord(raw)) throw new Error(`Task #${index + 1} is not an object.`);
+  const title = text(raw.title)?.trim();
+  if (!title) throw new Error(`Task #${index + 1} is missing a title.`);
+  const id = int(raw.id);
+  if (id === null) throw new Error(`Task "${title}" is missing an id.`);
+  return {
+    id,
+    title,
+    subject: text(raw.subject),
+    difficulty: oneOf(raw.difficulty, DIFFICULTIES),
+    priority: oneOf(raw.priority, PRIORITIES),
+    category: oneOf(raw.category, CATEGORIES),
+    due_date: /^\d{4}-\d{2}-\d{2}$/.test(text(raw.due_date) ?? "") ? (raw.due_date as string) : null,
+    notes: text(raw.notes),
+    completed: raw.completed ? 1 : 0,
+    created_at: text(raw.created_at),
+    recurrence_id: int(raw.recurrence_id),
+    occurrence: int(raw.occurrence),
+    ical_uid: text(raw.ical_uid),
+    estimated_minutes: int(raw.estimated_minutes) || null,
+    reminder_offsets: text(raw.reminder_offsets),
+    assessment_weight: percent(raw.assessment_weight) || null,
+    grade: percent(raw.grade),
+    prerequisite_ids: intList(raw.prerequisite_ids).filter((prerequisiteId) => prerequisiteId !== id),
+    tags: normalizeTagNames((Array.isArray(raw.tags) ? raw.tags : []).filter((name) => typeof name === "string")),
+    subtasks: (Array.isArray(raw.subtasks) ? raw.subtasks : [])
+      .map(readSubtask)
+      .filter((item): item is BackupSubtask => item !== null),
+  };
+}
+
+function readRecurrence(raw: unknown): BackupRecurrence | null {
+  if (!isRecord(raw)) return null;
+  const id = int(raw.id);
+  const rule = text(raw.rule);
+  if (id === null || !rule) return null;
+  return { id, rule, created_at: text(raw.created_at) };
+}
+
+function readCourse(raw: unknown): BackupCourse | null {
+  if (!isRecord(raw)) return null;
+  const name = text(raw.name)?.trim();
+  if (!name) return null;
+  const weight = Number(raw.credit_weight);
+  return {
+    name,
+    code: text(raw.code),
+    color: text(raw.color) ?? "",
+    term: text(raw.term),
+    credit_weight: raw.credit_weight !== null && Number.isFinite(weight) && weight > 0 ? weight : null,
+    exam_date: /^\d{4}-\d{2}-\d{2}$/.test(text(raw.exam_date) ?? "") ? (raw.exam_date as string) : null,
+  };
+}
+
+function readTag(raw: unknown): BackupTag | null {
+  if (!isRecord(raw)) return null;
+  const name = normalizeTagName(text(raw.name) ?? "");
+  if (!name) return null;
+  return { name, color: isTagColor(raw.color) ? raw.color : "" };
+}
+
+function readUser(raw: unknown): BackupUser | null {
+  if (!isRecord(raw)) return null;
+  const email = text(raw.email);
+  if (!email) return null;
+  return {
+    name: text(raw.name) ?? "",
+    email,
+    provider: text(raw.provider) ?? "email",
+    created_at: text(raw.created_at),
+  };
+}
+
+function readSettings(raw: unknown): BackupSettings {
+  const settings = isRecord(raw) ? raw : {};
+  const reminder = isRecord(settings.reminder) ? settings.reminder : null;
+  const hour = int(reminder?.hour);
+  const minute = int(reminder?.minute);
+  return {
+    reminder:
+      reminder && hour !== null && minute !== null && hour >= 0 && hour <= 23 && minute >= 0 && minute <= 59
+        ? { enabled: reminder.enabled === true, hour, minute }
+        : null,
+    theme_override: oneOf(settings.theme_override, ["light", "dark"] as const),
+    accent_theme: text(settings.accent_theme),
+  };
+}
+
+function readFocusSnapshot(raw: unknown): BackupFocusSnapshot | null {
+  if (!isRecord(raw)) return null;
+  const sessionState = oneOf(raw.sessionState, SESSION_STATES);
+  const selectedMinutes = int(raw.selectedMinutes);
+  const remainingSeconds = int(raw.remainingSeconds);
+  if (!sessionState || selectedMinutes === null || remainingSeconds === null) return null;
+  return {
+    taskId: int(raw.taskId),
+    selectedMinutes,
+    remainingSeconds,
+    sessionState,
+    updatedAt: int(raw.updatedAt) ?? Date.now(),
+  };
+}
+
+// Brings the raw data of an older backup up to the current shape, one version at a time
+const MIGRATIONS: Record<number, (data: Record<string, unknown>) => Record<string, unknown>> = {
+  // v1 didn't export prerequisites, so its tasks wait on nothing
+  1: (data) => ({
+    ...data,
+    tasks: Array.isArray(data.tasks)
+      ? data.tasks.map((task) => (isRecord(task) ? { ...task, prerequisite_ids: [] } : task))
+      : data.tasks,
+  }),
+  // v2 didn't export tags
+  2: (data) => ({
+    ...data,
+    tags: [],
+    tasks: Array.isArray(data.tasks)
+      ? data.tasks.map((task) => (isRecord(task) ? { ...task, tags: [] } : task))
+      : data.tasks,
+  }),
+};
+
+function migrateData(data: Record<string, unknown>, version: number) {
+  let migrated = data;
+  for (let from = version; from < BACKUP_VERSION; from += 1) {
+    migrated = MIGRATIONS[from]?.(migrated) ?? migrated;
+  }
+  return migrated;
+}
+
+// Matches the same task across devices without relying on row ids
+export function taskFingerprint(task: { title: string; due_date: string | null; created_at: string | null }) {
+  return [task.title.trim().toLowerCase(), task.due_date ?? "", task.created_at ?? ""].join("|");
+}
+
+export function buildBackup(parts: Omit<BackupPayload, "format" | "version" | "exported_at">, now = new Date()) {
+  const payload: BackupPayload = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exported_at: now.toISOString(),
+    ...parts,
+  };
+  return payload;
+}
+
+// Validates pasted backup text; throws with a message that can be shown to the user as-is
+export function parseBackup(raw: string): BackupPayload {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw.trim());
+  } catch {
+    throw new Error("That doesn't look like valid JSON.");
+  }
+  if (!isRecord(parsed) || parsed.format !== BACKUP_FORMAT) {
+    throw new Error("This isn't a Workload backup file.");
+  }
+  const version = int(parsed.version);
+  if (version === null || version < 1) throw new Error("The backup is missing its version number.");
+  if (version > BACKUP_VERSION) {
+    throw new Error(`This backup was made by a newer version of the app (format v${version}). Update the app and try again.`);
+  }
+
+  const data = isRecord(parsed.data) ? migrateData(parsed.data, version) : null;
+  if (!data || !Array.isArray(data.tasks)) throw new Error("The backup has no task list.");
+
+  const recurrences = (Array.isArray(data.recurrences) ? data.recurrences : [])
+    .map(readRecurrence)
+    .filter((item): item is BackupRecurrence => item !== null);
+  const knownSeries = new Set(recurrences.map((item) => item.id));
+  // Tasks pointing at a series that isn't in the file become one-offs
+  const read = data.tasks.map(readTask);
+  const knownTasks = new Set(read.map((task) => task.id));
+  const tasks = read
+    .map((task) =>
+      task.recurrence_id !== null && !knownSeries.has(task.recurrence_id)
+        ? { ...task, recurrence_id: null, occurrence: null }
+        : task
+    )
+    // Links to tasks that aren't in the file are dropped
+    .map((task) => ({ ...task, prerequisite_ids: task.prerequisite_ids.filter((id) => knownTasks.has(id)) }));
+
+  const courses = (Array.isArray(data.courses) ? data.courses : [])
+    .map(readCourse)
+    .filter((item): item is BackupCourse => item !== null);
+
+  const tags = (Array.isArray(data.tags) ? data.tags : [])
+    .map(readTag)
+    .filter((item): item is BackupTag => item !== null)
+    .filter((item, index, list) => list.findIndex((other) => other.name === item.name) === index);
+
+  const navRaw = isRecord(parsed.nav_quick_actions) ? parsed.nav_quick_actions : {};
+  const nav_quick_actions: Record<string, string> = {};
+  Object.entries(navRaw).forEach(([navId, actionId]) => {
+    if (typeof actionId === "string") nav_quick_actions[navId] = actionId;
+  });
+
+  return {
+    format: BACKUP_FORMAT,
+    version,
+    exported_at: text(parsed.exported_at) ?? "",
+    user: readUser(parsed.user),
+    data: { tasks, recurrences, courses, tags },
+    nav_quick_actions,
+    settings: readSettings(parsed.settings),
+    focus_snapshot: readFocusSnapshot(parsed.focus_snapshot),
+  };
+}
+
+// The file's prerequisite links as local task ids. localIds maps each backup task id to the
+// row it was restored as (or, when merging, the row it matched); only links that touch a
+// newly added row are returned, so a merge doesn't re-add links removed on this device.
+export function restoredPrerequisites(
+  tasks: BackupTask[],
+  localIds: Map<number, number>,
+  addedIds: Set<number>
+): DependencyEdge[] {
+  return tasks.flatMap((task) => {
+    const taskId = localIds.get(task.id);
+    if (taskId === undefined) return [];
+    return task.prerequisite_ids
+      .map((id) => localIds.get(id))
+      .filter((prerequisiteId): prerequisiteId is number => prerequisiteId !== undefined && prerequisiteId !== taskId)
+      .filter((prerequisiteId) => addedIds.has(taskId) || addedIds.has(prerequisiteId))
+      .map((prerequisiteId) => ({ task_id: taskId, prerequisite_id: prerequisiteId }));
+  });
+}
+
+// After a replace, where each task that was wiped ended up: its old row id -> the restored row
+// with the same fingerprint. Tasks the file doesn't have are left out.
+export function replacedTaskIds(
+  previous: { id: number; title: string; due_date: string | null; created_at: string | null }[],
+  tasks: BackupTask[],
+  taskIds: Map<number, number>
+) {
+  const restored = new Map<string, number>();
+  tasks.forEach((task) => {
+    const id = taskIds.get(task.id);
+    if (id !== undefined) restored.set(taskFingerprint(task), id);
+  });
+  const moved = new Map<number, number>();
+  previous.forEach((task) => {
+    const id = restored.get(taskFingerprint(task));
+    if (id !== undefined) moved.set(task.id, id);
+  });
+  return moved;
+}
+
+// Things the user should know before picking merge or replace
+export function findBackupConflicts(
+  backup: BackupPayload,
+  current: {
+    email: string | null;
+    tasks: { title: string; due_date: string | null; created_at: string | null }[];
+    settings: BackupSettings;
+  }
+) {
+  const conflicts: BackupConflict[] = [];
+  if (backup.user && current.email && backup.user.email.toLowerCase() !== current.email.toLowerCase()) {
+    conflicts.push({
+      kind: "account",
+      message: `Backup belongs to ${backup.user.email}; it will be restored into ${current.email}.`,
+    });
+  }
+
+  const existing = new Set(current.tasks.map(taskFingerprint));
+  const duplicates = backup.data.tasks.filter((task) => existing.has(taskFingerprint(task))).length;
+  if (duplicates) {
+    conflicts.push({
+      kind: "duplicates",
+      message: `${duplicates} task${duplicates === 1 ? " is" : "s are"} already on this device. Merge skips them; replace overwrites everything.`,
+    });
+  }
+
+  const settingsDiffer =
+    backup.settings.theme_override !== current.settings.theme_override ||
+    (backup.settings.accent_theme !== null && backup.settings.accent_theme !== current.settings.accent_theme) ||
+    (backup.settings.reminder !== null &&
+      (backup.settings.reminder.enabled !== current.settings.reminder?.enabled ||
+        backup.settings.reminder.hour !== current.settings.reminder?.hour ||
+        backup.settings.reminder.minute !== current.settings.reminder?.minute));
+  if (settingsDiffer) {
+    conflicts.push({
+      kind: "settings",
+      message: "Reminder, theme or accent settings differ. Merge keeps yours; replace uses the backup's.",
+    });
+  }
+  return conflicts;
+}
+
+// "12 tasks · 3 repeating series · exported 4 Mar"
+export function describeBackup(backup: BackupPayload) {
+  const tasks = backup.data.tasks.length;
+  const parts = [`${tasks} task${tasks === 1 ? "" : "s"}`];
+  const series = backup.data.recurrences.length;
+  if (series) parts.push(`${series} repeating series`);
+  const courses = backup.data.courses.length;
+  if (courses) parts.push(`${courses} course${courses === 1 ? "" : "s"}`);
+  const tags = backup.data.tags.length;
+  if (tags) parts.push(`${tags} tag${tags === 1 ? "" : "s"}`);
+  const exported = new Date(backup.exported_at);
+  if (!Number.isNaN(exported.getTime())) {
+    parts.push(`exported ${exported.toLocaleDateString(undefined, { day: "numeric", month: "short", year: "numeric" })}`);
+  }
+  return parts.join(" · ");
+}
@@ -0,0 +1,200 @@
+// Courses (modules, units) with their own settings. A task keeps the course name in `subject`,
+// which is what CSV, backups and sync exchange, and points at the course row through course_id.
+// Renaming a course rewrites that name on its tasks.
+
+import { nextTagColor, TAG_COLORS } from "./taskTags";
+
+export type Course = {
+  id: number;
+  name: string;
+  // Short code such as "CS101", shown before the name
+  code: string | null;
+  color: string;
+  // Free text, e.g. "Autumn 2026"
+  term: string | null;
+  // Credits or weighting; the heavier course is listed first when exams don't decide it
+  credit_weight: number | null;
+  exam_date: string | null;
+};
+
+export type CourseDraft = Omit<Course, "id">;
+
+// What the course form edits; credit weight stays text until it is read
+export type CourseForm = {
+  name: string;
+  code: string;
+  color: string;
+  term: string;
+  credit_weight: string;
+  exam_date: string | null;
+};
+
+type CourseTask = {
+  course_id?: number | null;
+  completed?: number | null;
+  due_date?: string | null;
+};
+
+export type CourseSummary = {
+  // null collects the tasks that have no course
+  course: Course | null;
+  open: number;
+  overdue: number;
+  done: number;
+  minutesLeft: number;
+  nextDue: string | null;
+  daysToExam: number | null;
+};
+
+// Courses share the tag palette
+export const COURSE_COLORS = TAG_COLORS;
+
+export const COURSE_NAME_LIMIT = 60;
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+export function normalizeCourseCode(raw: string) {
+  return raw.trim().replace(/\s+/g, "").toUpperCase().slice(0, 16);
+}
+
+// "CS101 · Algorithms", or just the name
+export function courseLabel(course: Pick<Course, "name" | "code">) {
+  return course.code ? `${course.code} · ${course.name}` : course.name;
+}
+
+// The course a loose subject string means: its name or its code, ignoring case
+export function findCourse<T extends Pick<Course, "name" | "code">>(courses: T[], subject: string | null | undefined) {
+  const needle = subject?.trim().toLowerCase();
+  if (!needle) return null;
+  return (
+    courses.find((course) => course.name.toLowerCase() === needle) ??
+    courses.find((course) => course.code?.toLowerCase() === needle) ??
+    null
+  );
+}
+
+export function emptyCourseForm(courses: Pick<Course, "color">[] = []): CourseForm {
+  return {
+    name: "",
+    code: "",
+    color: nextTagColor(courses),
+    term: "",
+    credit_weight: "",
+    exam_date: null,
+  };
+}
+
+export function courseToForm(course: Course): CourseForm {
+  return {
+    name: course.name,
+    code: course.code ?? "",
+    color: course.color,
+    term: course.term ?? "",
+    credit_weight: course.credit_weight === null ? "" : String(course.credit_weight),
+    exam_date: course.exam_date,
+  };
+}
+
+// Validates the course form; throws with a message that can be shown to the user as-is
+export function readCourseForm(form: CourseForm, courses: Course[], editingId: number | null = null): CourseDraft {
+  const name = form.name.trim().replace(/\s+/g, " ").slice(0, COURSE_NAME_LIMIT);
+  if (!name) throw new Error("Give the course a name.");
+  const code = normalizeCourseCode(form.code) || null;
+  const others = courses.filter((course) => course.id !== editingId);
+  if (others.some((course) => course.name.toLowerCase() === name.toLowerCase())) {
+    throw new Error(`You already have a course called ${name}.`);
+  }
+  if (code && others.some((course) => course.code === code)) {
+    throw new Error(`Another course already uses the code ${code}.`);
+  }
+
+  const weightText = form.credit_weight.trim().replace(",", ".");
+  const credit_weight = weightText ? Number(weightText) : null;
+  if (credit_weight !== null && (!Number.isFinite(credit_weight) || credit_weight <= 0 || credit_weight > 100)) {
+    throw new Error("Credit weight should be a number between 0 and 100.");
+  }
+  if (form.exam_date && !ISO_DATE.test(form.exam_date)) throw new Error("The exam date isn't a valid date.");
+
+  return {
+    name,
+    code,
+    color: COURSE_COLORS.includes(form.color) ? form.color : COURSE_COLORS[0],
+    term: form.term.trim() || null,
+    credit_weight,
+    exam_date: form.exam_date || null,
+  };
+}
+
+function daysBetween(fromISO: string, toISO: string) {
+  const from = Date.parse(`${fromISO}T00:00:00Z`);
+  const to = Date.parse(`${toISO}T00:00:00Z`);
+  return Math.round((to - from) / 86_400_000);
+}
+
+// "Exam in 12 days", "Exam today"; past exams say nothing
+export function describeExam(examISO: string | null, todayISO: string) {
+  if (!examISO) return null;
+  const days = daysBetween(todayISO, examISO);
+  if (days < 0) return null;
+  if (days === 0) return "Exam today";
+  if (days === 1) return "Exam tomorrow";
+  return `Exam in ${days} days`;
+}
+
+// Per-course workload for the planner and the Courses screen. Courses with open work come first,
+// nearest exam first, then the heavier course; tasks without a course come last.
+export function summarizeCourses<T extends CourseTask>(
+  tasks: T[],
+  courses: Course[],
+  todayISO: string,
+  minutesFor: (task: T) => number = () => 0
+) {
+  const byId = new Map<number | null, CourseSummary>();
+  courses.forEach((course) => {
+    const examDays = course.exam_date ? daysBetween(todayISO, course.exam_date) : null;
+    byId.set(course.id, {
+      course,
+      open: 0,
+      overdue: 0,
+      done: 0,
+      minutesLeft: 0,
+      nextDue: null,
+      daysToExam: examDays !== null && examDays >= 0 ? examDays : null,
+    });
+  });
+  const unassigned: CourseSummary = {
+    course: null,
+    open: 0,
+    overdue: 0,
+    done: 0,
+    minutesLeft: 0,
+    nextDue: null,
+    daysToExam: null,
+  };
+
+  tasks.forEach((task) => {
+    const summary = (task.course_id != null ? byId.get(task.course_id) : undefined) ?? unassigned;
+    if (task.completed) {
+      summary.done += 1;
+      return;
+    }
+    summary.open += 1;
+    summary.minutesLeft += minutesFor(task);
+    if (task.due_date) {
+      if (task.due_date < todayISO) summary.overdue += 1;
+      else if (!summary.nextDue || task.due_date < summary.nextDue) summary.nextDue = task.due_date;
+    }
+  });
+
+  const sorted = [...byId.values()].sort((a, b) => {
+    if (!!a.open !== !!b.open) return a.open ? -1 : 1;
+    const examA = a.daysToExam ?? Number.POSITIVE_INFINITY;
+    const examB = b.daysToExam ?? Number.POSITIVE_INFINITY;
+    if (examA !== examB) return examA - examB;
+    const weight = (b.course?.credit_weight ?? 0) - (a.course?.credit_weight ?? 0);
+    if (weight !== 0) return weight;
+    return (a.course?.name ?? "").localeCompare(b.course?.name ?? "");
+  });
+  if (unassigned.open || unassigned.done) sorted.push(unassigned);
+  return sorted;
+}
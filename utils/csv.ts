@@ -0,0 +1,204 @@
+export const CSV_FIELDS = ["title", "subject", "difficulty", "priority", "category", "due_date", "notes"] as const;
+
+export type CsvField = (typeof CSV_FIELDS)[number];
+
+// Column index per task field; null leaves the field empty / defaulted
+export type CsvColumnMapping = Record<CsvField, number | null>;
+
+export type CsvTaskDraft = {
+  title: string;
+  subject: string | null;
+  difficulty: "easy" | "medium" | "hard";
+  priority: "normal" | "high";
+  category: "coursework" | "revision" | "project" | "personal" | null;
+  due_date: string | null;
+  notes: string | null;
+};
+
+export type CsvRejectedRow = {
+  // 1-based row number, as a spreadsheet would show it
+  row: number;
+  reason: string;
+};
+
+export type CsvExportTask = {
+  title: string;
+  subject?: string | null;
+  difficulty?: string | null;
+  priority?: string | null;
+  category?: string | null;
+  due_date?: string | null;
+  notes?: string | null;
+};
+
+const HEADER_ALIASES: Record<CsvField, string[]> = {
+  title: ["title", "task", "name", "assignment", "assessment", "summary"],
+  subject: ["subject", "module", "course", "unit", "class"],
+  difficulty: ["difficulty", "effort", "level"],
+  priority: ["priority", "importance"],
+  category: ["category", "type", "kind"],
+  due_date: ["due_date", "due date", "due", "deadline", "date", "submission date"],
+  notes: ["notes", "note", "description", "details", "comments"],
+};
+
+const DIFFICULTY_ALIASES: Record<string, CsvTaskDraft["difficulty"]> = {
+  easy: "easy",
+  low: "easy",
+  medium: "medium",
+  med: "medium",
+  normal: "medium",
+  hard: "hard",
+  high: "hard",
+};
+
+const PRIORITY_ALIASES: Record<string, CsvTaskDraft["priority"]> = {
+  normal: "normal",
+  low: "normal",
+  medium: "normal",
+  high: "high",
+  urgent: "high",
+};
+
+const CATEGORIES = ["coursework", "revision", "project", "personal"] as const;
+
+// Handbooks exported from Excel in some locales use ";" or tabs instead of commas
+function detectDelimiter(text: string) {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? "";
+  const [best] = [",", ";", "\t"]
+    .map((delimiter) => ({ delimiter, count: firstLine.split(delimiter).length - 1 }))
+    .sort((a, b) => b.count - a.count);
+  return best.count > 0 ? best.delimiter : ",";
+}
+
+// RFC 4180: quoted fields may contain delimiters, newlines and doubled quotes
+export function parseCSV(text: string): string[][] {
+  const source = text.replace(/^\uFEFF/, "");
+  const delimiter = detectDelimiter(source);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < source.length; i += 1) {
+    const ch = source[i];
+    if (quoted) {
+      if (ch === '"' && source[i + 1] === '"') {
+        field += '"';
+        i += 1;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"' && field === "") {
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && source[i + 1] === "\n") i += 1;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+function quoteField(value: string) {
+  return /[",\r\n]/.test(value) || /^\s|\s$/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function serializeCSV(rows: string[][]) {
+  return rows.map((row) => row.map(quoteField).join(",")).join("\r\n");
+}
+
+export function guessColumnMapping(headers: string[]): CsvColumnMapping {
+  const normalized = headers.map((header) => header.trim().toLowerCase().replace(/[_-]+/g, " "));
+  const taken = new Set<number>();
+  const mapping = {} as CsvColumnMapping;
+  CSV_FIELDS.forEach((field) => {
+    const aliases = HEADER_ALIASES[field].map((alias) => alias.replace(/_/g, " "));
+    const index = normalized.findIndex((header, i) => !taken.has(i) && aliases.includes(header));
+    mapping[field] = index >= 0 ? index : null;
+    if (index >= 0) taken.add(index);
+  });
+  // Without a recognisable header, assume the first column is the task name
+  if (mapping.title === null && headers.length && !taken.has(0)) mapping.title = 0;
+  return mapping;
+}
+
+export function isValidISODate(value: string) {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return false;
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  return (
+    date.getFullYear() === Number(match[1]) &&
+    date.getMonth() === Number(match[2]) - 1 &&
+    date.getDate() === Number(match[3])
+  );
+}
+
+function readRow(cells: string[], mapping: CsvColumnMapping): CsvTaskDraft | string {
+  const cell = (field: CsvField) => {
+    const index = mapping[field];
+    return index === null ? "" : (cells[index] ?? "").trim();
+  };
+
+  const title = cell("title");
+  if (!title) return "Missing a title";
+
+  const dueRaw = cell("due_date");
+  if (dueRaw && !isValidISODate(dueRaw)) return `Due date "${dueRaw}" isn't a real YYYY-MM-DD date`;
+
+  const difficultyRaw = cell("difficulty").toLowerCase();
+  const difficulty = difficultyRaw ? DIFFICULTY_ALIASES[difficultyRaw] : "medium";
+  if (!difficulty) return `Unknown difficulty "${cell("difficulty")}"`;
+
+  const priorityRaw = cell("priority").toLowerCase();
+  const priority = priorityRaw ? PRIORITY_ALIASES[priorityRaw] : "normal";
+  if (!priority) return `Unknown priority "${cell("priority")}"`;
+
+  const categoryRaw = cell("category").toLowerCase();
+  const category = CATEGORIES.find((entry) => entry === categoryRaw) ?? null;
+  if (categoryRaw && !category) return `Unknown category "${cell("category")}"`;
+
+  return {
+    title,
+    subject: cell("subject") || null,
+    difficulty,
+    priority,
+    category,
+    due_date: dueRaw || null,
+    notes: cell("notes") || null,
+  };
+}
+
+// Turns parsed rows into task drafts; rows that fail validation are reported, not guessed at
+export function mapCSVRows(rows: string[][], mapping: CsvColumnMapping, hasHeader: boolean) {
+  const valid: CsvTaskDraft[] = [];
+  const rejected: CsvRejectedRow[] = [];
+  rows.forEach((cells, index) => {
+    if (hasHeader && index === 0) return;
+    if (cells.every((value) => !value.trim())) return;
+    const result = readRow(cells, mapping);
+    if (typeof result === "string") rejected.push({ row: index + 1, reason: result });
+    else valid.push(result);
+  });
+  return { valid, rejected };
+}
+
+// Same columns the importer recognises, so an export can be edited and imported back
+export function tasksToCSV(tasks: CsvExportTask[]) {
+  return serializeCSV([
+    [...CSV_FIELDS],
+    ...tasks.map((task) => CSV_FIELDS.map((field) => task[field] ?? "")),
+  ]);
+}
@@ -0,0 +1,142 @@
+export type DigestTask = {
+  id: number;
+  title: string;
+  subject?: string | null;
+  due_date?: string | null;
+  completed?: number | boolean | null;
+  priority?: "normal" | "high" | null;
+  difficulty?: "easy" | "medium" | "hard" | null;
+};
+
+export type DueCounts = {
+  open: number;
+  overdue: number;
+  today: number;
+  // Due in the next 1-7 days, not counting today
+  week: number;
+  completed: number;
+};
+
+export type DigestMessage = {
+  title: string;
+  body: string;
+  // The "start with" task, which the notification's actions apply to
+  taskId: number | null;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DIFFICULTY_RANK = { hard: 0, medium: 1, easy: 2 } as const;
+const WEEKDAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+function startOfDay(date: Date) {
+  const copy = new Date(date);
+  copy.setHours(0, 0, 0, 0);
+  return copy;
+}
+
+// Whole days from `day` to the task's due date; negative when overdue, null when undated
+function daysUntilDue(task: DigestTask, day: Date) {
+  if (!task.due_date) return null;
+  const due = new Date(`${task.due_date}T00:00:00`);
+  if (Number.isNaN(due.getTime())) return null;
+  return Math.round((due.getTime() - startOfDay(day).getTime()) / DAY_MS);
+}
+
+export function countDueTasks(tasks: DigestTask[], day = new Date()): DueCounts {
+  const counts: DueCounts = { open: 0, overdue: 0, today: 0, week: 0, completed: 0 };
+  tasks.forEach((task) => {
+    if (task.completed) {
+      counts.completed += 1;
+      return;
+    }
+    counts.open += 1;
+    const diff = daysUntilDue(task, day);
+    if (diff === null) return;
+    if (diff < 0) counts.overdue += 1;
+    else if (diff === 0) counts.today += 1;
+    else if (diff <= 7) counts.week += 1;
+  });
+  return counts;
+}
+
+export function describeDigestTask(task: DigestTask) {
+  const subject = task.subject?.trim();
+  return subject ? `${task.title} (${subject})` : task.title;
+}
+
+// The task to start with on `day`: earliest deadline first, then high priority, then the hardest
+export function pickFocusTask(tasks: DigestTask[], day = new Date()): DigestTask | null {
+  const candidates = tasks
+    .filter((task) => !task.completed)
+    .map((task) => ({ task, diff: daysUntilDue(task, day) }))
+    .filter((entry): entry is { task: DigestTask; diff: number } => entry.diff !== null && entry.diff <= 7)
+    .sort(
+      (a, b) =>
+        Math.max(a.diff, 0) - Math.max(b.diff, 0) ||
+        (a.task.priority === "high" ? 0 : 1) - (b.task.priority === "high" ? 0 : 1) ||
+        DIFFICULTY_RANK[a.task.difficulty ?? "medium"] - DIFFICULTY_RANK[b.task.difficulty ?? "medium"] ||
+        a.diff - b.diff
+    );
+  return candidates[0]?.task ?? null;
+}
+
+// e.g. "3 due today, 1 overdue — start with Lab report (Chemistry)"
+export function composeDailyDigest(tasks: DigestTask[], counts: DueCounts, day = new Date()): DigestMessage {
+  const title = "Work Assessor";
+  if (!counts.open) return { title, body: "You're all caught up. Nothing left on your list.", taskId: null };
+
+  const parts: string[] = [];
+  if (counts.today) parts.push(`${counts.today} due today`);
+  if (counts.overdue) parts.push(`${counts.overdue} overdue`);
+  if (!parts.length) {
+    if (!counts.week) {
+      return {
+        title,
+        body: `Nothing due this week. ${counts.open} open task${counts.open === 1 ? "" : "s"} on your list.`,
+        taskId: null,
+      };
+    }
+    parts.push(`Nothing due today, ${counts.week} this week`);
+  }
+
+  const focus = pickFocusTask(tasks, day);
+  const lead = parts.join(", ");
+  return { title, body: focus ? `${lead} — start with ${describeDigestTask(focus)}` : lead, taskId: focus?.id ?? null };
+}
+
+// Sent instead of the daily digest on the user's chosen day
+export function composeWeeklySummary(tasks: DigestTask[], day = new Date()): DigestMessage {
+  const title = "Your week ahead";
+  const perDay = new Map<number, number>();
+  let dueThisWeek = 0;
+  let overdue = 0;
+  tasks.forEach((task) => {
+    if (task.completed) return;
+    const diff = daysUntilDue(task, day);
+    if (diff === null) return;
+    if (diff < 0) overdue += 1;
+    else if (diff < 7) {
+      dueThisWeek += 1;
+      perDay.set(diff, (perDay.get(diff) ?? 0) + 1);
+    }
+  });
+
+  const parts: string[] = [];
+  if (dueThisWeek) {
+    // Ties go to the earlier day
+    const [busiestOffset, busiestCount] = [...perDay.entries()].sort((a, b) => b[1] - a[1] || a[0] - b[0])[0];
+    const busiest = new Date(startOfDay(day).getTime());
+    busiest.setDate(busiest.getDate() + busiestOffset);
+    parts.push(
+      `${dueThisWeek} due in the next 7 days` +
+        (dueThisWeek > 1 ? `, busiest on ${WEEKDAY_NAMES[busiest.getDay()]} (${busiestCount})` : "")
+    );
+  } else {
+    parts.push("Nothing due in the next 7 days");
+  }
+  if (overdue) parts.push(`${overdue} overdue`);
+
+  const focus = pickFocusTask(tasks, day);
+  const lead = `${parts.join(". ")}.`;
+  return { title, body: focus ? `${lead} Start with ${describeDigestTask(focus)}.` : lead, taskId: focus?.id ?? null };
+}
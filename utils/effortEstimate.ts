@@ -0,0 +1,104 @@
+export type EstimateTask = {
+  title: string;
+  subject?: string | null;
+  difficulty?: "easy" | "medium" | "hard" | null;
+  category?: "coursework" | "revision" | "project" | "personal" | null;
+  // Set by the user in add/edit; overrides any default
+  estimated_minutes?: number | null;
+};
+
+// A completed task and the focus time logged against it
+export type EffortSample = EstimateTask & { actual_seconds: number };
+
+export type EffortCalibration = Record<string, { ratio: number; samples: number }>;
+
+export type TaskEstimate = {
+  minutes: number;
+  source: "manual" | "learned" | "default";
+};
+
+// A group needs this many completed tasks before its defaults are adjusted
+export const MIN_CALIBRATION_SAMPLES = 3;
+
+const KEYWORD_BONUS: Record<string, number> = {
+  essay: 30,
+  project: 40,
+  research: 25,
+  study: 15,
+  quiz: 10,
+  exam: 40,
+  lab: 25,
+  report: 25,
+};
+
+// Starting guess before there is any history: difficulty plus common assignment keywords
+export function defaultEstimateMinutes(task: EstimateTask) {
+  const base = task.difficulty === "hard" ? 90 : task.difficulty === "medium" ? 45 : 20;
+  const title = task.title.toLowerCase();
+  let bonus = 0;
+  Object.keys(KEYWORD_BONUS).forEach((keyword) => {
+    if (title.includes(keyword)) bonus += KEYWORD_BONUS[keyword];
+  });
+  return base + bonus;
+}
+
+// Most specific first: the same subject, then the same category, then difficulty alone
+function calibrationKeys(task: EstimateTask) {
+  const difficulty = task.difficulty ?? "medium";
+  const subject = task.subject?.trim().toLowerCase();
+  return [
+    subject ? `subject:${subject}|${difficulty}` : null,
+    task.category ? `category:${task.category}|${difficulty}` : null,
+    `difficulty:${difficulty}`,
+  ].filter((key): key is string => key !== null);
+}
+
+function median(values: number[]) {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+// Learns how far actual focus time runs from the default guess, per group. Medians keep
+// one forgotten timer from skewing a whole subject.
+export function calibrateEstimates(samples: EffortSample[]): EffortCalibration {
+  const ratios = new Map<string, number[]>();
+  samples.forEach((sample) => {
+    if (sample.actual_seconds < 60) return;
+    const ratio = sample.actual_seconds / 60 / defaultEstimateMinutes(sample);
+    calibrationKeys(sample).forEach((key) => ratios.set(key, [...(ratios.get(key) ?? []), ratio]));
+  });
+
+  const calibration: EffortCalibration = {};
+  ratios.forEach((values, key) => {
+    if (values.length < MIN_CALIBRATION_SAMPLES) return;
+    calibration[key] = { ratio: Math.min(4, Math.max(0.25, median(values))), samples: values.length };
+  });
+  return calibration;
+}
+
+function roundToFive(minutes: number) {
+  return Math.max(5, Math.round(minutes / 5) * 5);
+}
+
+export function estimateTaskMinutes(task: EstimateTask, calibration: EffortCalibration = {}): TaskEstimate {
+  if (task.estimated_minutes && task.estimated_minutes > 0) {
+    return { minutes: task.estimated_minutes, source: "manual" };
+  }
+  const base = defaultEstimateMinutes(task);
+  const learned = calibrationKeys(task)
+    .map((key) => calibration[key])
+    .find(Boolean);
+  return learned
+    ? { minutes: roundToFive(base * learned.ratio), source: "learned" }
+    : { minutes: base, source: "default" };
+}
+
+// Actual time over what the planner would estimate now; 1.3 means tasks run 30% long
+export function estimateAccuracy(samples: EffortSample[], calibration: EffortCalibration) {
+  const tracked = samples.filter((sample) => sample.actual_seconds >= 60);
+  if (!tracked.length) return null;
+  const actual = tracked.reduce((sum, sample) => sum + sample.actual_seconds / 60, 0);
+  const estimated = tracked.reduce((sum, sample) => sum + estimateTaskMinutes(sample, calibration).minutes, 0);
+  return { ratio: actual / estimated, samples: tracked.length };
+}
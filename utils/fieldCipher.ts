@@ -0,0 +1,63 @@
+import { xchacha20poly1305 } from "@noble/ciphers/chacha";
+import { hmac } from "@noble/hashes/hmac";
+import { scryptAsync } from "@noble/hashes/scrypt";
+import { sha256 } from "@noble/hashes/sha2";
+import { bytesToUtf8 } from "@noble/hashes/utils";
+
+import { fromHex, toHex, utf8Bytes } from "@/utils/passwordHash";
+
+// Sealed values look like "enc1:<nonce hex>:<ciphertext and tag hex>". The cipher is
+// XChaCha20-Poly1305, whose 24-byte nonce is long enough to pick at random for every value.
+const SEALED_PREFIX = "enc1";
+
+export const DATA_KEY_BYTES = 32;
+export const NONCE_BYTES = 24;
+
+// scrypt cost for keys derived from a PIN or password. Memory-hard (32 MB per guess), so a
+// copied database can't be checked against guesses as cheaply as with a plain hash.
+export const WRAPPING_KEY_COST = 2 ** 15;
+const WRAPPING_KEY_BLOCK_SIZE = 8;
+// Milliseconds of work between yields, so the UI keeps drawing while a key is derived
+const DERIVE_TICK_MS = 10;
+
+export function isSealed(value: string | null | undefined) {
+  return typeof value === "string" && value.startsWith(`${SEALED_PREFIX}:`);
+}
+
+export function sealString(key: Uint8Array, plaintext: string, nonce: Uint8Array) {
+  const ciphertext = xchacha20poly1305(key, nonce).encrypt(utf8Bytes(plaintext));
+  return [SEALED_PREFIX, toHex(nonce), toHex(ciphertext)].join(":");
+}
+
+// Throws when the value was changed or sealed with another key
+export function openString(key: Uint8Array, sealed: string) {
+  const [prefix, nonceHex, cipherHex, ...rest] = sealed.split(":");
+  const nonce = fromHex(nonceHex ?? "");
+  const ciphertext = fromHex(cipherHex ?? "");
+  if (prefix !== SEALED_PREFIX || rest.length || nonce?.length !== NONCE_BYTES || !ciphertext) {
+    throw new Error("Encrypted value is not in a format this app can read.");
+  }
+  let plaintext: Uint8Array;
+  try {
+    plaintext = xchacha20poly1305(key, nonce).decrypt(ciphertext);
+  } catch {
+    throw new Error("Encrypted value could not be verified with this key.");
+  }
+  return bytesToUtf8(plaintext);
+}
+
+// The key that seals a copy of the data key under a PIN or password
+export function deriveWrappingKey(secret: string, salt: Uint8Array, cost = WRAPPING_KEY_COST) {
+  return scryptAsync(secret, salt, {
+    N: cost,
+    r: WRAPPING_KEY_BLOCK_SIZE,
+    p: 1,
+    dkLen: DATA_KEY_BYTES,
+    asyncTick: DERIVE_TICK_MS,
+  });
+}
+
+// Lets a key read back from storage be matched to the data without decrypting anything
+export function dataKeyCheck(key: Uint8Array) {
+  return toHex(hmac(sha256, key, utf8Bytes("check")));
+}
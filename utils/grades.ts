@@ -0,0 +1,115 @@
+// Assessment weights and grades. A task can be worth a share of its course (assessment_weight,
+// in % of the course) and, once marked, carry the grade achieved (in %). Both are optional;
+// tasks without a weight don't count towards a course's grades.
+
+export type GradedTask = {
+  course_id?: number | null;
+  assessment_weight?: number | null;
+  grade?: number | null;
+};
+
+export type GradeSummary = {
+  // Share of the course that has been marked
+  gradedWeight: number;
+  // Course percentage secured so far, e.g. 60% on a 40% assessment adds 24
+  earned: number;
+  // Average over the marked share; null until something is marked
+  average: number | null;
+  // Weighted assessments still waiting for a grade
+  pendingWeight: number;
+};
+
+export type RequiredGrade = {
+  // Grade needed on the remaining share, in %
+  needed: number;
+  // The share it is needed on
+  weight: number;
+  status: "secured" | "reachable" | "out-of-reach";
+};
+
+function readPercent(raw: string, message: string) {
+  const cleaned = raw.trim().replace(/%$/, "").trim().replace(",", ".");
+  if (!cleaned) return null;
+  const value = Number(cleaned);
+  if (!Number.isFinite(value) || value < 0 || value > 100) throw new Error(message);
+  return Math.round(value * 10) / 10;
+}
+
+// Both readers throw with a message that can be shown to the user as-is
+export function readAssessmentWeight(raw: string) {
+  const weight = readPercent(raw, "The weight should be a percentage between 0 and 100.");
+  if (weight === 0) throw new Error("The weight should be a percentage between 0 and 100.");
+  return weight;
+}
+
+export function readGrade(raw: string) {
+  return readPercent(raw, "The grade should be a percentage between 0 and 100.");
+}
+
+export function formatPercent(value: number) {
+  return `${Math.round(value * 10) / 10}%`;
+}
+
+export function summarizeGrades(tasks: GradedTask[]): GradeSummary {
+  let gradedWeight = 0;
+  let earned = 0;
+  let pendingWeight = 0;
+  tasks.forEach((task) => {
+    const weight = task.assessment_weight ?? 0;
+    if (weight <= 0) return;
+    if (task.grade == null) {
+      pendingWeight += weight;
+      return;
+    }
+    gradedWeight += weight;
+    earned += (weight * task.grade) / 100;
+  });
+  return {
+    gradedWeight,
+    earned,
+    average: gradedWeight > 0 ? (earned / gradedWeight) * 100 : null,
+    pendingWeight,
+  };
+}
+
+// Running grades per course id; tasks without a course are left out
+export function summarizeGradesByCourse(tasks: GradedTask[]) {
+  const grouped = new Map<number, GradedTask[]>();
+  tasks.forEach((task) => {
+    if (task.course_id == null || !task.assessment_weight) return;
+    grouped.set(task.course_id, [...(grouped.get(task.course_id) ?? []), task]);
+  });
+  return new Map([...grouped].map(([courseId, entries]) => [courseId, summarizeGrades(entries)]));
+}
+
+// What is needed on the rest of the course (or on a final worth finalWeight) to finish on target.
+// Anything not yet marked and not part of the final is assumed to score nothing.
+export function requiredGrade(
+  summary: GradeSummary,
+  target: number,
+  finalWeight = 100 - summary.gradedWeight
+): RequiredGrade | null {
+  const weight = Math.min(finalWeight, Math.max(0, 100 - summary.gradedWeight));
+  if (weight <= 0) return null;
+  const needed = ((target - summary.earned) / weight) * 100;
+  return {
+    needed: Math.max(0, needed),
+    weight,
+    status: needed <= 0 ? "secured" : needed > 100 ? "out-of-reach" : "reachable",
+  };
+}
+
+export function describeRequiredGrade(result: RequiredGrade | null, target: number) {
+  if (!result) return "Everything is marked, so the final grade can't change.";
+  const share = formatPercent(result.weight);
+  if (result.status === "secured") return `${formatPercent(target)} is already secured.`;
+  if (result.status === "out-of-reach") {
+    return `${formatPercent(target)} is out of reach: it would take ${formatPercent(result.needed)} on the remaining ${share}.`;
+  }
+  return `You need ${formatPercent(result.needed)} on the remaining ${share} to finish on ${formatPercent(target)}.`;
+}
+
+// Planner score bonus: a 10% assessment counts as much as one step of difficulty, capped at 3
+export function assessmentWeightBoost(weight: number | null | undefined) {
+  return weight && weight > 0 ? Math.min(3, weight / 10) : 0;
+}
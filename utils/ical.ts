@@ -0,0 +1,278 @@
+import {
+  nextRecurrenceInstance,
+  normalizeRecurrenceRule,
+  parseRecurrenceRule,
+  serializeRecurrenceRule,
+} from "@/utils/recurrence";
+
+export type ICalKind = "todo" | "event";
+
+type Difficulty = "easy" | "medium" | "hard";
+type Priority = "normal" | "high";
+type Category = "coursework" | "revision" | "project" | "personal";
+
+export type ICalTaskFields = {
+  id: number;
+  title: string;
+  due_date: string | null;
+  notes: string | null;
+  difficulty: Difficulty | null;
+  priority: Priority | null;
+  category: Category | null;
+  created_at: string | null;
+  ical_uid?: string | null;
+  recurrence_rule?: string | null;
+  occurrence?: number | null;
+};
+
+export type ICalItem = {
+  uid: string | null;
+  kind: ICalKind;
+  title: string;
+  due_date: string | null;
+  notes: string | null;
+  difficulty: Difficulty | null;
+  priority: Priority | null;
+  category: Category | null;
+  // Repeat rule already in utils/recurrence form, or null for one-offs / unsupported rules
+  recurrence: string | null;
+  completed: boolean;
+};
+
+export type ICalImportPlan = {
+  toAdd: ICalItem[];
+  duplicates: number;
+  // Completed, cancelled or already-finished entries
+  skipped: number;
+};
+
+const PRODID = "-//Workload Assessor//Tasks//EN";
+const UID_DOMAIN = "workloadassapp";
+const CATEGORIES: Category[] = ["coursework", "revision", "project", "personal"];
+const DIFFICULTIES: Difficulty[] = ["easy", "medium", "hard"];
+
+function compactDate(iso: string) {
+  return iso.replace(/-/g, "");
+}
+
+function addDaysISO(iso: string, days: number) {
+  const date = new Date(`${iso}T00:00:00`);
+  date.setDate(date.getDate() + days);
+  const m = String(date.getMonth() + 1).padStart(2, "0");
+  const d = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${m}-${d}`;
+}
+
+function utcStamp(date: Date) {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+function escapeText(value: string) {
+  return value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+function unescapeText(value: string) {
+  return value.replace(/\\([\\;,nN])/g, (_match, ch: string) => (ch === "n" || ch === "N" ? "\n" : ch));
+}
+
+// RFC 5545 lines are limited to 75 octets; continuation lines start with a space
+function foldLine(line: string) {
+  if (line.length <= 74) return line;
+  const parts = [line.slice(0, 74)];
+  for (let i = 74; i < line.length; i += 73) parts.push(` ${line.slice(i, i + 73)}`);
+  return parts.join("\r\n");
+}
+
+// Stable across devices: the row id alone would collide between phones
+export function taskUid(task: Pick<ICalTaskFields, "id" | "created_at" | "ical_uid">) {
+  if (task.ical_uid) return task.ical_uid;
+  const created = (task.created_at ?? "").replace(/\D/g, "").slice(0, 14);
+  return `task-${task.id}${created ? `-${created}` : ""}@${UID_DOMAIN}`;
+}
+
+// Exported rules start at the current instance, so COUNT only covers what's left of the series
+function remainingRule(task: ICalTaskFields) {
+  const rule = parseRecurrenceRule(task.recurrence_rule);
+  if (!rule || !task.due_date) return null;
+  const used = Math.max(0, (task.occurrence ?? 1) - 1);
+  return serializeRecurrenceRule({ ...rule, count: rule.count ? Math.max(1, rule.count - used) : null });
+}
+
+function taskComponent(task: ICalTaskFields, kind: ICalKind, stamp: string) {
+  const lines = [kind === "todo" ? "BEGIN:VTODO" : "BEGIN:VEVENT", `UID:${taskUid(task)}`, `DTSTAMP:${stamp}`];
+  lines.push(`SUMMARY:${escapeText(task.title)}`);
+  if (task.due_date) {
+    if (kind === "todo") {
+      lines.push(`DUE;VALUE=DATE:${compactDate(task.due_date)}`);
+    } else {
+      lines.push(`DTSTART;VALUE=DATE:${compactDate(task.due_date)}`);
+      lines.push(`DTEND;VALUE=DATE:${compactDate(addDaysISO(task.due_date, 1))}`);
+      lines.push("TRANSP:TRANSPARENT");
+    }
+  }
+  if (kind === "todo") lines.push("STATUS:NEEDS-ACTION");
+  lines.push(`PRIORITY:${task.priority === "high" ? 1 : 5}`);
+  if (task.category) lines.push(`CATEGORIES:${task.category.toUpperCase()}`);
+  if (task.difficulty) lines.push(`X-WORKLOAD-DIFFICULTY:${task.difficulty.toUpperCase()}`);
+  if (task.notes?.trim()) lines.push(`DESCRIPTION:${escapeText(task.notes.trim())}`);
+  const rule = remainingRule(task);
+  if (rule) lines.push(`RRULE:${rule}`);
+  lines.push(kind === "todo" ? "END:VTODO" : "END:VEVENT");
+  return lines;
+}
+
+// VTODO keeps tasks in to-do apps (Reminders, Thunderbird); VEVENT shows them as all-day
+// entries in calendars that ignore to-dos. Events need a date, so undated tasks are left out.
+export function serializeTasksToICS(tasks: ICalTaskFields[], kind: ICalKind, now = new Date()) {
+  const stamp = utcStamp(now);
+  const lines = ["BEGIN:VCALENDAR", "VERSION:2.0", `PRODID:${PRODID}`, "CALSCALE:GREGORIAN", "METHOD:PUBLISH"];
+  tasks
+    .filter((task) => kind === "todo" || task.due_date)
+    .forEach((task) => lines.push(...taskComponent(task, kind, stamp)));
+  lines.push("END:VCALENDAR");
+  return `${lines.map(foldLine).join("\r\n")}\r\n`;
+}
+
+type Property = { name: string; value: string };
+
+function parseProperty(line: string): Property | null {
+  // The value starts at the first colon that isn't inside a quoted parameter
+  let inQuotes = false;
+  let split = -1;
+  for (let i = 0; i < line.length; i += 1) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ":" && !inQuotes) {
+      split = i;
+      break;
+    }
+  }
+  if (split < 0) return null;
+  // Parameters (VALUE=DATE, TZID=...) aren't needed: the value's own shape says date vs time
+  const name = line.slice(0, split).split(";")[0];
+  return { name: name.toUpperCase(), value: line.slice(split + 1) };
+}
+
+// DATE and floating / TZID times keep their written date; UTC times are shifted to local time
+function toLocalDate(prop: Property | undefined) {
+  const match = prop?.value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?/);
+  if (!match) return null;
+  const [, y, m, d, hh, mm, ss, utc] = match;
+  if (!utc) return { date: `${y}-${m}-${d}`, time: hh ? `${hh}:${mm}` : null };
+  const local = new Date(Date.UTC(Number(y), Number(m) - 1, Number(d), Number(hh), Number(mm), Number(ss)));
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return {
+    date: `${local.getFullYear()}-${pad(local.getMonth() + 1)}-${pad(local.getDate())}`,
+    time: `${pad(local.getHours())}:${pad(local.getMinutes())}`,
+  };
+}
+
+function readItem(kind: ICalKind, props: Property[]): ICalItem | null {
+  const get = (name: string) => props.find((prop) => prop.name === name);
+  const title = unescapeText(get("SUMMARY")?.value ?? "").trim();
+  if (!title) return null;
+
+  const when = toLocalDate(kind === "todo" ? get("DUE") ?? get("DTSTART") : get("DTSTART"));
+  const location = unescapeText(get("LOCATION")?.value ?? "").trim();
+  const description = unescapeText(get("DESCRIPTION")?.value ?? "").trim();
+  // Timetable entries carry a time and room that the date-only task would otherwise lose
+  const context = [when?.time, location].filter(Boolean).join(" · ");
+  const notes = [context, description].filter(Boolean).join("\n") || null;
+
+  const categories = (get("CATEGORIES")?.value ?? "").split(",").map((entry) => entry.trim().toLowerCase());
+  const difficulty = get("X-WORKLOAD-DIFFICULTY")?.value.trim().toLowerCase();
+  const priority = Number(get("PRIORITY")?.value);
+  const status = get("STATUS")?.value.trim().toUpperCase();
+
+  const rule = parseRecurrenceRule(get("RRULE")?.value);
+  return {
+    uid: get("UID")?.value.trim() || null,
+    kind,
+    title,
+    due_date: when?.date ?? null,
+    notes,
+    difficulty: DIFFICULTIES.find((entry) => entry === difficulty) ?? null,
+    priority: priority >= 1 && priority <= 4 ? "high" : priority >= 5 ? "normal" : null,
+    category: CATEGORIES.find((entry) => categories.includes(entry)) ?? null,
+    recurrence: rule && when ? serializeRecurrenceRule(normalizeRecurrenceRule(rule, when.date)) : null,
+    completed: status === "COMPLETED" || status === "CANCELLED" || !!get("COMPLETED"),
+  };
+}
+
+export function parseICS(text: string): ICalItem[] {
+  const lines = text.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+  const items: ICalItem[] = [];
+  let kind: ICalKind | null = null;
+  let props: Property[] = [];
+  // Nested blocks such as VALARM have their own SUMMARY / DESCRIPTION that must not leak in
+  let nested = 0;
+
+  lines.forEach((line) => {
+    const prop = parseProperty(line.trim());
+    if (!prop) return;
+    if (prop.name === "BEGIN") {
+      const block = prop.value.trim().toUpperCase();
+      if (kind) nested += 1;
+      else if (block === "VTODO" || block === "VEVENT") {
+        kind = block === "VTODO" ? "todo" : "event";
+        props = [];
+      }
+      return;
+    }
+    if (prop.name === "END") {
+      if (nested) nested -= 1;
+      else if (kind) {
+        const item = readItem(kind, props);
+        if (item) items.push(item);
+        kind = null;
+      }
+      return;
+    }
+    if (kind && !nested) props.push(prop);
+  });
+  return items;
+}
+
+// Decides what to add: known UIDs are duplicates, finished and past events are skipped, and
+// repeating entries that started in the past (a term timetable) begin at their next date from today.
+export function planICSImport(items: ICalItem[], existingUids: Iterable<string>, todayISO: string): ICalImportPlan {
+  const seen = new Set(existingUids);
+  const plan: ICalImportPlan = { toAdd: [], duplicates: 0, skipped: 0 };
+
+  items.forEach((item) => {
+    if (item.uid && seen.has(item.uid)) {
+      plan.duplicates += 1;
+      return;
+    }
+    if (item.uid) seen.add(item.uid);
+    if (item.completed) {
+      plan.skipped += 1;
+      return;
+    }
+
+    const rule = parseRecurrenceRule(item.recurrence);
+    if (!item.due_date || item.due_date >= todayISO) {
+      plan.toAdd.push(item);
+      return;
+    }
+    if (!rule) {
+      // A past to-do is still owed; a past lecture or meeting is just history
+      if (item.kind === "todo") plan.toAdd.push(item);
+      else plan.skipped += 1;
+      return;
+    }
+    const next = nextRecurrenceInstance(rule, item.due_date, 1, todayISO);
+    if (!next) {
+      plan.skipped += 1;
+      return;
+    }
+    plan.toAdd.push({
+      ...item,
+      due_date: next.due_date,
+      recurrence: serializeRecurrenceRule({
+        ...rule,
+        count: rule.count ? rule.count - next.occurrence + 1 : null,
+      }),
+    });
+  });
+  return plan;
+}
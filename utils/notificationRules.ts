@@ -0,0 +1,169 @@
+// Times are minutes from midnight. When start is after end the quiet hours run overnight.
+export type QuietHours = {
+  enabled: boolean;
+  start: number;
+  end: number;
+};
+
+export type NotificationRules = {
+  quietHours: QuietHours;
+  // Most notifications sent on one day; the least urgent are dropped past this
+  dailyLimit: number;
+  // Deadline reminders due within this many minutes of each other are sent as one; 0 turns grouping off
+  groupWindowMinutes: number;
+};
+
+export const DEFAULT_NOTIFICATION_RULES: NotificationRules = {
+  quietHours: { enabled: true, start: 22 * 60, end: 7 * 60 },
+  dailyLimit: 6,
+  groupWindowMinutes: 30,
+};
+
+export const DAILY_LIMIT_RANGE = [1, 20] as const;
+export const GROUP_WINDOW_MAX = 120;
+
+// iOS keeps at most 64 pending local notifications per app; leave room for the test one
+export const MAX_PENDING_NOTIFICATIONS = 60;
+// Digests for this many days are never given up to make room under that cap
+const MIN_DIGESTS_KEPT = 7;
+
+export type PendingNotification = {
+  kind: "digest" | "deadline";
+  fireAt: Date;
+  title: string;
+  body: string;
+  // Task the notification's action buttons apply to, if it is about exactly one
+  taskId: number | null;
+  // Higher wins a place under the daily limit
+  priority: number;
+};
+
+const DAY_MINUTES = 24 * 60;
+
+function clampMinutes(value: unknown, fallback: number) {
+  const n = typeof value === "number" && Number.isFinite(value) ? Math.round(value) : fallback;
+  return Math.min(DAY_MINUTES - 1, Math.max(0, n));
+}
+
+function clampInt(value: unknown, fallback: number, min: number, max: number) {
+  const n = typeof value === "number" && Number.isFinite(value) ? Math.round(value) : fallback;
+  return Math.min(max, Math.max(min, n));
+}
+
+export function normalizeNotificationRules(raw: unknown): NotificationRules {
+  const value = (raw && typeof raw === "object" ? raw : {}) as Record<string, unknown>;
+  const quiet = (value.quietHours && typeof value.quietHours === "object" ? value.quietHours : {}) as Record<
+    string,
+    unknown
+  >;
+  const defaults = DEFAULT_NOTIFICATION_RULES;
+  return {
+    quietHours: {
+      enabled: typeof quiet.enabled === "boolean" ? quiet.enabled : defaults.quietHours.enabled,
+      start: clampMinutes(quiet.start, defaults.quietHours.start),
+      end: clampMinutes(quiet.end, defaults.quietHours.end),
+    },
+    dailyLimit: clampInt(value.dailyLimit, defaults.dailyLimit, DAILY_LIMIT_RANGE[0], DAILY_LIMIT_RANGE[1]),
+    groupWindowMinutes: clampInt(value.groupWindowMinutes, defaults.groupWindowMinutes, 0, GROUP_WINDOW_MAX),
+  };
+}
+
+export function isInQuietHours(minutes: number, quiet: QuietHours) {
+  if (!quiet.enabled || quiet.start === quiet.end) return false;
+  return quiet.start < quiet.end
+    ? minutes >= quiet.start && minutes < quiet.end
+    : minutes >= quiet.start || minutes < quiet.end;
+}
+
+// Anything due inside quiet hours waits until they end
+export function moveOutOfQuietHours(fireAt: Date, quiet: QuietHours) {
+  const minutes = fireAt.getHours() * 60 + fireAt.getMinutes();
+  if (!isInQuietHours(minutes, quiet)) return fireAt;
+  const moved = new Date(fireAt.getFullYear(), fireAt.getMonth(), fireAt.getDate(), 0, quiet.end);
+  // Late evening in an overnight window: they end tomorrow morning
+  if (quiet.start > quiet.end && minutes >= quiet.start) moved.setDate(moved.getDate() + 1);
+  return moved;
+}
+
+function dayKey(date: Date) {
+  return `${date.getFullYear()}-${date.getMonth()}-${date.getDate()}`;
+}
+
+// Deadline reminders are merged whichever task they are for. Every reminder fires at the
+// reminder time, so tasks due on the same day otherwise arrive as a burst. The digest has its
+// own text and stays apart.
+function canGroup(a: PendingNotification, b: PendingNotification) {
+  return a.kind === "deadline" && b.kind === "deadline";
+}
+
+// A group about several tasks has no task, so it goes out without action buttons; a reminder
+// left on its own keeps them
+function mergeGroup(group: PendingNotification[]): PendingNotification {
+  if (group.length === 1) return group[0];
+  const lead = [...group].sort((a, b) => b.priority - a.priority)[0];
+  const oneTask = group.every((entry) => entry.taskId === group[0].taskId);
+  return {
+    ...group[0],
+    title: oneTask ? lead.title : `${group.length} deadline reminders`,
+    body: group.map((entry) => entry.body).join("\n"),
+    taskId: oneTask ? group[0].taskId : null,
+    priority: lead.priority,
+  };
+}
+
+// What actually gets scheduled: quiet hours first, then grouping, then the daily limit
+export function applyNotificationRules(
+  pending: PendingNotification[],
+  rules: NotificationRules,
+  now = new Date()
+): PendingNotification[] {
+  const shifted = pending
+    .map((entry) => ({ ...entry, fireAt: moveOutOfQuietHours(entry.fireAt, rules.quietHours) }))
+    .filter((entry) => entry.fireAt.getTime() > now.getTime())
+    .sort((a, b) => a.fireAt.getTime() - b.fireAt.getTime() || b.priority - a.priority);
+
+  const windowMs = rules.groupWindowMinutes * 60 * 1000;
+  const groups: PendingNotification[][] = [];
+  shifted.forEach((entry) => {
+    const current =
+      windowMs > 0
+        ? groups.find(
+            (group) =>
+              canGroup(group[0], entry) &&
+              entry.fireAt.getTime() - group[0].fireAt.getTime() <= windowMs &&
+              dayKey(entry.fireAt) === dayKey(group[0].fireAt)
+          )
+        : undefined;
+    if (current) current.push(entry);
+    else groups.push([entry]);
+  });
+
+  const byDay = new Map<string, PendingNotification[]>();
+  groups.map(mergeGroup).forEach((entry) => {
+    const key = dayKey(entry.fireAt);
+    byDay.set(key, [...(byDay.get(key) ?? []), entry]);
+  });
+
+  const kept: PendingNotification[] = [];
+  byDay.forEach((entries) => {
+    // Most urgent first; the earlier one wins a tie
+    const ranked = [...entries].sort((a, b) => b.priority - a.priority || a.fireAt.getTime() - b.fireAt.getTime());
+    kept.push(...ranked.slice(0, rules.dailyLimit));
+  });
+
+  return capPending(kept.sort((a, b) => a.fireAt.getTime() - b.fireAt.getTime()));
+}
+
+// Over the cap the furthest-out digests go first: they are rebuilt whenever the app opens,
+// while a dropped deadline reminder may be the only warning a task gets
+function capPending(entries: PendingNotification[]) {
+  let excess = entries.length - MAX_PENDING_NOTIFICATIONS;
+  if (excess <= 0) return entries;
+  const digests = entries.filter((entry) => entry.kind === "digest");
+  const dropped = new Set<PendingNotification>();
+  for (let i = digests.length - 1; i >= MIN_DIGESTS_KEPT && excess > 0; i -= 1) {
+    dropped.add(digests[i]);
+    excess -= 1;
+  }
+  return entries.filter((entry) => !dropped.has(entry)).slice(0, MAX_PENDING_NOTIFICATIONS);
+}
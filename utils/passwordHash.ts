@@ -0,0 +1,76 @@
+import { pbkdf2Async } from "@noble/hashes/pbkdf2";
+import { sha256 } from "@noble/hashes/sha2";
+import { bytesToHex, hexToBytes, utf8ToBytes } from "@noble/hashes/utils";
+
+// Stored as "pbkdf2-sha256$<iterations>$<salt hex>$<hash hex>". Anything else in the
+// password column is a plaintext password from before hashing was added.
+const HASH_PREFIX = "pbkdf2-sha256";
+
+// Pure JS on Hermes: enough work to slow guessing without stalling sign-in for long
+export const PASSWORD_HASH_ITERATIONS = 60_000;
+
+// Milliseconds of hashing between yields, so the UI thread keeps drawing while a hash runs
+const HASH_TICK_MS = 10;
+
+export function utf8Bytes(value: string) {
+  return utf8ToBytes(value);
+}
+
+export function toHex(bytes: Uint8Array) {
+  return bytesToHex(bytes);
+}
+
+export function fromHex(hex: string) {
+  if (hex.length % 2 !== 0 || !/^[0-9a-f]*$/i.test(hex)) return null;
+  return hexToBytes(hex);
+}
+
+// Looks at every byte whatever the first difference, so timing doesn't reveal how much matched
+export function constantTimeEqual(a: Uint8Array, b: Uint8Array) {
+  let diff = a.length ^ b.length;
+  const length = Math.max(a.length, b.length);
+  for (let i = 0; i < length; i++) diff |= (a[i] ?? 0) ^ (b[i] ?? 0);
+  return diff === 0;
+}
+
+// PBKDF2-HMAC-SHA256 with a single 32-byte output block
+export function pbkdf2Sha256(password: string, salt: Uint8Array, iterations: number) {
+  return pbkdf2Async(sha256, password, salt, { c: iterations, dkLen: 32, asyncTick: HASH_TICK_MS });
+}
+
+export async function hashPasswordWithSalt(
+  password: string,
+  salt: Uint8Array,
+  iterations = PASSWORD_HASH_ITERATIONS
+) {
+  const hash = await pbkdf2Sha256(password, salt, iterations);
+  return `${HASH_PREFIX}$${iterations}$${toHex(salt)}$${toHex(hash)}`;
+}
+
+function parsePasswordHash(stored: string) {
+  const [prefix, iterationsRaw, saltHex, hashHex, ...rest] = stored.split("$");
+  if (prefix !== HASH_PREFIX || rest.length) return null;
+  const iterations = Number(iterationsRaw);
+  const salt = fromHex(saltHex ?? "");
+  const hash = fromHex(hashHex ?? "");
+  if (!Number.isInteger(iterations) || iterations < 1 || !salt || !hash?.length) return null;
+  return { iterations, salt, hash };
+}
+
+export function isPasswordHash(stored: string | null | undefined) {
+  return !!stored && parsePasswordHash(stored) !== null;
+}
+
+// needsRehash is set when the password matched but is stored in plaintext or with fewer
+// iterations than today, so the caller can store a fresh hash while it has the password.
+export async function checkPassword(password: string, stored: string | null | undefined) {
+  if (!stored) return { valid: false, needsRehash: false };
+  const parsed = parsePasswordHash(stored);
+  if (!parsed) {
+    const valid = constantTimeEqual(utf8Bytes(password), utf8Bytes(stored));
+    return { valid, needsRehash: valid };
+  }
+  const hash = await pbkdf2Sha256(password, parsed.salt, parsed.iterations);
+  const valid = constantTimeEqual(hash, parsed.hash);
+  return { valid, needsRehash: valid && parsed.iterations < PASSWORD_HASH_ITERATIONS };
+}
@@ -0,0 +1,258 @@
+export type RecurrenceFrequency = "daily" | "weekly" | "monthly";
+
+export type RecurrenceRule = {
+  freq: RecurrenceFrequency;
+  // Every N days / weeks / months
+  interval: number;
+  // Weekly only, 0 = Sunday (same numbering as Date#getDay)
+  byWeekday: number[];
+  // Monthly only; short months clamp to their last day
+  byMonthDay: number | null;
+  // Last allowed due date (inclusive), YYYY-MM-DD
+  until: string | null;
+  // Total number of instances, counting the first one
+  count: number | null;
+};
+
+export type RecurrenceInstance = {
+  due_date: string;
+  occurrence: number;
+};
+
+type RecurringTaskFields = {
+  id: number;
+  due_date?: string | null;
+  completed?: number | null;
+  recurrence_id?: number | null;
+  recurrence_rule?: string | null;
+  occurrence?: number | null;
+};
+
+export type ProjectedTask<T> = T & {
+  due_date: string;
+  occurrence: number;
+  projected: true;
+};
+
+const WEEKDAY_CODES = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+const WEEKDAY_SHORT = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const MAX_INTERVAL = 365;
+
+function parseISO(iso: string) {
+  const date = new Date(`${iso}T00:00:00`);
+  date.setHours(0, 0, 0, 0);
+  return date;
+}
+
+function toISO(date: Date) {
+  const y = date.getFullYear();
+  const m = String(date.getMonth() + 1).padStart(2, "0");
+  const d = String(date.getDate()).padStart(2, "0");
+  return `${y}-${m}-${d}`;
+}
+
+function addDays(date: Date, days: number) {
+  const next = new Date(date);
+  next.setDate(next.getDate() + days);
+  return next;
+}
+
+function daysInMonth(year: number, monthIndex: number) {
+  return new Date(year, monthIndex + 1, 0).getDate();
+}
+
+function clampInterval(value: unknown) {
+  const n = Math.floor(Number(value));
+  if (!Number.isFinite(n) || n < 1) return 1;
+  return Math.min(n, MAX_INTERVAL);
+}
+
+// Fills the parts of a rule that default from the first due date (weekday / day of month)
+export function normalizeRecurrenceRule(rule: RecurrenceRule, anchorISO: string): RecurrenceRule {
+  const anchor = parseISO(anchorISO);
+  const byWeekday =
+    rule.freq === "weekly"
+      ? Array.from(new Set(rule.byWeekday.filter((d) => d >= 0 && d <= 6))).sort((a, b) => a - b)
+      : [];
+  return {
+    freq: rule.freq,
+    interval: clampInterval(rule.interval),
+    byWeekday: rule.freq === "weekly" && byWeekday.length === 0 ? [anchor.getDay()] : byWeekday,
+    byMonthDay: rule.freq === "monthly" ? rule.byMonthDay ?? anchor.getDate() : null,
+    until: rule.until,
+    count: rule.count && rule.count > 0 ? Math.floor(rule.count) : null,
+  };
+}
+
+// RRULE-style text, e.g. FREQ=WEEKLY;INTERVAL=1;BYDAY=MO,WE;COUNT=10
+export function serializeRecurrenceRule(rule: RecurrenceRule) {
+  const parts = [`FREQ=${rule.freq.toUpperCase()}`, `INTERVAL=${clampInterval(rule.interval)}`];
+  if (rule.freq === "weekly" && rule.byWeekday.length) {
+    parts.push(`BYDAY=${rule.byWeekday.map((d) => WEEKDAY_CODES[d]).join(",")}`);
+  }
+  if (rule.freq === "monthly" && rule.byMonthDay) parts.push(`BYMONTHDAY=${rule.byMonthDay}`);
+  if (rule.until) parts.push(`UNTIL=${rule.until.replace(/-/g, "")}`);
+  if (rule.count) parts.push(`COUNT=${rule.count}`);
+  return parts.join(";");
+}
+
+export function parseRecurrenceRule(text: string | null | undefined): RecurrenceRule | null {
+  if (!text) return null;
+  const fields = new Map<string, string>();
+  text
+    .replace(/^RRULE:/i, "")
+    .split(";")
+    .forEach((part) => {
+      const [key, value] = part.split("=");
+      if (key && value) fields.set(key.trim().toUpperCase(), value.trim().toUpperCase());
+    });
+
+  const freq = fields.get("FREQ")?.toLowerCase();
+  if (freq !== "daily" && freq !== "weekly" && freq !== "monthly") return null;
+
+  const byWeekday = (fields.get("BYDAY") ?? "")
+    .split(",")
+    .map((code) => WEEKDAY_CODES.indexOf(code.slice(-2)))
+    .filter((d) => d >= 0);
+  const monthDay = Number(fields.get("BYMONTHDAY"));
+  const untilRaw = fields.get("UNTIL")?.match(/^(\d{4})-?(\d{2})-?(\d{2})/);
+  const count = Number(fields.get("COUNT"));
+
+  return {
+    freq,
+    interval: clampInterval(fields.get("INTERVAL") ?? 1),
+    byWeekday,
+    byMonthDay: Number.isInteger(monthDay) && monthDay >= 1 && monthDay <= 31 ? monthDay : null,
+    until: untilRaw ? `${untilRaw[1]}-${untilRaw[2]}-${untilRaw[3]}` : null,
+    count: Number.isInteger(count) && count > 0 ? count : null,
+  };
+}
+
+// Next date on the rule's pattern strictly after `fromISO`, ignoring UNTIL / COUNT
+export function nextOccurrenceDate(rule: RecurrenceRule, fromISO: string) {
+  const from = parseISO(fromISO);
+  const interval = clampInterval(rule.interval);
+
+  if (rule.freq === "daily") return toISO(addDays(from, interval));
+
+  if (rule.freq === "monthly") {
+    const target = rule.byMonthDay ?? from.getDate();
+    const monthIndex = from.getMonth() + interval;
+    const year = from.getFullYear() + Math.floor(monthIndex / 12);
+    const month = ((monthIndex % 12) + 12) % 12;
+    return toISO(new Date(year, month, Math.min(target, daysInMonth(year, month))));
+  }
+
+  const weekdays = rule.byWeekday.length ? rule.byWeekday : [from.getDay()];
+  // Weeks run Monday to Sunday; the current instance's week is always an "on" week.
+  const offsetFromMonday = (from.getDay() + 6) % 7;
+  for (let step = 1; step <= 6 - offsetFromMonday; step += 1) {
+    const candidate = addDays(from, step);
+    if (weekdays.includes(candidate.getDay())) return toISO(candidate);
+  }
+  const nextWeekStart = addDays(from, 7 * interval - offsetFromMonday);
+  for (let step = 0; step < 7; step += 1) {
+    const candidate = addDays(nextWeekStart, step);
+    if (weekdays.includes(candidate.getDay())) return toISO(candidate);
+  }
+  return toISO(nextWeekStart);
+}
+
+function withinLimits(rule: RecurrenceRule, instance: RecurrenceInstance) {
+  if (rule.count && instance.occurrence > rule.count) return false;
+  if (rule.until && instance.due_date > rule.until) return false;
+  return true;
+}
+
+// The instance that follows `currentISO`. Passing `notBeforeISO` skips missed dates so a
+// late completion doesn't spawn an already-overdue copy; skipped dates still use up COUNT.
+export function nextRecurrenceInstance(
+  rule: RecurrenceRule,
+  currentISO: string,
+  occurrence: number,
+  notBeforeISO?: string
+): RecurrenceInstance | null {
+  let next: RecurrenceInstance = {
+    due_date: nextOccurrenceDate(rule, currentISO),
+    occurrence: occurrence + 1,
+  };
+  while (notBeforeISO && next.due_date < notBeforeISO && withinLimits(rule, next)) {
+    next = { due_date: nextOccurrenceDate(rule, next.due_date), occurrence: next.occurrence + 1 };
+  }
+  return withinLimits(rule, next) ? next : null;
+}
+
+// Future instances after `currentISO` up to and including `throughISO`
+export function projectOccurrences(
+  rule: RecurrenceRule,
+  currentISO: string,
+  occurrence: number,
+  throughISO: string,
+  limit = 31
+) {
+  const items: RecurrenceInstance[] = [];
+  let cursor = nextRecurrenceInstance(rule, currentISO, occurrence);
+  while (cursor && cursor.due_date <= throughISO && items.length < limit) {
+    items.push(cursor);
+    cursor = nextRecurrenceInstance(rule, cursor.due_date, cursor.occurrence);
+  }
+  return items;
+}
+
+// Projects each series forward from its latest open instance; completed rows and
+// one-off tasks are ignored.
+export function projectRecurringTasks<T extends RecurringTaskFields>(
+  tasks: T[],
+  throughISO: string,
+  perSeriesLimit = 31
+): ProjectedTask<T>[] {
+  const latest = new Map<number, T>();
+  tasks.forEach((task) => {
+    if (task.completed || !task.recurrence_id || !task.recurrence_rule || !task.due_date) return;
+    const existing = latest.get(task.recurrence_id);
+    if (!existing || (task.occurrence ?? 1) > (existing.occurrence ?? 1)) latest.set(task.recurrence_id, task);
+  });
+
+  const projected: ProjectedTask<T>[] = [];
+  latest.forEach((task) => {
+    const rule = parseRecurrenceRule(task.recurrence_rule);
+    if (!rule || !task.due_date) return;
+    projectOccurrences(rule, task.due_date, task.occurrence ?? 1, throughISO, perSeriesLimit).forEach((instance) => {
+      projected.push({ ...task, ...instance, projected: true });
+    });
+  });
+  return projected;
+}
+
+function ordinal(n: number) {
+  const mod100 = n % 100;
+  if (mod100 >= 11 && mod100 <= 13) return `${n}th`;
+  const suffix = n % 10 === 1 ? "st" : n % 10 === 2 ? "nd" : n % 10 === 3 ? "rd" : "th";
+  return `${n}${suffix}`;
+}
+
+// Short human label, e.g. "Weekly on Mon, Wed · 10 times"
+export function describeRecurrence(rule: RecurrenceRule | null) {
+  if (!rule) return "Does not repeat";
+  const interval = clampInterval(rule.interval);
+  let label: string;
+  if (rule.freq === "daily") {
+    label = interval === 1 ? "Daily" : `Every ${interval} days`;
+  } else if (rule.freq === "weekly") {
+    const days = [...rule.byWeekday]
+      .sort((a, b) => ((a + 6) % 7) - ((b + 6) % 7))
+      .map((d) => WEEKDAY_SHORT[d])
+      .join(", ");
+    label = interval === 1 ? "Weekly" : `Every ${interval} weeks`;
+    if (days) label += ` on ${days}`;
+  } else {
+    label = interval === 1 ? "Monthly" : `Every ${interval} months`;
+    if (rule.byMonthDay) label += ` on the ${ordinal(rule.byMonthDay)}`;
+  }
+  if (rule.count) label += ` · ${rule.count} times`;
+  else if (rule.until) {
+    const until = parseISO(rule.until).toLocaleDateString(undefined, { month: "short", day: "numeric" });
+    label += ` · until ${until}`;
+  }
+  return label;
+}
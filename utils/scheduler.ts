@@ -0,0 +1,278 @@
+// Times of day are minutes after midnight, so 9:30 is 570
+export type DayHours = {
+  enabled: boolean;
+  start: number;
+  end: number;
+};
+
+// A fixed weekly slot the planner must work around, like a lecture or a shift
+export type Commitment = {
+  id: string;
+  title: string;
+  // Date#getDay values, 0 is Sunday
+  weekdays: number[];
+  start: number;
+  end: number;
+};
+
+export type ScheduleSettings = {
+  // Indexed by Date#getDay
+  hours: DayHours[];
+  commitments: Commitment[];
+  // Longest stretch on one task before a break
+  maxBlockMinutes: number;
+  breakMinutes: number;
+  // Shorter gaps are left free rather than filled with a scrap of work
+  minBlockMinutes: number;
+};
+
+export type ScheduleTask = {
+  id: number;
+  title: string;
+  minutes: number;
+  due_date?: string | null;
+  priority?: "normal" | "high" | null;
+};
+
+export type ScheduleBlock = {
+  kind: "task" | "commitment";
+  title: string;
+  start: number;
+  end: number;
+  taskId?: number;
+  // Set when a task is split; part 1 of parts is the earliest
+  part?: number;
+  parts?: number;
+  // Placed after its due date because it is already overdue
+  late?: boolean;
+};
+
+export type ScheduleDay = {
+  date: string;
+  blocks: ScheduleBlock[];
+  freeMinutes: number;
+};
+
+export type SchedulePlan = {
+  days: ScheduleDay[];
+  // Work that did not fit before its due date or inside the horizon
+  unscheduled: { taskId: number; title: string; minutes: number }[];
+};
+
+export const SCHEDULE_HORIZON_DAYS = 14;
+
+const DAY_MINUTES = 24 * 60;
+
+const WEEKDAY_HOURS: DayHours = { enabled: true, start: 9 * 60, end: 17 * 60 };
+
+export const DEFAULT_SCHEDULE_SETTINGS: ScheduleSettings = {
+  hours: [
+    { enabled: false, start: 10 * 60, end: 14 * 60 },
+    WEEKDAY_HOURS,
+    WEEKDAY_HOURS,
+    WEEKDAY_HOURS,
+    WEEKDAY_HOURS,
+    WEEKDAY_HOURS,
+    { enabled: true, start: 10 * 60, end: 14 * 60 },
+  ],
+  commitments: [],
+  maxBlockMinutes: 90,
+  breakMinutes: 15,
+  minBlockMinutes: 25,
+};
+
+function toISO(date: Date) {
+  const y = date.getFullYear();
+  const m = String(date.getMonth() + 1).padStart(2, "0");
+  const d = String(date.getDate()).padStart(2, "0");
+  return `${y}-${m}-${d}`;
+}
+
+function clampMinutes(value: unknown, fallback: number, max = DAY_MINUTES) {
+  const n = typeof value === "number" && Number.isFinite(value) ? Math.round(value) : fallback;
+  return Math.min(max, Math.max(0, n));
+}
+
+function normalizeRange(raw: { start?: unknown; end?: unknown }, fallback: { start: number; end: number }) {
+  const start = clampMinutes(raw.start, fallback.start, DAY_MINUTES - 5);
+  const end = clampMinutes(raw.end, fallback.end);
+  return end > start ? { start, end } : { start: fallback.start, end: fallback.end };
+}
+
+// Stored settings come from an older build or a hand-edited backup; fall back field by field
+export function normalizeScheduleSettings(raw: unknown): ScheduleSettings {
+  const value = (raw && typeof raw === "object" ? raw : {}) as Record<string, unknown>;
+  const defaults = DEFAULT_SCHEDULE_SETTINGS;
+  const hours = defaults.hours.map((fallback, day) => {
+    const entry = Array.isArray(value.hours) ? value.hours[day] : null;
+    if (!entry || typeof entry !== "object") return { ...fallback };
+    const range = normalizeRange(entry as Record<string, unknown>, fallback);
+    return { enabled: (entry as Record<string, unknown>).enabled !== false, ...range };
+  });
+  const commitments = (Array.isArray(value.commitments) ? value.commitments : [])
+    .filter((entry): entry is Record<string, unknown> => !!entry && typeof entry === "object")
+    .map((entry, index) => {
+      const weekdays = Array.isArray(entry.weekdays)
+        ? Array.from(new Set(entry.weekdays.filter((day): day is number => Number.isInteger(day) && day >= 0 && day <= 6)))
+        : [];
+      const title = typeof entry.title === "string" ? entry.title.trim() : "";
+      return {
+        id: typeof entry.id === "string" && entry.id ? entry.id : `commitment-${index}`,
+        title: title || "Commitment",
+        weekdays: weekdays.sort((a, b) => a - b),
+        ...normalizeRange(entry, { start: 9 * 60, end: 10 * 60 }),
+      };
+    })
+    .filter((entry) => entry.weekdays.length > 0);
+  const maxBlockMinutes = Math.max(15, clampMinutes(value.maxBlockMinutes, defaults.maxBlockMinutes, 240));
+  return {
+    hours,
+    commitments,
+    maxBlockMinutes,
+    breakMinutes: clampMinutes(value.breakMinutes, defaults.breakMinutes, 60),
+    minBlockMinutes: Math.min(maxBlockMinutes, Math.max(5, clampMinutes(value.minBlockMinutes, defaults.minBlockMinutes, 120))),
+  };
+}
+
+type Slot = { start: number; end: number };
+
+type WorkingDay = {
+  date: string;
+  slots: Slot[];
+  blocks: ScheduleBlock[];
+};
+
+// Working hours minus commitments; today also drops whatever has already passed
+function freeSlots(hours: DayHours, commitments: Commitment[], notBefore: number) {
+  if (!hours.enabled) return [];
+  let slots: Slot[] = [{ start: Math.max(hours.start, notBefore), end: hours.end }];
+  commitments.forEach((commitment) => {
+    slots = slots.flatMap((slot) => {
+      if (commitment.end <= slot.start || commitment.start >= slot.end) return [slot];
+      return [
+        { start: slot.start, end: commitment.start },
+        { start: commitment.end, end: slot.end },
+      ].filter((part) => part.end > part.start);
+    });
+  });
+  return slots.filter((slot) => slot.end > slot.start);
+}
+
+function nextQuarterHour(now: Date) {
+  const minutes = now.getHours() * 60 + now.getMinutes() + (now.getSeconds() || now.getMilliseconds() ? 1 : 0);
+  return Math.ceil(minutes / 15) * 15;
+}
+
+/**
+ * Packs tasks into the user's free time over the next few days. Earlier due dates go first,
+ * then high priority; remaining ties keep the caller's order, so pass tasks already ranked.
+ * Each task gets at most one block a day up to its due date before any day takes a second
+ * one, which spreads long tasks out instead of cramming them the night before.
+ */
+export function buildSchedule(
+  tasks: ScheduleTask[],
+  settings: ScheduleSettings,
+  now = new Date(),
+  horizonDays = SCHEDULE_HORIZON_DAYS
+): SchedulePlan {
+  const days: WorkingDay[] = [];
+  for (let offset = 0; offset < horizonDays; offset += 1) {
+    const date = new Date(now.getFullYear(), now.getMonth(), now.getDate() + offset);
+    const weekday = date.getDay();
+    const commitments = settings.commitments.filter((commitment) => commitment.weekdays.includes(weekday));
+    days.push({
+      date: toISO(date),
+      slots: freeSlots(settings.hours[weekday], commitments, offset === 0 ? nextQuarterHour(now) : 0),
+      blocks: commitments.map((commitment) => ({
+        kind: "commitment",
+        title: commitment.title,
+        start: commitment.start,
+        end: commitment.end,
+      })),
+    });
+  }
+
+  const todayISO = days[0]?.date ?? toISO(now);
+  const queue = tasks
+    .map((task, order) => ({ task, order, remaining: Math.max(0, Math.round(task.minutes)) }))
+    .filter((entry) => entry.remaining > 0)
+    .sort((a, b) => {
+      const aDue = a.task.due_date ?? "9999-12-31";
+      const bDue = b.task.due_date ?? "9999-12-31";
+      if (aDue !== bDue) return aDue < bDue ? -1 : 1;
+      const aPriority = a.task.priority === "high" ? 0 : 1;
+      const bPriority = b.task.priority === "high" ? 0 : 1;
+      return aPriority - bPriority || a.order - b.order;
+    });
+
+  // Place one block in the first slot on this day that fits; returns false when none does
+  const place = (day: WorkingDay, entry: (typeof queue)[number], late: boolean) => {
+    const needed = Math.min(entry.remaining, settings.minBlockMinutes);
+    const slot = day.slots.find((candidate) => candidate.end - candidate.start >= needed);
+    if (!slot) return false;
+    const length = Math.min(entry.remaining, settings.maxBlockMinutes, slot.end - slot.start);
+    day.blocks.push({
+      kind: "task",
+      title: entry.task.title,
+      start: slot.start,
+      end: slot.start + length,
+      taskId: entry.task.id,
+      ...(late ? { late: true } : {}),
+    });
+    slot.start += length + settings.breakMinutes;
+    day.slots = day.slots.filter((candidate) => candidate.end - candidate.start > 0);
+    entry.remaining -= length;
+    return true;
+  };
+
+  queue.forEach((entry) => {
+    const due = entry.task.due_date ?? null;
+    const late = !!due && due < todayISO;
+    const window = days.filter((day) => !due || late || day.date <= due);
+    for (const day of window) {
+      if (entry.remaining <= 0) break;
+      place(day, entry, late);
+    }
+    for (const day of window) {
+      while (entry.remaining > 0 && place(day, entry, late));
+      if (entry.remaining <= 0) break;
+    }
+  });
+
+  const taskBlocks = days.flatMap((day) =>
+    day.blocks
+      .filter((block) => block.kind === "task")
+      .map((block) => ({ block, key: `${day.date} ${String(block.start).padStart(4, "0")}` }))
+  );
+  const byTask = new Map<number, ScheduleBlock[]>();
+  taskBlocks
+    .sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0))
+    .forEach(({ block }) => byTask.set(block.taskId!, [...(byTask.get(block.taskId!) ?? []), block]));
+  byTask.forEach((blocks) => {
+    if (blocks.length < 2) return;
+    blocks.forEach((block, index) => {
+      block.part = index + 1;
+      block.parts = blocks.length;
+    });
+  });
+
+  return {
+    days: days.map((day) => ({
+      date: day.date,
+      blocks: [...day.blocks].sort((a, b) => a.start - b.start),
+      freeMinutes: day.slots.reduce((sum, slot) => sum + (slot.end - slot.start), 0),
+    })),
+    unscheduled: queue
+      .filter((entry) => entry.remaining > 0)
+      .map((entry) => ({ taskId: entry.task.id, title: entry.task.title, minutes: entry.remaining })),
+  };
+}
+
+export function scheduledMinutes(day: ScheduleDay) {
+  return day.blocks.reduce((sum, block) => sum + (block.kind === "task" ? block.end - block.start : 0), 0);
+}
+
+export function formatClock(minutes: number) {
+  const date = new Date(2000, 0, 1, Math.floor(minutes / 60), minutes % 60);
+  return date.toLocaleTimeString([], { hour: "numeric", minute: "2-digit" });
+}
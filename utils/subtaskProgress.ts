@@ -0,0 +1,27 @@
+type SubtaskCounts = {
+  subtask_total?: number | null;
+  subtask_done?: number | null;
+};
+
+export type SubtaskProgress = {
+  total: number;
+  done: number;
+  remaining: number;
+  ratio: number;
+};
+
+// Returns checklist progress for a task row, or null when the task has no subtasks.
+export function getSubtaskProgress(task: SubtaskCounts): SubtaskProgress | null {
+  const total = Math.max(0, Number(task.subtask_total ?? 0));
+  if (!total) return null;
+  const done = Math.min(total, Math.max(0, Number(task.subtask_done ?? 0)));
+  return { total, done, remaining: total - done, ratio: done / total };
+}
+
+// Scales a time estimate by the share of checklist items still open. Tasks without a
+// checklist keep the full estimate; a nearly-finished task never drops below `floor`.
+export function scaleBySubtasksLeft(minutes: number, task: SubtaskCounts, floor = 10) {
+  const progress = getSubtaskProgress(task);
+  if (!progress) return minutes;
+  return Math.max(floor, Math.round(minutes * (progress.remaining / progress.total)));
+}
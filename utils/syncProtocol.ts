@@ -0,0 +1,273 @@
+// Task sync between devices through a small server (scripts/sync-server.ts).
+//
+// Every synced row has a stable uid and a version the server bumps on each accepted change;
+// deletes leave a tombstone row so other devices learn about them. Each field carries its
+// own clock, so edits to different fields of one task both survive. Two devices writing the
+// same field without having seen each other's change is a true conflict: the later write
+// wins (device id breaks ties), and the losing value is reported so the user can review it.
+// A delete always wins over edits it raced with; those edits come back as a conflict too.
+
+export const SYNC_FIELDS = [
+  "title",
+  "subject",
+  "difficulty",
+  "priority",
+  "category",
+  "due_date",
+  "notes",
+  "completed",
+  "estimated_minutes",
+  "reminder_offsets",
+  "assessment_weight",
+  "grade",
+] as const;
+
+export type SyncField = (typeof SYNC_FIELDS)[number];
+export type SyncValue = string | number | null;
+export type SyncFields = Partial<Record<SyncField, SyncValue>>;
+
+// When a field was written (ms) and by which device; compared in that order
+export type FieldClock = { at: number; device: string };
+
+// One local change as pushed to the server
+export type SyncChange = {
+  uid: string;
+  // Row version this device last pulled; 0 for a row the server hasn't seen
+  base_version: number;
+  deleted: boolean;
+  // Only the fields that changed since base_version
+  fields: SyncFields;
+  at: number;
+};
+
+export type SyncRow = {
+  uid: string;
+  version: number;
+  updated_at: number;
+  deleted: boolean;
+  fields: SyncFields;
+  // Version is the row version the field was last written at
+  clocks: Partial<Record<SyncField, FieldClock & { version: number }>>;
+};
+
+export type SyncConflict = {
+  uid: string;
+  // "deleted" when an edit raced a delete; `restore` then holds the task as it was edited
+  field: SyncField | "deleted";
+  title: string | null;
+  kept: SyncValue;
+  discarded: SyncValue;
+  at: number;
+  restore?: SyncFields;
+};
+
+export type SyncAccount = {
+  version: number;
+  rows: Record<string, SyncRow>;
+};
+
+export type PushResult = {
+  accepted: { uid: string; version: number }[];
+  conflicts: SyncConflict[];
+};
+
+export type PullResult = {
+  rows: SyncRow[];
+  cursor: number;
+};
+
+// Last pulled state of a row, kept on the device to work out what changed locally
+export type SyncShadowEntry = {
+  uid: string;
+  task_id: number | null;
+  version: number;
+  fields: SyncFields;
+};
+
+export type LocalSyncTask = {
+  id: number;
+  // Last local write (ms); null for rows from before sync stamped them
+  updated_at: number | null;
+  fields: SyncFields;
+};
+
+export function isSyncField(value: unknown): value is SyncField {
+  return typeof value === "string" && (SYNC_FIELDS as readonly string[]).includes(value);
+}
+
+// The synced columns present on a task row, with anything that isn't text or a number as null
+export function pickSyncFields(row: Partial<Record<SyncField, unknown>>): SyncFields {
+  const fields: SyncFields = {};
+  SYNC_FIELDS.forEach((field) => {
+    if (!(field in row)) return;
+    const value = row[field];
+    fields[field] = typeof value === "string" || typeof value === "number" ? value : null;
+  });
+  return fields;
+}
+
+export function compareClocks(a: FieldClock, b: FieldClock) {
+  if (a.at !== b.at) return a.at - b.at;
+  if (a.device === b.device) return 0;
+  return a.device < b.device ? -1 : 1;
+}
+
+export function emptySyncAccount(): SyncAccount {
+  return { version: 0, rows: {} };
+}
+
+function sameValue(a: SyncValue | undefined, b: SyncValue | undefined) {
+  return (a ?? null) === (b ?? null);
+}
+
+function titleOf(fields: SyncFields) {
+  return typeof fields.title === "string" ? fields.title : null;
+}
+
+// Applies a device's changes to the account in place
+export function applyPush(account: SyncAccount, device: string, changes: SyncChange[]): PushResult {
+  const accepted: PushResult["accepted"] = [];
+  const conflicts: SyncConflict[] = [];
+
+  changes.forEach((change) => {
+    const existing = account.rows[change.uid];
+    const row: SyncRow = existing ?? {
+      uid: change.uid,
+      version: 0,
+      updated_at: 0,
+      deleted: false,
+      fields: {},
+      clocks: {},
+    };
+    const incoming: FieldClock = { at: change.at, device };
+    const written: SyncField[] = [];
+    let deleteNow = false;
+
+    if (row.deleted) {
+      // Tombstones are final; an edit made without seeing the delete is handed back
+      if (!change.deleted && Object.keys(change.fields).length) {
+        const restore = { ...row.fields, ...change.fields };
+        conflicts.push({
+          uid: row.uid,
+          field: "deleted",
+          title: titleOf(restore),
+          kept: null,
+          discarded: null,
+          at: change.at,
+          restore,
+        });
+      }
+      accepted.push({ uid: row.uid, version: row.version });
+      return;
+    }
+
+    // A device's own earlier pushes never count against it, even before it has pulled them back
+    const isConcurrent = (field: SyncField) => {
+      const clock = row.clocks[field];
+      return !!clock && clock.version > change.base_version && clock.device !== device;
+    };
+
+    if (change.deleted) {
+      if (SYNC_FIELDS.some(isConcurrent)) {
+        conflicts.push({
+          uid: row.uid,
+          field: "deleted",
+          title: titleOf(row.fields),
+          kept: null,
+          discarded: null,
+          at: change.at,
+          restore: { ...row.fields },
+        });
+      }
+      deleteNow = true;
+    } else {
+      SYNC_FIELDS.forEach((field) => {
+        if (!(field in change.fields)) return;
+        const value = change.fields[field] ?? null;
+        const current = row.clocks[field];
+        if (!current || !isConcurrent(field)) {
+          written.push(field);
+          return;
+        }
+        if (sameValue(row.fields[field], value)) return;
+        const incomingWins = compareClocks(incoming, current) > 0;
+        conflicts.push({
+          uid: row.uid,
+          field,
+          title: titleOf(row.fields),
+          kept: incomingWins ? value : row.fields[field] ?? null,
+          discarded: incomingWins ? row.fields[field] ?? null : value,
+          at: change.at,
+        });
+        if (incomingWins) written.push(field);
+      });
+    }
+
+    if (!deleteNow && !written.length) {
+      if (existing) accepted.push({ uid: row.uid, version: row.version });
+      return;
+    }
+
+    account.version += 1;
+    row.version = account.version;
+    row.updated_at = Math.max(row.updated_at, change.at);
+    if (deleteNow) {
+      row.deleted = true;
+    }
+    written.forEach((field) => {
+      row.fields[field] = change.fields[field] ?? null;
+      row.clocks[field] = { ...incoming, version: row.version };
+    });
+    account.rows[row.uid] = row;
+    accepted.push({ uid: row.uid, version: row.version });
+  });
+
+  return { accepted, conflicts };
+}
+
+export function pullSince(account: SyncAccount, since: number): PullResult {
+  const rows = Object.values(account.rows)
+    .filter((row) => row.version > since)
+    .sort((a, b) => a.version - b.version);
+  return { rows, cursor: account.version };
+}
+
+// Diffs local tasks against the shadow from the last pull. Tasks without a shadow entry are
+// new and get a uid; shadow entries whose task is gone become tombstones.
+export function collectLocalChanges(
+  tasks: LocalSyncTask[],
+  shadow: SyncShadowEntry[],
+  now: number,
+  newUid: () => string
+) {
+  const byTask = new Map(shadow.filter((entry) => entry.task_id !== null).map((entry) => [entry.task_id, entry]));
+  const changes: SyncChange[] = [];
+  const created: { uid: string; task_id: number }[] = [];
+
+  tasks.forEach((task) => {
+    const entry = byTask.get(task.id);
+    byTask.delete(task.id);
+    const at = task.updated_at ?? now;
+    if (!entry) {
+      const uid = newUid();
+      created.push({ uid, task_id: task.id });
+      changes.push({ uid, base_version: 0, deleted: false, fields: { ...task.fields }, at });
+      return;
+    }
+    const fields: SyncFields = {};
+    SYNC_FIELDS.forEach((field) => {
+      if (field in task.fields && !sameValue(task.fields[field], entry.fields[field])) {
+        fields[field] = task.fields[field] ?? null;
+      }
+    });
+    if (Object.keys(fields).length) {
+      changes.push({ uid: entry.uid, base_version: entry.version, deleted: false, fields, at });
+    }
+  });
+
+  byTask.forEach((entry) => {
+    changes.push({ uid: entry.uid, base_version: entry.version, deleted: true, fields: {}, at: now });
+  });
+
+  return { changes, created };
+}
@@ -0,0 +1,106 @@
+// Prerequisites between tasks: a task waits on others that have to be done first. Rows carry
+// their prerequisites as a comma-separated id list (prerequisite_ids) from the task queries.
+
+export type DependencyTask = {
+  id: number;
+  completed?: number | boolean | null;
+  prerequisite_ids?: string | null;
+};
+
+export type DependencyEdge = { task_id: number; prerequisite_id: number };
+
+export function parsePrerequisiteIds(value: string | null | undefined): number[] {
+  if (!value) return [];
+  const ids = value
+    .split(",")
+    .map((part) => Number(part.trim()))
+    .filter((id) => Number.isInteger(id) && id > 0);
+  return [...new Set(ids)];
+}
+
+// Prerequisites still open. One that isn't in the list (trashed, or another profile's) no
+// longer holds the task up.
+export function openPrerequisites(task: DependencyTask, byId: Map<number, DependencyTask>) {
+  return parsePrerequisiteIds(task.prerequisite_ids).filter((id) => {
+    const prerequisite = byId.get(id);
+    return !!prerequisite && !prerequisite.completed;
+  });
+}
+
+// Open tasks that are waiting on at least one open prerequisite
+export function blockedTaskIds(tasks: DependencyTask[]) {
+  const byId = new Map(tasks.map((task) => [task.id, task]));
+  const blocked = new Set<number>();
+  tasks.forEach((task) => {
+    if (!task.completed && openPrerequisites(task, byId).length) blocked.add(task.id);
+  });
+  return blocked;
+}
+
+// The loop that giving `taskId` these prerequisites would close, as ids from the task back
+// to itself (e.g. [report, lab, report]), or null when the graph stays acyclic.
+export function findDependencyCycle(edges: DependencyEdge[], taskId: number, prerequisiteIds: number[]) {
+  const graph = new Map<number, number[]>();
+  edges.forEach((edge) => {
+    if (edge.task_id === taskId) return;
+    graph.set(edge.task_id, [...(graph.get(edge.task_id) ?? []), edge.prerequisite_id]);
+  });
+  graph.set(taskId, prerequisiteIds);
+
+  const visited = new Set<number>();
+  const walk = (id: number, path: number[]): number[] | null => {
+    if (id === taskId) return [...path, id];
+    if (visited.has(id)) return null;
+    visited.add(id);
+    for (const next of graph.get(id) ?? []) {
+      const found = walk(next, [...path, id]);
+      if (found) return found;
+    }
+    return null;
+  };
+
+  for (const first of prerequisiteIds) {
+    const found = walk(first, [taskId]);
+    if (found) return found;
+  }
+  return null;
+}
+
+// The candidate edges that can join `edges` in order without repeating one or making a loop
+export function addableEdges(edges: DependencyEdge[], candidates: DependencyEdge[]) {
+  const graph = [...edges];
+  const accepted: DependencyEdge[] = [];
+  candidates.forEach((edge) => {
+    const current = graph.filter((entry) => entry.task_id === edge.task_id).map((entry) => entry.prerequisite_id);
+    if (current.includes(edge.prerequisite_id)) return;
+    if (findDependencyCycle(graph, edge.task_id, [...current, edge.prerequisite_id])) return;
+    graph.push(edge);
+    accepted.push(edge);
+  });
+  return accepted;
+}
+
+export function describeDependencyCycle(titles: string[]) {
+  return `That would make a loop: ${titles.join(" → ")}. Remove one of those prerequisites first.`;
+}
+
+// Keeps the given order (best first) except that no task comes before a prerequisite that is
+// also in the list. Tasks sharing an id (projected repeats) count as placed once any one is.
+export function orderByPrerequisites<T extends DependencyTask>(ranked: T[]) {
+  const present = new Set(ranked.map((task) => task.id));
+  const placed = new Set<number>();
+  const remaining = [...ranked];
+  const ordered: T[] = [];
+
+  const ready = (task: T) =>
+    parsePrerequisiteIds(task.prerequisite_ids).every((id) => id === task.id || !present.has(id) || placed.has(id));
+
+  while (remaining.length) {
+    // A stored loop shouldn't happen, but if it does fall back to the ranked order
+    const index = Math.max(0, remaining.findIndex(ready));
+    const [next] = remaining.splice(index, 1);
+    ordered.push(next);
+    placed.add(next.id);
+  }
+  return ordered;
+}
@@ -0,0 +1,139 @@
+export const REMINDER_OFFSETS = ["week_before", "two_days_before", "day_before", "morning_of"] as const;
+
+export type ReminderOffset = (typeof REMINDER_OFFSETS)[number];
+
+export const REMINDER_OFFSET_LABELS: Record<ReminderOffset, string> = {
+  week_before: "1 week before",
+  two_days_before: "2 days before",
+  day_before: "Day before",
+  morning_of: "Morning of",
+};
+
+const OFFSET_DAYS: Record<ReminderOffset, number> = {
+  week_before: 7,
+  two_days_before: 2,
+  day_before: 1,
+  morning_of: 0,
+};
+
+export const REMINDER_CATEGORIES = ["coursework", "revision", "project", "personal", "none"] as const;
+
+export type ReminderCategory = (typeof REMINDER_CATEGORIES)[number];
+
+// Offsets used by tasks that haven't picked their own, per category ("none" is uncategorized)
+export type ReminderDefaults = Record<ReminderCategory, ReminderOffset[]>;
+
+export const DEFAULT_REMINDER_DEFAULTS: ReminderDefaults = {
+  coursework: ["day_before", "morning_of"],
+  revision: ["two_days_before", "morning_of"],
+  project: ["week_before", "day_before"],
+  personal: ["morning_of"],
+  none: ["day_before", "morning_of"],
+};
+
+export type ReminderTask = {
+  id: number;
+  title: string;
+  subject?: string | null;
+  category?: "coursework" | "revision" | "project" | "personal" | null;
+  due_date?: string | null;
+  completed?: number | boolean | null;
+  // Comma-separated offsets; null follows the category default, "" turns reminders off
+  reminder_offsets?: string | null;
+};
+
+export type PlannedReminder = {
+  offset: ReminderOffset;
+  // Days from the reminder to the due date
+  daysLeft: number;
+  fireAt: Date;
+  title: string;
+  body: string;
+};
+
+function isOffset(value: string): value is ReminderOffset {
+  return (REMINDER_OFFSETS as readonly string[]).includes(value);
+}
+
+// Kept in REMINDER_OFFSETS order so the stored text is stable
+function sortOffsets(offsets: ReminderOffset[]) {
+  return REMINDER_OFFSETS.filter((offset) => offsets.includes(offset));
+}
+
+export function parseReminderOffsets(text: string | null | undefined): ReminderOffset[] | null {
+  if (text === null || text === undefined) return null;
+  return sortOffsets(
+    text
+      .split(",")
+      .map((part) => part.trim())
+      .filter(isOffset)
+  );
+}
+
+export function serializeReminderOffsets(offsets: ReminderOffset[] | null) {
+  return offsets === null ? null : sortOffsets(offsets).join(",");
+}
+
+export function normalizeReminderDefaults(raw: unknown): ReminderDefaults {
+  const value = (raw && typeof raw === "object" ? raw : {}) as Record<string, unknown>;
+  const defaults = { ...DEFAULT_REMINDER_DEFAULTS };
+  REMINDER_CATEGORIES.forEach((category) => {
+    const entry = value[category];
+    if (Array.isArray(entry)) {
+      defaults[category] = sortOffsets(entry.filter((item): item is ReminderOffset => typeof item === "string" && isOffset(item)));
+    }
+  });
+  return defaults;
+}
+
+export function resolveReminderOffsets(task: ReminderTask, defaults: ReminderDefaults) {
+  return parseReminderOffsets(task.reminder_offsets) ?? defaults[task.category ?? "none"];
+}
+
+function describeDue(daysLeft: number) {
+  if (daysLeft === 0) return "is due today";
+  if (daysLeft === 1) return "is due tomorrow";
+  if (daysLeft === 7) return "is due in a week";
+  return `is due in ${daysLeft} days`;
+}
+
+// Reminders still ahead of `now`, each at the user's reminder time on its day
+export function planTaskReminders(
+  task: ReminderTask,
+  offsets: ReminderOffset[],
+  time: { hour: number; minute: number },
+  now = new Date()
+): PlannedReminder[] {
+  if (task.completed || !task.due_date) return [];
+  const [year, month, day] = task.due_date.split("-").map((part) => Number.parseInt(part, 10));
+  if (!year || !month || !day) return [];
+
+  return sortOffsets(offsets)
+    .map((offset) => {
+      const daysLeft = OFFSET_DAYS[offset];
+      return {
+        offset,
+        daysLeft,
+        fireAt: new Date(year, month - 1, day - daysLeft, time.hour, time.minute),
+        title: task.subject?.trim() || "Deadline reminder",
+        body: `${task.title} ${describeDue(daysLeft)}.`,
+      };
+    })
+    .filter((reminder) => reminder.fireAt.getTime() > now.getTime());
+}
+
+function toISO(date: Date) {
+  const y = date.getFullYear();
+  const m = String(date.getMonth() + 1).padStart(2, "0");
+  const d = String(date.getDate()).padStart(2, "0");
+  return `${y}-${m}-${d}`;
+}
+
+// New due date for "Snooze 1 day": a day past the later of the due date and today,
+// so snoozing something already overdue lands on tomorrow rather than yesterday
+export function snoozeDueDate(dueDate: string | null | undefined, now = new Date()) {
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const due = dueDate ? new Date(`${dueDate}T00:00:00`) : null;
+  const base = due && !Number.isNaN(due.getTime()) && due > today ? due : today;
+  return toISO(new Date(base.getFullYear(), base.getMonth(), base.getDate() + 1));
+}
@@ -0,0 +1,75 @@
+// Free-form tags shared by any number of tasks. Names are stored normalised ("group-project"),
+// so "#Group Project" typed anywhere finds the same tag. Rows carry their tags as a
+// comma-separated id list (tag_ids) from the task queries.
+
+export type TaskTag = { id: number; name: string; color: string };
+
+export const TAG_COLORS = ["#0A84FF", "#34C759", "#FF9F0A", "#FF453A", "#BF5AF2", "#64D2FF", "#FF375F", "#8E8E93"];
+
+export const TAG_NAME_LIMIT = 32;
+
+export function normalizeTagName(raw: string) {
+  return raw
+    .trim()
+    .replace(/^#+/, "")
+    .toLowerCase()
+    .replace(/[\s_]+/g, "-")
+    .replace(/[^\p{L}\p{N}-]/gu, "")
+    .replace(/-{2,}/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, TAG_NAME_LIMIT);
+}
+
+// Normalised, de-duplicated, in the order given; empty names are dropped
+export function normalizeTagNames(names: string[]) {
+  return [...new Set(names.map(normalizeTagName).filter(Boolean))];
+}
+
+export function parseTagIds(value: string | null | undefined): number[] {
+  if (!value) return [];
+  const ids = value
+    .split(",")
+    .map((part) => Number(part.trim()))
+    .filter((id) => Number.isInteger(id) && id > 0);
+  return [...new Set(ids)];
+}
+
+export function isTagColor(value: unknown): value is string {
+  return typeof value === "string" && TAG_COLORS.includes(value);
+}
+
+// The palette colour used by the fewest tags, earliest first on ties
+export function nextTagColor(tags: Pick<TaskTag, "color">[]) {
+  const counts = new Map(TAG_COLORS.map((color) => [color, 0]));
+  tags.forEach((tag) => {
+    if (counts.has(tag.color)) counts.set(tag.color, (counts.get(tag.color) ?? 0) + 1);
+  });
+  return TAG_COLORS.reduce((best, color) => ((counts.get(color) ?? 0) < (counts.get(best) ?? 0) ? color : best));
+}
+
+// Autocomplete: tags starting with the query first, then ones containing it
+export function suggestTags(tags: TaskTag[], query: string, exclude: string[] = [], limit = 5) {
+  const needle = normalizeTagName(query);
+  const skip = new Set(exclude.map(normalizeTagName));
+  const candidates = tags.filter((tag) => !skip.has(tag.name) && (!needle || tag.name.includes(needle)));
+  const rank = (tag: TaskTag) => (needle && tag.name.startsWith(needle) ? 0 : 1);
+  return candidates.sort((a, b) => rank(a) - rank(b) || a.name.localeCompare(b.name)).slice(0, limit);
+}
+
+// "#group-project" style mentions in a chat message, normalised
+export function extractTagMentions(text: string) {
+  const mentions = [...text.matchAll(/(?:^|[^\p{L}\p{N}&])#([\p{L}\p{N}_-]+)/gu)].map((match) => match[1]);
+  return normalizeTagNames(mentions);
+}
+
+export function taskHasTag(task: { tag_ids?: string | null }, tagId: number) {
+  return parseTagIds(task.tag_ids).includes(tagId);
+}
+
+// Tags of a task in name order, skipping ids that no longer resolve
+export function tagsForTask(task: { tag_ids?: string | null }, byId: Map<number, TaskTag>) {
+  return parseTagIds(task.tag_ids)
+    .map((id) => byId.get(id))
+    .filter((tag): tag is TaskTag => !!tag)
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
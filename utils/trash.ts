@@ -0,0 +1,24 @@
+// Deleted tasks sit in the Trash for a while before they are purged for good
+export const TRASH_RETENTION_OPTIONS = [7, 30, 90] as const;
+
+export type TrashRetentionDays = (typeof TRASH_RETENTION_OPTIONS)[number];
+
+export const DEFAULT_TRASH_RETENTION_DAYS: TrashRetentionDays = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function isTrashRetentionDays(value: unknown): value is TrashRetentionDays {
+  return typeof value === "number" && (TRASH_RETENTION_OPTIONS as readonly number[]).includes(value);
+}
+
+// Tasks deleted before this time (ISO, comparable with deleted_at) are due to be purged
+export function trashPurgeCutoff(days: number, now: number) {
+  return new Date(now - days * DAY_MS).toISOString();
+}
+
+// Whole days until a trashed task is purged; 0 once it is due
+export function daysLeftInTrash(deletedAt: string, days: number, now: number) {
+  const deleted = Date.parse(deletedAt);
+  if (!Number.isFinite(deleted)) return 0;
+  return Math.max(0, Math.ceil((deleted + days * DAY_MS - now) / DAY_MS));
+}
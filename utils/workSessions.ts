@@ -0,0 +1,53 @@
+export const WORK_SESSION_OUTCOMES = ["completed", "skipped", "snoozed", "abandoned"] as const;
+
+export type WorkSessionOutcome = (typeof WORK_SESSION_OUTCOMES)[number];
+
+export type WorkSessionDraft = {
+  task_id: number;
+  started_at: string;
+  ended_at: string;
+  planned_minutes: number;
+  actual_seconds: number;
+  outcome: WorkSessionOutcome;
+};
+
+// A reset or task switch this early is a false start, not time worth recording
+export const MIN_ABANDONED_SECONDS = 60;
+
+// Shapes a finished focus timer into a row, or null when there is nothing to record
+export function buildWorkSession(input: {
+  taskId: number | null;
+  startedAt: string | null;
+  plannedMinutes: number;
+  actualSeconds: number;
+  outcome: WorkSessionOutcome;
+  endedAt?: Date;
+}): WorkSessionDraft | null {
+  if (input.taskId === null || !input.startedAt) return null;
+  const actual = Math.max(0, Math.round(input.actualSeconds));
+  if (input.outcome === "abandoned" && actual < MIN_ABANDONED_SECONDS) return null;
+  return {
+    task_id: input.taskId,
+    started_at: input.startedAt,
+    ended_at: (input.endedAt ?? new Date()).toISOString(),
+    planned_minutes: Math.max(0, Math.round(input.plannedMinutes)),
+    actual_seconds: actual,
+    outcome: input.outcome,
+  };
+}
+
+// Weeks run Monday to Sunday
+export function startOfWeek(date = new Date()) {
+  const start = new Date(date);
+  start.setHours(0, 0, 0, 0);
+  start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  return start;
+}
+
+export function formatDuration(totalSeconds: number) {
+  const minutes = Math.floor(Math.max(0, totalSeconds) / 60);
+  if (minutes < 60) return totalSeconds > 0 && minutes === 0 ? "<1m" : `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest ? `${hours}h ${String(rest).padStart(2, "0")}m` : `${hours}h`;
+}